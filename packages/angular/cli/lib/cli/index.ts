@@ -14,6 +14,15 @@ import { colors, removeColor } from '../../src/utilities/color';
 import { ngDebug } from '../../src/utilities/environment-options';
 import { writeErrorToLogFile } from '../../src/utilities/log-file';
 
+export {
+  CommandContext,
+  CommandModule,
+  CommandModuleError,
+  CommandModuleImplementation,
+  CommandScope,
+  Options,
+  OtherOptions,
+} from '../../src/command-builder/command-module';
 export { VERSION } from '../../src/utilities/version';
 
 const MIN_NODEJS_VERSION = [18, 13] as const;
@@ -6,7 +6,12 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-import { Architect, Target } from '@angular-devkit/architect';
+import {
+  Architect,
+  BuilderProgressState,
+  Target,
+  targetStringFromTarget,
+} from '@angular-devkit/architect';
 import {
   NodeModulesBuilderInfo,
   WorkspaceNodeModulesArchitectHost,
@@ -14,9 +19,16 @@ import {
 import { json } from '@angular-devkit/core';
 import { spawnSync } from 'child_process';
 import { existsSync } from 'fs';
-import { resolve } from 'path';
+import { join, resolve } from 'path';
+import { Argv } from 'yargs';
 import { isPackageNameSafeForAnalytics } from '../analytics/analytics';
 import { EventCustomDimension, EventCustomMetric } from '../analytics/analytics-parameters';
+import {
+  BUILD_RESULTS_DIRECTORY,
+  getCacheConfig,
+  isCacheEffectivelyEnabled,
+} from '../commands/cache/utilities';
+import { colors } from '../utilities/color';
 import { assertIsError } from '../utilities/error';
 import { askConfirmation, askQuestion } from '../utilities/prompt';
 import { isTTY } from '../utilities/tty';
@@ -41,7 +53,21 @@ export abstract class ArchitectBaseCommandModule<T extends object>
   override scope = CommandScope.In;
   protected readonly missingTargetChoices: MissingTargetChoice[] | undefined;
 
-  protected async runSingleTarget(target: Target, options: OtherOptions): Promise<number> {
+  /** Adds the options that control how the targets declared with "dependsOn" are run. */
+  protected addTargetDependencyOptions<U>(localYargs: Argv<U>): Argv<U & { concurrency?: number }> {
+    return localYargs.option('concurrency', {
+      describe:
+        'The maximum number of targets declared with "dependsOn" that run at the same time. ' +
+        'Defaults to the number of CPUs.',
+      type: 'number',
+    });
+  }
+
+  protected async runSingleTarget(
+    target: Target,
+    options: OtherOptions,
+    concurrency?: number,
+  ): Promise<number> {
     const architectHost = await this.getArchitectHost();
 
     let builderName: string;
@@ -54,8 +80,32 @@ export abstract class ArchitectBaseCommandModule<T extends object>
     }
 
     const { logger } = this.context;
+    const cacheConfig = getCacheConfig(this.context.workspace);
+    const targetName = targetStringFromTarget(target);
+    const startedDependencies = new Set<string>();
     const run = await this.getArchitect().scheduleTarget(target, options as json.JsonObject, {
       logger,
+      concurrency,
+      onProgress: (progressTarget, { state }) => {
+        const dependencyName = targetStringFromTarget(progressTarget);
+        if (dependencyName === targetName) {
+          return;
+        }
+
+        if (state === BuilderProgressState.Running && !startedDependencies.has(dependencyName)) {
+          startedDependencies.add(dependencyName);
+          logger.info(`Running "${dependencyName}", a dependency of "${targetName}".`);
+        } else if (
+          state === BuilderProgressState.Stopped &&
+          startedDependencies.has(dependencyName)
+        ) {
+          logger.info(`Completed "${dependencyName}".`);
+        }
+      },
+      cachePath:
+        cacheConfig.buildResults && isCacheEffectivelyEnabled(cacheConfig)
+          ? join(cacheConfig.path, BUILD_RESULTS_DIRECTORY)
+          : undefined,
     });
 
     const analytics = isPackageNameSafeForAnalytics(builderName)
@@ -224,6 +274,94 @@ export abstract class ArchitectBaseCommandModule<T extends object>
     return this.commandName;
   }
 
+  /**
+   * Whether the user can be asked to pick a project, target or configuration interactively.
+   * Prompts are never shown when not using a TTY, nor when displaying help or auto completions.
+   */
+  protected canPickTargetInteractively(): boolean {
+    const { getYargsCompletions, help, jsonHelp } = this.context.args.options;
+
+    return isTTY() && !getYargsCompletions && !help && !jsonHelp && !!this.context.workspace;
+  }
+
+  /**
+   * Asks the user to pick one of the given projects. A lone project is picked without prompting.
+   * @param allProjectsChoice Whether to offer running the target for all projects, in which case
+   * an empty string is returned when selected.
+   */
+  protected async pickProject(
+    projectNames: string[],
+    allProjectsChoice = false,
+  ): Promise<string | null> {
+    if (projectNames.length === 1) {
+      return projectNames[0];
+    }
+
+    const choices = projectNames.sort().map((name) => ({ name, value: name }));
+    if (allProjectsChoice) {
+      choices.unshift({ name: 'All projects', value: '' });
+    }
+
+    return askQuestion('Which project would you like to use?', choices, 0, null);
+  }
+
+  /**
+   * Asks the user to pick one of the targets of a project. A lone target is picked without
+   * prompting.
+   */
+  protected async pickTarget(project: string): Promise<string | null> {
+    const targets = this.context.workspace?.projects.get(project)?.targets;
+    if (!targets?.size) {
+      throw new CommandModuleError(`Project "${project}" does not have any targets.`);
+    }
+
+    const choices = [...targets]
+      .map(([name, { builder }]) => ({ name: `${name} (${builder})`, value: name }))
+      .sort((a, b) => a.value.localeCompare(b.value));
+    if (choices.length === 1) {
+      return choices[0].value;
+    }
+
+    return askQuestion(`Which target of "${project}" would you like to run?`, choices, 0, null);
+  }
+
+  /**
+   * Asks the user to pick one of the configurations of a target.
+   * @returns the selected configuration, an empty string to use the default options or `undefined`
+   * when the target does not define configurations.
+   */
+  protected async pickConfiguration(project: string, target: string): Promise<string | undefined> {
+    const targetDefinition = this.context.workspace?.projects.get(project)?.targets.get(target);
+    const configurations = Object.keys(targetDefinition?.configurations ?? {}).sort();
+    if (!configurations.length) {
+      return undefined;
+    }
+
+    const defaultConfiguration = targetDefinition?.defaultConfiguration;
+    const answer = await askQuestion(
+      'Which configuration would you like to use?',
+      [
+        {
+          name: defaultConfiguration ? `Default (${defaultConfiguration})` : 'Default options',
+          value: '',
+        },
+        ...configurations.map((name) => ({ name, value: name })),
+      ],
+      0,
+      null,
+    );
+
+    return answer ?? undefined;
+  }
+
+  /** Displays the command which runs the picked target without prompting. */
+  protected logEquivalentCommand(command: string): void {
+    this.context.logger.info(
+      `\nTo skip the prompts next time, run the following equivalent command:\n\n` +
+        `    ${colors.yellow(command)}\n`,
+    );
+  }
+
   protected async onMissingTarget(defaultMessage: string): Promise<1> {
     const { logger } = this.context;
     const choices = this.missingTargetChoices;
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { logging } from '@angular-devkit/core';
+import inquirer, { ListQuestion } from 'inquirer';
+import { Argv } from 'yargs';
+import { AngularWorkspace } from '../utilities/config';
+import { PackageManagerUtils } from '../utilities/package-manager';
+import { ArchitectBaseCommandModule } from './architect-base-command-module';
+import { CommandContext, CommandModuleError } from './command-module';
+
+class TestCommandModule extends ArchitectBaseCommandModule<{}> {
+  command = 'test';
+  describe = 'Test command.';
+  longDescriptionPath = undefined;
+
+  builder(argv: Argv): Argv<{}> {
+    return argv;
+  }
+
+  run(): number {
+    return 0;
+  }
+
+  override canPickTargetInteractively(): boolean {
+    return super.canPickTargetInteractively();
+  }
+
+  override pickProject(projectNames: string[], allProjectsChoice?: boolean) {
+    return super.pickProject(projectNames, allProjectsChoice);
+  }
+
+  override pickTarget(project: string) {
+    return super.pickTarget(project);
+  }
+
+  override pickConfiguration(project: string, target: string) {
+    return super.pickConfiguration(project, target);
+  }
+}
+
+describe('ArchitectBaseCommandModule', () => {
+  let forceTTY: string | undefined;
+  let command: TestCommandModule;
+  let promptSpy: jasmine.Spy;
+  let answers: string[];
+
+  function createWorkspace(
+    projects: Record<
+      string,
+      Record<string, { configurations?: Record<string, object>; defaultConfiguration?: string }>
+    >,
+  ): AngularWorkspace {
+    return {
+      projects: new Map(
+        Object.entries(projects).map(([name, targets]) => [
+          name,
+          {
+            targets: new Map(
+              Object.entries(targets).map(([target, definition]) => [
+                target,
+                { builder: `@test/builders:${target}`, ...definition },
+              ]),
+            ),
+          },
+        ]),
+      ),
+    } as unknown as AngularWorkspace;
+  }
+
+  function createCommand(
+    workspace: AngularWorkspace | undefined,
+    options: Partial<CommandContext['args']['options']> = {},
+  ): TestCommandModule {
+    return new TestCommandModule({
+      currentDirectory: '/',
+      root: '/',
+      workspace,
+      globalConfiguration: {} as AngularWorkspace,
+      logger: new logging.Logger('test'),
+      packageManager: {} as PackageManagerUtils,
+      args: {
+        positional: ['test'],
+        options: { help: false, jsonHelp: false, getYargsCompletions: false, ...options },
+      },
+    });
+  }
+
+  function lastQuestion(): ListQuestion {
+    return promptSpy.calls.mostRecent().args[0][0];
+  }
+
+  beforeEach(() => {
+    forceTTY = process.env['NG_FORCE_TTY'];
+    process.env['NG_FORCE_TTY'] = 'true';
+
+    answers = [];
+    promptSpy = spyOn(inquirer, 'prompt').and.callFake((() =>
+      Promise.resolve({ answer: answers.shift() })) as unknown as typeof inquirer.prompt);
+
+    command = createCommand(
+      createWorkspace({
+        app: {
+          build: {
+            configurations: { production: {}, development: {} },
+            defaultConfiguration: 'production',
+          },
+          serve: {},
+        },
+        lib: { test: {} },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    if (forceTTY === undefined) {
+      delete process.env['NG_FORCE_TTY'];
+    } else {
+      process.env['NG_FORCE_TTY'] = forceTTY;
+    }
+  });
+
+  describe('canPickTargetInteractively', () => {
+    it('should be true when using a TTY inside a workspace', () => {
+      expect(command.canPickTargetInteractively()).toBeTrue();
+    });
+
+    it('should be false when not using a TTY', () => {
+      process.env['NG_FORCE_TTY'] = 'false';
+
+      expect(command.canPickTargetInteractively()).toBeFalse();
+    });
+
+    it('should be false when displaying help or auto completions', () => {
+      const workspace = createWorkspace({ app: { build: {} } });
+
+      expect(createCommand(workspace, { help: true }).canPickTargetInteractively()).toBeFalse();
+      expect(createCommand(workspace, { jsonHelp: true }).canPickTargetInteractively()).toBeFalse();
+      expect(
+        createCommand(workspace, { getYargsCompletions: true }).canPickTargetInteractively(),
+      ).toBeFalse();
+    });
+
+    it('should be false outside of a workspace', () => {
+      expect(createCommand(undefined).canPickTargetInteractively()).toBeFalse();
+    });
+  });
+
+  describe('pickProject', () => {
+    it('should prompt for one of the projects', async () => {
+      answers.push('lib');
+
+      await expectAsync(command.pickProject(['lib', 'app'])).toBeResolvedTo('lib');
+      expect(lastQuestion().choices).toEqual([
+        { name: 'app', value: 'app' },
+        { name: 'lib', value: 'lib' },
+      ]);
+    });
+
+    it('should offer to pick all projects', async () => {
+      answers.push('');
+
+      await expectAsync(command.pickProject(['lib', 'app'], true)).toBeResolvedTo('');
+      expect(lastQuestion().choices).toEqual([
+        { name: 'All projects', value: '' },
+        { name: 'app', value: 'app' },
+        { name: 'lib', value: 'lib' },
+      ]);
+    });
+
+    it('should pick a lone project without prompting', async () => {
+      await expectAsync(command.pickProject(['app'], true)).toBeResolvedTo('app');
+      expect(promptSpy).not.toHaveBeenCalled();
+    });
+
+    it('should not prompt when not using a TTY', async () => {
+      process.env['NG_FORCE_TTY'] = 'false';
+
+      await expectAsync(command.pickProject(['lib', 'app'])).toBeResolvedTo(null);
+      expect(promptSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pickTarget', () => {
+    it('should prompt for one of the targets of the project', async () => {
+      answers.push('serve');
+
+      await expectAsync(command.pickTarget('app')).toBeResolvedTo('serve');
+      expect(lastQuestion().choices).toEqual([
+        { name: 'build (@test/builders:build)', value: 'build' },
+        { name: 'serve (@test/builders:serve)', value: 'serve' },
+      ]);
+    });
+
+    it('should pick a lone target without prompting', async () => {
+      await expectAsync(command.pickTarget('lib')).toBeResolvedTo('test');
+      expect(promptSpy).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the project does not have any targets', async () => {
+      await expectAsync(command.pickTarget('missing')).toBeRejectedWithError(
+        CommandModuleError,
+        'Project "missing" does not have any targets.',
+      );
+    });
+
+    it('should not prompt when not using a TTY', async () => {
+      process.env['NG_FORCE_TTY'] = 'false';
+
+      await expectAsync(command.pickTarget('app')).toBeResolvedTo(null);
+      expect(promptSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pickConfiguration', () => {
+    it('should prompt for the default options or one of the configurations', async () => {
+      answers.push('development');
+
+      await expectAsync(command.pickConfiguration('app', 'build')).toBeResolvedTo('development');
+      expect(lastQuestion().choices).toEqual([
+        { name: 'Default (production)', value: '' },
+        { name: 'development', value: 'development' },
+        { name: 'production', value: 'production' },
+      ]);
+    });
+
+    it('should not prompt when the target does not have configurations', async () => {
+      await expectAsync(command.pickConfiguration('app', 'serve')).toBeResolvedTo(undefined);
+      expect(promptSpy).not.toHaveBeenCalled();
+    });
+
+    it('should not prompt when not using a TTY', async () => {
+      process.env['NG_FORCE_TTY'] = 'false';
+
+      await expectAsync(command.pickConfiguration('app', 'build')).toBeResolvedTo(undefined);
+      expect(promptSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -7,7 +7,9 @@
  */
 
 import { Argv } from 'yargs';
+import { getAffectedProjects } from '../utilities/affected-projects';
 import { getProjectByCwd } from '../utilities/config';
+import { assertIsError } from '../utilities/error';
 import { memoize } from '../utilities/memoize';
 import { ArchitectBaseCommandModule } from './architect-base-command-module';
 import {
@@ -16,10 +18,14 @@ import {
   Options,
   OtherOptions,
 } from './command-module';
+import { Option } from './utilities/json-schema';
 
 export interface ArchitectCommandArgs {
   configuration?: string;
   project?: string;
+  affected?: boolean;
+  base?: string;
+  concurrency?: number;
 }
 
 export abstract class ArchitectCommandModule
@@ -28,11 +34,21 @@ export abstract class ArchitectCommandModule
 {
   abstract readonly multiTarget: boolean;
 
+  /** Whether the target can be run for the projects affected by changes with "--affected". */
+  readonly supportsAffected: boolean = false;
+
+  /** The project and configuration picked interactively, when not provided as arguments. */
+  private pickedTarget: { project: string; configuration?: string } | undefined;
+
   async builder(argv: Argv): Promise<Argv<ArchitectCommandArgs>> {
-    const project = this.getArchitectProject();
-    const { jsonHelp, getYargsCompletions, help } = this.context.args.options;
+    await this.pickTargetInteractively();
 
-    const localYargs: Argv<ArchitectCommandArgs> = argv
+    const { jsonHelp, getYargsCompletions, help, affected, base } = this.context.args.options;
+    // The projects are only determined when running the command with "--affected".
+    const runAffected = this.supportsAffected && !!affected;
+    const project = runAffected ? undefined : this.getArchitectProject();
+
+    let localYargs: Argv<ArchitectCommandArgs> = argv
       .positional('project', {
         describe: 'The name of the project to build. Can be an application or a library.',
         type: 'string',
@@ -55,12 +71,49 @@ export abstract class ArchitectCommandModule
             : undefined,
       })
       .strict();
+    localYargs = this.addTargetDependencyOptions(localYargs);
+
+    if (this.supportsAffected) {
+      localYargs = localYargs
+        .option('affected', {
+          describe:
+            'Run the target only for the projects affected by the changes since the Git reference ' +
+            'provided by "--base", including projects that depend on changed projects.',
+          type: 'boolean',
+          default: false,
+        })
+        .option('base', {
+          describe: 'The Git reference to compare against when using "--affected".',
+          type: 'string',
+          default: 'HEAD',
+        });
+    }
+
+    const target = this.getArchitectTarget();
+
+    if (runAffected) {
+      // Help and completions do not depend on Git, so they list the options of all projects.
+      const projectNames =
+        getYargsCompletions || help
+          ? this.getAllProjectNamesWithTarget(target)
+          : await this.getAffectedProjectNames(target, typeof base === 'string' ? base : 'HEAD');
+
+      const schemaOptions = new Map<string, Option>();
+      for (const project of projectNames) {
+        for (const option of await this.getArchitectTargetOptions({ project, target })) {
+          if (!schemaOptions.has(option.name)) {
+            schemaOptions.set(option.name, option);
+          }
+        }
+      }
+
+      return this.addSchemaOptionsToCommand(localYargs, [...schemaOptions.values()]);
+    }
 
     if (!project) {
       return localYargs;
     }
 
-    const target = this.getArchitectTarget();
     const schemaOptions = await this.getArchitectTargetOptions({
       project,
       target,
@@ -72,7 +125,28 @@ export abstract class ArchitectCommandModule
   async run(options: Options<ArchitectCommandArgs> & OtherOptions): Promise<number | void> {
     const target = this.getArchitectTarget();
 
-    const { configuration = '', project, ...architectOptions } = options;
+    const {
+      configuration = this.pickedTarget?.configuration ?? '',
+      project = this.pickedTarget?.project || undefined,
+      affected,
+      base,
+      concurrency,
+      ...architectOptions
+    } = options;
+
+    if (affected) {
+      if (project) {
+        throw new CommandModuleError('The "--affected" option cannot be used with a project name.');
+      }
+
+      return this.runAffectedTargets(
+        target,
+        configuration,
+        base ?? 'HEAD',
+        architectOptions,
+        concurrency,
+      );
+    }
 
     if (!project) {
       // This runs each target sequentially.
@@ -84,13 +158,125 @@ export abstract class ArchitectCommandModule
       }
 
       for (const project of projectNames) {
-        result |= await this.runSingleTarget({ configuration, target, project }, architectOptions);
+        result |= await this.runSingleTarget(
+          { configuration, target, project },
+          architectOptions,
+          concurrency,
+        );
       }
 
       return result;
     } else {
-      return await this.runSingleTarget({ configuration, target, project }, architectOptions);
+      return await this.runSingleTarget(
+        { configuration, target, project },
+        architectOptions,
+        concurrency,
+      );
+    }
+  }
+
+  private async runAffectedTargets(
+    target: string,
+    configuration: string,
+    base: string,
+    architectOptions: OtherOptions,
+    concurrency: number | undefined,
+  ): Promise<number> {
+    const { logger } = this.context;
+    const projectNames = await this.getAffectedProjectNames(target, base);
+
+    if (projectNames.length === 0) {
+      logger.info(`No projects with a "${target}" target are affected by changes since "${base}".`);
+
+      return 0;
+    }
+
+    logger.info(
+      `Running "${target}" for projects affected by changes since "${base}":\n` +
+        projectNames.map((p) => `- ${p}`).join('\n'),
+    );
+
+    // This runs each target sequentially.
+    // Running them in parallel would jumble the log messages.
+    let result = 0;
+    for (const project of projectNames) {
+      result |= await this.runSingleTarget(
+        { configuration, target, project },
+        architectOptions,
+        concurrency,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Asks the user to pick a project and configuration when no project is provided outside of a
+   * project directory and more than one project supports this command.
+   */
+  private async pickTargetInteractively(): Promise<void> {
+    const { options, positional } = this.context.args;
+    const workspace = this.context.workspace;
+    if (
+      !workspace ||
+      !this.canPickTargetInteractively() ||
+      positional[1] ||
+      typeof options['project'] === 'string' ||
+      options['affected'] ||
+      getProjectByCwd(workspace)
+    ) {
+      return;
+    }
+
+    const target = this.getArchitectTarget();
+    const projectNames = this.getAllProjectNamesWithTarget(target);
+    if (projectNames.length < 2) {
+      return;
+    }
+
+    const project = await this.pickProject(projectNames, this.multiTarget);
+    if (project === null) {
+      return;
+    }
+
+    let configuration: string | undefined;
+    const configurationOption = options['configuration'] ?? options['c'];
+    if (typeof configurationOption === 'string') {
+      configuration = configurationOption;
+    } else if (project) {
+      configuration = await this.pickConfiguration(project, target);
     }
+
+    this.pickedTarget = { project, configuration };
+
+    const commandArgs = ['ng', this.commandName];
+    if (project) {
+      commandArgs.push(project);
+    }
+    if (configuration) {
+      commandArgs.push('--configuration', configuration);
+    }
+    this.logEquivalentCommand(commandArgs.join(' '));
+  }
+
+  /** @returns the names of the projects which have the target and are affected by changes. */
+  @memoize
+  private async getAffectedProjectNames(target: string, base: string): Promise<string[]> {
+    let affectedProjects: Set<string>;
+    try {
+      affectedProjects = await getAffectedProjects(this.getWorkspaceOrThrow(), base);
+    } catch (e) {
+      assertIsError(e);
+      throw new CommandModuleError(e.message);
+    }
+
+    return this.getAllProjectNamesWithTarget(target).filter((name) => affectedProjects.has(name));
+  }
+
+  private getAllProjectNamesWithTarget(target: string): string[] {
+    return [...this.getWorkspaceOrThrow().projects]
+      .filter(([, project]) => project.targets.has(target))
+      .map(([name]) => name);
   }
 
   private getArchitectProject(): string | undefined {
@@ -106,6 +292,10 @@ export abstract class ArchitectCommandModule
       return options['project'];
     }
 
+    if (this.pickedTarget?.project) {
+      return this.pickedTarget.project;
+    }
+
     const target = this.getArchitectTarget();
     const projectFromTarget = this.getProjectNamesByTarget(target);
 
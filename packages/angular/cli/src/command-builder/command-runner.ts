@@ -15,6 +15,11 @@ import {
   RootCommands,
   RootCommandsAliases,
 } from '../commands/command-config';
+import {
+  ExtensionCommandConfig,
+  getExtensionCommands,
+  loadExtensionCommands,
+} from '../commands/command-extensions';
 import { colors } from '../utilities/color';
 import { AngularWorkspace, getWorkspace } from '../utilities/config';
 import { assertIsError } from '../utilities/error';
@@ -80,7 +85,7 @@ export async function runCommand(args: string[], logger: logging.Logger): Promis
   };
 
   let localYargs = yargs(args);
-  for (const CommandModule of await getCommandsToRegister(positional[0])) {
+  for (const CommandModule of await getCommandsToRegister(positional[0], context)) {
     localYargs = addCommandModuleToYargs(localYargs, CommandModule, context);
   }
 
@@ -140,20 +145,40 @@ export async function runCommand(args: string[], logger: logging.Logger): Promis
 
 /**
  * Get the commands that need to be registered.
+ * Commands declared by installed packages are only discovered when the command is not built-in.
  * @returns One or more command factories that needs to be registered.
  */
 async function getCommandsToRegister(
   commandName: string | number,
+  context: CommandContext,
 ): Promise<CommandModuleConstructor[]> {
   const commands: CommandConfig[] = [];
+  const extensionCommands: ExtensionCommandConfig[] = [];
   if (commandName in RootCommands) {
     commands.push(RootCommands[commandName as CommandNames]);
   } else if (commandName in RootCommandsAliases) {
     commands.push(RootCommandsAliases[commandName]);
   } else {
-    // Unknown command, register every possible command.
-    Object.values(RootCommands).forEach((c) => commands.push(c));
+    const { commands: extensions, aliases } = await getExtensionCommands(
+      context.root,
+      context.logger,
+    );
+    const extensionCommand = extensions[commandName] ?? aliases[commandName];
+
+    if (extensionCommand) {
+      extensionCommands.push(extensionCommand);
+    } else {
+      // Unknown command, register every possible command.
+      Object.values(RootCommands).forEach((c) => commands.push(c));
+      Object.values(extensions).forEach((c) => extensionCommands.push(c));
+    }
   }
 
-  return Promise.all(commands.map((command) => command.factory().then((m) => m.default)));
+  const [builtInModules, extensionModules] = await Promise.all([
+    Promise.all(commands.map((command) => command.factory().then((m) => m.default))),
+    // Extension commands that fail to load are skipped to keep built-in commands usable.
+    loadExtensionCommands(extensionCommands, context),
+  ]);
+
+  return [...builtInModules, ...extensionModules];
 }
@@ -13,6 +13,7 @@ import {
   FileSystemSchematicDescription,
   NodeWorkflow,
 } from '@angular-devkit/schematics/tools';
+import { promises as fs } from 'fs';
 import type { CheckboxQuestion, Question } from 'inquirer';
 import { relative, resolve } from 'path';
 import { Argv } from 'yargs';
@@ -39,6 +40,7 @@ export interface SchematicsCommandArgs {
   interactive: boolean;
   force: boolean;
   'dry-run': boolean;
+  patch?: string;
   defaults: boolean;
 }
 
@@ -65,6 +67,13 @@ export abstract class SchematicsCommandModule
         type: 'boolean',
         default: false,
       })
+      .option('patch', {
+        describe:
+          'Write the changes to a patch file in the unified diff format instead of writing them ' +
+          'to the workspace. The patch can be applied with "git apply".',
+        type: 'string',
+        requiresArg: true,
+      })
       .option('defaults', {
         describe: 'Disable interactive input prompts for options with a default.',
         type: 'boolean',
@@ -108,11 +117,12 @@ export abstract class SchematicsCommandModule
     options: SchematicsExecutionOptions,
   ): Promise<NodeWorkflow> {
     const { logger, root, packageManager } = this.context;
-    const { force, dryRun, packageRegistry } = options;
+    const { force, dryRun, patch, packageRegistry } = options;
 
     const workflow = new NodeWorkflow(root, {
       force,
       dryRun,
+      patch: !!patch,
       packageManager: packageManager.name,
       // A schema registry is required to allow customizing addUndefinedDefaults
       registry: new schema.CoreSchemaRegistry(formats.standardFormats),
@@ -333,7 +343,14 @@ export abstract class SchematicsCommandModule
         logger.info('Nothing to be done.');
       }
 
-      if (executionOptions.dryRun) {
+      if (executionOptions.patch) {
+        const patch = await workflow.createPatch().toPromise();
+        await fs.writeFile(resolve(executionOptions.patch), patch ?? '');
+        logger.info(
+          `\nChanges written to patch file "${executionOptions.patch}". ` +
+            'No changes were made to the workspace.',
+        );
+      } else if (executionOptions.dryRun) {
         logger.warn(`\nNOTE: The "--dry-run" option means no changes were made.`);
       }
     } catch (err) {
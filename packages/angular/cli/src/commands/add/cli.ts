@@ -10,10 +10,9 @@ import { tags } from '@angular-devkit/core';
 import { NodePackageDoesNotSupportSchematics } from '@angular-devkit/schematics/tools';
 import { createRequire } from 'module';
 import npa from 'npm-package-arg';
-import { dirname, join } from 'path';
+import { dirname, join, relative } from 'path';
 import { Range, compare, intersects, prerelease, satisfies, valid } from 'semver';
 import { Argv } from 'yargs';
-import { PackageManager } from '../../../lib/config/workspace-schema';
 import {
   CommandModuleImplementation,
   Options,
@@ -140,7 +139,6 @@ export default class AddCommadModule
     const spinner = new Spinner();
 
     spinner.start('Determining package manager...');
-    const usingYarn = packageManager.name === PackageManager.Yarn;
     spinner.info(`Using package manager: ${colors.grey(packageManager.name)}`);
 
     if (
@@ -156,7 +154,7 @@ export default class AddCommadModule
       try {
         packageMetadata = await fetchPackageMetadata(packageIdentifier.name, logger, {
           registry,
-          usingYarn,
+          packageManager: packageManager.name,
           verbose,
         });
       } catch (e) {
@@ -235,15 +233,28 @@ export default class AddCommadModule
       }
     }
 
+    // Tarballs and directories are resolved by their absolute path to not depend on the working
+    // directory of the package manager.
+    const isLocalPackage =
+      packageIdentifier.type === 'file' || packageIdentifier.type === 'directory';
+    const localPackagePath = isLocalPackage ? packageIdentifier.fetchSpec : undefined;
+
     let collectionName = packageIdentifier.name;
     let savePackage: NgAddSaveDependency | undefined;
 
     try {
-      spinner.start('Loading package information from registry...');
-      const manifest = await fetchPackageManifest(packageIdentifier.toString(), logger, {
+      spinner.start(
+        localPackagePath
+          ? 'Loading package information...'
+          : 'Loading package information from registry...',
+      );
+      const manifestSpec = localPackagePath
+        ? `file:${localPackagePath}`
+        : packageIdentifier.toString();
+      const manifest = await fetchPackageManifest(manifestSpec, logger, {
         registry,
         verbose,
-        usingYarn,
+        packageManager: packageManager.name,
       });
 
       savePackage = manifest['ng-add']?.save;
@@ -288,7 +299,7 @@ export default class AddCommadModule
       // Temporary packages are located in a different directory
       // Hence we need to resolve them using the temp path
       const { success, tempNodeModules } = await packageManager.installTemp(
-        packageIdentifier.raw,
+        localPackagePath ? `file:${localPackagePath}` : packageIdentifier.raw,
         registry ? [`--registry="${registry}"`] : undefined,
       );
       const tempRequire = createRequire(tempNodeModules + '/');
@@ -300,10 +311,14 @@ export default class AddCommadModule
 
       collectionName = dirname(resolvedCollectionPath);
     } else {
+      // Local packages are saved relative to the workspace root to keep the `package.json` portable.
       const success = await packageManager.install(
-        packageIdentifier.raw,
+        localPackagePath
+          ? `file:${relative(this.context.root, localPackagePath).replace(/\\/g, '/')}`
+          : packageIdentifier.raw,
         savePackage,
         registry ? [`--registry="${registry}"`] : undefined,
+        localPackagePath ? this.context.root : undefined,
       );
 
       if (!success) {
@@ -377,6 +392,7 @@ export default class AddCommadModule
         interactive,
         force,
         dryRun,
+        patch,
         registry,
         defaults,
         collection: collectionName,
@@ -391,6 +407,7 @@ export default class AddCommadModule
           interactive,
           force,
           dryRun,
+          patch,
           defaults,
           packageRegistry: registry,
         },
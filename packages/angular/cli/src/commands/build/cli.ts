@@ -16,6 +16,7 @@ export default class BuildCommandModule
   implements CommandModuleImplementation
 {
   multiTarget = false;
+  override supportsAffected = true;
   command = 'build [project]';
   aliases = RootCommands['build'].aliases;
   describe =
@@ -7,7 +7,7 @@
  */
 
 import { tags } from '@angular-devkit/core';
-import { promises as fs } from 'fs';
+import { Dirent, promises as fs } from 'fs';
 import { join } from 'path';
 import { Argv } from 'yargs';
 import {
@@ -15,8 +15,13 @@ import {
   CommandModuleImplementation,
   CommandScope,
 } from '../../../command-builder/command-module';
-import { isCI } from '../../../utilities/environment-options';
-import { getCacheConfig } from '../utilities';
+import { BUILD_RESULTS_DIRECTORY, getCacheConfig, isCacheEffectivelyEnabled } from '../utilities';
+
+/**
+ * Name of the directories used by the `application` builder to persist build load results
+ * such as transformed JavaScript files and compiled stylesheets.
+ */
+const LOAD_RESULTS_DIRECTORY = 'load-results';
 
 export class CacheInfoCommandModule extends CommandModule implements CommandModuleImplementation {
   command = 'info';
@@ -29,18 +34,71 @@ export class CacheInfoCommandModule extends CommandModule implements CommandModu
   }
 
   async run(): Promise<void> {
-    const { path, environment, enabled } = getCacheConfig(this.context.workspace);
+    const cacheConfig = getCacheConfig(this.context.workspace);
+    const { path, environment, enabled, buildResults } = cacheConfig;
+
+    let loadResultsSize = 0;
+    for (const loadResultsPath of await this.findDirectories(path, LOAD_RESULTS_DIRECTORY)) {
+      loadResultsSize += await this.getSizeOfDirectory(loadResultsPath);
+    }
 
     this.context.logger.info(tags.stripIndents`
       Enabled: ${enabled ? 'yes' : 'no'}
       Environment: ${environment}
       Path: ${path}
-      Size on disk: ${await this.getSizeOfDirectory(path)}
-      Effective status on current machine: ${this.effectiveEnabledStatus() ? 'enabled' : 'disabled'}
+      Size on disk: ${this.formatSize(await this.getSizeOfDirectory(path))}
+      Build load results size on disk: ${this.formatSize(loadResultsSize)}
+      Build results size on disk: ${this.formatSize(
+        await this.getSizeOfDirectory(join(path, BUILD_RESULTS_DIRECTORY)),
+      )}
+      Build results enabled: ${buildResults ? 'yes' : 'no'}
+      Cached build results: ${await this.countBuildResults(path)}
+      Effective status on current machine: ${
+        isCacheEffectivelyEnabled(cacheConfig) ? 'enabled' : 'disabled'
+      }
     `);
   }
 
-  private async getSizeOfDirectory(path: string): Promise<string> {
+  private async findDirectories(path: string, name: string): Promise<string[]> {
+    const directoriesStack = [path];
+    const found: string[] = [];
+
+    while (directoriesStack.length) {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const dirPath = directoriesStack.pop()!;
+      let entries: Dirent[] = [];
+
+      try {
+        entries = await fs.readdir(dirPath, { withFileTypes: true });
+      } catch {}
+
+      for (const entry of entries) {
+        if (!entry.isDirectory()) {
+          continue;
+        }
+
+        if (entry.name === name) {
+          found.push(join(dirPath, entry.name));
+        } else {
+          directoriesStack.push(join(dirPath, entry.name));
+        }
+      }
+    }
+
+    return found;
+  }
+
+  private async countBuildResults(path: string): Promise<number> {
+    try {
+      const entries = await fs.readdir(join(path, BUILD_RESULTS_DIRECTORY, 'entries'));
+
+      return entries.filter((entry) => entry.endsWith('.json')).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async getSizeOfDirectory(path: string): Promise<number> {
     const directoriesStack = [path];
     let size = 0;
 
@@ -65,7 +123,7 @@ export class CacheInfoCommandModule extends CommandModule implements CommandModu
       }
     }
 
-    return this.formatSize(size);
+    return size;
   }
 
   private formatSize(size: number): string {
@@ -81,19 +139,4 @@ export class CacheInfoCommandModule extends CommandModule implements CommandModu
 
     return `${roundedSize.toFixed(fractionDigits)} ${abbreviations[index]}`;
   }
-
-  private effectiveEnabledStatus(): boolean {
-    const { enabled, environment } = getCacheConfig(this.context.workspace);
-
-    if (enabled) {
-      switch (environment) {
-        case 'ci':
-          return isCI;
-        case 'local':
-          return !isCI;
-      }
-    }
-
-    return enabled;
-  }
 }
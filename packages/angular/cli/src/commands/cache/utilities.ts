@@ -10,6 +10,12 @@ import { isJsonObject } from '@angular-devkit/core';
 import { resolve } from 'path';
 import { Cache, Environment } from '../../../lib/config/workspace-schema';
 import { AngularWorkspace } from '../../utilities/config';
+import { isCI } from '../../utilities/environment-options';
+
+/**
+ * The directory within the cache path which contains the local build result cache of Architect.
+ */
+export const BUILD_RESULTS_DIRECTORY = 'build-results';
 
 export function updateCacheConfig<K extends keyof Cache>(
   workspace: AngularWorkspace,
@@ -32,6 +38,7 @@ export function getCacheConfig(workspace: AngularWorkspace | undefined): Require
     path: resolve(workspace.basePath, '.angular/cache'),
     environment: Environment.Local,
     enabled: true,
+    buildResults: false,
   };
 
   const cliSetting = workspace.extensions['cli'];
@@ -48,6 +55,7 @@ export function getCacheConfig(workspace: AngularWorkspace | undefined): Require
     path = defaultSettings.path,
     environment = defaultSettings.environment,
     enabled = defaultSettings.enabled,
+    buildResults = defaultSettings.buildResults,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
   } = cacheSettings as Record<string, any>;
 
@@ -55,5 +63,22 @@ export function getCacheConfig(workspace: AngularWorkspace | undefined): Require
     path: resolve(workspace.basePath, path),
     environment,
     enabled,
+    buildResults,
   };
 }
+
+/**
+ * @returns whether the persistent disk cache is enabled on the current machine.
+ */
+export function isCacheEffectivelyEnabled({ enabled, environment }: Required<Cache>): boolean {
+  if (enabled) {
+    switch (environment) {
+      case 'ci':
+        return isCI;
+      case 'local':
+        return !isCI;
+    }
+  }
+
+  return enabled;
+}
@@ -0,0 +1,240 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { logging } from '@angular-devkit/core';
+import { readFile } from 'fs/promises';
+import { createRequire } from 'module';
+import { dirname, resolve } from 'path';
+import { CommandContext } from '../command-builder/command-module';
+import { CommandModuleConstructor } from '../command-builder/utilities/command';
+import { assertIsError } from '../utilities/error';
+import { CommandConfig, RootCommands, RootCommandsAliases } from './command-config';
+
+/**
+ * The `package.json` field used by installed packages to declare additional commands.
+ *
+ * Example:
+ * ```json
+ * "ng-commands": {
+ *   "release": { "implementation": "./cli/release.js", "aliases": ["rel"] }
+ * }
+ * ```
+ *
+ * The implementation is a CommonJS module whose default export is a class extending `CommandModule`,
+ * which is exported by `@angular/cli`. The `command` property of the class must start with the
+ * declared command name, otherwise the command is ignored with a warning when loaded.
+ */
+const PACKAGE_JSON_COMMANDS_FIELD = 'ng-commands';
+
+interface ExtensionCommandDescription {
+  implementation: string;
+  aliases?: string[];
+}
+
+interface PartialPackageJson {
+  name?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [PACKAGE_JSON_COMMANDS_FIELD]?: Record<string, ExtensionCommandDescription>;
+}
+
+export interface ExtensionCommandConfig extends CommandConfig {
+  /** The name of the command declared in the `package.json` of the package. */
+  name: string;
+  packageName: string;
+}
+
+export interface ExtensionCommands {
+  commands: Record<string, ExtensionCommandConfig>;
+  aliases: Record<string, ExtensionCommandConfig>;
+}
+
+/**
+ * Finds the commands declared by the direct dependencies of the workspace.
+ * Commands that conflict with built-in or previously found commands are ignored with a warning.
+ * Packages whose `package.json` cannot be read are also ignored with a warning.
+ * @param root The root directory of the workspace.
+ * @param logger A logger used to report invalid command declarations.
+ */
+export async function getExtensionCommands(
+  root: string,
+  logger: logging.LoggerApi,
+): Promise<ExtensionCommands> {
+  const result: ExtensionCommands = { commands: {}, aliases: {} };
+
+  // Trailing slash is used to allow the path to be treated as a directory
+  const rootRequire = createRequire(root + '/');
+  const rootPackageJson = await readPackageJson(resolve(root, 'package.json'), logger);
+  if (!rootPackageJson) {
+    return result;
+  }
+
+  const packageNames = Object.keys({
+    ...rootPackageJson.dependencies,
+    ...rootPackageJson.devDependencies,
+  }).sort();
+
+  const packageJsons = await Promise.all(
+    packageNames.map(async (packageName) => {
+      let packageJsonPath;
+      try {
+        packageJsonPath = rootRequire.resolve(`${packageName}/package.json`);
+      } catch (e) {
+        assertIsError(e);
+        // Package is not installed or does not expose its package.json.
+        if (e.code !== 'MODULE_NOT_FOUND' && e.code !== 'ERR_PACKAGE_PATH_NOT_EXPORTED') {
+          logger.warn(`Unable to read commands of package "${packageName}": ${e.message}`);
+        }
+
+        return undefined;
+      }
+
+      const packageJson = await readPackageJson(packageJsonPath, logger);
+
+      return packageJson?.[PACKAGE_JSON_COMMANDS_FIELD]
+        ? { packageName, packageJsonPath, commands: packageJson[PACKAGE_JSON_COMMANDS_FIELD] }
+        : undefined;
+    }),
+  );
+
+  const isNameTaken = (name: string) =>
+    name in RootCommands ||
+    name in RootCommandsAliases ||
+    name in result.commands ||
+    name in result.aliases;
+
+  for (const extension of packageJsons) {
+    if (!extension) {
+      continue;
+    }
+
+    const { packageName, packageJsonPath, commands } = extension;
+    for (const [name, description] of Object.entries(commands)) {
+      if (typeof description?.implementation !== 'string') {
+        logger.warn(
+          `Package "${packageName}" declares command "${name}" without an implementation.`,
+        );
+        continue;
+      }
+
+      if (isNameTaken(name)) {
+        logger.warn(
+          `Package "${packageName}" declares command "${name}" which conflicts with an existing command.`,
+        );
+        continue;
+      }
+
+      const implementationPath = resolve(dirname(packageJsonPath), description.implementation);
+      const config: ExtensionCommandConfig = {
+        name,
+        packageName,
+        aliases: description.aliases?.filter((alias) => !isNameTaken(alias)),
+        factory: () => loadExtensionCommand(packageName, implementationPath),
+      };
+
+      result.commands[name] = config;
+      config.aliases?.forEach((alias) => (result.aliases[alias] = config));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Loads the command modules of extension commands.
+ * Commands that cannot be loaded or whose `command` does not match the declared name are ignored
+ * with a warning to keep other commands usable.
+ * @param commands The configurations of the extension commands to load.
+ * @param context The context used to create the command modules.
+ */
+export async function loadExtensionCommands(
+  commands: ExtensionCommandConfig[],
+  context: CommandContext,
+): Promise<CommandModuleConstructor[]> {
+  const results = await Promise.allSettled(
+    commands.map(async (config) => {
+      const { default: commandModule } = await config.factory();
+      assertDeclaredCommandName(config, commandModule, context);
+
+      return commandModule;
+    }),
+  );
+
+  const constructors: CommandModuleConstructor[] = [];
+  for (const result of results) {
+    if (result.status === 'fulfilled') {
+      constructors.push(result.value);
+    } else {
+      const reason: unknown = result.reason;
+      context.logger.warn(reason instanceof Error ? reason.message : `${reason}`);
+    }
+  }
+
+  return constructors;
+}
+
+async function loadExtensionCommand(
+  packageName: string,
+  implementationPath: string,
+): Promise<{ default: CommandModuleConstructor }> {
+  let commandModule;
+  try {
+    const extensionRequire = createRequire(implementationPath);
+    commandModule = extensionRequire(implementationPath);
+  } catch (e) {
+    assertIsError(e);
+
+    throw new Error(
+      `Command implementation "${implementationPath}" of package "${packageName}" ` +
+        `could not be loaded: ${e.message}`,
+    );
+  }
+
+  const constructor = commandModule?.default ?? commandModule;
+  if (typeof constructor !== 'function') {
+    throw new Error(
+      `Command implementation "${implementationPath}" of package "${packageName}" ` +
+        'does not have a default export of a command module class.',
+    );
+  }
+
+  return { default: constructor };
+}
+
+/**
+ * Ensures that an extension command module registers the command under its declared name, since
+ * the command is only discovered from the name declared in the `package.json` of the package.
+ */
+function assertDeclaredCommandName(
+  { name, packageName }: ExtensionCommandConfig,
+  commandModule: CommandModuleConstructor,
+  context: CommandContext,
+): void {
+  const { command } = new commandModule(context);
+  if (typeof command !== 'string' || command.split(' ', 1)[0] !== name) {
+    throw new Error(
+      `Command "${command}" of package "${packageName}" does not match the declared name "${name}".`,
+    );
+  }
+}
+
+async function readPackageJson(
+  path: string,
+  logger: logging.LoggerApi,
+): Promise<PartialPackageJson | undefined> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as PartialPackageJson;
+  } catch (e) {
+    assertIsError(e);
+    if (e.code !== 'ENOENT') {
+      logger.warn(`Unable to read commands from "${path}": ${e.message}`);
+    }
+
+    return undefined;
+  }
+}
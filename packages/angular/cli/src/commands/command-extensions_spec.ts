@@ -0,0 +1,250 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { logging } from '@angular-devkit/core';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CommandContext } from '../command-builder/command-module';
+import { getExtensionCommands, loadExtensionCommands } from './command-extensions';
+
+describe('command extensions', () => {
+  let root: string;
+  let logger: logging.Logger;
+  let context: CommandContext;
+  let warnings: string[];
+
+  function writePackage(
+    name: string,
+    packageJson: object | string,
+    files: Record<string, string> = {},
+  ): void {
+    const packagePath = join(root, 'node_modules', name);
+    mkdirSync(packagePath, { recursive: true });
+    writeFileSync(
+      join(packagePath, 'package.json'),
+      typeof packageJson === 'string' ? packageJson : JSON.stringify({ name, ...packageJson }),
+    );
+
+    for (const [file, content] of Object.entries(files)) {
+      writeFileSync(join(packagePath, file), content);
+    }
+  }
+
+  function writeWorkspace(dependencies: string[]): void {
+    writeFileSync(
+      join(root, 'package.json'),
+      JSON.stringify({
+        dependencies: Object.fromEntries(dependencies.map((name) => [name, '1.0.0'])),
+      }),
+    );
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'angular-cli-extensions-'));
+    warnings = [];
+    logger = new logging.Logger('test');
+    logger.subscribe((entry) => {
+      if (entry.level === 'warn') {
+        warnings.push(entry.message);
+      }
+    });
+    context = { logger } as CommandContext;
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('getExtensionCommands', () => {
+    it('should find the commands declared by dependencies', async () => {
+      writeWorkspace(['ext-a']);
+      writePackage('ext-a', {
+        'ng-commands': { release: { implementation: './release.js', aliases: ['rel'] } },
+      });
+
+      const { commands, aliases } = await getExtensionCommands(root, logger);
+
+      expect(Object.keys(commands)).toEqual(['release']);
+      expect(aliases['rel']).toBe(commands['release']);
+      expect(warnings).toEqual([]);
+    });
+
+    it('should ignore packages that are not dependencies of the workspace', async () => {
+      writeWorkspace([]);
+      writePackage('ext-a', { 'ng-commands': { release: { implementation: './release.js' } } });
+
+      const { commands } = await getExtensionCommands(root, logger);
+
+      expect(commands).toEqual({});
+    });
+
+    it('should return no commands when the workspace has no package.json', async () => {
+      const { commands, aliases } = await getExtensionCommands(root, logger);
+
+      expect(commands).toEqual({});
+      expect(aliases).toEqual({});
+      expect(warnings).toEqual([]);
+    });
+
+    it('should ignore commands and aliases that conflict with existing commands', async () => {
+      writeWorkspace(['ext-a', 'ext-b']);
+      writePackage('ext-a', {
+        'ng-commands': {
+          build: { implementation: './build.js' },
+          release: { implementation: './release.js', aliases: ['b', 'rel'] },
+        },
+      });
+      writePackage('ext-b', {
+        'ng-commands': { release: { implementation: './release.js' } },
+      });
+
+      const { commands, aliases } = await getExtensionCommands(root, logger);
+
+      expect(Object.keys(commands)).toEqual(['release']);
+      expect(commands['release'].aliases).toEqual(['rel']);
+      expect(Object.keys(aliases)).toEqual(['rel']);
+      expect(warnings).toEqual([
+        'Package "ext-a" declares command "build" which conflicts with an existing command.',
+        'Package "ext-b" declares command "release" which conflicts with an existing command.',
+      ]);
+    });
+
+    it('should ignore commands without a valid implementation', async () => {
+      writeWorkspace(['ext-a']);
+      writePackage('ext-a', {
+        'ng-commands': {
+          release: { implementation: 42 },
+          deploy2: null,
+          publish: { implementation: './publish.js' },
+        },
+      });
+
+      const { commands } = await getExtensionCommands(root, logger);
+
+      expect(Object.keys(commands)).toEqual(['publish']);
+      expect(warnings).toEqual([
+        'Package "ext-a" declares command "release" without an implementation.',
+        'Package "ext-a" declares command "deploy2" without an implementation.',
+      ]);
+    });
+
+    it('should ignore packages with an invalid package.json', async () => {
+      writeWorkspace(['ext-a', 'ext-b']);
+      writePackage('ext-a', '{ invalid');
+      writePackage('ext-b', { 'ng-commands': { release: { implementation: './release.js' } } });
+
+      const { commands } = await getExtensionCommands(root, logger);
+
+      expect(Object.keys(commands)).toEqual(['release']);
+      expect(warnings.length).toBe(1);
+      expect(warnings[0]).toMatch(/^Unable to read commands (of|from) .*ext-a/);
+    });
+
+    it('should return no commands when the workspace package.json is invalid', async () => {
+      writeFileSync(join(root, 'package.json'), '{ invalid');
+
+      const { commands } = await getExtensionCommands(root, logger);
+
+      expect(commands).toEqual({});
+      expect(warnings.length).toBe(1);
+    });
+  });
+
+  describe('loadExtensionCommands', () => {
+    it('should load the default export of command implementations', async () => {
+      writeWorkspace(['ext-a']);
+      writePackage(
+        'ext-a',
+        { 'ng-commands': { release: { implementation: './release.js' } } },
+        {
+          'release.js': `exports.default = class ReleaseCommand { command = 'release <version>'; };`,
+        },
+      );
+
+      const { commands } = await getExtensionCommands(root, logger);
+      const modules = await loadExtensionCommands(Object.values(commands), context);
+
+      expect(modules.map((m) => m.name)).toEqual(['ReleaseCommand']);
+      expect(warnings).toEqual([]);
+    });
+
+    it('should skip command modules that throw when loaded', async () => {
+      writeWorkspace(['ext-a', 'ext-b']);
+      writePackage(
+        'ext-a',
+        { 'ng-commands': { broken: { implementation: './broken.js' } } },
+        { 'broken.js': `throw new Error('Broken extension');` },
+      );
+      writePackage(
+        'ext-b',
+        { 'ng-commands': { release: { implementation: './release.js' } } },
+        { 'release.js': `module.exports = class ReleaseCommand { command = 'release'; };` },
+      );
+
+      const { commands } = await getExtensionCommands(root, logger);
+      const modules = await loadExtensionCommands(Object.values(commands), context);
+
+      expect(modules.map((m) => m.name)).toEqual(['ReleaseCommand']);
+      expect(warnings.length).toBe(1);
+      expect(warnings[0]).toMatch(
+        /^Command implementation ".+broken\.js" of package "ext-a" could not be loaded: Broken extension/,
+      );
+    });
+
+    it('should skip command modules that are missing or do not export a class', async () => {
+      writeWorkspace(['ext-a']);
+      writePackage(
+        'ext-a',
+        {
+          'ng-commands': {
+            missing: { implementation: './missing.js' },
+            invalid: { implementation: './invalid.js' },
+          },
+        },
+        { 'invalid.js': 'exports.value = 1;' },
+      );
+
+      const { commands } = await getExtensionCommands(root, logger);
+      const modules = await loadExtensionCommands(Object.values(commands), context);
+
+      expect(modules).toEqual([]);
+      expect(warnings.length).toBe(2);
+      expect(warnings[0]).toMatch(/missing\.js" of package "ext-a" could not be loaded/);
+      expect(warnings[1]).toMatch(
+        /invalid\.js" of package "ext-a" does not have a default export of a command module class/,
+      );
+    });
+
+    it('should skip command modules whose command does not match the declared name', async () => {
+      writeWorkspace(['ext-a']);
+      writePackage(
+        'ext-a',
+        {
+          'ng-commands': {
+            release: { implementation: './release.js', aliases: ['rel'] },
+            audit: { implementation: './audit.js' },
+          },
+        },
+        {
+          'release.js': `exports.default = class ReleaseCommand { command = 'rel'; };`,
+          'audit.js': `exports.default = class AuditCommand { command = 'audit-all'; };`,
+        },
+      );
+
+      const { commands } = await getExtensionCommands(root, logger);
+      const modules = await loadExtensionCommands(Object.values(commands), context);
+
+      expect(modules).toEqual([]);
+      expect(warnings).toEqual([
+        'Command "rel" of package "ext-a" does not match the declared name "release".',
+        'Command "audit-all" of package "ext-a" does not match the declared name "audit".',
+      ]);
+    });
+  });
+});
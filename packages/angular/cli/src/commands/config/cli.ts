@@ -18,11 +18,20 @@ import {
 } from '../../command-builder/command-module';
 import { getWorkspaceRaw, validateWorkspace } from '../../utilities/config';
 import { JSONFile, parseJson } from '../../utilities/json-file';
+import {
+  JSON_PATH_WILDCARD,
+  formatJsonPath,
+  listJsonValues,
+  parseJsonPath,
+  resolveJsonPath,
+} from './json-path';
 
 interface ConfigCommandArgs {
   'json-path'?: string;
   value?: string;
   global?: boolean;
+  list?: boolean;
+  delete?: boolean;
 }
 
 export default class ConfigCommandModule
@@ -38,8 +47,10 @@ export default class ConfigCommandModule
     return localYargs
       .positional('json-path', {
         description:
-          `The configuration key to set or query, in JSON path format. ` +
-          `For example: "a[3].foo.bar[2]". If no new value is provided, returns the current value of this key.`,
+          `The configuration key to set or query, in JSON path or JSON pointer format. ` +
+          `For example: "a[3].foo.bar[2]" or "/a/3/foo/bar/2". ` +
+          `A "*" segment matches all properties or items, such as "projects.*.prefix". ` +
+          `If no new value is provided, returns the current value of this key.`,
         type: 'string',
       })
       .positional('value', {
@@ -52,6 +63,33 @@ export default class ConfigCommandModule
         type: 'boolean',
         default: false,
       })
+      .option('list', {
+        description:
+          'List all configuration values, or the values within the given key, ' +
+          'as "key=value" lines with JSON encoded values.',
+        type: 'boolean',
+        default: false,
+      })
+      .option('delete', {
+        description: 'Remove the value of the given configuration key.',
+        type: 'boolean',
+        default: false,
+      })
+      .check(({ value, list, delete: remove, 'json-path': jsonPath }) => {
+        if ((list || remove) && value !== undefined) {
+          throw new CommandModuleError(`A value cannot be provided with '--list' or '--delete'.`);
+        }
+
+        if (list && remove) {
+          throw new CommandModuleError(`The '--list' and '--delete' options cannot be combined.`);
+        }
+
+        if (remove && !jsonPath) {
+          throw new CommandModuleError(`A configuration key is required with '--delete'.`);
+        }
+
+        return true;
+      })
       .strict();
   }
 
@@ -59,14 +97,16 @@ export default class ConfigCommandModule
     const level = options.global ? 'global' : 'local';
     const [config] = await getWorkspaceRaw(level);
 
-    if (options.value == undefined) {
+    if (options.delete) {
+      return this.delete(options);
+    } else if (options.value == undefined) {
       if (!config) {
         this.context.logger.error('No config found.');
 
         return 1;
       }
 
-      return this.get(config, options);
+      return options.list ? this.list(config, options) : this.get(config, options);
     } else {
       return this.set(options);
     }
@@ -75,9 +115,21 @@ export default class ConfigCommandModule
   private get(jsonFile: JSONFile, options: Options<ConfigCommandArgs>): number {
     const { logger } = this.context;
 
-    const value = options.jsonPath
-      ? jsonFile.get(parseJsonPath(options.jsonPath))
-      : jsonFile.content;
+    let value;
+    if (!options.jsonPath) {
+      value = jsonFile.content;
+    } else {
+      const jsonPath = parseJsonPath(options.jsonPath);
+      const paths = resolveJsonPath(parseJson(jsonFile.content), jsonPath);
+      if (jsonPath.includes(JSON_PATH_WILDCARD)) {
+        // Wildcards result in an object of all matching locations.
+        value = paths.length
+          ? Object.fromEntries(paths.map((path) => [formatJsonPath(path), jsonFile.get(path)]))
+          : undefined;
+      } else {
+        value = paths.length ? jsonFile.get(paths[0]) : undefined;
+      }
+    }
 
     if (value === undefined) {
       logger.error('Value cannot be found.');
@@ -92,6 +144,28 @@ export default class ConfigCommandModule
     return 0;
   }
 
+  private list(jsonFile: JSONFile, options: Options<ConfigCommandArgs>): number {
+    const { logger } = this.context;
+    const content = parseJson(jsonFile.content);
+    const paths = options.jsonPath
+      ? resolveJsonPath(content, parseJsonPath(options.jsonPath))
+      : [[]];
+
+    if (paths.length === 0) {
+      logger.error('Value cannot be found.');
+
+      return 1;
+    }
+
+    for (const path of paths) {
+      for (const [valuePath, value] of listJsonValues(jsonFile.get(path) as JsonValue)) {
+        logger.info(`${formatJsonPath([...path, ...valuePath])}=${JSON.stringify(value)}`);
+      }
+    }
+
+    return 0;
+  }
+
   private async set(options: Options<ConfigCommandArgs>): Promise<number | void> {
     if (!options.jsonPath?.trim()) {
       throw new CommandModuleError('Invalid Path.');
@@ -111,7 +185,13 @@ export default class ConfigCommandModule
         ? normalizeUUIDValue(options.value)
         : options.value;
 
-    const modified = config.modify(parseJsonPath(options.jsonPath), normalizeValue(value));
+    // Locations matched by wildcards are all set to the value.
+    const paths = resolveJsonPath(parseJson(config.content), parseJsonPath(options.jsonPath), true);
+
+    let modified = false;
+    for (const path of paths) {
+      modified = config.modify(path, normalizeValue(value)) || modified;
+    }
 
     if (!modified) {
       logger.error('Value cannot be found.');
@@ -125,42 +205,41 @@ export default class ConfigCommandModule
 
     return 0;
   }
-}
 
-/**
- * Splits a JSON path string into fragments. Fragments can be used to get the value referenced
- * by the path. For example, a path of "a[3].foo.bar[2]" would give you a fragment array of
- * ["a", 3, "foo", "bar", 2].
- * @param path The JSON string to parse.
- * @returns {(string|number)[]} The fragments for the string.
- * @private
- */
-function parseJsonPath(path: string): (string | number)[] {
-  const fragments = (path || '').split(/\./g);
-  const result: (string | number)[] = [];
-
-  while (fragments.length > 0) {
-    const fragment = fragments.shift();
-    if (fragment == undefined) {
-      break;
+  private async delete(options: Options<ConfigCommandArgs>): Promise<number | void> {
+    if (!options.jsonPath?.trim()) {
+      throw new CommandModuleError('Invalid Path.');
     }
 
-    const match = fragment.match(/([^[]+)((\[.*\])*)/);
-    if (!match) {
-      throw new CommandModuleError('Invalid JSON path.');
+    const [config, configPath] = await getWorkspaceRaw(options.global ? 'global' : 'local');
+    const { logger } = this.context;
+
+    if (!config || !configPath) {
+      throw new CommandModuleError('Confguration file cannot be found.');
     }
 
-    result.push(match[1]);
-    if (match[2]) {
-      const indices = match[2]
-        .slice(1, -1)
-        .split('][')
-        .map((x) => (/^\d$/.test(x) ? +x : x.replace(/"|'/g, '')));
-      result.push(...indices);
+    const paths = resolveJsonPath(parseJson(config.content), parseJsonPath(options.jsonPath));
+    if (paths.length === 0) {
+      logger.error('Value cannot be found.');
+
+      return 1;
     }
-  }
 
-  return result.filter((fragment) => fragment != null);
+    // Removed in reverse order so that removing an array item does not move the remaining matches.
+    for (const path of paths.reverse()) {
+      config.modify(path, undefined);
+    }
+
+    await validateWorkspace(parseJson(config.content), options.global ?? false);
+
+    config.save();
+
+    for (const path of paths.reverse()) {
+      logger.info(`Removed ${formatJsonPath(path)}.`);
+    }
+
+    return 0;
+  }
 }
 
 function normalizeValue(value: string | undefined | boolean | number): JsonValue | undefined {
@@ -0,0 +1,198 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { JsonValue, isJsonObject } from '@angular-devkit/core';
+import { CommandModuleError } from '../../command-builder/command-module';
+import { JSONPath } from '../../utilities/json-file';
+
+/**
+ * A path segment which matches all properties of an object or all items of an array.
+ */
+export const JSON_PATH_WILDCARD = '*';
+
+/**
+ * Splits a JSON path string into fragments. Fragments can be used to get the value referenced
+ * by the path. For example, a path of "a[3].foo.bar[2]" would give you a fragment array of
+ * ["a", 3, "foo", "bar", 2]. Property names containing dots can be quoted in brackets, such as
+ * `schematics["@schematics/angular:component"]`.
+ *
+ * Paths starting with a slash are parsed as JSON pointers, such as "/a/3/foo/bar/2".
+ * @param path The JSON string to parse.
+ * @returns {(string|number)[]} The fragments for the string.
+ */
+export function parseJsonPath(path: string): JSONPath {
+  if (path.startsWith('/')) {
+    return path
+      .slice(1)
+      .split('/')
+      .map((fragment) => fragment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  }
+
+  const result: JSONPath = [];
+  const tokenizer = /\[\s*(?:"([^"]*)"|'([^']*)'|([^\]]*))\s*\]|([^.[]+)|(\.)/g;
+  let expectProperty = true;
+  let lastIndex = 0;
+  let match;
+  while ((match = tokenizer.exec(path)) && match.index === lastIndex) {
+    lastIndex = tokenizer.lastIndex;
+    const [, doubleQuoted, singleQuoted, index, property, separator] = match;
+    if (separator !== undefined) {
+      if (expectProperty) {
+        break;
+      }
+      expectProperty = true;
+    } else if (property !== undefined) {
+      if (!expectProperty) {
+        break;
+      }
+      result.push(property);
+      expectProperty = false;
+    } else {
+      const key = doubleQuoted ?? singleQuoted ?? index.trim();
+      result.push(
+        doubleQuoted === undefined && singleQuoted === undefined && /^\d+$/.test(key) ? +key : key,
+      );
+      expectProperty = false;
+    }
+  }
+
+  if (lastIndex !== path.length || (expectProperty && result.length > 0)) {
+    throw new CommandModuleError(`Invalid JSON path '${path}'.`);
+  }
+
+  return result;
+}
+
+/**
+ * Formats a path in the format accepted by `parseJsonPath`.
+ */
+export function formatJsonPath(path: JSONPath): string {
+  let result = '';
+  for (const fragment of path) {
+    if (typeof fragment === 'number') {
+      result += `[${fragment}]`;
+    } else if (/^[A-Za-z_$][\w$-]*$/.test(fragment)) {
+      result += (result ? '.' : '') + fragment;
+    } else {
+      result += `[${JSON.stringify(fragment)}]`;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resolves the wildcards of a path to the matching locations of a value. Fragments are also
+ * normalized to the type of the value, so that a numeric property name accesses an array item.
+ * @param value The value in which to search.
+ * @param path The path, which can contain wildcards.
+ * @param allowMissing Whether to include locations which do not exist yet. Such locations are
+ * only included when the missing part of the path does not contain wildcards. When the path
+ * contains wildcards, missing locations are only included when their parent exists.
+ * @returns The paths of the matching locations.
+ */
+export function resolveJsonPath(
+  value: JsonValue | undefined,
+  path: JSONPath,
+  allowMissing = false,
+): JSONPath[] {
+  // Setting a missing location creates its missing parents, which is not done for all the values
+  // matched by a wildcard, such as projects without the targeted builder.
+  return resolveJsonPathFragments(value, path, allowMissing, !path.includes(JSON_PATH_WILDCARD));
+}
+
+function resolveJsonPathFragments(
+  value: JsonValue | undefined,
+  path: JSONPath,
+  allowMissing: boolean,
+  allowMissingParents: boolean,
+): JSONPath[] {
+  if (path.length === 0) {
+    return value === undefined && !allowMissing ? [] : [[]];
+  }
+
+  const [fragment, ...rest] = path;
+  const prepend = (key: string | number) => (paths: JSONPath[]) =>
+    paths.map((childPath) => [key, ...childPath]);
+
+  if (Array.isArray(value)) {
+    if (fragment === JSON_PATH_WILDCARD) {
+      return value.flatMap((item, index) =>
+        prepend(index)(resolveJsonPathFragments(item, rest, allowMissing, allowMissingParents)),
+      );
+    }
+
+    const index = typeof fragment === 'number' ? fragment : Number(fragment);
+    if (Number.isInteger(index) && index >= 0) {
+      return prepend(index)(
+        resolveJsonPathFragments(value[index], rest, allowMissing, allowMissingParents),
+      );
+    }
+
+    return [];
+  }
+
+  if (value !== undefined && isJsonObject(value)) {
+    if (fragment === JSON_PATH_WILDCARD) {
+      return Object.keys(value).flatMap((key) =>
+        prepend(key)(resolveJsonPathFragments(value[key], rest, allowMissing, allowMissingParents)),
+      );
+    }
+
+    const key = `${fragment}`;
+
+    return prepend(key)(
+      resolveJsonPathFragments(
+        Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined,
+        rest,
+        allowMissing,
+        allowMissingParents,
+      ),
+    );
+  }
+
+  // The parent of the location is missing
+  if (
+    value === undefined &&
+    allowMissing &&
+    allowMissingParents &&
+    !path.includes(JSON_PATH_WILDCARD)
+  ) {
+    return [path];
+  }
+
+  return [];
+}
+
+/**
+ * Lists the primitive values, empty arrays and empty objects within a value.
+ * @returns The paths of the values relative to the given value and the values.
+ */
+export function listJsonValues(value: JsonValue): [JSONPath, JsonValue][] {
+  if (Array.isArray(value) && value.length > 0) {
+    return value.flatMap((item, index) =>
+      listJsonValues(item).map(([path, itemValue]): [JSONPath, JsonValue] => [
+        [index, ...path],
+        itemValue,
+      ]),
+    );
+  }
+
+  if (isJsonObject(value) && Object.keys(value).length > 0) {
+    return Object.entries(value).flatMap(([key, propertyValue]) =>
+      propertyValue === undefined
+        ? []
+        : listJsonValues(propertyValue).map(([path, itemValue]): [JSONPath, JsonValue] => [
+            [key, ...path],
+            itemValue,
+          ]),
+    );
+  }
+
+  return [[[], value]];
+}
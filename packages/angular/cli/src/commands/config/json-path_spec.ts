@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { formatJsonPath, listJsonValues, parseJsonPath, resolveJsonPath } from './json-path';
+
+describe('parseJsonPath', () => {
+  it('parses dotted paths with indices', () => {
+    expect(parseJsonPath('a[3].foo.bar[12]')).toEqual(['a', 3, 'foo', 'bar', 12]);
+  });
+
+  it('parses quoted property names', () => {
+    expect(parseJsonPath(`schematics["@schematics/angular:component"].style`)).toEqual([
+      'schematics',
+      '@schematics/angular:component',
+      'style',
+    ]);
+    expect(parseJsonPath(`a['b.c']`)).toEqual(['a', 'b.c']);
+  });
+
+  it('parses JSON pointers', () => {
+    expect(parseJsonPath('/projects/app/architect/build/options/assets/0')).toEqual([
+      'projects',
+      'app',
+      'architect',
+      'build',
+      'options',
+      'assets',
+      '0',
+    ]);
+    expect(parseJsonPath('/a~1b/c~0d')).toEqual(['a/b', 'c~d']);
+  });
+
+  it('throws for invalid paths', () => {
+    expect(() => parseJsonPath('a..b')).toThrowError(/Invalid JSON path/);
+    expect(() => parseJsonPath('a.')).toThrowError(/Invalid JSON path/);
+  });
+
+  it('formats paths which can be parsed again', () => {
+    const path = ['schematics', '@schematics/angular:component', 'items', 2, 'a.b'];
+
+    expect(formatJsonPath(path)).toBe(
+      `schematics["@schematics/angular:component"].items[2]["a.b"]`,
+    );
+    expect(parseJsonPath(formatJsonPath(path))).toEqual(path);
+  });
+});
+
+describe('resolveJsonPath', () => {
+  const workspace = {
+    projects: {
+      app: { prefix: 'app', architect: { build: { options: { assets: ['a', 'b'] } } } },
+      lib: { prefix: 'lib' },
+    },
+  };
+
+  it('resolves wildcards to existing locations', () => {
+    expect(resolveJsonPath(workspace, parseJsonPath('projects.*.prefix'))).toEqual([
+      ['projects', 'app', 'prefix'],
+      ['projects', 'lib', 'prefix'],
+    ]);
+    expect(resolveJsonPath(workspace, parseJsonPath('projects.*.architect.build'))).toEqual([
+      ['projects', 'app', 'architect', 'build'],
+    ]);
+  });
+
+  it('normalizes numeric fragments of JSON pointers for arrays', () => {
+    expect(
+      resolveJsonPath(workspace, parseJsonPath('/projects/app/architect/build/options/assets/1')),
+    ).toEqual([['projects', 'app', 'architect', 'build', 'options', 'assets', 1]]);
+  });
+
+  it('includes missing locations when allowed', () => {
+    expect(resolveJsonPath(workspace, parseJsonPath('projects.lib.architect.test'))).toEqual([]);
+    expect(resolveJsonPath(workspace, parseJsonPath('projects.lib.architect.test'), true)).toEqual([
+      ['projects', 'lib', 'architect', 'test'],
+    ]);
+  });
+
+  it('only includes missing locations matched by wildcards when their parent exists', () => {
+    expect(resolveJsonPath(workspace, parseJsonPath('projects.*.architect.test'))).toEqual([]);
+    expect(resolveJsonPath(workspace, parseJsonPath('projects.*.architect.test'), true)).toEqual([
+      ['projects', 'app', 'architect', 'test'],
+    ]);
+    expect(resolveJsonPath(workspace, parseJsonPath('projects.*.root'), true)).toEqual([
+      ['projects', 'app', 'root'],
+      ['projects', 'lib', 'root'],
+    ]);
+  });
+});
+
+describe('listJsonValues', () => {
+  it('lists primitive values and empty containers', () => {
+    expect(listJsonValues({ a: { b: [1, { c: true }] }, d: {}, e: null })).toEqual([
+      [['a', 'b', 0], 1],
+      [['a', 'b', 1, 'c'], true],
+      [['d'], {}],
+      [['e'], null],
+    ]);
+  });
+});
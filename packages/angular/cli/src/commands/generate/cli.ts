@@ -104,7 +104,7 @@ export default class GenerateCommandModule
   }
 
   async run(options: Options<GenerateCommandArgs> & OtherOptions): Promise<number | void> {
-    const { dryRun, schematic, defaults, force, interactive, ...schematicOptions } = options;
+    const { dryRun, patch, schematic, defaults, force, interactive, ...schematicOptions } = options;
 
     const [collectionName, schematicName] = this.parseSchematicInfo(schematic);
 
@@ -118,6 +118,7 @@ export default class GenerateCommandModule
       schematicOptions,
       executionOptions: {
         dryRun,
+        patch,
         defaults,
         force,
         interactive,
@@ -23,6 +23,7 @@ export default class LintCommandModule
   ];
 
   multiTarget = true;
+  override supportsAffected = true;
   command = 'lint [project]';
   longDescriptionPath = join(__dirname, 'long-description.md');
   describe = 'Runs linting tools on Angular application code in a given project folder.';
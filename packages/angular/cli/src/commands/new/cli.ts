@@ -65,9 +65,11 @@ export default class NewCommandModule
   async run(options: Options<NewCommandArgs> & OtherOptions): Promise<number | void> {
     // Register the version of the CLI in the registry.
     const collectionName = options.collection ?? (await this.getCollectionFromConfig());
-    const { dryRun, force, interactive, defaults, collection, ...schematicOptions } = options;
+    const { dryRun, patch, force, interactive, defaults, collection, ...schematicOptions } =
+      options;
     const workflow = await this.getOrCreateWorkflowForExecution(collectionName, {
       dryRun,
+      patch,
       force,
       interactive,
       defaults,
@@ -80,6 +82,7 @@ export default class NewCommandModule
       schematicOptions,
       executionOptions: {
         dryRun,
+        patch,
         force,
         interactive,
         defaults,
@@ -17,9 +17,11 @@ import {
   Options,
   OtherOptions,
 } from '../../command-builder/command-module';
+import { getTargetSpecifierCompletions } from '../../utilities/completion';
 
 export interface RunCommandArgs {
-  target: string;
+  target?: string;
+  concurrency?: number;
 }
 
 export default class RunCommandModule
@@ -28,23 +30,28 @@ export default class RunCommandModule
 {
   override scope = CommandScope.In;
 
-  command = 'run <target>';
+  command = 'run [target]';
   describe =
     'Runs an Architect target with an optional custom builder configuration defined in your project.';
   longDescriptionPath = join(__dirname, 'long-description.md');
 
+  /** The target picked interactively, when not fully provided as an argument. */
+  private pickedTarget: Target | undefined;
+
   async builder(argv: Argv): Promise<Argv<RunCommandArgs>> {
     const { jsonHelp, getYargsCompletions, help } = this.context.args.options;
 
-    const localYargs: Argv<RunCommandArgs> = argv
+    let localYargs: Argv<RunCommandArgs> = argv
       .positional('target', {
         describe:
           'The Architect target to run provided in the following format `project:target[:configuration]`.',
         type: 'string',
-        demandOption: true,
         // Show only in when using --help and auto completion because otherwise comma seperated configuration values will be invalid.
         // Also, hide choices from JSON help so that we don't display them in AIO.
-        choices: (getYargsCompletions || help) && !jsonHelp ? this.getTargetChoices() : undefined,
+        choices:
+          (getYargsCompletions || help) && !jsonHelp && this.context.workspace
+            ? getTargetSpecifierCompletions(this.context.workspace)
+            : undefined,
       })
       .middleware((args) => {
         // TODO: remove in version 15.
@@ -62,6 +69,9 @@ export default class RunCommandModule
         }
       }, true)
       .strict();
+    localYargs = this.addTargetDependencyOptions(localYargs);
+
+    await this.pickTargetInteractively();
 
     const target = this.makeTargetSpecifier();
     if (!target) {
@@ -75,16 +85,20 @@ export default class RunCommandModule
 
   async run(options: Options<RunCommandArgs> & OtherOptions): Promise<number> {
     const target = this.makeTargetSpecifier(options);
-    const { target: _target, ...extraOptions } = options;
+    const { target: _target, concurrency, ...extraOptions } = options;
 
     if (!target) {
       throw new CommandModuleError('Cannot determine project or target.');
     }
 
-    return this.runSingleTarget(target, extraOptions);
+    return this.runSingleTarget(target, extraOptions, concurrency);
   }
 
   protected makeTargetSpecifier(options?: Options<RunCommandArgs>): Target | undefined {
+    if (this.pickedTarget) {
+      return this.pickedTarget;
+    }
+
     const architectTarget = options?.target ?? this.context.args.positional[1];
     if (!architectTarget) {
       return undefined;
@@ -99,28 +113,40 @@ export default class RunCommandModule
     };
   }
 
-  /** @returns a sorted list of target specifiers to be used for auto completion. */
-  private getTargetChoices(): string[] | undefined {
-    if (!this.context.workspace) {
+  /**
+   * Asks the user to pick the project, target and configuration which are missing from the target
+   * specifier, such as when running `ng run` or `ng run my-app`.
+   */
+  private async pickTargetInteractively(): Promise<void> {
+    const workspace = this.context.workspace;
+    if (!workspace || !this.canPickTargetInteractively()) {
       return;
     }
 
-    const targets = [];
-    for (const [projectName, project] of this.context.workspace.projects) {
-      for (const [targetName, target] of project.targets) {
-        const currentTarget = `${projectName}:${targetName}`;
-        targets.push(currentTarget);
-
-        if (!target.configurations) {
-          continue;
-        }
+    const specifier = this.makeTargetSpecifier();
+    if (specifier?.target) {
+      return;
+    }
 
-        for (const configName of Object.keys(target.configurations)) {
-          targets.push(`${currentTarget}:${configName}`);
-        }
+    let project: string | null | undefined = specifier?.project;
+    if (!project) {
+      project = await this.pickProject([...workspace.projects.keys()]);
+      if (project === null) {
+        return;
       }
+    } else if (!workspace.projects.has(project)) {
+      throw new CommandModuleError(`Project "${project}" does not exist.`);
+    }
+
+    const target = await this.pickTarget(project);
+    if (target === null) {
+      return;
     }
 
-    return targets.sort();
+    const configuration = await this.pickConfiguration(project, target);
+    this.pickedTarget = configuration ? { project, target, configuration } : { project, target };
+
+    const specifierArg = [project, target, configuration].filter(Boolean).join(':');
+    this.logEquivalentCommand(`ng run ${specifierArg}`);
   }
 }
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Target } from '@angular-devkit/architect';
+import { logging } from '@angular-devkit/core';
+import inquirer from 'inquirer';
+import { CommandModuleError } from '../../command-builder/command-module';
+import { AngularWorkspace } from '../../utilities/config';
+import { PackageManagerUtils } from '../../utilities/package-manager';
+import RunCommandModule from './cli';
+
+interface TestRunCommandModule {
+  pickTargetInteractively(): Promise<void>;
+  makeTargetSpecifier(): Target | undefined;
+}
+
+describe('RunCommandModule', () => {
+  let forceTTY: string | undefined;
+  let promptSpy: jasmine.Spy;
+  let answers: string[];
+  let messages: string[];
+
+  function createCommand(
+    positional: string[],
+    projects: Record<string, Record<string, { configurations?: Record<string, object> }>> = {
+      app: { build: { configurations: { production: {} } }, serve: {} },
+      lib: { test: {} },
+    },
+  ): TestRunCommandModule {
+    const logger = new logging.Logger('test');
+    logger.subscribe(({ message }) => messages.push(message));
+
+    const workspace = {
+      projects: new Map(
+        Object.entries(projects).map(([name, targets]) => [
+          name,
+          {
+            targets: new Map(
+              Object.entries(targets).map(([target, definition]) => [
+                target,
+                { builder: `@test/builders:${target}`, ...definition },
+              ]),
+            ),
+          },
+        ]),
+      ),
+    } as unknown as AngularWorkspace;
+
+    const command = new RunCommandModule({
+      currentDirectory: '/',
+      root: '/',
+      workspace,
+      globalConfiguration: {} as AngularWorkspace,
+      logger,
+      packageManager: {} as PackageManagerUtils,
+      args: {
+        positional: ['run', ...positional],
+        options: { help: false, jsonHelp: false, getYargsCompletions: false },
+      },
+    });
+
+    return command as unknown as TestRunCommandModule;
+  }
+
+  beforeEach(() => {
+    forceTTY = process.env['NG_FORCE_TTY'];
+    process.env['NG_FORCE_TTY'] = 'true';
+
+    answers = [];
+    messages = [];
+    promptSpy = spyOn(inquirer, 'prompt').and.callFake((() =>
+      Promise.resolve({ answer: answers.shift() })) as unknown as typeof inquirer.prompt);
+  });
+
+  afterEach(() => {
+    if (forceTTY === undefined) {
+      delete process.env['NG_FORCE_TTY'];
+    } else {
+      process.env['NG_FORCE_TTY'] = forceTTY;
+    }
+  });
+
+  describe('pickTargetInteractively', () => {
+    it('should pick the project, target and configuration when none are provided', async () => {
+      answers.push('app', 'build', 'production');
+      const command = createCommand([]);
+
+      await command.pickTargetInteractively();
+
+      expect(promptSpy).toHaveBeenCalledTimes(3);
+      expect(command.makeTargetSpecifier()).toEqual({
+        project: 'app',
+        target: 'build',
+        configuration: 'production',
+      });
+      expect(messages.join('\n')).toContain('ng run app:build:production');
+    });
+
+    it('should only pick the target and configuration when the project is provided', async () => {
+      answers.push('build', '');
+      const command = createCommand(['app']);
+
+      await command.pickTargetInteractively();
+
+      expect(promptSpy).toHaveBeenCalledTimes(2);
+      expect(command.makeTargetSpecifier()).toEqual({ project: 'app', target: 'build' });
+      expect(messages.join('\n')).toContain('ng run app:build');
+    });
+
+    it('should not prompt when the target is provided', async () => {
+      const command = createCommand(['app:serve']);
+
+      await command.pickTargetInteractively();
+
+      expect(promptSpy).not.toHaveBeenCalled();
+      expect(command.makeTargetSpecifier()).toEqual({
+        project: 'app',
+        target: 'serve',
+        configuration: undefined,
+      });
+    });
+
+    it('should pick a lone project and target without prompting', async () => {
+      const command = createCommand([], { lib: { test: {} } });
+
+      await command.pickTargetInteractively();
+
+      expect(promptSpy).not.toHaveBeenCalled();
+      expect(command.makeTargetSpecifier()).toEqual({ project: 'lib', target: 'test' });
+    });
+
+    it('should fail when the provided project does not exist', async () => {
+      const command = createCommand(['missing']);
+
+      await expectAsync(command.pickTargetInteractively()).toBeRejectedWithError(
+        CommandModuleError,
+        'Project "missing" does not exist.',
+      );
+    });
+
+    it('should not prompt when not using a TTY', async () => {
+      process.env['NG_FORCE_TTY'] = 'false';
+      const command = createCommand([]);
+
+      await command.pickTargetInteractively();
+
+      expect(promptSpy).not.toHaveBeenCalled();
+      expect(command.makeTargetSpecifier()).toBeUndefined();
+    });
+
+    it('should not prompt when the CI environment variable is set', async () => {
+      delete process.env['NG_FORCE_TTY'];
+      const ci = process.env['CI'];
+      process.env['CI'] = 'true';
+      const command = createCommand(['app']);
+
+      try {
+        await command.pickTargetInteractively();
+      } finally {
+        if (ci === undefined) {
+          delete process.env['CI'];
+        } else {
+          process.env['CI'] = ci;
+        }
+      }
+
+      expect(promptSpy).not.toHaveBeenCalled();
+      expect(command.makeTargetSpecifier()).toEqual({
+        project: 'app',
+        target: '',
+        configuration: undefined,
+      });
+    });
+  });
+});
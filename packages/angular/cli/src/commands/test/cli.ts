@@ -16,6 +16,7 @@ export default class TestCommandModule
   implements CommandModuleImplementation
 {
   multiTarget = true;
+  override supportsAffected = true;
   command = 'test [project]';
   aliases = RootCommands['test'].aliases;
   describe = 'Runs unit tests in a project.';
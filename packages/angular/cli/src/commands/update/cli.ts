@@ -6,7 +6,12 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-import { SchematicDescription, UnsuccessfulWorkflowExecution } from '@angular-devkit/schematics';
+import { logging } from '@angular-devkit/core';
+import {
+  DryRunEvent,
+  SchematicDescription,
+  UnsuccessfulWorkflowExecution,
+} from '@angular-devkit/schematics';
 import {
   FileSystemCollectionDescription,
   FileSystemSchematicDescription,
@@ -49,6 +54,17 @@ import {
 import { askChoices } from '../../utilities/prompt';
 import { isTTY } from '../../utilities/tty';
 import { VERSION } from '../../utilities/version';
+import {
+  MIGRATION_JOURNAL_FILENAME,
+  MigrationJournal,
+  MigrationJournalRun,
+  createMigrationJournal,
+  deleteMigrationJournal,
+  getMigrationJournalKey,
+  readMigrationJournal,
+  writeMigrationJournal,
+} from './migration-journal';
+import type { PeerDependencyConflict, UpdatePlanResult } from './schematic';
 
 interface UpdateCommandArgs {
   packages?: string[];
@@ -61,6 +77,10 @@ interface UpdateCommandArgs {
   'allow-dirty': boolean;
   verbose: boolean;
   'create-commits': boolean;
+  'dry-run': boolean;
+  json?: boolean;
+  patch?: string;
+  continue?: boolean;
 }
 
 interface MigrationSchematicDescription
@@ -73,6 +93,27 @@ interface MigrationSchematicDescriptionWithVersion extends MigrationSchematicDes
   version: string;
 }
 
+/**
+ * The changes an update would make, which are reported when using the `dry-run` option.
+ */
+interface UpdatePlan {
+  success: boolean;
+  packages: { name: string; from: string; to: string }[];
+  peerDependencyConflicts: PeerDependencyConflict[];
+  migrations: UpdatePlanMigration[];
+}
+
+interface UpdatePlanMigration {
+  package: string;
+  name: string;
+  version?: string;
+  description: string;
+  optional: boolean;
+  success: boolean;
+  /** The files the migration would change. Paths are relative to the workspace root. */
+  changes: { kind: Exclude<DryRunEvent['kind'], 'error'>; path: string; to?: string }[];
+}
+
 const ANGULAR_PACKAGES_REGEXP = /^@(?:angular|nguniversal)\//;
 const UPDATE_SCHEMATIC_COLLECTION = path.join(__dirname, 'schematic/collection.json');
 
@@ -84,6 +125,14 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
   describe = 'Updates your workspace and its dependencies. See https://update.angular.io/.';
   longDescriptionPath = join(__dirname, 'long-description.md');
 
+  private logger: logging.Logger = this.context.logger;
+
+  /** The plan which is collected when using the `dry-run` option. */
+  private updatePlan?: UpdatePlan;
+
+  /** The progress of the migrations which are currently executed. */
+  private migrationJournal?: MigrationJournal;
+
   builder(localYargs: Argv): Argv<UpdateCommandArgs> {
     return localYargs
       .positional('packages', {
@@ -146,37 +195,91 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
         alias: ['C'],
         default: false,
       })
-      .check(({ packages, 'allow-dirty': allowDirty, 'migrate-only': migrateOnly }) => {
-        const { logger } = this.context;
-
-        // This allows the user to easily reset any changes from the update.
-        if (packages?.length && !this.checkCleanGit()) {
-          if (allowDirty) {
-            logger.warn(
-              'Repository is not clean. Update changes will be mixed with pre-existing changes.',
-            );
-          } else {
+      .option('dry-run', {
+        describe:
+          'Resolve the update and run the migrations without installing packages or writing files. ' +
+          'Reports the packages that would be updated and the changes of each migration.',
+        type: 'boolean',
+        alias: ['d'],
+        default: false,
+      })
+      .option('json', {
+        describe:
+          'Output the update plan as JSON to stdout. Only available with the `dry-run` option.',
+        type: 'boolean',
+        implies: ['dry-run'],
+      })
+      .option('patch', {
+        describe:
+          'Write the changes of the update and its migrations to a patch file in the unified diff ' +
+          'format. Only available with the `dry-run` option.',
+        type: 'string',
+        requiresArg: true,
+        implies: ['dry-run'],
+      })
+      .option('continue', {
+        describe:
+          'Resume the migrations of an update that did not complete. ' +
+          'Migrations which were already applied are skipped.',
+        type: 'boolean',
+      })
+      .check(
+        ({
+          packages,
+          'allow-dirty': allowDirty,
+          'migrate-only': migrateOnly,
+          'dry-run': dryRun,
+          continue: continueUpdate,
+        }) => {
+          const { logger } = this;
+
+          // This allows the user to easily reset any changes from the update.
+          // A dry run does not change the workspace.
+          if (packages?.length && !dryRun && !this.checkCleanGit()) {
+            if (allowDirty) {
+              logger.warn(
+                'Repository is not clean. Update changes will be mixed with pre-existing changes.',
+              );
+            } else {
+              throw new CommandModuleError(
+                'Repository is not clean. Please commit or stash any changes before updating.',
+              );
+            }
+          }
+
+          if (migrateOnly) {
+            if (packages?.length !== 1) {
+              throw new CommandModuleError(
+                `A single package must be specified when using the 'migrate-only' option.`,
+              );
+            }
+          }
+
+          if (continueUpdate && (packages?.length || migrateOnly || dryRun)) {
             throw new CommandModuleError(
-              'Repository is not clean. Please commit or stash any changes before updating.',
+              `The 'continue' option cannot be used with packages, 'migrate-only' or 'dry-run'.`,
             );
           }
-        }
 
-        if (migrateOnly) {
-          if (packages?.length !== 1) {
+          if (dryRun && !packages?.length) {
             throw new CommandModuleError(
-              `A single package must be specified when using the 'migrate-only' option.`,
+              `A package must be specified when using the 'dry-run' option.`,
             );
           }
-        }
 
-        return true;
-      })
+          return true;
+        },
+      )
       .strict();
   }
 
   async run(options: Options<UpdateCommandArgs>): Promise<number | void> {
-    const { logger, packageManager } = this.context;
+    const { packageManager } = this.context;
+    if (options.json) {
+      this.logger = createStderrLogger();
+    }
+
+    const { logger } = this;
 
     // Check if the current installed CLI version is older than the latest compatible version.
     // Skip when running `ng update` without a package name as this will not trigger an actual update.
@@ -247,8 +350,14 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
       resolvePaths: [__dirname, this.context.root],
       schemaValidation: true,
       engineHostCreator: (options) => new SchematicEngineHost(options.resolvePaths),
+      dryRun: options.dryRun,
+      patch: !!options.patch,
     });
 
+    if (options.continue) {
+      return this.continueMigrations(workflow, options.createCommits);
+    }
+
     if (packages.length === 0) {
       // Show status
       const { success } = await this.executeSchematic(
@@ -267,9 +376,34 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
       return success ? 0 : 1;
     }
 
-    return options.migrateOnly
-      ? this.migrateOnly(workflow, (options.packages ?? [])[0], rootDependencies, options)
-      : this.updatePackagesAndMigrate(workflow, rootDependencies, options, packages);
+    if (!options.dryRun) {
+      return options.migrateOnly
+        ? this.migrateOnly(workflow, (options.packages ?? [])[0], rootDependencies, options)
+        : this.updatePackagesAndMigrate(workflow, rootDependencies, options, packages);
+    }
+
+    this.updatePlan = { success: false, packages: [], peerDependencyConflicts: [], migrations: [] };
+    const result = options.migrateOnly
+      ? await this.migrateOnly(workflow, (options.packages ?? [])[0], rootDependencies, {
+          ...options,
+          createCommits: false,
+        })
+      : await this.updatePackagesAndMigrate(workflow, rootDependencies, options, packages);
+
+    this.updatePlan.success = !result;
+    this.reportUpdatePlan(this.updatePlan, options.json);
+
+    if (options.patch) {
+      // The executions of the update and its migrations build on each other with the `patch`
+      // option, so a single patch contains all of their changes.
+      const patch = await workflow.createPatch().toPromise();
+      await fs.writeFile(resolve(options.patch), patch ?? '');
+      if (!options.json) {
+        logger.info(`Changes written to patch file "${options.patch}".`);
+      }
+    }
+
+    return result;
   }
 
   private async executeSchematic(
@@ -278,7 +412,7 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
     schematic: string,
     options: Record<string, unknown> = {},
   ): Promise<{ success: boolean; files: Set<string> }> {
-    const { logger } = this.context;
+    const { logger } = this;
     const workflowSubscription = subscribeToWorkflow(workflow, logger);
 
     // TODO: Allow passing a schematic instance directly
@@ -321,7 +455,7 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
     migrationName: string,
     commit?: boolean,
   ): Promise<number> {
-    const { logger } = this.context;
+    const { logger } = this;
     const collection = workflow.engine.createCollection(collectionPath);
     const name = collection.listSchematicNames().find((name) => name === migrationName);
     if (!name) {
@@ -330,6 +464,12 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
       return 1;
     }
 
+    if (this.isMigrationCompleted(packageName, name)) {
+      logger.info(`Migration '${migrationName}' of package '${packageName}' was already applied.`);
+
+      return 0;
+    }
+
     logger.info(colors.cyan(`** Executing '${migrationName}' of package '${packageName}' **\n`));
     const schematic = workflow.engine.createSchematic(name, collection);
 
@@ -356,6 +496,10 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
     const optionalMigrations: MigrationSchematicDescriptionWithVersion[] = [];
 
     for (const name of collection.listSchematicNames()) {
+      if (this.isMigrationCompleted(packageName, name)) {
+        continue;
+      }
+
       const schematic = workflow.engine.createSchematic(name, collection);
       const description = schematic.description as MigrationSchematicDescription;
 
@@ -377,9 +521,7 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
 
     // Required migrations
     if (requiredMigrations.length) {
-      this.context.logger.info(
-        colors.cyan(`** Executing migrations of package '${packageName}' **\n`),
-      );
+      this.logger.info(colors.cyan(`** Executing migrations of package '${packageName}' **\n`));
 
       requiredMigrations.sort(
         (a, b) => semver.compare(a.version, b.version) || a.name.localeCompare(b.name),
@@ -399,17 +541,21 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
 
     // Optional migrations
     if (optionalMigrations.length) {
-      this.context.logger.info(
-        colors.magenta(`** Optional migrations of package '${packageName}' **\n`),
-      );
+      this.logger.info(colors.magenta(`** Optional migrations of package '${packageName}' **\n`));
 
       optionalMigrations.sort(
         (a, b) => semver.compare(a.version, b.version) || a.name.localeCompare(b.name),
       );
 
-      const migrationsToRun = await this.getOptionalMigrationsToRun(
-        optionalMigrations,
+      // A dry run reports all optional migrations as they would be selected interactively.
+      const migrationsToRun = this.updatePlan
+        ? optionalMigrations
+        : await this.getOptionalMigrationsToRun(optionalMigrations, packageName);
+
+      // Migrations which were not selected are not offered again when continuing the update.
+      await this.recordCompletedMigrations(
         packageName,
+        optionalMigrations.filter((migration) => !migrationsToRun?.includes(migration)),
       );
 
       if (migrationsToRun?.length) {
@@ -426,7 +572,7 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
     packageName: string,
     commit = false,
   ): Promise<1 | 0> {
-    const { logger } = this.context;
+    const { logger } = this;
     for (const migration of migrations) {
       const { title, description } = getMigrationTitleAndDescription(migration);
 
@@ -436,15 +582,40 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
         logger.info('  ' + description);
       }
 
+      const changes: UpdatePlanMigration['changes'] = [];
+      const reporterSubscription = workflow.reporter.subscribe((event) => {
+        if (event.kind !== 'error') {
+          changes.push({
+            kind: event.kind,
+            path: event.path.replace(/^\//, ''),
+            ...(event.kind === 'rename' ? { to: event.to.replace(/^\//, '') } : {}),
+          });
+        }
+      });
+
       const { success, files } = await this.executeSchematic(
         workflow,
         migration.collection.name,
         migration.name,
-      );
+      ).finally(() => reporterSubscription.unsubscribe());
+
+      this.updatePlan?.migrations.push({
+        package: packageName,
+        name: migration.name,
+        version: migration.version,
+        description: migration.description,
+        optional: !!migration.optional,
+        success,
+        changes,
+      });
+
       if (!success) {
         return 1;
       }
 
+      // Recorded before committing to not apply the migration again if committing fails.
+      await this.recordCompletedMigrations(packageName, [migration]);
+
       let modifiedFilesText: string;
       switch (files.size) {
         case 0:
@@ -485,7 +656,7 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
     rootDependencies: Map<string, PackageTreeNode>,
     options: Options<UpdateCommandArgs>,
   ): Promise<number | void> {
-    const { logger } = this.context;
+    const { logger } = this;
     const packageDependency = rootDependencies.get(packageName);
     let packagePath = packageDependency?.path;
     let packageNode = packageDependency?.package;
@@ -561,30 +732,28 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
       }
     }
 
+    const run: MigrationJournalRun = {
+      package: packageName,
+      collection: path.relative(this.context.root, migrations),
+    };
+
     if (options.name) {
-      return this.executeMigration(
-        workflow,
-        packageName,
-        migrations,
-        options.name,
-        options.createCommits,
-      );
-    }
+      run.name = options.name;
+    } else {
+      const from = coerceVersionNumber(options.from);
+      if (!from) {
+        logger.error(`"from" value [${options.from}] is not a valid version.`);
 
-    const from = coerceVersionNumber(options.from);
-    if (!from) {
-      logger.error(`"from" value [${options.from}] is not a valid version.`);
+        return 1;
+      }
 
-      return 1;
+      run.from = from;
+      run.to = options.to || packageNode.version;
     }
 
-    return this.executeMigrations(
+    return this.executeMigrationRuns(
       workflow,
-      packageName,
-      migrations,
-      from,
-      options.to || packageNode.version,
-      options.createCommits,
+      createMigrationJournal([run], options.createCommits),
     );
   }
 
@@ -595,7 +764,7 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
     options: Options<UpdateCommandArgs>,
     packages: PackageIdentifier[],
   ): Promise<number> {
-    const { logger } = this.context;
+    const { logger } = this;
 
     const logVerbose = (message: string) => {
       if (options.verbose) {
@@ -747,6 +916,10 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
       },
     );
 
+    if (this.updatePlan) {
+      return this.executeDryRunMigrations(workflow, this.updatePlan, success);
+    }
+
     if (success) {
       try {
         await fs.rm(path.join(this.context.root, 'node_modules'), {
@@ -783,6 +956,7 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
 
     if (success && migrations) {
       const rootRequire = createRequire(this.context.root + '/');
+      const runs: MigrationJournalRun[] = [];
       for (const migration of migrations) {
         // Resolve the package from the workspace root, as otherwise it will be resolved from the temp
         // installed CLI version.
@@ -822,54 +996,261 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
           return 1;
         }
 
-        let migrations;
-
-        // Check if it is a package-local location
-        const localMigrations = path.join(packagePath, migration.collection);
-        if (existsSync(localMigrations)) {
-          migrations = localMigrations;
-        } else {
-          // Try to resolve from package location.
-          // This avoids issues with package hoisting.
-          try {
-            const packageRequire = createRequire(packagePath + '/');
-            migrations = packageRequire.resolve(migration.collection);
-          } catch (e) {
-            assertIsError(e);
-            if (e.code === 'MODULE_NOT_FOUND') {
-              logger.error(`Migrations for package (${migration.package}) were not found.`);
-            } else {
-              logger.error(
-                `Unable to resolve migrations for package (${migration.package}).  [${e.message}]`,
-              );
-            }
-
-            return 1;
-          }
-        }
-        const result = await this.executeMigrations(
-          workflow,
+        const migrations = this.resolveMigrationsCollection(
           migration.package,
-          migrations,
-          migration.from,
-          migration.to,
-          options.createCommits,
+          packagePath,
+          migration.collection,
         );
-
-        // A non-zero value is a failure for the package's migrations
-        if (result !== 0) {
-          return result;
+        if (!migrations) {
+          return 1;
         }
+
+        runs.push({
+          package: migration.package,
+          collection: path.relative(this.context.root, migrations),
+          from: migration.from,
+          to: migration.to,
+        });
       }
+
+      return this.executeMigrationRuns(
+        workflow,
+        createMigrationJournal(runs, options.createCommits),
+      );
     }
 
     return success ? 0 : 1;
   }
+
+  /**
+   * Executes the migrations of an update and records their progress in a journal within the
+   * workspace. When a migration fails, the journal allows resuming the update with the `continue`
+   * option. The journal is deleted once all migrations are completed.
+   * @return Whether or not the migrations were performed successfully.
+   */
+  private async executeMigrationRuns(
+    workflow: NodeWorkflow,
+    journal: MigrationJournal,
+  ): Promise<number> {
+    const { root } = this.context;
+
+    // A dry run does not change the workspace, so its progress is not recorded.
+    if (!this.updatePlan) {
+      this.migrationJournal = journal;
+      await writeMigrationJournal(root, journal);
+    }
+
+    for (const run of journal.runs) {
+      const collection = path.resolve(root, run.collection);
+      const result = run.name
+        ? await this.executeMigration(
+            workflow,
+            run.package,
+            collection,
+            run.name,
+            journal.createCommits,
+          )
+        : await this.executeMigrations(
+            workflow,
+            run.package,
+            collection,
+            run.from ?? '',
+            run.to ?? '',
+            journal.createCommits,
+          );
+
+      // A non-zero value is a failure for the package's migrations
+      if (result !== 0) {
+        if (this.migrationJournal) {
+          this.logger.error(
+            `Once the failure is resolved, run 'ng update --continue' to resume the migrations.`,
+          );
+        }
+
+        return result;
+      }
+    }
+
+    if (this.migrationJournal) {
+      await deleteMigrationJournal(root);
+    }
+
+    return 0;
+  }
+
+  /**
+   * Resumes the migrations of an update using the journal of the workspace.
+   */
+  private async continueMigrations(
+    workflow: NodeWorkflow,
+    createCommits: boolean,
+  ): Promise<number> {
+    const { logger } = this;
+    const journal = await readMigrationJournal(this.context.root);
+    if (!journal) {
+      logger.error('There are no migrations of a previous update to continue.');
+
+      return 1;
+    }
+
+    // Commits are created when either the initial update or the resumed one requests them.
+    journal.createCommits ||= createCommits;
+
+    logger.info(
+      `Continuing the migrations of ${journal.runs.map((run) => run.package).join(', ')} ` +
+        `(${journal.completed.length} already completed)...\n`,
+    );
+
+    return this.executeMigrationRuns(workflow, journal);
+  }
+
+  private isMigrationCompleted(packageName: string, migrationName: string): boolean {
+    return !!this.migrationJournal?.completed.includes(
+      getMigrationJournalKey(packageName, migrationName),
+    );
+  }
+
+  private async recordCompletedMigrations(
+    packageName: string,
+    migrations: MigrationSchematicDescription[],
+  ): Promise<void> {
+    if (!this.migrationJournal || migrations.length === 0) {
+      return;
+    }
+
+    for (const { name } of migrations) {
+      this.migrationJournal.completed.push(getMigrationJournalKey(packageName, name));
+    }
+
+    await writeMigrationJournal(this.context.root, this.migrationJournal);
+  }
+  /**
+   * Resolves the migrations collection of a package.
+   * @returns The path of the collection or `undefined` when it cannot be resolved.
+   */
+  private resolveMigrationsCollection(
+    packageName: string,
+    packagePath: string,
+    collection: string,
+  ): string | undefined {
+    const { logger } = this;
+
+    // Check if it is a package-local location
+    const localMigrations = path.join(packagePath, collection);
+    if (existsSync(localMigrations)) {
+      return localMigrations;
+    }
+
+    // Try to resolve from package location.
+    // This avoids issues with package hoisting.
+    try {
+      const packageRequire = createRequire(packagePath + '/');
+
+      return packageRequire.resolve(collection);
+    } catch (e) {
+      assertIsError(e);
+      if (e.code === 'MODULE_NOT_FOUND') {
+        logger.error(`Migrations for package (${packageName}) were not found.`);
+      } else {
+        logger.error(`Unable to resolve migrations for package (${packageName}).  [${e.message}]`);
+      }
+
+      return undefined;
+    }
+  }
+
+  /**
+   * Adds the update set resolved by the update schematic to the plan and runs the migrations of
+   * the updated packages without writing to the workspace. As the new versions are not installed
+   * in the workspace, their migrations are loaded from a temporary installation.
+   */
+  private async executeDryRunMigrations(
+    workflow: NodeWorkflow,
+    updatePlan: UpdatePlan,
+    success: boolean,
+  ): Promise<number> {
+    // This is a temporary workaround to allow data to be passed back from the update schematic
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const result = (global as any).externalUpdatePlan as UpdatePlanResult | undefined;
+    if (result) {
+      updatePlan.packages = result.packages.map(({ name, from, to }) => ({ name, from, to }));
+      updatePlan.peerDependencyConflicts = result.peerDependencyConflicts;
+    }
+
+    if (!success || !result) {
+      return 1;
+    }
+
+    for (const { name, from, to, migrations } of result.packages) {
+      if (!migrations) {
+        continue;
+      }
+
+      this.logger.info(`Installing '${name}@${to}' temporarily to collect its migrations...`);
+      const { success: installed, tempNodeModules } = await this.context.packageManager.installTemp(
+        `${name}@${to}`,
+      );
+      if (!installed) {
+        return 1;
+      }
+
+      const collection = this.resolveMigrationsCollection(
+        name,
+        join(tempNodeModules, name),
+        migrations,
+      );
+      if (!collection) {
+        return 1;
+      }
+
+      const migrationResult = await this.executeMigrations(workflow, name, collection, from, to);
+      if (migrationResult !== 0) {
+        return migrationResult;
+      }
+    }
+
+    return 0;
+  }
+
+  private reportUpdatePlan(updatePlan: UpdatePlan, json = false): void {
+    if (json) {
+      process.stdout.write(JSON.stringify(updatePlan, undefined, 2) + '\n');
+
+      return;
+    }
+
+    const { logger } = this;
+    logger.info(colors.bold('Update plan:'));
+    for (const { name, from, to } of updatePlan.packages) {
+      logger.info(`  ${name} ${from} -> ${to}`);
+    }
+
+    for (const {
+      package: packageName,
+      peer,
+      requiredRange,
+      version,
+    } of updatePlan.peerDependencyConflicts) {
+      logger.warn(`  ${packageName} requires ${peer}@${requiredRange} (would install ${version}).`);
+    }
+
+    for (const migration of updatePlan.migrations) {
+      const { title } = getMigrationTitleAndDescription(migration);
+      const files = migration.changes.length === 1 ? 'file' : 'files';
+      logger.info(
+        `  ${migration.package} migration '${migration.name}' ` +
+          `(${migration.changes.length} ${files})${migration.success ? '' : ' failed'}: ${title}`,
+      );
+    }
+
+    logger.warn(`\nNOTE: The "--dry-run" option means no changes were made.`);
+  }
+
   /**
    * @return Whether or not the commit was successful.
    */
   private commit(message: string): boolean {
-    const { logger } = this.context;
+    const { logger } = this;
 
     // Check if a commit is needed.
     let commitNeeded: boolean;
@@ -951,10 +1332,10 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
   ): Promise<string | null> {
     const { version } = await fetchPackageManifest(
       `@angular/cli@${this.getCLIUpdateRunnerVersion(packagesToUpdate, next)}`,
-      this.context.logger,
+      this.logger,
       {
         verbose,
-        usingYarn: this.context.packageManager.name === PackageManager.Yarn,
+        packageManager: this.context.packageManager.name,
       },
     );
 
@@ -1054,9 +1435,7 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
       semver.gte(this.context.packageManager.version, '7.0.0')
     ) {
       if (verbose) {
-        this.context.logger.info(
-          'NPM 7+ detected -- enabling force option for package installation',
-        );
+        this.logger.info('NPM 7+ detected -- enabling force option for package installation');
       }
 
       return true;
@@ -1069,7 +1448,7 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
     optionalMigrations: MigrationSchematicDescription[],
     packageName: string,
   ): Promise<MigrationSchematicDescription[] | undefined> {
-    const { logger } = this.context;
+    const { logger } = this;
     const numberOfMigrations = optionalMigrations.length;
     logger.info(
       `This package has ${numberOfMigrations} optional migration${
@@ -1110,6 +1489,20 @@ export default class UpdateCommandModule extends CommandModule<UpdateCommandArgs
   }
 }
 
+/**
+ * Creates a logger which writes to stderr to keep stdout reserved for machine-readable output.
+ */
+function createStderrLogger(): logging.Logger {
+  const logger = new logging.Logger('update');
+  logger.subscribe((entry) => {
+    if (entry.level !== 'debug') {
+      process.stderr.write(entry.message + '\n');
+    }
+  });
+
+  return logger;
+}
+
 /**
  * @return Whether or not the working directory has Git changes to commit.
  */
@@ -1117,7 +1510,12 @@ function hasChangesToCommit(): boolean {
   // List all modified files not covered by .gitignore.
   // If any files are returned, then there must be something to commit.
 
-  return execSync('git ls-files -m -d -o --exclude-standard').toString() !== '';
+  // The migration journal is excluded as it only tracks the progress of the update.
+  return (
+    execSync(
+      `git ls-files -m -d -o --exclude-standard --exclude=${MIGRATION_JOURNAL_FILENAME}`,
+    ).toString() !== ''
+  );
 }
 
 /**
@@ -1126,8 +1524,11 @@ function hasChangesToCommit(): boolean {
  * @param message The commit message to use.
  */
 function createCommit(message: string) {
-  // Stage entire working tree for commit.
-  execSync('git add -A', { encoding: 'utf8', stdio: 'pipe' });
+  // Stage entire working tree for commit, except for the migration journal.
+  execSync(`git add -A -- ":(top)" ":(exclude,top)*${MIGRATION_JOURNAL_FILENAME}"`, {
+    encoding: 'utf8',
+    stdio: 'pipe',
+  });
 
   // Commit with the message passed via stdin to avoid bash escaping issues.
   execSync('git commit --no-verify -F -', { encoding: 'utf8', stdio: 'pipe', input: message });
@@ -1172,7 +1573,7 @@ function coerceVersionNumber(version: string | undefined): string | undefined {
   return semver.valid(version) ?? undefined;
 }
 
-function getMigrationTitleAndDescription(migration: MigrationSchematicDescription): {
+function getMigrationTitleAndDescription(migration: { description: string }): {
   title: string;
   description: string;
 } {
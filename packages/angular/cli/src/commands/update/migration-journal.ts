@@ -0,0 +1,87 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * The name of the journal file. It is unique to allow excluding it from the commits of updates.
+ */
+export const MIGRATION_JOURNAL_FILENAME = 'ng-update-journal.json';
+
+const MIGRATION_JOURNAL_VERSION = 1;
+
+/**
+ * The migrations of a package that are executed by an update.
+ */
+export interface MigrationJournalRun {
+  package: string;
+  /** The migrations collection, relative to the workspace root. */
+  collection: string;
+  /** The name of a single migration to execute. */
+  name?: string;
+  /** The version range of the migrations to execute. Only used when no name is set. */
+  from?: string;
+  to?: string;
+}
+
+/**
+ * The progress of the migrations of an update, which allows resuming them after a failure.
+ */
+export interface MigrationJournal {
+  version: number;
+  createCommits: boolean;
+  runs: MigrationJournalRun[];
+  /** The migrations which were applied or deliberately not selected, in `package:name` format. */
+  completed: string[];
+}
+
+export function getMigrationJournalPath(root: string): string {
+  return path.join(root, '.angular', MIGRATION_JOURNAL_FILENAME);
+}
+
+export function createMigrationJournal(
+  runs: MigrationJournalRun[],
+  createCommits: boolean,
+): MigrationJournal {
+  return { version: MIGRATION_JOURNAL_VERSION, createCommits, runs, completed: [] };
+}
+
+/**
+ * @returns The journal of the workspace or `undefined` when no update is in progress.
+ */
+export async function readMigrationJournal(root: string): Promise<MigrationJournal | undefined> {
+  const journalPath = getMigrationJournalPath(root);
+  if (!existsSync(journalPath)) {
+    return undefined;
+  }
+
+  const journal = JSON.parse(await fs.readFile(journalPath, 'utf-8')) as MigrationJournal;
+  if (journal.version !== MIGRATION_JOURNAL_VERSION || !Array.isArray(journal.runs)) {
+    throw new Error(`Migration journal '${journalPath}' is not supported by this version.`);
+  }
+
+  return journal;
+}
+
+export async function writeMigrationJournal(
+  root: string,
+  journal: MigrationJournal,
+): Promise<void> {
+  const journalPath = getMigrationJournalPath(root);
+  await fs.mkdir(path.dirname(journalPath), { recursive: true });
+  await fs.writeFile(journalPath, JSON.stringify(journal, undefined, 2) + '\n');
+}
+
+export async function deleteMigrationJournal(root: string): Promise<void> {
+  await fs.rm(getMigrationJournalPath(root), { force: true });
+}
+
+export function getMigrationJournalKey(packageName: string, migrationName: string): string {
+  return `${packageName}:${migrationName}`;
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import {
+  createMigrationJournal,
+  deleteMigrationJournal,
+  getMigrationJournalKey,
+  getMigrationJournalPath,
+  readMigrationJournal,
+  writeMigrationJournal,
+} from './migration-journal';
+
+describe('migration journal', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'angular-cli-migration-journal-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should be stored in the .angular directory of the workspace', () => {
+    expect(getMigrationJournalPath(root)).toBe(join(root, '.angular/ng-update-journal.json'));
+  });
+
+  it('should read a journal that was written', async () => {
+    const journal = createMigrationJournal(
+      [
+        { package: '@angular/core', collection: 'node_modules/@angular/core/migrations.json' },
+        {
+          package: '@angular/cli',
+          collection: 'node_modules/@schematics/angular/migrations/migration-collection.json',
+          from: '16.0.0',
+          to: '17.0.0',
+        },
+      ],
+      true,
+    );
+    journal.completed.push(getMigrationJournalKey('@angular/core', 'block-template-entities'));
+
+    await writeMigrationJournal(root, journal);
+
+    expect(await readMigrationJournal(root)).toEqual(journal);
+    expect(JSON.parse(readFileSync(getMigrationJournalPath(root), 'utf-8')).completed).toEqual([
+      '@angular/core:block-template-entities',
+    ]);
+  });
+
+  it('should return undefined when no update is in progress', async () => {
+    expect(await readMigrationJournal(root)).toBeUndefined();
+  });
+
+  it('should fail to read a journal of another version', async () => {
+    const journalPath = getMigrationJournalPath(root);
+    mkdirSync(dirname(journalPath), { recursive: true });
+    writeFileSync(
+      journalPath,
+      JSON.stringify({ ...createMigrationJournal([], false), version: 2 }),
+    );
+
+    await expectAsync(readMigrationJournal(root)).toBeRejectedWithError(
+      /is not supported by this version/,
+    );
+  });
+
+  it('should fail to read a journal without runs', async () => {
+    const journalPath = getMigrationJournalPath(root);
+    mkdirSync(dirname(journalPath), { recursive: true });
+    writeFileSync(journalPath, JSON.stringify({ version: 1, completed: [] }));
+
+    await expectAsync(readMigrationJournal(root)).toBeRejectedWithError(
+      /is not supported by this version/,
+    );
+  });
+
+  it('should delete the journal', async () => {
+    await writeMigrationJournal(root, createMigrationJournal([], false));
+    await deleteMigrationJournal(root);
+
+    expect(existsSync(getMigrationJournalPath(root))).toBeFalse();
+    // Deleting a journal which does not exist succeeds.
+    await expectAsync(deleteMigrationJournal(root)).toBeResolved();
+  });
+});
@@ -77,6 +77,37 @@ interface PackageInfo {
   packageJsonRange: string;
 }
 
+/**
+ * A package that would be updated.
+ */
+export interface UpdatePlanPackage {
+  name: string;
+  from: string;
+  to: string;
+  /** The migrations collection of the target version, relative to the package. */
+  migrations?: string;
+}
+
+/**
+ * An incompatible peer dependency found when validating the update.
+ */
+export interface PeerDependencyConflict {
+  /** The package which declares the peer dependency. */
+  package: string;
+  peer: string;
+  requiredRange: string;
+  /** The version of the peer dependency that would be installed. */
+  version: string;
+}
+
+/**
+ * The update set resolved by the schematic, which is used by `ng update --dry-run`.
+ */
+export interface UpdatePlanResult {
+  packages: UpdatePlanPackage[];
+  peerDependencyConflicts: PeerDependencyConflict[];
+}
+
 interface UpdateMetadata {
   packageGroupName?: string;
   packageGroup: { [packageName: string]: string };
@@ -115,6 +146,7 @@ function _validateForwardPeerDependencies(
   peersMeta: { [name: string]: { optional?: boolean } },
   logger: logging.LoggerApi,
   next: boolean,
+  conflicts: PeerDependencyConflict[],
 ): boolean {
   let validationFailed = false;
   for (const [peer, range] of Object.entries(peers)) {
@@ -148,6 +180,7 @@ function _validateForwardPeerDependencies(
           `would install ${JSON.stringify(peerVersion)})`,
         ].join(' '),
       );
+      conflicts.push({ package: name, peer, requiredRange: range, version: peerVersion });
 
       validationFailed = true;
       continue;
@@ -163,6 +196,7 @@ function _validateReversePeerDependencies(
   infoMap: Map<string, PackageInfo>,
   logger: logging.LoggerApi,
   next: boolean,
+  conflicts: PeerDependencyConflict[],
 ) {
   for (const [installed, installedInfo] of infoMap.entries()) {
     const installedLogger = logger.createChild(installed);
@@ -200,6 +234,7 @@ function _validateReversePeerDependencies(
             `would install ${JSON.stringify(version)}).`,
           ].join(' '),
         );
+        conflicts.push({ package: installed, peer: name, requiredRange: range, version });
 
         return true;
       }
@@ -223,6 +258,7 @@ function _validateUpdatePackages(
   });
 
   let peerErrors = false;
+  const peerDependencyConflicts: PeerDependencyConflict[] = [];
   infoMap.forEach((info) => {
     const { name, target } = info;
     if (!target) {
@@ -241,12 +277,40 @@ function _validateUpdatePackages(
         peerDependenciesMeta,
         pkgLogger,
         next,
+        peerDependencyConflicts,
       ) || peerErrors;
     peerErrors =
-      _validateReversePeerDependencies(name, target.version, infoMap, pkgLogger, next) ||
-      peerErrors;
+      _validateReversePeerDependencies(
+        name,
+        target.version,
+        infoMap,
+        pkgLogger,
+        next,
+        peerDependencyConflicts,
+      ) || peerErrors;
   });
 
+  const updatePlan: UpdatePlanResult = {
+    packages: [...infoMap.values()].flatMap(({ name, installed, target }) =>
+      target
+        ? [
+            {
+              name,
+              from: installed.version,
+              to: target.version,
+              migrations: target.updateMetadata.migrations,
+            },
+          ]
+        : [],
+    ),
+    peerDependencyConflicts,
+  };
+
+  // This is a temporary workaround to allow data to be passed back to the update command.
+  // It is set before failing on peer dependency errors so that they can be reported in dry runs.
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (global as any).externalUpdatePlan = updatePlan;
+
   if (!force && peerErrors) {
     throw new SchematicsException(tags.stripIndents`Incompatible peer dependencies found.
       Peer dependency warnings when installing dependencies means that those dependencies might not work correctly together.
@@ -698,11 +762,14 @@ function _addPackageGroup(
   }
   let packageGroupNormalized: Record<string, string> = {};
   if (Array.isArray(packageGroup) && !packageGroup.some((x) => typeof x != 'string')) {
-    packageGroupNormalized = packageGroup.reduce((acc, curr) => {
-      acc[curr] = maybePackage;
+    packageGroupNormalized = packageGroup.reduce(
+      (acc, curr) => {
+        acc[curr] = maybePackage;
 
-      return acc;
-    }, {} as { [name: string]: string });
+        return acc;
+      },
+      {} as { [name: string]: string },
+    );
   } else if (
     typeof packageGroup == 'object' &&
     packageGroup &&
@@ -848,7 +915,6 @@ export default function (options: UpdateSchema): Rule {
 
   options.from = _formatVersion(options.from);
   options.to = _formatVersion(options.to);
-  const usingYarn = options.packageManager === 'yarn';
 
   return async (tree: Tree, context: SchematicContext) => {
     const logger = context.logger;
@@ -871,7 +937,7 @@ export default function (options: UpdateSchema): Rule {
       Array.from(npmDeps.keys()).map((depName) =>
         getNpmPackageJson(depName, logger, {
           registry: options.registry,
-          usingYarn,
+          packageManager: options.packageManager,
           verbose: options.verbose,
         }),
       ),
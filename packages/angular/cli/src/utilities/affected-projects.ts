@@ -0,0 +1,406 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { execFileSync } from 'child_process';
+import { existsSync } from 'fs';
+import { readFile, readdir } from 'fs/promises';
+import { createRequire } from 'module';
+import { basename, dirname, isAbsolute, join, posix, relative, resolve, sep } from 'path';
+import { AngularWorkspace } from './config';
+import { assertIsError } from './error';
+import { readAndParseJson } from './json-file';
+
+/**
+ * Workspace files outside of project roots which affect every project when changed.
+ */
+const GLOBAL_FILES = new Set([
+  'angular.json',
+  '.angular.json',
+  'package.json',
+  'package-lock.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+]);
+
+const IMPORT_SPECIFIER_REGEXP =
+  /(?:\bfrom\s*|\bimport\s*\(\s*|\bimport\s+|\brequire\s*\(\s*)['"]([^'"\n]+)['"]/g;
+
+const SOURCE_FILE_REGEXP = /\.[cm]?[jt]sx?$/;
+
+interface TsconfigPathOptions {
+  paths?: Record<string, string[]>;
+  /** The absolute path of the `baseUrl` option. */
+  baseUrl?: string;
+  /** The absolute directory of the configuration that defines the `paths` option. */
+  pathsBasePath?: string;
+}
+
+interface PathMapping {
+  /** The alias prefix, i.e. the mapping key without a trailing `*`. */
+  prefix: string;
+  /** Whether the mapping ends with a wildcard. */
+  wildcard: boolean;
+  /** The projects the mapping resolves to. */
+  projects: Set<string>;
+}
+
+/**
+ * Determines the projects affected by the changes between a Git reference and the working tree.
+ *
+ * A project is affected when a file within its root changed or when it imports an affected project
+ * through a TypeScript path mapping of the workspace `tsconfig.json`.
+ * Changes to workspace wide files such as `package.json` or root TypeScript configurations affect all projects.
+ * @param workspace The workspace to analyze.
+ * @param base The Git reference to compare against.
+ * @returns The names of the affected projects.
+ */
+export async function getAffectedProjects(
+  workspace: AngularWorkspace,
+  base: string,
+): Promise<Set<string>> {
+  const projectRoots = getProjectRoots(workspace);
+  const affected = new Set<string>();
+
+  for (const file of getChangedFiles(workspace.basePath, base)) {
+    const project = findProjectForFile(file, projectRoots);
+    if (project !== undefined) {
+      affected.add(project);
+    } else if (isGlobalFile(file)) {
+      return new Set(workspace.projects.keys());
+    }
+  }
+
+  if (affected.size === 0) {
+    return affected;
+  }
+
+  const dependents = await getProjectDependents(workspace, projectRoots);
+  const pending = [...affected];
+  let project;
+  while ((project = pending.pop()) !== undefined) {
+    for (const dependent of dependents.get(project) ?? []) {
+      if (!affected.has(dependent)) {
+        affected.add(dependent);
+        pending.push(dependent);
+      }
+    }
+  }
+
+  return affected;
+}
+
+/**
+ * @returns The committed, uncommitted and untracked files changed since the Git reference
+ * as POSIX paths relative to the workspace root.
+ */
+function getChangedFiles(root: string, base: string): string[] {
+  const git = (args: string[]) =>
+    execFileSync('git', args, { cwd: root, encoding: 'utf8', stdio: 'pipe' })
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+  try {
+    const mergeBase = git(['merge-base', base, 'HEAD'])[0];
+
+    return [
+      ...git(['diff', '--name-only', '--relative', mergeBase]),
+      ...git(['ls-files', '--others', '--exclude-standard']),
+    ];
+  } catch (e) {
+    assertIsError(e);
+    const stderr = (e as Error & { stderr?: string }).stderr?.trim();
+
+    throw new Error(
+      `Unable to determine the files changed since "${base}". ` +
+        `Ensure the workspace is a Git repository and that "${base}" is a valid reference.` +
+        (stderr ? `\n${stderr}` : ''),
+    );
+  }
+}
+
+function getProjectRoots(workspace: AngularWorkspace): Map<string, string> {
+  const projectRoots = new Map<string, string>();
+  for (const [name, project] of workspace.projects) {
+    projectRoots.set(name, normalizeRelativePath(project.root));
+  }
+
+  return projectRoots;
+}
+
+function getProjectSourceRoots(workspace: AngularWorkspace): Map<string, string> {
+  const sourceRoots = new Map<string, string>();
+  for (const [name, project] of workspace.projects) {
+    sourceRoots.set(name, normalizeRelativePath(project.sourceRoot ?? project.root));
+  }
+
+  return sourceRoots;
+}
+
+/**
+ * @returns The name of the project with the most specific root containing the file.
+ */
+function findProjectForFile(file: string, projectRoots: Map<string, string>): string | undefined {
+  let result: string | undefined;
+  let resultRootLength = -1;
+
+  for (const [name, root] of projectRoots) {
+    if (root.length > resultRootLength && isWithinRoot(file, root)) {
+      // A project in the workspace root only owns files which are not workspace wide files.
+      if (root === '' && isGlobalFile(file)) {
+        continue;
+      }
+
+      result = name;
+      resultRootLength = root.length;
+    }
+  }
+
+  return result;
+}
+
+function isGlobalFile(file: string): boolean {
+  return (
+    GLOBAL_FILES.has(file) ||
+    (!file.includes('/') && file.startsWith('tsconfig') && file.endsWith('.json'))
+  );
+}
+
+/**
+ * Builds a map of each project to the projects importing it through TypeScript path mappings.
+ */
+async function getProjectDependents(
+  workspace: AngularWorkspace,
+  projectRoots: Map<string, string>,
+): Promise<Map<string, Set<string>>> {
+  const dependents = new Map<string, Set<string>>();
+  const pathMappings = getPathMappings(workspace.basePath, projectRoots);
+  if (pathMappings.length === 0) {
+    return dependents;
+  }
+
+  const otherRoots = (root: string) =>
+    [...projectRoots.values()].filter((other) => other !== root && isWithinRoot(other, root));
+
+  for (const [name, sourceRoot] of getProjectSourceRoots(workspace)) {
+    // Nested projects are analyzed separately.
+    const excludedDirectories = otherRoots(sourceRoot).map((other) =>
+      join(workspace.basePath, other),
+    );
+    const specifiers = await collectImportSpecifiers(
+      join(workspace.basePath, sourceRoot),
+      new Set(excludedDirectories),
+    );
+
+    for (const specifier of specifiers) {
+      for (const dependency of resolvePathMapping(specifier, pathMappings)) {
+        if (dependency === name) {
+          continue;
+        }
+
+        let projectDependents = dependents.get(dependency);
+        if (!projectDependents) {
+          projectDependents = new Set();
+          dependents.set(dependency, projectDependents);
+        }
+        projectDependents.add(name);
+      }
+    }
+  }
+
+  return dependents;
+}
+
+/**
+ * Reads the path mappings of the workspace `tsconfig.json`, including the configurations it extends,
+ * and resolves their targets to projects.
+ * Targets within a project root resolve to that project. Other targets, such as the output of a
+ * library in `dist`, resolve to the project whose name matches the last segment of the target.
+ */
+function getPathMappings(root: string, projectRoots: Map<string, string>): PathMapping[] {
+  const tsconfigPath = join(root, 'tsconfig.json');
+  if (!existsSync(tsconfigPath)) {
+    return [];
+  }
+
+  const { paths, baseUrl: baseUrlPath, pathsBasePath } = readTsconfigPathOptions(tsconfigPath);
+  if (!paths) {
+    return [];
+  }
+
+  const baseUrl = normalizeRelativePath(relative(root, baseUrlPath ?? pathsBasePath ?? root));
+  const mappings: PathMapping[] = [];
+
+  for (const [alias, targets] of Object.entries(paths)) {
+    const projects = new Set<string>();
+
+    for (const target of targets) {
+      const targetPath = normalizeRelativePath(
+        posix.join(baseUrl, target.replace(/\*.*$/, '')).replace(/\/$/, ''),
+      );
+      const owner = findProjectForFile(targetPath, projectRoots);
+      const project =
+        owner !== undefined && projectRoots.get(owner) !== ''
+          ? owner
+          : projectRoots.has(basename(targetPath))
+          ? basename(targetPath)
+          : owner;
+
+      if (project !== undefined) {
+        projects.add(project);
+      }
+    }
+
+    if (projects.size) {
+      const wildcard = alias.endsWith('*');
+      mappings.push({ prefix: wildcard ? alias.slice(0, -1) : alias, wildcard, projects });
+    }
+  }
+
+  return mappings;
+}
+
+/**
+ * Reads the `paths` compiler option of a TypeScript configuration following its `extends` chain.
+ * As with TypeScript, mapping targets are relative to the `baseUrl` if set and otherwise relative to
+ * the configuration that defines the `paths` option.
+ */
+function readTsconfigPathOptions(
+  tsconfigPath: string,
+  visited = new Set<string>(),
+): TsconfigPathOptions {
+  if (visited.has(tsconfigPath)) {
+    return {};
+  }
+  visited.add(tsconfigPath);
+
+  const config = readAndParseJson(tsconfigPath) ?? {};
+  const directory = dirname(tsconfigPath);
+  let options: TsconfigPathOptions = {};
+
+  const extendedConfigs: unknown[] = Array.isArray(config.extends)
+    ? config.extends
+    : [config.extends];
+  for (const extendedConfig of extendedConfigs) {
+    if (typeof extendedConfig !== 'string') {
+      continue;
+    }
+
+    const extendedPath = resolveExtendedTsconfig(extendedConfig, directory);
+    if (extendedPath) {
+      options = { ...options, ...readTsconfigPathOptions(extendedPath, visited) };
+    }
+  }
+
+  const { baseUrl, paths } = config.compilerOptions ?? {};
+  if (paths) {
+    options = { ...options, paths, pathsBasePath: directory };
+  }
+  if (typeof baseUrl === 'string') {
+    options = { ...options, baseUrl: resolve(directory, baseUrl) };
+  }
+
+  return options;
+}
+
+/**
+ * @returns The path of an extended TypeScript configuration or `undefined` if it cannot be found.
+ */
+function resolveExtendedTsconfig(extendedConfig: string, directory: string): string | undefined {
+  if (extendedConfig.startsWith('.') || isAbsolute(extendedConfig)) {
+    const extendedPath = resolve(directory, extendedConfig);
+    if (existsSync(extendedPath)) {
+      return extendedPath;
+    }
+
+    return existsSync(extendedPath + '.json') ? extendedPath + '.json' : undefined;
+  }
+
+  // Configurations of packages such as `@tsconfig/strictest/tsconfig.json` or `@tsconfig/node18`.
+  const directoryRequire = createRequire(join(directory, 'tsconfig.json'));
+  for (const request of [extendedConfig, `${extendedConfig}/tsconfig.json`]) {
+    try {
+      return directoryRequire.resolve(request);
+    } catch {
+      // Try the next possible location of the configuration.
+    }
+  }
+
+  return undefined;
+}
+
+function resolvePathMapping(specifier: string, pathMappings: PathMapping[]): Set<string> {
+  for (const { prefix, wildcard, projects } of pathMappings) {
+    if (
+      specifier === prefix ||
+      (wildcard && specifier.startsWith(prefix)) ||
+      // Secondary entry-points of a mapped library such as `my-lib/testing`.
+      (!wildcard && specifier.startsWith(prefix + '/'))
+    ) {
+      return projects;
+    }
+  }
+
+  return new Set();
+}
+
+async function collectImportSpecifiers(
+  directory: string,
+  excludedDirectories: Set<string>,
+  specifiers = new Set<string>(),
+): Promise<Set<string>> {
+  let entries;
+  try {
+    entries = await readdir(directory, { withFileTypes: true });
+  } catch (e) {
+    assertIsError(e);
+    if (e.code === 'ENOENT') {
+      return specifiers;
+    }
+
+    throw e;
+  }
+
+  for (const entry of entries) {
+    const entryPath = join(directory, entry.name);
+
+    if (entry.isDirectory()) {
+      if (
+        entry.name === 'node_modules' ||
+        entry.name.startsWith('.') ||
+        excludedDirectories.has(entryPath)
+      ) {
+        continue;
+      }
+
+      await collectImportSpecifiers(entryPath, excludedDirectories, specifiers);
+    } else if (
+      entry.isFile() &&
+      SOURCE_FILE_REGEXP.test(entry.name) &&
+      !entry.name.endsWith('.d.ts')
+    ) {
+      const content = await readFile(entryPath, 'utf-8');
+      for (const [, specifier] of content.matchAll(IMPORT_SPECIFIER_REGEXP)) {
+        specifiers.add(specifier);
+      }
+    }
+  }
+
+  return specifiers;
+}
+
+function isWithinRoot(file: string, root: string): boolean {
+  return root === '' || file === root || file.startsWith(root + '/');
+}
+
+function normalizeRelativePath(path: string): string {
+  const normalized = posix.normalize(path.split(sep).join('/')).replace(/\/$/, '');
+
+  return normalized === '.' ? '' : normalized.replace(/^\.\//, '');
+}
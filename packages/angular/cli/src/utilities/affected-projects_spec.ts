@@ -0,0 +1,180 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { getAffectedProjects } from './affected-projects';
+import { AngularWorkspace } from './config';
+
+describe('getAffectedProjects', () => {
+  let root: string;
+  let workspace: AngularWorkspace;
+
+  function writeFile(path: string, content: string): void {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), content);
+  }
+
+  function git(...args: string[]): string {
+    return execFileSync(
+      'git',
+      ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+      { cwd: root, encoding: 'utf8', stdio: 'pipe' },
+    ).trim();
+  }
+
+  function createWorkspace(projects: Record<string, { root: string; sourceRoot?: string }>): void {
+    workspace = {
+      basePath: root,
+      projects: new Map(Object.entries(projects)),
+    } as unknown as AngularWorkspace;
+  }
+
+  async function getAffected(base = 'HEAD'): Promise<string[]> {
+    return [...(await getAffectedProjects(workspace, base))].sort();
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'angular-cli-affected-'));
+
+    writeFile('package.json', '{}');
+    writeFile('tsconfig.base.json', JSON.stringify({ compilerOptions: { paths: {} } }));
+    writeFile('projects/app/src/main.ts', `import { lib } from 'lib';\n`);
+    writeFile('projects/admin/src/main.ts', `import { ui } from '@org/ui';\n`);
+    writeFile('projects/lib/src/public-api.ts', `export const lib = 1;\n`);
+    writeFile(
+      'projects/ui/src/public-api.ts',
+      `import { lib } from 'lib';\nexport const ui = 1;\n`,
+    );
+    writeFile('projects/other/src/main.ts', `export const other = 1;\n`);
+    writeFile(
+      'tsconfig.json',
+      `/* Workspace configuration */\n` +
+        JSON.stringify({
+          extends: './tsconfig.base.json',
+          compilerOptions: {
+            paths: {
+              'lib': ['./dist/lib'],
+              '@org/ui': ['projects/ui/src/public-api.ts'],
+            },
+          },
+        }),
+    );
+
+    createWorkspace({
+      app: { root: 'projects/app', sourceRoot: 'projects/app/src' },
+      admin: { root: 'projects/admin', sourceRoot: 'projects/admin/src' },
+      lib: { root: 'projects/lib', sourceRoot: 'projects/lib/src' },
+      ui: { root: 'projects/ui', sourceRoot: 'projects/ui/src' },
+      other: { root: 'projects/other', sourceRoot: 'projects/other/src' },
+    });
+
+    git('init', '--quiet');
+    git('add', '-A');
+    git('commit', '--quiet', '-m', 'initial');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should return no projects without changes', async () => {
+    expect(await getAffected()).toEqual([]);
+  });
+
+  it('should include projects with uncommitted and untracked changes', async () => {
+    writeFile('projects/other/src/main.ts', `export const other = 2;\n`);
+    writeFile('projects/admin/src/new-file.ts', `export const value = 1;\n`);
+
+    expect(await getAffected()).toEqual(['admin', 'other']);
+  });
+
+  it('should include projects with changes committed since the merge base', async () => {
+    const base = git('rev-parse', 'HEAD');
+    git('checkout', '--quiet', '-b', 'feature');
+    writeFile('projects/other/src/main.ts', `export const other = 2;\n`);
+    git('commit', '--quiet', '-am', 'change');
+
+    expect(await getAffected(base)).toEqual(['other']);
+  });
+
+  it('should ignore untracked files that are ignored by Git', async () => {
+    writeFile('.gitignore', 'dist/\n');
+    git('add', '.gitignore');
+    git('commit', '--quiet', '-m', 'ignore');
+    writeFile('dist/other/main.js', '');
+
+    expect(await getAffected()).toEqual([]);
+  });
+
+  it('should include the dependents of changed projects transitively through path mappings', async () => {
+    writeFile('projects/lib/src/public-api.ts', `export const lib = 2;\n`);
+
+    expect(await getAffected()).toEqual(['admin', 'app', 'lib', 'ui']);
+  });
+
+  it('should resolve path mappings of extended TypeScript configurations', async () => {
+    // Targets are relative to the extended configuration which defines the mappings.
+    writeFile(
+      'configs/tsconfig.base.json',
+      JSON.stringify({ compilerOptions: { paths: { 'ui': ['../projects/ui/src'] } } }),
+    );
+    writeFile('tsconfig.json', JSON.stringify({ extends: './configs/tsconfig.base' }));
+    writeFile('projects/other/src/main.ts', `import { ui } from 'ui/button';\n`);
+    git('add', '-A');
+    git('commit', '--quiet', '-m', 'mappings');
+    writeFile('projects/ui/src/public-api.ts', `export const ui = 2;\n`);
+
+    expect(await getAffected()).toEqual(['other', 'ui']);
+  });
+
+  it('should resolve path mappings relative to the base URL of extended configurations', async () => {
+    writeFile(
+      'configs/tsconfig.base.json',
+      JSON.stringify({ compilerOptions: { baseUrl: '../projects' } }),
+    );
+    writeFile(
+      'tsconfig.json',
+      JSON.stringify({
+        extends: ['./configs/tsconfig.base.json'],
+        compilerOptions: { paths: { 'ui': ['ui/src'] } },
+      }),
+    );
+    writeFile('projects/other/src/main.ts', `import { ui } from 'ui';\n`);
+    git('add', '-A');
+    git('commit', '--quiet', '-m', 'mappings');
+    writeFile('projects/ui/src/public-api.ts', `export const ui = 2;\n`);
+
+    expect(await getAffected()).toEqual(['other', 'ui']);
+  });
+
+  it('should include all projects when a workspace wide file changes', async () => {
+    writeFile('package.json', '{ "name": "workspace" }');
+
+    expect(await getAffected()).toEqual(['admin', 'app', 'lib', 'other', 'ui']);
+  });
+
+  it('should assign files to the project with the most specific root', async () => {
+    createWorkspace({
+      root: { root: '', sourceRoot: 'src' },
+      other: { root: 'projects/other' },
+    });
+    writeFile('projects/other/src/main.ts', `export const other = 2;\n`);
+    writeFile('src/main.ts', '');
+
+    expect(await getAffected()).toEqual(['other', 'root']);
+  });
+
+  it('should fail with a clear error for an unknown Git reference', async () => {
+    await expectAsync(getAffectedProjects(workspace, 'unknown-ref')).toBeRejectedWithError(
+      /Unable to determine the files changed since "unknown-ref"/,
+    );
+  });
+});
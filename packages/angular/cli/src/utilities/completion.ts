@@ -12,7 +12,7 @@ import { promises as fs } from 'fs';
 import * as path from 'path';
 import { env } from 'process';
 import { colors } from '../utilities/color';
-import { getWorkspace } from '../utilities/config';
+import { AngularWorkspace, getWorkspace } from '../utilities/config';
 import { forceAutocomplete } from '../utilities/environment-options';
 import { isTTY } from '../utilities/tty';
 import { assertIsError } from './error';
@@ -310,3 +310,28 @@ export function hasGlobalCliInstall(): Promise<boolean> {
     });
   });
 }
+
+/**
+ * Lists the Architect targets of a workspace in the `project:target[:configuration]` format used
+ * by `ng run`. Colons are escaped by Yargs when generating the completions of the shell.
+ * @returns a sorted list of target specifiers to be used for auto completion.
+ */
+export function getTargetSpecifierCompletions(workspace: AngularWorkspace): string[] {
+  const targets: string[] = [];
+  for (const [projectName, project] of workspace.projects) {
+    for (const [targetName, target] of project.targets) {
+      const currentTarget = `${projectName}:${targetName}`;
+      targets.push(currentTarget);
+
+      if (!target.configurations) {
+        continue;
+      }
+
+      for (const configName of Object.keys(target.configurations)) {
+        targets.push(`${currentTarget}:${configName}`);
+      }
+    }
+  }
+
+  return targets.sort();
+}
@@ -10,7 +10,8 @@ import { isJsonObject, json } from '@angular-devkit/core';
 import { execSync, spawn } from 'child_process';
 import { existsSync, promises as fs, realpathSync, rmSync } from 'fs';
 import { tmpdir } from 'os';
-import { join } from 'path';
+import { isAbsolute, join, resolve } from 'path';
+import { major, valid } from 'semver';
 import { PackageManager } from '../../lib/config/workspace-schema';
 import { AngularWorkspace, getProjectByCwd } from './config';
 import { memoize } from './memoize';
@@ -20,8 +21,8 @@ interface PackageManagerOptions {
   saveDev: string;
   install: string;
   installAll?: string;
-  prefix: string;
-  noLockfile: string;
+  prefix?: string;
+  noLockfile?: string;
 }
 
 export interface PackageManagerUtilsContext {
@@ -35,7 +36,7 @@ export class PackageManagerUtils {
 
   /** Get the package manager name. */
   get name(): PackageManager {
-    return this.getName();
+    return this.getName(this.context.root);
   }
 
   /** Get the package manager version. */
@@ -43,6 +44,14 @@ export class PackageManagerUtils {
     return this.getVersion(this.name);
   }
 
+  /**
+   * Whether the package manager is Yarn 2 or later.
+   * These versions differ from Yarn 1 in their options and configuration files and can use Plug'n'Play.
+   */
+  get isModernYarn(): boolean {
+    return this.getIsModernYarn(this.context.root);
+  }
+
   /** Install a single package. */
   async install(
     packageName: string,
@@ -107,16 +116,44 @@ export class PackageManagerUtils {
       }),
     );
 
+    // Registry and authentication settings of the workspace also apply to temporary packages.
+    for (const configFile of ['.npmrc', '.yarnrc', 'bunfig.toml']) {
+      const configPath = join(this.context.root, configFile);
+      if (existsSync(configPath)) {
+        let content = await fs.readFile(configPath, 'utf-8');
+        if (configFile === '.npmrc') {
+          content = resolveNpmrcPaths(content, this.context.root);
+        }
+
+        await fs.writeFile(join(tempPath, configFile), content);
+      }
+    }
+
+    if (this.isModernYarn) {
+      // An empty lockfile makes the directory a separate project instead of a part of an enclosing project.
+      // Plug'n'Play is disabled as the temporary packages are resolved from the `node_modules` directory.
+      let yarnrc = '';
+      const yarnrcPath = join(this.context.root, '.yarnrc.yml');
+      if (existsSync(yarnrcPath)) {
+        yarnrc = createTemporaryYarnrc(await fs.readFile(yarnrcPath, 'utf-8'), this.context.root);
+      }
+
+      await fs.writeFile(join(tempPath, 'yarn.lock'), '');
+      await fs.writeFile(join(tempPath, '.yarnrc.yml'), `${yarnrc}\nnodeLinker: node-modules\n`);
+    }
+
     // setup prefix/global modules path
     const packageManagerArgs = this.getArguments();
     const tempNodeModules = join(tempPath, 'node_modules');
-    // Yarn will not append 'node_modules' to the path
-    const prefixPath = this.name === PackageManager.Yarn ? tempNodeModules : tempPath;
-    const installArgs: string[] = [
-      ...(extraArgs ?? []),
-      `${packageManagerArgs.prefix}="${prefixPath}"`,
-      packageManagerArgs.noLockfile,
-    ];
+    const installArgs: string[] = [...(extraArgs ?? [])];
+    if (packageManagerArgs.prefix) {
+      // Yarn will not append 'node_modules' to the path
+      const prefixPath = this.name === PackageManager.Yarn ? tempNodeModules : tempPath;
+      installArgs.push(`${packageManagerArgs.prefix}="${prefixPath}"`);
+    }
+    if (packageManagerArgs.noLockfile) {
+      installArgs.push(packageManagerArgs.noLockfile);
+    }
 
     return {
       success: await this.install(packageName, true, installArgs, tempPath),
@@ -127,6 +164,15 @@ export class PackageManagerUtils {
   private getArguments(): PackageManagerOptions {
     switch (this.name) {
       case PackageManager.Yarn:
+        if (this.isModernYarn) {
+          // Yarn 2+ has neither an option to change the modules folder nor to skip the lockfile.
+          return {
+            saveDev: '--dev',
+            install: 'add',
+            installAll: 'install',
+          };
+        }
+
         return {
           saveDev: '--dev',
           install: 'add',
@@ -141,6 +187,14 @@ export class PackageManagerUtils {
           prefix: '--prefix',
           noLockfile: '--no-lockfile',
         };
+      case PackageManager.Bun:
+        // Bun installs packages in the `node_modules` directory of the current working directory.
+        return {
+          saveDev: '--dev',
+          install: 'add',
+          installAll: 'install',
+          noLockfile: '--no-save',
+        };
       default:
         return {
           saveDev: '--save-dev',
@@ -161,6 +215,21 @@ export class PackageManagerUtils {
     const spinner = new Spinner();
     spinner.start('Installing packages...');
 
+    const env = { ...process.env };
+    if (this.isModernYarn) {
+      // Yarn 2+ enables immutable installs on CI by default which prevents any change to the lockfile.
+      env['YARN_ENABLE_IMMUTABLE_INSTALLS'] = 'false';
+
+      // Yarn 2+ does not support the `--registry` option.
+      const registryArgIndex = args.findIndex((arg) => arg.startsWith('--registry='));
+      if (registryArgIndex !== -1) {
+        env['YARN_NPM_REGISTRY_SERVER'] = args[registryArgIndex]
+          .slice('--registry='.length)
+          .replace(/^"(.*)"$/, '$1');
+        args = args.filter((_, index) => index !== registryArgIndex);
+      }
+    }
+
     return new Promise((resolve) => {
       const bufferedOutput: { stream: NodeJS.WriteStream; data: Buffer }[] = [];
 
@@ -169,6 +238,7 @@ export class PackageManagerUtils {
         stdio: silent ? ['ignore', 'ignore', 'pipe'] : 'pipe',
         shell: true,
         cwd,
+        env,
       }).on('close', (code: number) => {
         if (code === 0) {
           spinner.succeed('Packages successfully installed.');
@@ -208,16 +278,34 @@ export class PackageManagerUtils {
     }
   }
 
+  // The root is a parameter as the results of memoized methods are shared between instances.
   @memoize
-  private getName(): PackageManager {
+  private getIsModernYarn(root: string): boolean {
+    if (this.name !== PackageManager.Yarn) {
+      return false;
+    }
+
+    // PERF NOTE: Only spawn the package manager when the workspace has no Yarn 2+ configuration file.
+    if (existsSync(join(root, '.yarnrc.yml'))) {
+      return true;
+    }
+
+    const version = this.getVersion(PackageManager.Yarn);
+
+    return !!version && !!valid(version) && major(version) >= 2;
+  }
+
+  @memoize
+  private getName(root: string): PackageManager {
     const packageManager = this.getConfiguredPackageManager();
     if (packageManager) {
       return packageManager;
     }
 
-    const hasNpmLock = this.hasLockfile(PackageManager.Npm);
-    const hasYarnLock = this.hasLockfile(PackageManager.Yarn);
-    const hasPnpmLock = this.hasLockfile(PackageManager.Pnpm);
+    const hasNpmLock = this.hasLockfile(PackageManager.Npm, root);
+    const hasYarnLock = this.hasLockfile(PackageManager.Yarn, root);
+    const hasPnpmLock = this.hasLockfile(PackageManager.Pnpm, root);
+    const hasBunLock = this.hasLockfile(PackageManager.Bun, root);
 
     // PERF NOTE: `this.getVersion` spawns the package a the child_process which can take around ~300ms at times.
     // Therefore, we should only call this method when needed. IE: don't call `this.getVersion(PackageManager.Pnpm)` unless truly needed.
@@ -225,7 +313,7 @@ export class PackageManagerUtils {
 
     if (hasNpmLock) {
       // Has NPM lock file.
-      if (!hasYarnLock && !hasPnpmLock && this.getVersion(PackageManager.Npm)) {
+      if (!hasYarnLock && !hasPnpmLock && !hasBunLock && this.getVersion(PackageManager.Npm)) {
         // Only NPM lock file and NPM binary is available.
         return PackageManager.Npm;
       }
@@ -237,6 +325,9 @@ export class PackageManagerUtils {
       } else if (hasPnpmLock && this.getVersion(PackageManager.Pnpm)) {
         // PNPM lock file and PNPM binary is available.
         return PackageManager.Pnpm;
+      } else if (hasBunLock && this.getVersion(PackageManager.Bun)) {
+        // Bun lock file and Bun binary is available.
+        return PackageManager.Bun;
       }
     }
 
@@ -244,11 +335,15 @@ export class PackageManagerUtils {
       // Doesn't have NPM installed.
       const hasYarn = !!this.getVersion(PackageManager.Yarn);
       const hasPnpm = !!this.getVersion(PackageManager.Pnpm);
+      // Bun is only used when the workspace has a Bun lock file.
+      const hasBun = hasBunLock && !!this.getVersion(PackageManager.Bun);
 
-      if (hasYarn && !hasPnpm) {
+      if (hasYarn && !hasPnpm && !hasBun) {
         return PackageManager.Yarn;
-      } else if (!hasYarn && hasPnpm) {
+      } else if (!hasYarn && hasPnpm && !hasBun) {
         return PackageManager.Pnpm;
+      } else if (!hasYarn && !hasPnpm && hasBun) {
+        return PackageManager.Bun;
       }
     }
 
@@ -257,22 +352,25 @@ export class PackageManagerUtils {
     return PackageManager.Npm;
   }
 
-  private hasLockfile(packageManager: PackageManager): boolean {
-    let lockfileName: string;
+  private hasLockfile(packageManager: PackageManager, root: string): boolean {
+    let lockfileNames: string[];
     switch (packageManager) {
       case PackageManager.Yarn:
-        lockfileName = 'yarn.lock';
+        lockfileNames = ['yarn.lock'];
         break;
       case PackageManager.Pnpm:
-        lockfileName = 'pnpm-lock.yaml';
+        lockfileNames = ['pnpm-lock.yaml'];
+        break;
+      case PackageManager.Bun:
+        lockfileNames = ['bun.lockb', 'bun.lock'];
         break;
       case PackageManager.Npm:
       default:
-        lockfileName = 'package-lock.json';
+        lockfileNames = ['package-lock.json'];
         break;
     }
 
-    return existsSync(join(this.context.root, lockfileName));
+    return lockfileNames.some((lockfileName) => existsSync(join(root, lockfileName)));
   }
 
   private getConfiguredPackageManager(): PackageManager | undefined {
@@ -305,3 +403,88 @@ export class PackageManagerUtils {
     return result;
   }
 }
+
+/**
+ * Settings of a `.yarnrc.yml` file that reference files which are located relative to the workspace.
+ */
+const YARNRC_FILE_SETTINGS = new Set([
+  'caFilePath',
+  'httpsCaFilePath',
+  'httpsCertFilePath',
+  'httpsKeyFilePath',
+]);
+
+/**
+ * Settings of a `.yarnrc.yml` file that do not apply to a temporary install. Plugins and the Yarn
+ * release are referenced relative to the workspace and the folders would be shared with it.
+ */
+const YARNRC_WORKSPACE_SETTINGS = new Set([
+  'cacheFolder',
+  'deferredVersionFolder',
+  'globalFolder',
+  'installStatePath',
+  'nodeLinker',
+  'patchFolder',
+  'plugins',
+  'pnpDataPath',
+  'pnpUnpluggedFolder',
+  'virtualFolder',
+  'yarnPath',
+]);
+
+/**
+ * Creates the `.yarnrc.yml` file of a temporary install from the one of the workspace.
+ * Workspace specific settings are removed and relative file paths are resolved from the workspace.
+ */
+export function createTemporaryYarnrc(content: string, root: string): string {
+  const lines: string[] = [];
+  let isRemovingSetting = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    // The values of a removed setting are indented or are sequence items.
+    if (isRemovingSetting && (!line.trim() || /^(\s+|- )/.test(line))) {
+      continue;
+    }
+    isRemovingSetting = false;
+
+    const match = /^(\s*)(["']?)([\w-]+)\2\s*:(.*)$/.exec(line);
+    if (match && match[1] === '' && YARNRC_WORKSPACE_SETTINGS.has(match[3])) {
+      isRemovingSetting = true;
+      continue;
+    }
+
+    if (match && YARNRC_FILE_SETTINGS.has(match[3])) {
+      const filePath = unquote(match[4].replace(/\s+#.*$/, '').trim());
+      if (filePath && !isAbsolute(filePath) && !filePath.includes('${')) {
+        lines.push(`${match[1]}${match[3]}: ${JSON.stringify(resolve(root, filePath))}`);
+        continue;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Resolves the relative certificate authority file of a `.npmrc` file from the workspace.
+ */
+export function resolveNpmrcPaths(content: string, root: string): string {
+  return content
+    .split(/\r?\n/)
+    .map((line) => {
+      const match = /^(\s*cafile\s*=\s*)(.*?)\s*$/.exec(line);
+      const filePath = match && unquote(match[2]);
+      if (!match || !filePath || isAbsolute(filePath) || filePath.includes('${')) {
+        return line;
+      }
+
+      return `${match[1]}${resolve(root, filePath)}`;
+    })
+    .join('\n');
+}
+
+function unquote(value: string): string {
+  return /^(["'])(.*)\1$/.exec(value)?.[2] ?? value;
+}
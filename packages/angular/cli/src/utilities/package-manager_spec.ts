@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PackageManager } from '../../lib/config/workspace-schema';
+import { AngularWorkspace } from './config';
+import { PackageManagerUtils, createTemporaryYarnrc, resolveNpmrcPaths } from './package-manager';
+
+describe('PackageManagerUtils', () => {
+  let root: string;
+  let versions: Partial<Record<PackageManager, string>>;
+  let getVersionSpy: jasmine.Spy;
+
+  function createPackageManagerUtils(): PackageManagerUtils {
+    return new PackageManagerUtils({
+      globalConfiguration: { extensions: {} } as unknown as AngularWorkspace,
+      root,
+    });
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'angular-cli-package-manager-'));
+    versions = {};
+
+    // Avoids spawning the package managers which are installed on the machine.
+    getVersionSpy = spyOn(
+      PackageManagerUtils.prototype as unknown as {
+        getVersion(name: PackageManager): string | undefined;
+      },
+      'getVersion',
+    ).and.callFake((name) => versions[name]);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('name', () => {
+    it('should detect Bun from its binary lockfile', () => {
+      versions = { npm: '10.2.0', bun: '1.0.3' };
+      writeFileSync(join(root, 'bun.lockb'), '');
+
+      expect(createPackageManagerUtils().name).toBe(PackageManager.Bun);
+    });
+
+    it('should detect Bun from its text lockfile', () => {
+      versions = { npm: '10.2.0', bun: '1.1.38' };
+      writeFileSync(join(root, 'bun.lock'), '');
+
+      expect(createPackageManagerUtils().name).toBe(PackageManager.Bun);
+    });
+
+    it('should not use Bun when its lockfile exists but it is not installed', () => {
+      versions = { npm: '10.2.0' };
+      writeFileSync(join(root, 'bun.lockb'), '');
+
+      expect(createPackageManagerUtils().name).toBe(PackageManager.Npm);
+    });
+
+    it('should use Bun when it is the only installed package manager and its lockfile exists', () => {
+      versions = { bun: '1.0.3' };
+      writeFileSync(join(root, 'package-lock.json'), '{}');
+      writeFileSync(join(root, 'bun.lockb'), '');
+
+      expect(createPackageManagerUtils().name).toBe(PackageManager.Bun);
+    });
+
+    it('should not spawn Bun when its lockfile does not exist', () => {
+      versions = { bun: '1.0.3' };
+
+      expect(createPackageManagerUtils().name).toBe(PackageManager.Npm);
+      expect(getVersionSpy).not.toHaveBeenCalledWith(PackageManager.Bun);
+    });
+
+    it('should use npm when the lockfiles of several package managers exist', () => {
+      versions = { npm: '10.2.0', bun: '1.0.3' };
+      writeFileSync(join(root, 'package-lock.json'), '{}');
+      writeFileSync(join(root, 'bun.lockb'), '');
+
+      expect(createPackageManagerUtils().name).toBe(PackageManager.Npm);
+    });
+  });
+
+  describe('isModernYarn', () => {
+    it('should be true when the workspace has a Yarn 2+ configuration file', () => {
+      versions = { yarn: '1.22.19' };
+      writeFileSync(join(root, 'yarn.lock'), '');
+      writeFileSync(join(root, '.yarnrc.yml'), 'nodeLinker: pnp\n');
+
+      expect(createPackageManagerUtils().isModernYarn).toBeTrue();
+    });
+
+    it('should be true when the installed Yarn version is 2 or later', () => {
+      versions = { yarn: '3.6.4' };
+      writeFileSync(join(root, 'yarn.lock'), '');
+
+      const packageManager = createPackageManagerUtils();
+
+      expect(packageManager.name).toBe(PackageManager.Yarn);
+      expect(packageManager.isModernYarn).toBeTrue();
+    });
+
+    it('should be false for Yarn 1', () => {
+      versions = { yarn: '1.22.19' };
+      writeFileSync(join(root, 'yarn.lock'), '');
+
+      const packageManager = createPackageManagerUtils();
+
+      expect(packageManager.name).toBe(PackageManager.Yarn);
+      expect(packageManager.isModernYarn).toBeFalse();
+    });
+
+    it('should be false for other package managers', () => {
+      versions = { npm: '10.2.0', yarn: '3.6.4' };
+      writeFileSync(join(root, 'package-lock.json'), '{}');
+      writeFileSync(join(root, '.yarnrc.yml'), '');
+
+      expect(createPackageManagerUtils().isModernYarn).toBeFalse();
+    });
+  });
+});
+
+describe('createTemporaryYarnrc', () => {
+  const root = join(tmpdir(), 'workspace');
+
+  it('should remove the settings which reference the workspace', () => {
+    const yarnrc = createTemporaryYarnrc(
+      [
+        'nodeLinker: pnp',
+        'yarnPath: .yarn/releases/yarn-3.6.4.cjs',
+        'cacheFolder: ./.yarn/cache',
+        'plugins:',
+        '  - path: .yarn/plugins/@yarnpkg/plugin-workspace-tools.cjs',
+        '    spec: "@yarnpkg/plugin-workspace-tools"',
+        '- path: .yarn/plugins/plugin-other.cjs',
+        '',
+        'npmRegistryServer: "https://registry.example.com"',
+      ].join('\n'),
+      root,
+    );
+
+    expect(yarnrc).toBe('npmRegistryServer: "https://registry.example.com"');
+  });
+
+  it('should resolve relative certificate files from the workspace', () => {
+    const yarnrc = createTemporaryYarnrc(
+      [
+        'caFilePath: ./certs/ca.pem # company CA',
+        'httpsCaFilePath: /etc/ssl/ca.pem',
+        'networkSettings:',
+        '  "*.example.com":',
+        "    httpsCertFilePath: 'certs/client.pem'",
+        '    httpsKeyFilePath: "${CLIENT_KEY}"',
+      ].join('\n'),
+      root,
+    );
+
+    expect(yarnrc.split('\n')).toEqual([
+      `caFilePath: ${JSON.stringify(join(root, 'certs/ca.pem'))}`,
+      'httpsCaFilePath: /etc/ssl/ca.pem',
+      'networkSettings:',
+      '  "*.example.com":',
+      `    httpsCertFilePath: ${JSON.stringify(join(root, 'certs/client.pem'))}`,
+      '    httpsKeyFilePath: "${CLIENT_KEY}"',
+    ]);
+  });
+});
+
+describe('resolveNpmrcPaths', () => {
+  const root = join(tmpdir(), 'workspace');
+
+  it('should resolve a relative certificate authority file from the workspace', () => {
+    expect(
+      resolveNpmrcPaths('registry=https://registry.example.com/\ncafile = ./ca.pem', root),
+    ).toBe(`registry=https://registry.example.com/\ncafile = ${join(root, 'ca.pem')}`);
+  });
+
+  it('should keep absolute paths and environment variables', () => {
+    const npmrc = 'cafile=/etc/ssl/ca.pem\n; cafile=./ignored.pem\ncafile=${CA_FILE}';
+
+    expect(resolveNpmrcPaths(npmrc, root)).toBe(npmrc);
+  });
+});
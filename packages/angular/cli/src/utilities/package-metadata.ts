@@ -13,6 +13,7 @@ import * as ini from 'ini';
 import { homedir } from 'os';
 import type { Manifest, Packument } from 'pacote';
 import * as path from 'path';
+import { parseBunfigToml, parseYarnrcYml } from './registry-config';
 
 export interface PackageMetadata extends Packument, NgPackageManifestProperties {
   tags: Record<string, PackageManifest>;
@@ -58,20 +59,132 @@ interface PackageManagerOptions extends Record<string, unknown> {
 let npmrc: PackageManagerOptions;
 const npmPackageJsonCache = new Map<string, Promise<Partial<NpmRepositoryPackageJson>>>();
 
-function ensureNpmrc(logger: logging.LoggerApi, usingYarn: boolean, verbose: boolean): void {
+function ensureNpmrc(
+  logger: logging.LoggerApi,
+  packageManager: string | undefined,
+  verbose: boolean,
+): void {
   if (!npmrc) {
     try {
       npmrc = readOptions(logger, false, verbose);
     } catch {}
 
-    if (usingYarn) {
+    if (packageManager === 'yarn') {
+      try {
+        npmrc = {
+          ...npmrc,
+          ...(findYarnBerryConfig()
+            ? readYarnBerryOptions(logger, verbose)
+            : readOptions(logger, true, verbose)),
+        };
+      } catch {}
+    } else if (packageManager === 'bun') {
       try {
-        npmrc = { ...npmrc, ...readOptions(logger, true, verbose) };
+        npmrc = { ...npmrc, ...readBunOptions(logger, verbose) };
       } catch {}
     }
   }
 }
 
+/**
+ * @returns the locations of the `.yarnrc.yml` files of the current directory and its ancestors
+ * ordered from the root directory to the current directory. An empty array when Yarn 2+ is not used.
+ */
+function findYarnBerryConfig(): string[] {
+  const locations: string[] = [];
+  const cwd = process.cwd();
+  const root = path.parse(cwd).root;
+  for (let curDir = cwd; curDir && curDir !== root; curDir = path.dirname(curDir)) {
+    const location = path.join(curDir, '.yarnrc.yml');
+    if (existsSync(location)) {
+      locations.unshift(location);
+    }
+  }
+
+  return locations;
+}
+
+function readYarnBerryOptions(
+  logger: logging.LoggerApi,
+  showPotentials = false,
+): PackageManagerOptions {
+  // The home directory can also be an ancestor of the current directory.
+  const locations = new Set([path.join(homedir(), '.yarnrc.yml'), ...findYarnBerryConfig()]);
+
+  const options = readConfigFiles(
+    logger,
+    '.yarnrc.yml',
+    [...locations],
+    parseYarnrcYml,
+    showPotentials,
+  );
+
+  // Environment variables take precedence over the configuration files.
+  const envVariablesOptions: PackageManagerOptions = {};
+  if (process.env['YARN_NPM_REGISTRY_SERVER']) {
+    envVariablesOptions['registry'] = process.env['YARN_NPM_REGISTRY_SERVER'];
+  }
+  if (process.env['YARN_NPM_AUTH_TOKEN']) {
+    envVariablesOptions['_authToken'] = process.env['YARN_NPM_AUTH_TOKEN'];
+  }
+
+  return normalizeOptions(envVariablesOptions, undefined, options);
+}
+
+function readBunOptions(logger: logging.LoggerApi, showPotentials = false): PackageManagerOptions {
+  const locations = [
+    path.join(process.env['XDG_CONFIG_HOME'] || homedir(), '.bunfig.toml'),
+    path.join(findProjectRoot(process.cwd()), 'bunfig.toml'),
+  ];
+
+  return readConfigFiles(logger, 'bunfig.toml', locations, parseBunfigToml, showPotentials);
+}
+
+function readConfigFiles(
+  logger: logging.LoggerApi,
+  filename: string,
+  locations: string[],
+  parse: (content: string) => PackageManagerOptions,
+  showPotentials: boolean,
+): PackageManagerOptions {
+  if (showPotentials) {
+    logger.info(`Locating potential ${filename} files:`);
+  }
+
+  let options: PackageManagerOptions = {};
+  for (const location of locations) {
+    if (existsSync(location)) {
+      if (showPotentials) {
+        logger.info(`Trying '${location}'...found.`);
+      }
+
+      options = normalizeOptions(parse(readFileSync(location, 'utf8')), location, options);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Finds the root of the project that contains a directory, similar to how npm locates the project
+ * configuration. This allows using the configuration of a workspace from within its subdirectories.
+ * @returns the nearest directory containing a `package.json` file or `node_modules` directory, or
+ * the given directory when there is none.
+ */
+export function findProjectRoot(directory: string): string {
+  const root = path.parse(directory).root;
+  for (let curDir = directory; curDir && curDir !== root; curDir = path.dirname(curDir)) {
+    if (
+      existsSync(path.join(curDir, 'package.json')) ||
+      existsSync(path.join(curDir, 'node_modules'))
+    ) {
+      return curDir;
+    }
+  }
+
+  return directory;
+}
+
 function readOptions(
   logger: logging.LoggerApi,
   yarn = false,
@@ -96,7 +209,7 @@ function readOptions(
     (!yarn && process.env.NPM_CONFIG_USERCONFIG) || path.join(homedir(), dotFilename),
   ];
 
-  const projectConfigLocations: string[] = [path.join(cwd, dotFilename)];
+  const projectConfigLocations: string[] = [path.join(findProjectRoot(cwd), dotFilename)];
   if (yarn) {
     const root = path.parse(cwd).root;
     for (let curDir = path.dirname(cwd); curDir && curDir !== root; curDir = path.dirname(curDir)) {
@@ -230,18 +343,18 @@ export async function fetchPackageMetadata(
   logger: logging.LoggerApi,
   options?: {
     registry?: string;
-    usingYarn?: boolean;
+    packageManager?: string;
     verbose?: boolean;
   },
 ): Promise<PackageMetadata> {
-  const { usingYarn, verbose, registry } = {
+  const { packageManager, verbose, registry } = {
     registry: undefined,
-    usingYarn: false,
+    packageManager: undefined,
     verbose: false,
     ...options,
   };
 
-  ensureNpmrc(logger, usingYarn, verbose);
+  ensureNpmrc(logger, packageManager, verbose);
   const { packument } = await import('pacote');
   const response = await packument(name, {
     fullMetadata: true,
@@ -274,12 +387,12 @@ export async function fetchPackageManifest(
   logger: logging.LoggerApi,
   options: {
     registry?: string;
-    usingYarn?: boolean;
+    packageManager?: string;
     verbose?: boolean;
   } = {},
 ): Promise<PackageManifest> {
-  const { usingYarn = false, verbose = false, registry } = options;
-  ensureNpmrc(logger, usingYarn, verbose);
+  const { packageManager, verbose = false, registry } = options;
+  ensureNpmrc(logger, packageManager, verbose);
   const { manifest } = await import('pacote');
 
   const response = await manifest(name, {
@@ -296,7 +409,7 @@ export async function getNpmPackageJson(
   logger: logging.LoggerApi,
   options: {
     registry?: string;
-    usingYarn?: boolean;
+    packageManager?: string;
     verbose?: boolean;
   } = {},
 ): Promise<Partial<NpmRepositoryPackageJson>> {
@@ -305,8 +418,8 @@ export async function getNpmPackageJson(
     return cachedResponse;
   }
 
-  const { usingYarn = false, verbose = false, registry } = options;
-  ensureNpmrc(logger, usingYarn, verbose);
+  const { packageManager, verbose = false, registry } = options;
+  ensureNpmrc(logger, packageManager, verbose);
   const { packument } = await import('pacote');
   const response = packument(packageName, {
     fullMetadata: true,
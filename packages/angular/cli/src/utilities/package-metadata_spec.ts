@@ -0,0 +1,53 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findProjectRoot } from './package-metadata';
+
+describe('findProjectRoot', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = realpathSync(mkdtempSync(join(tmpdir(), 'angular-cli-package-metadata-')));
+    mkdirSync(join(root, 'workspace/projects/app/src'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should find the nearest directory with a package.json file', () => {
+    writeFileSync(join(root, 'workspace/package.json'), '{}');
+
+    expect(findProjectRoot(join(root, 'workspace/projects/app/src'))).toBe(join(root, 'workspace'));
+  });
+
+  it('should find the nearest directory with a node_modules directory', () => {
+    mkdirSync(join(root, 'workspace/node_modules'));
+
+    expect(findProjectRoot(join(root, 'workspace/projects/app'))).toBe(join(root, 'workspace'));
+  });
+
+  it('should prefer the nearest project of nested projects', () => {
+    writeFileSync(join(root, 'workspace/package.json'), '{}');
+    writeFileSync(join(root, 'workspace/projects/app/package.json'), '{}');
+
+    expect(findProjectRoot(join(root, 'workspace/projects/app/src'))).toBe(
+      join(root, 'workspace/projects/app'),
+    );
+  });
+
+  it('should return the directory when no ancestor is a project', () => {
+    const directory = join(root, 'workspace/projects/app/src');
+
+    // The temporary directory is not located within a project on supported systems.
+    expect(findProjectRoot(directory)).toBe(directory);
+  });
+});
@@ -7,6 +7,7 @@
  */
 
 import * as fs from 'fs';
+import { createRequire } from 'module';
 import { dirname, join } from 'path';
 import * as resolve from 'resolve';
 import { NgAddSaveDependency } from './package-metadata';
@@ -35,6 +36,23 @@ function getAllDependencies(pkg: PackageJson): Set<[string, string]> {
   ]);
 }
 
+/**
+ * The subset of the Yarn Plug'n'Play API used to locate packages.
+ * @see https://yarnpkg.com/advanced/pnpapi
+ */
+interface PnpApi {
+  resolveToUnqualified(request: string, issuer: string): string | null;
+  findPackageLocator(location: string): PnpPackageLocator | null;
+  getPackageInformation(locator: PnpPackageLocator): { packageLocation: string } | null;
+}
+
+interface PnpPackageLocator {
+  name: string;
+  reference: string;
+}
+
+const pnpApis = new Map<string, PnpApi | undefined>();
+
 export interface PackageTreeNode {
   name: string;
   version: string;
@@ -51,6 +69,17 @@ export async function readPackageJson(packageJsonPath: string): Promise<PackageJ
 }
 
 export function findPackageJson(workspaceDir: string, packageName: string): string | undefined {
+  const pnpApi = getPnpApi(workspaceDir);
+  if (pnpApi) {
+    try {
+      return (
+        pnpApi.resolveToUnqualified(`${packageName}/package.json`, workspaceDir + '/') ?? undefined
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
   try {
     // avoid require.resolve here, see: https://github.com/angular/angular-cli/pull/18610#issuecomment-681980185
     const packageJsonPath = resolve.sync(`${packageName}/package.json`, { basedir: workspaceDir });
@@ -78,9 +107,75 @@ export async function getProjectDependencies(dir: string): Promise<Map<string, P
       name,
       version,
       path: dirname(packageJsonPath),
-      package: await readPackageJson(packageJsonPath),
+      package:
+        (await readPackageJson(packageJsonPath)) ??
+        (await readPnpPackageJson(dir, packageJsonPath)),
     });
   }
 
   return results;
 }
+
+/**
+ * Retrieves the Plug'n'Play API of a workspace that is installed with Yarn Plug'n'Play.
+ * Packages of such workspaces are stored in zip archives instead of a `node_modules` directory.
+ */
+function getPnpApi(workspaceDir: string): PnpApi | undefined {
+  if (pnpApis.has(workspaceDir)) {
+    return pnpApis.get(workspaceDir);
+  }
+
+  let pnpApi: PnpApi | undefined;
+  if (process.versions['pnp']) {
+    // The CLI is running with Plug'n'Play enabled, e.g. when using `yarn ng update`.
+    try {
+      pnpApi = createRequire(workspaceDir + '/')('pnpapi');
+    } catch {}
+  }
+
+  if (!pnpApi) {
+    const pnpPath = ['.pnp.cjs', '.pnp.js']
+      .map((filename) => join(workspaceDir, filename))
+      .find((path) => fs.existsSync(path));
+
+    if (pnpPath) {
+      // The file system is not patched as the runtime would do, as this affects the whole process.
+      // Files stored in zip archives can therefore not be read.
+      try {
+        pnpApi = createRequire(pnpPath)(pnpPath) as PnpApi;
+      } catch {}
+    }
+  }
+
+  pnpApis.set(workspaceDir, pnpApi);
+
+  return pnpApi;
+}
+
+/**
+ * Reads the manifest of a package that is installed with Plug'n'Play from the location known to the
+ * Plug'n'Play API. When the package is stored in a zip archive which cannot be read because the
+ * file system is not patched, a manifest containing only the name and version of the package is
+ * created from its locator.
+ */
+async function readPnpPackageJson(
+  workspaceDir: string,
+  packageJsonPath: string,
+): Promise<PackageJson | undefined> {
+  const pnpApi = getPnpApi(workspaceDir);
+  const locator = pnpApi?.findPackageLocator(packageJsonPath);
+  if (!pnpApi || !locator) {
+    return undefined;
+  }
+
+  const packageLocation = pnpApi.getPackageInformation(locator)?.packageLocation;
+  const packageJson =
+    packageLocation && (await readPackageJson(join(packageLocation, 'package.json')));
+  if (packageJson) {
+    return packageJson;
+  }
+
+  const version = /^npm:([^:]+)$/.exec(locator.reference)?.[1];
+
+  return version ? { name: locator.name, version } : undefined;
+}
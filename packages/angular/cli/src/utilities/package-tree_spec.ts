@@ -0,0 +1,136 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { findPackageJson, getProjectDependencies } from './package-tree';
+
+describe('package tree', () => {
+  let root: string;
+
+  function writeFile(path: string, content: string): void {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), content);
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'angular-cli-package-tree-'));
+    writeFile(
+      'package.json',
+      JSON.stringify({ dependencies: { foo: '^1.0.0' }, devDependencies: { bar: '^2.0.0' } }),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should find the dependencies installed in the node_modules directory', async () => {
+    writeFile('node_modules/foo/package.json', JSON.stringify({ name: 'foo', version: '1.2.3' }));
+
+    const dependencies = await getProjectDependencies(root);
+
+    expect([...dependencies.keys()]).toEqual(['foo']);
+    expect(dependencies.get('foo')).toEqual({
+      name: 'foo',
+      version: '^1.0.0',
+      path: join(root, 'node_modules/foo'),
+      package: { name: 'foo', version: '1.2.3' },
+    });
+  });
+
+  describe(`with Yarn Plug'n'Play`, () => {
+    beforeEach(() => {
+      // Packages are located in an unplugged directory for `foo` and in a zip archive for `bar`.
+      writeFile(
+        '.yarn/unplugged/foo-npm-1.2.3/node_modules/foo/package.json',
+        JSON.stringify({ name: 'foo', version: '1.2.3' }),
+      );
+      writeFile(
+        '.pnp.cjs',
+        `
+        const { join } = require('path');
+        const locations = {
+          foo: join(__dirname, '.yarn/unplugged/foo-npm-1.2.3/node_modules/foo'),
+          bar: join(__dirname, '.yarn/cache/bar-npm-2.0.1.zip/node_modules/bar'),
+          baz: join(__dirname, '.yarn/__virtual__/baz-virtual-0123456789/0/baz'),
+        };
+
+        exports.resolveToUnqualified = (request, issuer) => {
+          if (issuer !== __dirname + '/') {
+            throw new Error('Unexpected issuer: ' + issuer);
+          }
+
+          const name = request.replace(/\\/package\\.json$/, '');
+
+          return locations[name] ? join(locations[name], 'package.json') : null;
+        };
+        exports.findPackageLocator = (location) => {
+          const name = Object.keys(locations).find((name) => location.startsWith(locations[name]));
+
+          const references = { foo: 'npm:1.2.3', bar: 'npm:2.0.1', baz: 'virtual:0123456789#npm:3.0.0' };
+
+          return name ? { name, reference: references[name] } : null;
+        };
+        exports.getPackageInformation = ({ name }) =>
+          name === 'baz'
+            ? { packageLocation: join(__dirname, '.yarn/unplugged/baz-npm-3.0.0/node_modules/baz') }
+            : { packageLocation: locations[name] };
+        exports.setup = () => {
+          throw new Error('The file system must not be patched.');
+        };
+        `,
+      );
+    });
+
+    it("should locate packages with the Plug'n'Play API", () => {
+      expect(findPackageJson(root, 'foo')).toBe(
+        join(root, '.yarn/unplugged/foo-npm-1.2.3/node_modules/foo/package.json'),
+      );
+      expect(findPackageJson(root, 'qux')).toBeUndefined();
+    });
+
+    it('should read the manifests of unplugged packages and derive those of zip archives', async () => {
+      const dependencies = await getProjectDependencies(root);
+
+      expect(dependencies.get('foo')).toEqual({
+        name: 'foo',
+        version: '^1.0.0',
+        path: join(root, '.yarn/unplugged/foo-npm-1.2.3/node_modules/foo'),
+        package: { name: 'foo', version: '1.2.3' },
+      });
+      expect(dependencies.get('bar')).toEqual({
+        name: 'bar',
+        version: '^2.0.0',
+        path: join(root, '.yarn/cache/bar-npm-2.0.1.zip/node_modules/bar'),
+        package: { name: 'bar', version: '2.0.1' },
+      });
+    });
+
+    it('should read the manifests of virtual packages from their package location', async () => {
+      writeFile(
+        'package.json',
+        JSON.stringify({ dependencies: { baz: '^3.0.0' }, peerDependencies: { foo: '^1.0.0' } }),
+      );
+      writeFile(
+        '.yarn/unplugged/baz-npm-3.0.0/node_modules/baz/package.json',
+        JSON.stringify({ name: 'baz', version: '3.0.0', 'ng-update': { migrations: './m.json' } }),
+      );
+
+      const dependencies = await getProjectDependencies(root);
+
+      expect(dependencies.get('baz')).toEqual({
+        name: 'baz',
+        version: '^3.0.0',
+        path: join(root, '.yarn/__virtual__/baz-virtual-0123456789/0/baz'),
+        package: { name: 'baz', version: '3.0.0', 'ng-update': { migrations: './m.json' } },
+      });
+    });
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+/**
+ * Registry related options in the format of npm configuration files.
+ * Example: `{ "registry": "https://registry.example.com/", "//registry.example.com/:_authToken": "abc" }`.
+ */
+export type NpmRegistryOptions = Record<string, unknown>;
+
+const DEFAULT_REGISTRY = 'https://registry.npmjs.org';
+
+type ConfigObject = { [key: string]: ConfigValue };
+type ConfigValue = string | number | boolean | ConfigObject;
+
+/**
+ * Converts the registry settings of a Yarn 2+ `.yarnrc.yml` file to npm options.
+ * Supported settings are `npmRegistryServer`, `npmAuthToken`, `npmAuthIdent`, `npmScopes`,
+ * `npmRegistries`, `httpProxy`, `httpsProxy`, `caFilePath` and `enableStrictSsl`.
+ */
+export function parseYarnrcYml(content: string): NpmRegistryOptions {
+  const config = parseYamlObject(content);
+  const options: NpmRegistryOptions = {};
+
+  const registry = getString(config, 'npmRegistryServer');
+  if (registry) {
+    options['registry'] = registry;
+  }
+  addYarnAuthOptions(options, registry ?? DEFAULT_REGISTRY, config);
+
+  const scopes = config['npmScopes'];
+  if (isConfigObject(scopes)) {
+    for (const [scope, scopeConfig] of Object.entries(scopes)) {
+      if (!isConfigObject(scopeConfig)) {
+        continue;
+      }
+
+      const scopeRegistry = getString(scopeConfig, 'npmRegistryServer');
+      if (scopeRegistry) {
+        options[`@${scope.replace(/^@/, '')}:registry`] = scopeRegistry;
+      }
+      addYarnAuthOptions(options, scopeRegistry ?? registry ?? DEFAULT_REGISTRY, scopeConfig);
+    }
+  }
+
+  const registries = config['npmRegistries'];
+  if (isConfigObject(registries)) {
+    for (const [registryUrl, registryConfig] of Object.entries(registries)) {
+      if (isConfigObject(registryConfig)) {
+        addYarnAuthOptions(options, registryUrl, registryConfig);
+      }
+    }
+  }
+
+  const settings: [yarnName: string, npmName: string][] = [
+    ['httpProxy', 'proxy'],
+    ['httpsProxy', 'https-proxy'],
+    ['caFilePath', 'cafile'],
+    ['enableStrictSsl', 'strict-ssl'],
+  ];
+  for (const [yarnName, npmName] of settings) {
+    if (config[yarnName] !== undefined && !isConfigObject(config[yarnName])) {
+      options[npmName] = config[yarnName];
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Converts the registry settings of a Bun `bunfig.toml` file to npm options.
+ * Supported settings are `install.registry`, `install.scopes` and `install.cafile`.
+ * Environment variables referenced as `$NAME` or `${NAME}` are substituted.
+ */
+export function parseBunfigToml(
+  content: string,
+  env: Record<string, string | undefined> = process.env,
+): NpmRegistryOptions {
+  const config = substituteBunEnvVariables(parseTomlObject(content), env);
+  const install = config['install'];
+  const options: NpmRegistryOptions = {};
+  if (!isConfigObject(install)) {
+    return options;
+  }
+
+  const registry = addBunRegistryOptions(options, install['registry']);
+  if (registry) {
+    options['registry'] = registry;
+  }
+
+  const scopes = install['scopes'];
+  if (isConfigObject(scopes)) {
+    for (const [scope, scopeRegistry] of Object.entries(scopes)) {
+      const url = addBunRegistryOptions(options, scopeRegistry);
+      if (url) {
+        options[`@${scope.replace(/^@/, '')}:registry`] = url;
+      }
+    }
+  }
+
+  const cafile = getString(install, 'cafile');
+  if (cafile) {
+    options['cafile'] = cafile;
+  }
+
+  return options;
+}
+
+/**
+ * Substitutes the environment variables of string values. The substitution happens before the
+ * conversion as credentials are encoded.
+ */
+function substituteBunEnvVariables(
+  config: ConfigObject,
+  env: Record<string, string | undefined>,
+): ConfigObject {
+  const result: ConfigObject = {};
+  for (const [key, value] of Object.entries(config)) {
+    if (typeof value === 'string') {
+      result[key] = value.replace(
+        /\$(?:\{([A-Za-z_]\w*)\}|([A-Za-z_]\w*))/g,
+        (_, bracedName: string | undefined, name: string | undefined) =>
+          env[bracedName ?? (name as string)] ?? '',
+      );
+    } else {
+      result[key] = isConfigObject(value) ? substituteBunEnvVariables(value, env) : value;
+    }
+  }
+
+  return result;
+}
+
+function addYarnAuthOptions(
+  options: NpmRegistryOptions,
+  registry: string | undefined,
+  config: ConfigObject,
+): void {
+  const authKey = registry && getAuthKeyPrefix(registry);
+  if (!authKey) {
+    return;
+  }
+
+  const token = getString(config, 'npmAuthToken');
+  if (token) {
+    options[`${authKey}:_authToken`] = token;
+  }
+
+  const ident = getString(config, 'npmAuthIdent');
+  if (ident) {
+    // Yarn accepts both the plain `username:password` and the base64 encoded form.
+    options[`${authKey}:_auth`] = ident.includes(':')
+      ? Buffer.from(ident).toString('base64')
+      : ident;
+  }
+}
+
+/**
+ * Adds the credentials of a Bun registry setting which is either a URL or an object
+ * with `url`, `token`, `username` and `password` fields.
+ * @returns The URL of the registry.
+ */
+function addBunRegistryOptions(
+  options: NpmRegistryOptions,
+  value: ConfigValue | undefined,
+): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (!isConfigObject(value)) {
+    return undefined;
+  }
+
+  const url = getString(value, 'url');
+  const authKey = url && getAuthKeyPrefix(url);
+  if (!url || !authKey) {
+    return undefined;
+  }
+
+  const token = getString(value, 'token');
+  if (token) {
+    options[`${authKey}:_authToken`] = token;
+  }
+
+  const username = getString(value, 'username');
+  const password = getString(value, 'password');
+  if (username && password) {
+    options[`${authKey}:username`] = username;
+    options[`${authKey}:_password`] = Buffer.from(password).toString('base64');
+  }
+
+  return url;
+}
+
+/**
+ * @returns The prefix of the npm options which configure the credentials of a registry.
+ * Example: `https://registry.example.com/npm` -> `//registry.example.com/npm/`.
+ */
+function getAuthKeyPrefix(registry: string): string | undefined {
+  try {
+    const { host, pathname } = new URL(registry.startsWith('//') ? 'https:' + registry : registry);
+
+    return `//${host}${pathname.endsWith('/') ? pathname : pathname + '/'}`;
+  } catch {
+    return undefined;
+  }
+}
+
+function getString(config: ConfigObject, key: string): string | undefined {
+  const value = config[key];
+
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function isConfigObject(value: ConfigValue | undefined): value is ConfigObject {
+  return typeof value === 'object' && value !== null;
+}
+
+function parseScalar(rawValue: string): ConfigValue {
+  const value = rawValue.trim();
+  const quoted = /^"((?:[^"\\]|\\.)*)"$/.exec(value) ?? /^'([^']*)'$/.exec(value);
+  if (quoted) {
+    return quoted[1].replace(/\\(["\\])/g, '$1');
+  }
+
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+
+  return value;
+}
+
+/**
+ * Removes a trailing comment which is not part of a quoted string.
+ */
+function stripComment(line: string): string {
+  let quote: string | undefined;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        index++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (index === 0 || /\s/.test(line[index - 1]))) {
+      return line.slice(0, index);
+    }
+  }
+
+  return line;
+}
+
+/**
+ * Parses the subset of YAML used by Yarn configuration files: nested mappings of scalar values.
+ * Sequences and multi-line values are ignored.
+ */
+function parseYamlObject(content: string): ConfigObject {
+  const root: ConfigObject = {};
+  const stack: { indent: number; value: ConfigObject }[] = [{ indent: -1, value: root }];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = stripComment(rawLine).trimEnd();
+    const match = /^(\s*)("[^"]*"|'[^']*'|[^\s:][^:]*?)\s*:(?:\s+(.*))?$/.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const indent = match[1].length;
+    const key = parseScalar(match[2]).toString();
+    while (stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1].value;
+    if (match[3] === undefined || match[3] === '') {
+      const child: ConfigObject = {};
+      parent[key] = child;
+      stack.push({ indent, value: child });
+    } else {
+      parent[key] = parseScalar(match[3]);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Parses the subset of TOML used by Bun configuration files: tables, key/value pairs and
+ * single-line inline tables. Arrays and multi-line strings are ignored.
+ */
+function parseTomlObject(content: string): ConfigObject {
+  const root: ConfigObject = {};
+  let table = root;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = stripComment(rawLine).trim();
+    if (!line) {
+      continue;
+    }
+
+    const header = /^\[([^[\]]+)\]$/.exec(line);
+    if (header) {
+      table = root;
+      for (const key of splitOutsideQuotes(header[1], '.')) {
+        const name = parseScalar(key).toString();
+        const child = table[name];
+        table = isConfigObject(child) ? child : (table[name] = {});
+      }
+      continue;
+    }
+
+    const [key, value] = parseTomlKeyValue(line) ?? [];
+    if (key !== undefined && value !== undefined) {
+      table[key] = value;
+    }
+  }
+
+  return root;
+}
+
+function parseTomlKeyValue(text: string): [string, ConfigValue] | undefined {
+  const [key, ...rest] = splitOutsideQuotes(text, '=');
+  if (!rest.length) {
+    return undefined;
+  }
+
+  const rawValue = rest.join('=').trim();
+  if (rawValue.startsWith('{') && rawValue.endsWith('}')) {
+    const inlineTable: ConfigObject = {};
+    for (const entry of splitOutsideQuotes(rawValue.slice(1, -1), ',')) {
+      const [entryKey, entryValue] = parseTomlKeyValue(entry) ?? [];
+      if (entryKey !== undefined && entryValue !== undefined) {
+        inlineTable[entryKey] = entryValue;
+      }
+    }
+
+    return [parseScalar(key).toString(), inlineTable];
+  }
+
+  return [parseScalar(key).toString(), parseScalar(rawValue)];
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | undefined;
+  let start = 0;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(text.slice(start, index));
+      start = index + 1;
+    }
+  }
+  parts.push(text.slice(start));
+
+  return parts.map((part) => part.trim()).filter((part) => part !== '');
+}
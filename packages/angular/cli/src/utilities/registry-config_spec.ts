@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { parseBunfigToml, parseYarnrcYml } from './registry-config';
+
+describe('parseYarnrcYml', () => {
+  it('converts the registry and its credentials', () => {
+    const options = parseYarnrcYml(`
+# Company registry
+npmRegistryServer: "https://registry.example.com/npm"
+npmAuthToken: abc # inline comment
+nodeLinker: pnp
+`);
+
+    expect(options).toEqual({
+      'registry': 'https://registry.example.com/npm',
+      '//registry.example.com/npm/:_authToken': 'abc',
+    });
+  });
+
+  it('converts scoped registries', () => {
+    const options = parseYarnrcYml(`
+npmScopes:
+  my-org:
+    npmRegistryServer: "https://npm.pkg.github.com"
+    npmAuthIdent: "user:pass"
+  other:
+    npmAuthToken: "token"
+`);
+
+    expect(options).toEqual({
+      '@my-org:registry': 'https://npm.pkg.github.com',
+      '//npm.pkg.github.com/:_auth': Buffer.from('user:pass').toString('base64'),
+      '//registry.npmjs.org/:_authToken': 'token',
+    });
+  });
+
+  it('converts registry credentials and network settings', () => {
+    const options = parseYarnrcYml(`
+npmRegistries:
+  "https://registry.example.com":
+    npmAuthToken: "\${NPM_TOKEN}"
+httpsProxy: "http://proxy.example.com:8080"
+enableStrictSsl: false
+`);
+
+    expect(options).toEqual({
+      '//registry.example.com/:_authToken': '${NPM_TOKEN}',
+      'https-proxy': 'http://proxy.example.com:8080',
+      'strict-ssl': false,
+    });
+  });
+});
+
+describe('parseBunfigToml', () => {
+  it('converts the registry', () => {
+    const options = parseBunfigToml(`
+[install]
+# The default registry
+registry = "https://registry.example.com/"
+`);
+
+    expect(options).toEqual({ registry: 'https://registry.example.com/' });
+  });
+
+  it('converts registry credentials', () => {
+    const options = parseBunfigToml(`
+[install]
+registry = { url = "https://registry.example.com/", token = "abc" }
+`);
+
+    expect(options).toEqual({
+      'registry': 'https://registry.example.com/',
+      '//registry.example.com/:_authToken': 'abc',
+    });
+  });
+
+  it('converts scoped registries', () => {
+    const options = parseBunfigToml(`
+[install.scopes]
+"@my-org" = { url = "https://npm.pkg.github.com/", username = "user", password = "pass" }
+other = "https://other.example.com/"
+`);
+
+    expect(options).toEqual({
+      '@my-org:registry': 'https://npm.pkg.github.com/',
+      '//npm.pkg.github.com/:username': 'user',
+      '//npm.pkg.github.com/:_password': Buffer.from('pass').toString('base64'),
+      '@other:registry': 'https://other.example.com/',
+    });
+  });
+
+  it('substitutes environment variables', () => {
+    const options = parseBunfigToml(
+      `
+[install]
+registry = { url = "$REGISTRY_URL", username = "\${REGISTRY_USER}", password = "$REGISTRY_PASSWORD" }
+cafile = "$MISSING/ca.pem"
+`,
+      {
+        REGISTRY_URL: 'https://registry.example.com/',
+        REGISTRY_USER: 'user',
+        REGISTRY_PASSWORD: 'pass',
+      },
+    );
+
+    expect(options).toEqual({
+      'registry': 'https://registry.example.com/',
+      '//registry.example.com/:username': 'user',
+      '//registry.example.com/:_password': Buffer.from('pass').toString('base64'),
+      'cafile': '/ca.pem',
+    });
+  });
+});
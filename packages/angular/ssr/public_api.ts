@@ -6,4 +6,16 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-export { CommonEngine, CommonEngineRenderOptions, CommonEngineOptions } from './src/common-engine';
+export {
+  CommonEngine,
+  CommonEngineRenderOptions,
+  CommonEngineRenderResult,
+  CommonEngineOptions,
+} from './src/common-engine';
+export { CommonEngineRenderProfile, formatServerTiming } from './src/peformance-profiler';
+export {
+  CommonEngineCacheEntry,
+  CommonEngineCacheOptions,
+  CommonEngineCacheStore,
+  MemoryCacheStore,
+} from './src/render-cache';
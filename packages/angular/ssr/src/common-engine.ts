@@ -15,13 +15,23 @@ import {
 } from '@angular/platform-server';
 import * as fs from 'node:fs';
 import { dirname, resolve } from 'node:path';
+import { Readable } from 'node:stream';
 import { URL } from 'node:url';
+import { createEarlyFlushStream } from './early-flush';
 import { InlineCriticalCssProcessor, InlineCriticalCssResult } from './inline-css-processor';
 import {
-  noopRunMethodAndMeasurePerf,
+  CommonEngineRenderProfile,
+  RenderProfiler,
   printPerformanceLogs,
-  runMethodAndMeasurePerf,
 } from './peformance-profiler';
+import {
+  CommonEngineCacheEntry,
+  CommonEngineCacheOptions,
+  MemoryCacheStore,
+  RenderCache,
+  createEtag,
+  getRenderCacheKey,
+} from './render-cache';
 
 const SSG_MARKER_REGEXP = /ng-server-context=["']\w*\|?ssg\|?\w*["']/;
 
@@ -30,8 +40,13 @@ export interface CommonEngineOptions {
   bootstrap?: Type<{}> | (() => Promise<ApplicationRef>);
   /** A set of platform level providers for all requests. */
   providers?: StaticProvider[];
-  /** Enable request performance profiling data collection and printing the results in the server console. */
+  /** Enable printing the performance profile of each request in the server console. */
   enablePeformanceProfiler?: boolean;
+  /**
+   * Cache rendered documents keyed by the request URL and the `cacheFacets` render option.
+   * Requests with per-request `providers` are only cached when they specify `cacheFacets`.
+   */
+  cache?: CommonEngineCacheOptions;
 }
 
 export interface CommonEngineRenderOptions {
@@ -52,6 +67,44 @@ export interface CommonEngineRenderOptions {
    * Defaults to the 'documentFilePath' dirname when not provided.
    */
   publicPath?: string;
+  /**
+   * Custom request values, such as the device type or a user segment, that result in a different
+   * rendered document for the same URL. These are part of the render cache key.
+   * When per-request `providers` are passed, the render cache is only used if this option is set.
+   * In that case the facets must identify every value of the providers that affects the document.
+   */
+  cacheFacets?: Record<string, string>;
+  /**
+   * Send the start of the document template up to and including the `<head>` tag, followed by
+   * preload hints for its stylesheets and module scripts, before the application is rendered.
+   * Only used by `renderToStream`. Defaults to false.
+   *
+   * The early content is taken from the document template, not from the rendered document.
+   * Changes of the application to the `<html>` and `<head>` elements, such as their attributes,
+   * and any content before them are not sent.
+   */
+  earlyFlush?: boolean;
+}
+
+export interface CommonEngineRenderResult {
+  html: string;
+  /** A strong entity tag of the document that can be used as the `ETag` response header. */
+  etag: string;
+  /** The time the document was rendered that can be used as the `Last-Modified` response header. */
+  lastModified: Date;
+  /**
+   * How the document was retrieved from the render cache.
+   * - `hit`: a fresh cached document was used.
+   * - `stale`: a stale cached document was used while it is rendered again in the background.
+   * - `miss`: the document was rendered and stored in the cache.
+   * - `bypass`: the render cache was not used.
+   */
+  cacheStatus: 'hit' | 'stale' | 'miss' | 'bypass';
+  /**
+   * The duration of each render step of the request.
+   * Use `formatServerTiming` to create a `Server-Timing` response header value.
+   */
+  profile: CommonEngineRenderProfile;
 }
 
 /**
@@ -62,11 +115,19 @@ export class CommonEngine {
   private readonly templateCache = new Map<string, string>();
   private readonly inlineCriticalCssProcessor: InlineCriticalCssProcessor;
   private readonly pageIsSSG = new Map<string, boolean>();
+  private readonly renderCache: RenderCache | undefined;
 
   constructor(private options?: CommonEngineOptions) {
     this.inlineCriticalCssProcessor = new InlineCriticalCssProcessor({
       minify: false,
     });
+
+    if (options?.cache) {
+      this.renderCache = new RenderCache(
+        options.cache.store ?? new MemoryCacheStore(),
+        options.cache,
+      );
+    }
   }
 
   /**
@@ -74,19 +135,84 @@ export class CommonEngine {
    * render options
    */
   async render(opts: CommonEngineRenderOptions): Promise<string> {
-    const enablePeformanceProfiler = this.options?.enablePeformanceProfiler;
+    const { html } = await this.renderWithMetadata(opts);
 
-    const runMethod = enablePeformanceProfiler
-      ? runMethodAndMeasurePerf
-      : noopRunMethodAndMeasurePerf;
+    return html;
+  }
 
-    let html = await runMethod('Retrieve SSG Page', () => this.retrieveSSGPage(opts));
+  /**
+   * Render an HTML document for a specific URL with specified render options and
+   * return the document along with its caching metadata and performance profile.
+   */
+  async renderWithMetadata(opts: CommonEngineRenderOptions): Promise<CommonEngineRenderResult> {
+    const result = await this.renderWithCache(opts, new RenderProfiler());
+
+    if (this.options?.enablePeformanceProfiler) {
+      printPerformanceLogs(result.profile);
+    }
+
+    return result;
+  }
+
+  private async renderWithCache(
+    opts: CommonEngineRenderOptions,
+    profiler: RenderProfiler,
+  ): Promise<CommonEngineRenderResult> {
+    const key = this.renderCache && getRenderCacheKey(opts);
+    if (!this.renderCache || key === undefined) {
+      const html = await this.renderDocument(opts, profiler);
+
+      return toRenderResult(
+        { html, etag: createEtag(html), lastModified: Date.now() },
+        'bypass',
+        profiler.finish(),
+      );
+    }
+
+    const { entry, status, profile } = await this.renderCache.get(key, profiler, (profiler) =>
+      this.renderDocument(opts, profiler),
+    );
+
+    return toRenderResult(entry, status, profile);
+  }
+
+  /**
+   * Render an HTML document for a specific URL with specified render options as a stream.
+   * When the `earlyFlush` option is enabled, the start of the document template including preload
+   * hints for its stylesheets and module scripts is sent before the application is rendered.
+   */
+  renderToStream(opts: CommonEngineRenderOptions): Readable {
+    return createEarlyFlushStream(
+      async () => {
+        if (!opts.earlyFlush) {
+          return undefined;
+        }
+
+        return (
+          opts.document ||
+          (opts.documentFilePath ? await this.getDocument(opts.documentFilePath) : undefined)
+        );
+      },
+      async () => (await this.renderWithMetadata(opts)).html,
+    );
+  }
+
+  /** Remove all rendered documents from the render cache. */
+  async clearCache(): Promise<void> {
+    await this.renderCache?.clear();
+  }
+
+  private async renderDocument(
+    opts: CommonEngineRenderOptions,
+    profiler: RenderProfiler,
+  ): Promise<string> {
+    let html = await profiler.measure('ssgLookup', () => this.retrieveSSGPage(opts));
 
     if (html === undefined) {
-      html = await runMethod('Render Page', () => this.renderApplication(opts));
+      html = await profiler.measure('render', () => this.renderApplication(opts, profiler));
 
       if (opts.inlineCriticalCss !== false) {
-        const { content, errors, warnings } = await runMethod('Inline Critical CSS', () =>
+        const { content, errors, warnings } = await profiler.measure('inlineCriticalCss', () =>
           // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
           this.inlineCriticalCss(html!, opts),
         );
@@ -100,10 +226,6 @@ export class CommonEngine {
       }
     }
 
-    if (enablePeformanceProfiler) {
-      printPerformanceLogs();
-    }
-
     return html;
   }
 
@@ -150,7 +272,10 @@ export class CommonEngine {
     return undefined;
   }
 
-  private async renderApplication(opts: CommonEngineRenderOptions): Promise<string> {
+  private async renderApplication(
+    opts: CommonEngineRenderOptions,
+    profiler: RenderProfiler,
+  ): Promise<string> {
     const extraProviders: StaticProvider[] = [
       { provide: ɵSERVER_CONTEXT, useValue: 'ssr' },
       ...(opts.providers ?? []),
@@ -178,7 +303,9 @@ export class CommonEngine {
     }
 
     return isBootstrapFn(moduleOrFactory)
-      ? renderApplication(moduleOrFactory, { platformProviders: extraProviders })
+      ? renderApplication(() => profiler.measure('bootstrap', moduleOrFactory), {
+          platformProviders: extraProviders,
+        })
       : renderModule(moduleOrFactory, { extraProviders });
   }
 
@@ -195,6 +322,20 @@ export class CommonEngine {
   }
 }
 
+function toRenderResult(
+  entry: CommonEngineCacheEntry,
+  cacheStatus: CommonEngineRenderResult['cacheStatus'],
+  profile: CommonEngineRenderProfile,
+): CommonEngineRenderResult {
+  return {
+    html: entry.html,
+    etag: entry.etag,
+    lastModified: new Date(entry.lastModified),
+    cacheStatus,
+    profile,
+  };
+}
+
 async function exists(path: fs.PathLike): Promise<boolean> {
   try {
     await fs.promises.access(path, fs.constants.F_OK);
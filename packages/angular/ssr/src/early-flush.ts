@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { PassThrough, Readable } from 'node:stream';
+
+const HEAD_START_REGEXP = /^[\s\S]*?<head\b[^>]*>/i;
+const STYLESHEET_LINK_REGEXP = /<link\b[^>]*\brel=["']?stylesheet["']?[^>]*>/gi;
+const MODULE_SCRIPT_REGEXP = /<script\b[^>]*\btype=["']?module["']?[^>]*>/gi;
+const SRC_OR_HREF_REGEXP = /\b(?:src|href)=["']?([^"'\s>]+)["']?/i;
+
+/**
+ * Creates the start of a document that can be sent to the client before the application is
+ * rendered. This contains the document up to and including the opening `<head>` tag followed by
+ * preload hints for the stylesheets and module scripts of the document. Since the content is
+ * created from the document template, changes of the rendered document to this part are lost.
+ * @param document The document template of the application.
+ * @returns The content to flush early or `undefined` if the document does not contain a `<head>` element.
+ */
+export function getEarlyFlushContent(document: string): string | undefined {
+  const headStart = HEAD_START_REGEXP.exec(document)?.[0];
+  if (headStart === undefined) {
+    return undefined;
+  }
+
+  const hints: string[] = [];
+  for (const [tag] of document.matchAll(STYLESHEET_LINK_REGEXP)) {
+    const href = SRC_OR_HREF_REGEXP.exec(tag)?.[1];
+    if (href) {
+      hints.push(`<link rel="preload" as="style" href="${href}">`);
+    }
+  }
+
+  for (const [tag] of document.matchAll(MODULE_SCRIPT_REGEXP)) {
+    const src = SRC_OR_HREF_REGEXP.exec(tag)?.[1];
+    if (src) {
+      hints.push(`<link rel="modulepreload" href="${src}">`);
+    }
+  }
+
+  return headStart + hints.join('');
+}
+
+/**
+ * Removes the start of a rendered document up to and including the opening `<head>` tag.
+ * This is used to complete a document whose start was flushed early.
+ * @returns The remaining content or `undefined` if the document does not contain a `<head>` element.
+ */
+export function getContentAfterHeadStart(html: string): string | undefined {
+  const headStart = HEAD_START_REGEXP.exec(html)?.[0];
+
+  return headStart === undefined ? undefined : html.slice(headStart.length);
+}
+
+/**
+ * Creates a stream of a rendered document which starts with the early flush content of the
+ * document template, if available, and ends with the remaining content of the rendered document.
+ * @param getDocument A function that returns the document template of the application.
+ * @param render A function that renders the document.
+ */
+export function createEarlyFlushStream(
+  getDocument: () => Promise<string | undefined>,
+  render: () => Promise<string>,
+): Readable {
+  const stream = new PassThrough();
+
+  void (async () => {
+    try {
+      const document = await getDocument();
+      const earlyContent = document && getEarlyFlushContent(document);
+      if (earlyContent !== undefined) {
+        stream.write(earlyContent);
+      }
+
+      const html = await render();
+      const remainingContent = earlyContent === undefined ? html : getContentAfterHeadStart(html);
+      if (remainingContent === undefined) {
+        throw new Error('Rendered document does not contain a head element.');
+      }
+
+      stream.end(remainingContent);
+    } catch (error) {
+      stream.destroy(error instanceof Error ? error : new Error(`${error}`));
+    }
+  })();
+
+  return stream;
+}
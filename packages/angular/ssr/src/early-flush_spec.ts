@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Readable } from 'node:stream';
+import {
+  createEarlyFlushStream,
+  getContentAfterHeadStart,
+  getEarlyFlushContent,
+} from './early-flush';
+
+const DOCUMENT =
+  '<html><head><link rel="stylesheet" href="styles.css"><script type="module" src="main.js">' +
+  '</script></head><body><app-root></app-root></body></html>';
+
+const RENDERED =
+  '<html lang="en"><head><title>App</title></head><body><app-root>Hello</app-root></body></html>';
+
+async function readStream(stream: Readable): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk.toString());
+  }
+
+  return chunks;
+}
+
+describe('getEarlyFlushContent', () => {
+  it('should return the head start with preload hints of stylesheets and module scripts', () => {
+    expect(getEarlyFlushContent(DOCUMENT)).toBe(
+      '<html><head><link rel="preload" as="style" href="styles.css">' +
+        '<link rel="modulepreload" href="main.js">',
+    );
+  });
+
+  it('should return undefined for documents without a head element', () => {
+    expect(getEarlyFlushContent('<app-root></app-root>')).toBeUndefined();
+  });
+});
+
+describe('getContentAfterHeadStart', () => {
+  it('should remove the content up to and including the head start', () => {
+    expect(getContentAfterHeadStart(RENDERED)).toBe(
+      '<title>App</title></head><body><app-root>Hello</app-root></body></html>',
+    );
+  });
+});
+
+describe('createEarlyFlushStream', () => {
+  it('should send the early flush content before the document is rendered', async () => {
+    let resolveRender: (html: string) => void = () => {};
+    const stream = createEarlyFlushStream(
+      async () => DOCUMENT,
+      () => new Promise((resolve) => (resolveRender = resolve)),
+    );
+
+    const chunks: string[] = [];
+    stream.on('data', (chunk) => chunks.push(chunk.toString()));
+    const ended = new Promise((resolve) => stream.on('end', resolve));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(chunks).toEqual([getEarlyFlushContent(DOCUMENT) as string]);
+
+    resolveRender(RENDERED);
+    await ended;
+
+    expect(chunks).toEqual([
+      getEarlyFlushContent(DOCUMENT) as string,
+      '<title>App</title></head><body><app-root>Hello</app-root></body></html>',
+    ]);
+  });
+
+  it('should send the whole rendered document when there is no document template', async () => {
+    const chunks = await readStream(
+      createEarlyFlushStream(
+        async () => undefined,
+        async () => RENDERED,
+      ),
+    );
+
+    expect(chunks).toEqual([RENDERED]);
+  });
+
+  it('should send the whole rendered document when the template has no head element', async () => {
+    const chunks = await readStream(
+      createEarlyFlushStream(
+        async () => '<app-root></app-root>',
+        async () => RENDERED,
+      ),
+    );
+
+    expect(chunks).toEqual([RENDERED]);
+  });
+
+  it('should fail the stream when the rendered document has no head element', async () => {
+    const stream = createEarlyFlushStream(
+      async () => DOCUMENT,
+      async () => '<app-root></app-root>',
+    );
+
+    await expectAsync(readStream(stream)).toBeRejectedWithError(
+      'Rendered document does not contain a head element.',
+    );
+  });
+
+  it('should fail the stream when rendering fails', async () => {
+    const stream = createEarlyFlushStream(
+      async () => DOCUMENT,
+      () => Promise.reject(new Error('Render failed')),
+    );
+
+    await expectAsync(readStream(stream)).toBeRejectedWithError('Render failed');
+  });
+});
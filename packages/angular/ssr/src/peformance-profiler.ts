@@ -6,25 +6,86 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-const PERFORMANCE_MARK_PREFIX = '🅰️';
+/**
+ * The duration in milliseconds of each step of a single render.
+ * Steps that were not performed are not present.
+ */
+export interface CommonEngineRenderProfile {
+  /** Time spent looking up a prerendered (SSG) page. */
+  ssgLookup?: number;
+  /** Time spent bootstrapping the application. Only measured for standalone applications. */
+  bootstrap?: number;
+  /** Time spent rendering the application excluding the bootstrap time. */
+  render?: number;
+  /** Time spent inlining critical CSS. */
+  inlineCriticalCss?: number;
+  /** Total time of the render including all other steps. */
+  total: number;
+}
 
-export function printPerformanceLogs(): void {
-  let maxWordLength = 0;
-  const benchmarks: [step: string, value: string][] = [];
+type RenderProfileStep = Exclude<keyof CommonEngineRenderProfile, 'total'>;
+
+const STEP_LABELS: Record<keyof CommonEngineRenderProfile, string> = {
+  ssgLookup: 'Retrieve SSG Page',
+  bootstrap: 'Bootstrap',
+  render: 'Render Page',
+  inlineCriticalCss: 'Inline Critical CSS',
+  total: 'Total',
+};
+
+const SERVER_TIMING_NAMES: Record<keyof CommonEngineRenderProfile, string> = {
+  ssgLookup: 'ssg',
+  bootstrap: 'bootstrap',
+  render: 'render',
+  inlineCriticalCss: 'critical-css',
+  total: 'total',
+};
+
+/**
+ * Collects the durations of the steps of a single render.
+ * Each render uses its own instance which keeps concurrent renders apart.
+ */
+export class RenderProfiler {
+  private readonly startTime = performance.now();
+  private readonly durations: Partial<Record<RenderProfileStep, number>> = {};
 
-  for (const { name, duration } of performance.getEntriesByType('measure')) {
-    if (!name.startsWith(PERFORMANCE_MARK_PREFIX)) {
-      continue;
+  async measure<T>(step: RenderProfileStep, asyncMethod: () => Promise<T>): Promise<T> {
+    const start = performance.now();
+
+    try {
+      return await asyncMethod();
+    } finally {
+      this.durations[step] = (this.durations[step] ?? 0) + performance.now() - start;
+    }
+  }
+
+  finish(): CommonEngineRenderProfile {
+    const profile: CommonEngineRenderProfile = {
+      ...this.durations,
+      total: performance.now() - this.startTime,
+    };
+
+    // Bootstrapping is measured as part of rendering.
+    if (profile.render !== undefined && profile.bootstrap !== undefined) {
+      profile.render = Math.max(0, profile.render - profile.bootstrap);
     }
 
-    // `🅰️:Retrieve SSG Page` -> `Retrieve SSG Page:`
-    const step = name.slice(PERFORMANCE_MARK_PREFIX.length + 1) + ':';
+    return profile;
+  }
+}
+
+export function printPerformanceLogs(profile: CommonEngineRenderProfile): void {
+  let maxWordLength = 0;
+  const benchmarks: [step: string, value: string][] = [];
+
+  for (const [name, duration] of getProfileEntries(profile)) {
+    // `ssgLookup` -> `Retrieve SSG Page:`
+    const step = STEP_LABELS[name] + ':';
     if (step.length > maxWordLength) {
       maxWordLength = step.length;
     }
 
     benchmarks.push([step, `${duration.toFixed(1)}ms`]);
-    performance.clearMeasures(name);
   }
 
   /* eslint-disable no-console */
@@ -37,29 +98,54 @@ export function printPerformanceLogs(): void {
   /* eslint-enable no-console */
 }
 
-export async function runMethodAndMeasurePerf<T>(
-  label: string,
-  asyncMethod: () => Promise<T>,
-): Promise<T> {
-  const labelName = `${PERFORMANCE_MARK_PREFIX}:${label}`;
-  const startLabel = `start:${labelName}`;
-  const endLabel = `end:${labelName}`;
-
-  try {
-    performance.mark(startLabel);
-
-    return await asyncMethod();
-  } finally {
-    performance.mark(endLabel);
-    performance.measure(labelName, startLabel, endLabel);
-    performance.clearMarks(startLabel);
-    performance.clearMarks(endLabel);
-  }
+/**
+ * Formats a render profile as the value of a `Server-Timing` response header.
+ * @see https://developer.mozilla.org/docs/Web/HTTP/Headers/Server-Timing
+ */
+export function formatServerTiming(profile: CommonEngineRenderProfile): string {
+  return getProfileEntries(profile)
+    .map(([name, duration]) =>
+      formatServerTimingMetric(SERVER_TIMING_NAMES[name], duration, STEP_LABELS[name]),
+    )
+    .join(', ');
+}
+
+/**
+ * Formats a single metric of a `Server-Timing` header value.
+ * The name and the description are escaped to be valid in a header.
+ */
+export function formatServerTimingMetric(
+  name: string,
+  duration: number,
+  description?: string,
+): string {
+  const desc = description === undefined ? '' : `;desc=${toServerTimingQuotedString(description)}`;
+
+  return `${toServerTimingToken(name)}${desc};dur=${duration.toFixed(1)}`;
+}
+
+/**
+ * Replaces the characters that are not allowed in an HTTP token, such as a metric name.
+ * @see https://httpwg.org/specs/rfc9110.html#tokens
+ */
+function toServerTimingToken(value: string): string {
+  return value.replace(/[^!#$%&'*+\-.^_`|~0-9A-Za-z]/g, '-');
+}
+
+/**
+ * Creates an HTTP quoted string, such as a metric description, by escaping quotes and backslashes
+ * and removing control characters which are not allowed in header values.
+ * @see https://httpwg.org/specs/rfc9110.html#quoted.strings
+ */
+function toServerTimingQuotedString(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  return `"${value.replace(/[\x00-\x08\x0a-\x1f\x7f]/g, '').replace(/["\\]/g, '\\$&')}"`;
 }
 
-export function noopRunMethodAndMeasurePerf<T>(
-  label: string,
-  asyncMethod: () => Promise<T>,
-): Promise<T> {
-  return asyncMethod();
+function getProfileEntries(
+  profile: CommonEngineRenderProfile,
+): [name: keyof CommonEngineRenderProfile, duration: number][] {
+  return (Object.keys(STEP_LABELS) as (keyof CommonEngineRenderProfile)[])
+    .filter((name) => profile[name] !== undefined)
+    .map((name) => [name, profile[name] as number]);
 }
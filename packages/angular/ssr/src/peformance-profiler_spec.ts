@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import {
+  RenderProfiler,
+  formatServerTiming,
+  formatServerTimingMetric,
+} from './peformance-profiler';
+
+describe('RenderProfiler', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    spyOn(performance, 'now').and.callFake(() => now);
+  });
+
+  function step(duration: number): Promise<void> {
+    now += duration;
+
+    return Promise.resolve();
+  }
+
+  it('should only include measured steps in the profile', async () => {
+    const profiler = new RenderProfiler();
+    await profiler.measure('ssgLookup', () => step(2));
+    now += 1;
+
+    expect(profiler.finish()).toEqual({ ssgLookup: 2, total: 3 });
+  });
+
+  it('should exclude the bootstrap time from the render time', async () => {
+    const profiler = new RenderProfiler();
+    await profiler.measure('render', async () => {
+      await step(1);
+      await profiler.measure('bootstrap', () => step(4));
+      await step(2);
+    });
+    await profiler.measure('inlineCriticalCss', () => step(3));
+
+    expect(profiler.finish()).toEqual({ bootstrap: 4, render: 3, inlineCriticalCss: 3, total: 10 });
+  });
+
+  it('should add the durations of repeated steps', async () => {
+    const profiler = new RenderProfiler();
+    await profiler.measure('render', () => step(1));
+    await profiler.measure('render', () => step(2));
+
+    expect(profiler.finish().render).toBe(3);
+  });
+
+  it('should measure steps that fail', async () => {
+    const profiler = new RenderProfiler();
+
+    await expectAsync(
+      profiler.measure('render', async () => {
+        await step(5);
+        throw new Error('Render failed');
+      }),
+    ).toBeRejectedWithError('Render failed');
+    expect(profiler.finish().render).toBe(5);
+  });
+
+  it('should keep the profiles of concurrent renders apart', async () => {
+    const first = new RenderProfiler();
+    const second = new RenderProfiler();
+    await first.measure('render', () => step(1));
+    await second.measure('ssgLookup', () => step(2));
+
+    expect(first.finish()).toEqual({ render: 1, total: 3 });
+    expect(second.finish()).toEqual({ ssgLookup: 2, total: 3 });
+  });
+});
+
+describe('formatServerTiming', () => {
+  it('should format each step of the profile as a metric', () => {
+    expect(formatServerTiming({ ssgLookup: 0.25, render: 12.34, total: 15 })).toBe(
+      'ssg;desc="Retrieve SSG Page";dur=0.3, render;desc="Render Page";dur=12.3, ' +
+        'total;desc="Total";dur=15.0',
+    );
+  });
+
+  it('should format all steps in a fixed order', () => {
+    expect(
+      formatServerTiming({
+        total: 4,
+        inlineCriticalCss: 3,
+        render: 2,
+        bootstrap: 1,
+        ssgLookup: 0,
+      })
+        .split(', ')
+        .map((metric) => metric.split(';')[0]),
+    ).toEqual(['ssg', 'bootstrap', 'render', 'critical-css', 'total']);
+  });
+});
+
+describe('formatServerTimingMetric', () => {
+  it('should format a metric without a description', () => {
+    expect(formatServerTimingMetric('db', 1)).toBe('db;dur=1.0');
+  });
+
+  it('should replace characters that are not allowed in metric names', () => {
+    expect(formatServerTimingMetric('my metric;desc="x",', 1)).toBe('my-metric-desc--x--;dur=1.0');
+  });
+
+  it('should escape quotes and backslashes in descriptions', () => {
+    expect(formatServerTimingMetric('db', 1, 'say "hi" \\o/')).toBe(
+      'db;desc="say \\"hi\\" \\\\o/";dur=1.0',
+    );
+  });
+
+  it('should remove control characters from descriptions', () => {
+    expect(formatServerTimingMetric('db', 1, 'a\r\nb\tc')).toBe('db;desc="ab\tc";dur=1.0');
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { createHash } from 'node:crypto';
+import type { CommonEngineRenderOptions } from './common-engine';
+import { CommonEngineRenderProfile, RenderProfiler } from './peformance-profiler';
+
+export interface CommonEngineCacheEntry {
+  /** The rendered HTML document including inlined critical CSS. */
+  html: string;
+  /** A strong entity tag of the rendered HTML document. */
+  etag: string;
+  /** The time the document was rendered in milliseconds since the epoch. */
+  lastModified: number;
+}
+
+/**
+ * A store used by the `CommonEngine` to cache rendered documents.
+ * Implementations can use an external store such as Redis to share rendered documents between servers.
+ */
+export interface CommonEngineCacheStore {
+  get(
+    key: string,
+  ): CommonEngineCacheEntry | undefined | Promise<CommonEngineCacheEntry | undefined>;
+  set(key: string, entry: CommonEngineCacheEntry): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+export interface CommonEngineCacheOptions {
+  /**
+   * The store used to cache rendered documents.
+   * Defaults to an in-memory store containing up to 1000 documents.
+   */
+  store?: CommonEngineCacheStore;
+  /** The number of milliseconds a rendered document is considered fresh. */
+  ttl: number;
+  /**
+   * The number of milliseconds after a document has expired during which the stale document is
+   * served while the document is rendered again in the background.
+   * Defaults to 0.
+   */
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * A least recently used in-memory store of rendered documents.
+ */
+export class MemoryCacheStore implements CommonEngineCacheStore {
+  private readonly entries = new Map<string, CommonEngineCacheEntry>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  get(key: string): CommonEngineCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Move the entry to the end of the insertion order to mark it as recently used.
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  set(key: string, entry: CommonEngineCacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    if (this.entries.size > this.maxEntries) {
+      // The first key is the least recently used entry.
+      const [oldestKey] = this.entries.keys();
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * How a document was retrieved from the render cache.
+ * - `hit`: a fresh cached document was used.
+ * - `stale`: a stale cached document was used while it is rendered again in the background.
+ * - `miss`: the document was rendered and stored in the cache.
+ */
+export type RenderCacheStatus = 'hit' | 'stale' | 'miss';
+
+export interface RenderCacheResult {
+  entry: CommonEngineCacheEntry;
+  status: RenderCacheStatus;
+  profile: CommonEngineRenderProfile;
+}
+
+interface RenderedDocument {
+  entry: CommonEngineCacheEntry;
+  profile: CommonEngineRenderProfile;
+}
+
+/**
+ * Serves rendered documents from a cache store based on their age and renders them when needed.
+ */
+export class RenderCache {
+  private readonly pendingRenders = new Map<string, Promise<RenderedDocument>>();
+
+  constructor(
+    private readonly store: CommonEngineCacheStore,
+    private readonly options: CommonEngineCacheOptions,
+  ) {}
+
+  /**
+   * Retrieve a document from the cache or render it.
+   * @param key The cache key of the document.
+   * @param profiler The profiler of the request.
+   * @param render A function that renders the document using the given profiler.
+   */
+  async get(
+    key: string,
+    profiler: RenderProfiler,
+    render: (profiler: RenderProfiler) => Promise<string>,
+  ): Promise<RenderCacheResult> {
+    const { ttl, staleWhileRevalidate = 0 } = this.options;
+
+    const cached = await this.store.get(key);
+    const age = cached ? Date.now() - cached.lastModified : Infinity;
+    if (cached && age <= ttl) {
+      return { entry: cached, status: 'hit', profile: profiler.finish() };
+    }
+
+    if (cached && age <= ttl + staleWhileRevalidate) {
+      this.revalidate(key, new RenderProfiler(), render).catch((error) => {
+        // eslint-disable-next-line no-console
+        console.error(error);
+      });
+
+      return { entry: cached, status: 'stale', profile: profiler.finish() };
+    }
+
+    // Requests that join a pending render share the profile of that render.
+    const { entry, profile } = await this.revalidate(key, profiler, render);
+
+    return { entry, status: 'miss', profile };
+  }
+
+  clear(): void | Promise<void> {
+    return this.store.clear();
+  }
+
+  /**
+   * Render a document and store it in the cache store.
+   * Concurrent requests for the same cache key share a single render.
+   */
+  private revalidate(
+    key: string,
+    profiler: RenderProfiler,
+    render: (profiler: RenderProfiler) => Promise<string>,
+  ): Promise<RenderedDocument> {
+    let pending = this.pendingRenders.get(key);
+    if (!pending) {
+      pending = render(profiler)
+        .then(async (html) => {
+          const entry = { html, etag: createEtag(html), lastModified: Date.now() };
+          await this.store.set(key, entry);
+
+          return { entry, profile: profiler.finish() };
+        })
+        .finally(() => this.pendingRenders.delete(key));
+
+      this.pendingRenders.set(key, pending);
+    }
+
+    return pending;
+  }
+}
+
+/**
+ * Creates the cache key of the document rendered for a request.
+ * @returns The cache key or `undefined` when the document of the request cannot be cached.
+ * This is the case for requests without a URL and requests with per-request providers but without
+ * `cacheFacets`, since such providers can contain user specific values.
+ */
+export function getRenderCacheKey(opts: CommonEngineRenderOptions): string | undefined {
+  if (opts.url === undefined || (opts.providers?.length && opts.cacheFacets === undefined)) {
+    return undefined;
+  }
+
+  return createCacheKey(
+    opts.url,
+    [
+      opts.documentFilePath ?? (opts.document && createEtag(opts.document)),
+      opts.publicPath,
+      opts.inlineCriticalCss !== false,
+    ],
+    opts.cacheFacets,
+  );
+}
+
+/**
+ * Creates the cache key of a rendered document.
+ * @param url The URL of the request.
+ * @param parts Additional values that affect the rendered document such as the document file path.
+ * @param facets Custom request facets such as the device type or locale.
+ */
+export function createCacheKey(
+  url: string,
+  parts: unknown[],
+  facets: Record<string, string> = {},
+): string {
+  const sortedFacets = Object.entries(facets).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return JSON.stringify([url, ...parts, sortedFacets]);
+}
+
+export function createEtag(html: string): string {
+  return `"${createHash('sha1').update(html).digest('base64url')}"`;
+}
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { RenderProfiler } from './peformance-profiler';
+import {
+  CommonEngineCacheEntry,
+  MemoryCacheStore,
+  RenderCache,
+  createCacheKey,
+  createEtag,
+  getRenderCacheKey,
+} from './render-cache';
+
+function createEntry(html: string): CommonEngineCacheEntry {
+  return { html, etag: createEtag(html), lastModified: 0 };
+}
+
+describe('MemoryCacheStore', () => {
+  it('should return stored entries', () => {
+    const store = new MemoryCacheStore();
+    const entry = createEntry('<html></html>');
+    store.set('a', entry);
+
+    expect(store.get('a')).toBe(entry);
+  });
+
+  it('should return undefined for unknown keys', () => {
+    const store = new MemoryCacheStore();
+    store.set('a', createEntry('a'));
+
+    expect(store.get('b')).toBeUndefined();
+  });
+
+  it('should replace the entry of an existing key', () => {
+    const store = new MemoryCacheStore();
+    store.set('a', createEntry('a'));
+    const entry = createEntry('b');
+    store.set('a', entry);
+
+    expect(store.get('a')).toBe(entry);
+  });
+
+  it('should evict the least recently used entry when full', () => {
+    const store = new MemoryCacheStore(2);
+    store.set('a', createEntry('a'));
+    store.set('b', createEntry('b'));
+    // Reading an entry marks it as recently used.
+    store.get('a');
+    store.set('c', createEntry('c'));
+
+    expect(store.get('a')).toBeDefined();
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toBeDefined();
+  });
+
+  it('should remove all entries when cleared', () => {
+    const store = new MemoryCacheStore();
+    store.set('a', createEntry('a'));
+    store.set('b', createEntry('b'));
+    store.clear();
+
+    expect(store.get('a')).toBeUndefined();
+    expect(store.get('b')).toBeUndefined();
+  });
+});
+
+describe('RenderCache', () => {
+  let store: MemoryCacheStore;
+  let cache: RenderCache;
+  let renders: number;
+
+  function render(profiler: RenderProfiler): Promise<string> {
+    renders++;
+
+    return profiler.measure('render', async () => `<html>${renders}</html>`);
+  }
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(0));
+    store = new MemoryCacheStore();
+    cache = new RenderCache(store, { ttl: 1000, staleWhileRevalidate: 1000 });
+    renders = 0;
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  it('should render and store a document on a miss', async () => {
+    const { entry, status, profile } = await cache.get('/', new RenderProfiler(), render);
+
+    expect(status).toBe('miss');
+    expect(entry).toEqual({
+      html: '<html>1</html>',
+      etag: createEtag('<html>1</html>'),
+      lastModified: 0,
+    });
+    expect(profile.render).toBeDefined();
+    expect(store.get('/')).toEqual(entry);
+  });
+
+  it('should serve fresh documents without rendering', async () => {
+    await cache.get('/', new RenderProfiler(), render);
+    jasmine.clock().tick(1000);
+    const { entry, status, profile } = await cache.get('/', new RenderProfiler(), render);
+
+    expect(status).toBe('hit');
+    expect(entry.html).toBe('<html>1</html>');
+    expect(profile.render).toBeUndefined();
+    expect(renders).toBe(1);
+  });
+
+  it('should serve stale documents while rendering them again in the background', async () => {
+    await cache.get('/', new RenderProfiler(), render);
+    jasmine.clock().tick(1500);
+
+    const revalidated = new Promise<void>((resolve) => {
+      spyOn(store, 'set').and.callFake((key, entry) => {
+        MemoryCacheStore.prototype.set.call(store, key, entry);
+        resolve();
+      });
+    });
+    const stale = await cache.get('/', new RenderProfiler(), render);
+    await revalidated;
+    const hit = await cache.get('/', new RenderProfiler(), render);
+
+    expect(stale.status).toBe('stale');
+    expect(stale.entry.html).toBe('<html>1</html>');
+    expect(hit.status).toBe('hit');
+    expect(hit.entry.html).toBe('<html>2</html>');
+  });
+
+  it('should render expired documents after the stale period', async () => {
+    await cache.get('/', new RenderProfiler(), render);
+    jasmine.clock().tick(2001);
+    const { entry, status } = await cache.get('/', new RenderProfiler(), render);
+
+    expect(status).toBe('miss');
+    expect(entry.html).toBe('<html>2</html>');
+  });
+
+  it('should share a single render between concurrent requests', async () => {
+    const results = await Promise.all([
+      cache.get('/', new RenderProfiler(), render),
+      cache.get('/', new RenderProfiler(), render),
+    ]);
+
+    expect(results.map(({ status }) => status)).toEqual(['miss', 'miss']);
+    expect(results[0].entry).toBe(results[1].entry);
+    expect(renders).toBe(1);
+  });
+
+  it('should render a failed document again on the next request', async () => {
+    const failure = cache.get('/', new RenderProfiler(), () => Promise.reject(new Error('Failed')));
+
+    await expectAsync(failure).toBeRejectedWithError('Failed');
+    expect((await cache.get('/', new RenderProfiler(), render)).status).toBe('miss');
+  });
+
+  it('should remove all documents from the store when cleared', async () => {
+    await cache.get('/', new RenderProfiler(), render);
+    await cache.clear();
+    const { status } = await cache.get('/', new RenderProfiler(), render);
+
+    expect(status).toBe('miss');
+    expect(renders).toBe(2);
+  });
+});
+
+describe('getRenderCacheKey', () => {
+  it('should create keys for requests with a URL', () => {
+    expect(getRenderCacheKey({ url: '/', documentFilePath: 'index.html' })).toBeDefined();
+    expect(getRenderCacheKey({ documentFilePath: 'index.html' })).toBeUndefined();
+  });
+
+  it('should not create keys for requests with providers but without facets', () => {
+    const providers = [{ provide: 'USER', useValue: 'a' }];
+
+    expect(getRenderCacheKey({ url: '/', providers })).toBeUndefined();
+    expect(getRenderCacheKey({ url: '/', providers: [] })).toBeDefined();
+    expect(getRenderCacheKey({ url: '/', providers, cacheFacets: { user: 'a' } })).toBeDefined();
+  });
+
+  it('should create different keys for different documents and facets', () => {
+    const key = getRenderCacheKey({ url: '/', document: '<html>a</html>' });
+
+    expect(getRenderCacheKey({ url: '/', document: '<html>b</html>' })).not.toBe(key);
+    expect(
+      getRenderCacheKey({ url: '/', document: '<html>a</html>', inlineCriticalCss: false }),
+    ).not.toBe(key);
+    expect(
+      getRenderCacheKey({
+        url: '/',
+        document: '<html>a</html>',
+        cacheFacets: { device: 'mobile' },
+      }),
+    ).not.toBe(key);
+  });
+});
+
+describe('createCacheKey', () => {
+  it('should not depend on the order of the facets', () => {
+    expect(createCacheKey('/', [], { device: 'mobile', locale: 'en' })).toBe(
+      createCacheKey('/', [], { locale: 'en', device: 'mobile' }),
+    );
+  });
+
+  it('should differ for different URLs, parts and facets', () => {
+    const key = createCacheKey('/', ['index.html'], { device: 'mobile' });
+
+    expect(createCacheKey('/about', ['index.html'], { device: 'mobile' })).not.toBe(key);
+    expect(createCacheKey('/', ['other.html'], { device: 'mobile' })).not.toBe(key);
+    expect(createCacheKey('/', ['index.html'], { device: 'desktop' })).not.toBe(key);
+  });
+});
+
+describe('createEtag', () => {
+  it('should create the same quoted entity tag for the same content', () => {
+    const etag = createEtag('<html></html>');
+
+    expect(etag).toMatch(/^"[\w-]+"$/);
+    expect(createEtag('<html></html>')).toBe(etag);
+  });
+
+  it('should create different entity tags for different content', () => {
+    expect(createEtag('<html>a</html>')).not.toBe(createEtag('<html>b</html>'));
+  });
+});
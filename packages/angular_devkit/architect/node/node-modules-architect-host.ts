@@ -10,7 +10,12 @@ import { json, workspaces } from '@angular-devkit/core';
 import * as path from 'path';
 import { URL, pathToFileURL } from 'url';
 import { deserialize, serialize } from 'v8';
-import { BuilderInfo } from '../src';
+import {
+  BuilderCacheInfo,
+  BuilderInfo,
+  targetFromTargetString,
+  targetStringFromTarget,
+} from '../src';
 import { Schema as BuilderSchema } from '../src/builders-schema';
 import { Target } from '../src/input-schema';
 import { ArchitectHost, Builder, BuilderSymbol } from '../src/internal';
@@ -33,6 +38,7 @@ export interface WorkspaceHost {
   getOptions(project: string, target: string, configuration?: string): Promise<json.JsonObject>;
   hasTarget(project: string, target: string): Promise<boolean>;
   getDefaultConfigurationName(project: string, target: string): Promise<string | undefined>;
+  getDependencies?(project: string, target: string): Promise<string[]>;
 }
 
 function findProjectTarget(
@@ -106,6 +112,9 @@ export class WorkspaceNodeModulesArchitectHost implements ArchitectHost<NodeModu
         async getDefaultConfigurationName(project, target) {
           return workspaceOrHost.projects.get(project)?.targets.get(target)?.defaultConfiguration;
         },
+        async getDependencies(project, target) {
+          return findProjectTarget(workspaceOrHost, project, target).dependsOn ?? [];
+        },
       };
     }
   }
@@ -150,12 +159,15 @@ export class WorkspaceNodeModulesArchitectHost implements ArchitectHost<NodeModu
       throw new Error('Could not find the implementation for builder ' + builderStr);
     }
 
+    const cache: BuilderCacheInfo | undefined = builder.cache;
+
     return Promise.resolve({
       name: builderStr,
       builderName,
       description: builder['description'],
       optionSchema: require(path.resolve(path.dirname(builderJsonPath), builder.schema)),
       import: path.resolve(path.dirname(builderJsonPath), importPath),
+      ...(cache ? { cache } : {}),
     });
   }
 
@@ -190,6 +202,36 @@ export class WorkspaceNodeModulesArchitectHost implements ArchitectHost<NodeModu
     return clone(options) as json.JsonObject;
   }
 
+  /**
+   * Get the targets that must complete successfully before a target runs.
+   * Dependencies are declared with the `dependsOn` field of a target. Entries are either a target
+   * name of the same project or a `project:target[:configuration]` string.
+   * @param target The target to inspect.
+   */
+  async getDependenciesForTarget(target: Target): Promise<Target[]> {
+    if (
+      !this.workspaceHost.getDependencies ||
+      !(await this.workspaceHost.hasTarget(target.project, target.target))
+    ) {
+      return [];
+    }
+
+    const dependsOn = await this.workspaceHost.getDependencies(target.project, target.target);
+    if (!Array.isArray(dependsOn)) {
+      throw new Error(
+        `Invalid "dependsOn" value of target "${targetStringFromTarget(
+          target,
+        )}"; expected an array.`,
+      );
+    }
+
+    return dependsOn.map((dependency) =>
+      dependency.includes(':')
+        ? targetFromTargetString(dependency)
+        : { project: target.project, target: dependency },
+    );
+  }
+
   async getProjectMetadata(target: Target | string): Promise<json.JsonObject | null> {
     const projectName = typeof target === 'string' ? target : target.project;
     const metadata = this.workspaceHost.getMetadata(projectName);
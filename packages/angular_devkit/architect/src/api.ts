@@ -320,6 +320,19 @@ export type BuilderInfo = json.JsonObject & {
   builderName: string;
   description: string;
   optionSchema: json.schema.JsonSchema;
+  cache?: BuilderCacheInfo;
+};
+
+/**
+ * The inputs and outputs of a builder from the `cache` field of its `builders.json` entry.
+ * Results of builders which declare these can be restored from the local build result cache.
+ */
+export type BuilderCacheInfo = {
+  inputs?: {
+    files?: string[];
+    env?: string[];
+  };
+  outputs: string[];
 };
 
 /**
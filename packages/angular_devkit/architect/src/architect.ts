@@ -7,6 +7,7 @@
  */
 
 import { json, logging } from '@angular-devkit/core';
+import { cpus } from 'os';
 import {
   Observable,
   concatMap,
@@ -25,11 +26,13 @@ import {
   BuilderInfo,
   BuilderInput,
   BuilderOutput,
+  BuilderProgressReport,
   BuilderRegistry,
   BuilderRun,
   Target,
   targetStringFromTarget,
 } from './api';
+import { scheduleCachedTarget } from './build-cache';
 import { ArchitectHost, BuilderDescription, BuilderJobHandler } from './internal';
 import {
   FallbackRegistry,
@@ -46,6 +49,7 @@ import {
   createJobHandler,
 } from './jobs';
 import { scheduleByName, scheduleByTarget } from './schedule-by-name';
+import { resolveTargetGraph, runTargetGraph } from './target-graph';
 
 const inputSchema = require('./input-schema.json');
 const outputSchema = require('./output-schema.json');
@@ -142,6 +146,21 @@ function _createJobHandlerFromBuilderInfo(
 
 export interface ScheduleOptions {
   logger?: logging.Logger;
+  /**
+   * The maximum number of dependency targets that run at the same time.
+   * Defaults to the number of CPUs.
+   */
+  concurrency?: number;
+  /**
+   * Called with the progress reports of the scheduled target and each of its dependency targets.
+   */
+  onProgress?: (target: Target, report: BuilderProgressReport) => void;
+  /**
+   * The directory of the local build result cache. When provided, the results of targets whose
+   * builders declare their inputs and outputs are restored from the cache when none of the inputs
+   * changed.
+   */
+  cachePath?: string;
 }
 
 /**
@@ -403,16 +422,73 @@ export class Architect {
       workspaceRoot: this._host.getWorkspaceRoot(),
     });
   }
-  scheduleTarget(
+
+  /**
+   * Schedule a target. Targets which the target depends on are run first, with independent
+   * targets running concurrently. Dependency targets run until their first result and use their
+   * default options.
+   * @param target The target to schedule.
+   * @param overrides Overrides of the target options. These do not apply to dependency targets.
+   * @param scheduleOptions Additional scheduling options.
+   */
+  async scheduleTarget(
     target: Target,
     overrides: json.JsonObject = {},
     scheduleOptions: ScheduleOptions = {},
   ): Promise<BuilderRun> {
-    return scheduleByTarget(target, overrides, {
+    const { concurrency = cpus().length, onProgress } = scheduleOptions;
+    const options = {
       scheduler: this._scheduler,
       logger: scheduleOptions.logger || new logging.NullLogger(),
       currentDirectory: this._host.getCurrentDirectory(),
       workspaceRoot: this._host.getWorkspaceRoot(),
-    });
+    };
+
+    const scheduleTarget = (target: Target, overrides: json.JsonObject) => {
+      const schedule = () => scheduleByTarget(target, overrides, options);
+
+      return scheduleOptions.cachePath === undefined
+        ? schedule()
+        : scheduleCachedTarget(
+            this._host,
+            target,
+            overrides,
+            scheduleOptions.cachePath,
+            options.logger,
+            schedule,
+          );
+    };
+
+    const dependencies = await resolveTargetGraph(this._host, target);
+    dependencies.delete(targetStringFromTarget(target));
+
+    if (dependencies.size) {
+      await runTargetGraph(dependencies, concurrency, async (node) => {
+        const run = await scheduleTarget(node.target, {});
+        const progressSubscription =
+          onProgress &&
+          run.progress.subscribe({
+            next: (report) => onProgress(node.target, report),
+            error: () => {},
+          });
+
+        try {
+          return await run.result;
+        } finally {
+          await run.stop();
+          progressSubscription?.unsubscribe();
+        }
+      });
+    }
+
+    const run = await scheduleTarget(target, overrides);
+    if (onProgress) {
+      run.progress.subscribe({
+        next: (report) => onProgress(target, report),
+        error: () => {},
+      });
+    }
+
+    return run;
   }
 }
@@ -0,0 +1,400 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { json, logging } from '@angular-devkit/core';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { concatMap, firstValueFrom, lastValueFrom, shareReplay } from 'rxjs';
+import {
+  BuilderCacheInfo,
+  BuilderInfo,
+  BuilderOutput,
+  BuilderRun,
+  Target,
+  targetStringFromTarget,
+} from './api';
+import { ArchitectHost } from './internal';
+import { createReplayedRun } from './schedule-by-name';
+
+/**
+ * Version of the cache entries. Changing this invalidates all existing entries.
+ */
+const CACHE_VERSION = 1;
+
+const PLACEHOLDER_REGEXP = /\{(projectRoot|options\.([^}#]+)(?:#([^}]+))?)\}/g;
+
+interface CacheEntry {
+  version: number;
+  output: BuilderOutput;
+  /** The workspace relative paths of the outputs. */
+  outputs: string[];
+  /** A map of workspace relative file paths to the hash of their content. */
+  files: Record<string, string>;
+}
+
+interface CacheContext {
+  target: Target;
+  builderName: string;
+  description: BuilderCacheInfo;
+  options: json.JsonObject;
+  workspaceRoot: string;
+  projectRoot: string;
+}
+
+/**
+ * A local content-addressed store of builder results.
+ *
+ * Entries are stored as `entries/<inputs hash>.json` and reference the content of the output files
+ * stored as `content/<content hash>`. File contents are shared between entries.
+ */
+export class BuildResultCache {
+  constructor(readonly cachePath: string) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(this.getEntryPath(key), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+
+    return entry.version === CACHE_VERSION ? entry : undefined;
+  }
+
+  async set(
+    key: string,
+    output: BuilderOutput,
+    outputs: string[],
+    workspaceRoot: string,
+  ): Promise<void> {
+    const files: Record<string, string> = {};
+
+    for (const outputPath of outputs) {
+      for (const file of await listFiles(path.join(workspaceRoot, outputPath))) {
+        const content = await fs.readFile(file);
+        const hash = hashContent(content);
+        const contentPath = this.getContentPath(hash);
+
+        await fs.mkdir(path.dirname(contentPath), { recursive: true });
+        await fs.writeFile(contentPath, content, { flag: 'wx' }).catch((error) => {
+          // The content was already stored by another entry.
+          if (error?.code !== 'EEXIST') {
+            throw error;
+          }
+        });
+
+        files[toPosixPath(path.relative(workspaceRoot, file))] = hash;
+      }
+    }
+
+    const entry: CacheEntry = { version: CACHE_VERSION, output, outputs, files };
+    await fs.mkdir(path.dirname(this.getEntryPath(key)), { recursive: true });
+    await fs.writeFile(this.getEntryPath(key), JSON.stringify(entry));
+  }
+
+  /**
+   * Replaces the outputs in the workspace with the files of a cache entry.
+   * @returns `false` when content of the entry is missing from the store.
+   */
+  async restore(entry: CacheEntry, workspaceRoot: string): Promise<boolean> {
+    const contents = new Map<string, Buffer>();
+    for (const hash of new Set(Object.values(entry.files))) {
+      try {
+        contents.set(hash, await fs.readFile(this.getContentPath(hash)));
+      } catch {
+        return false;
+      }
+    }
+
+    for (const output of entry.outputs) {
+      await fs.rm(path.join(workspaceRoot, output), { force: true, recursive: true });
+    }
+
+    for (const [file, hash] of Object.entries(entry.files)) {
+      const filePath = path.join(workspaceRoot, file);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, contents.get(hash) as Buffer);
+    }
+
+    return true;
+  }
+
+  private getEntryPath(key: string): string {
+    return path.join(this.cachePath, 'entries', key + '.json');
+  }
+
+  private getContentPath(hash: string): string {
+    return path.join(this.cachePath, 'content', hash.slice(0, 2), hash);
+  }
+}
+
+/**
+ * Schedules a target and caches its result when its builder declares its inputs and outputs.
+ * When a result for the current inputs exists in the cache, the outputs are restored and the
+ * result is replayed without scheduling the builder.
+ * @param host The host used to retrieve the builder and the options of the target.
+ * @param target The target to schedule.
+ * @param overrides Overrides of the target options.
+ * @param cachePath The directory of the cache.
+ * @param logger The logger used to report restored results and cache failures.
+ * @param schedule A function that schedules the target.
+ */
+export async function scheduleCachedTarget(
+  host: ArchitectHost,
+  target: Target,
+  overrides: json.JsonObject,
+  cachePath: string,
+  logger: logging.LoggerApi,
+  schedule: () => Promise<BuilderRun>,
+): Promise<BuilderRun> {
+  const context = await createCacheContext(host, target, overrides);
+  const outputs = context && (await resolvePaths(context.description.outputs, context));
+  const inputs = context && (await resolvePaths(context.description.inputs?.files ?? [], context));
+  // An input which resolves to the workspace root, such as the root of a project located at the
+  // root of the workspace, would hash every file of the workspace.
+  if (!context || !outputs || !inputs || inputs.includes('.')) {
+    return schedule();
+  }
+
+  const cache = new BuildResultCache(cachePath);
+  const targetName = targetStringFromTarget(target);
+  const key = await computeCacheKey(context, inputs, outputs);
+
+  const entry = await cache.get(key);
+  if (entry && (await cache.restore(entry, context.workspaceRoot))) {
+    logger.info(`Restored the result of "${targetName}" from the build cache.`);
+
+    const info = (await host.resolveBuilder(context.builderName)) as BuilderInfo;
+
+    return createReplayedRun(info, entry.output);
+  }
+
+  const run = await schedule();
+  const output = run.output.pipe(
+    concatMap(async (result, index) => {
+      // Only the first result corresponds to the inputs at the time the target was scheduled.
+      if (index !== 0 || !result.success) {
+        return result;
+      }
+
+      try {
+        // Inputs which changed during the build would result in a wrong cache entry.
+        if ((await computeCacheKey(context, inputs, outputs)) === key) {
+          await cache.set(key, result, outputs, context.workspaceRoot);
+        }
+      } catch (error) {
+        logger.warn(
+          `Unable to store the result of "${targetName}" in the build cache: ` +
+            (error instanceof Error ? error.message : error),
+        );
+      }
+
+      return result;
+    }),
+    shareReplay(),
+  );
+
+  return {
+    id: run.id,
+    info: run.info,
+    get result() {
+      return firstValueFrom(output);
+    },
+    get lastOutput() {
+      return lastValueFrom(output);
+    },
+    output,
+    progress: run.progress,
+    stop: () => run.stop(),
+  };
+}
+
+async function createCacheContext(
+  host: ArchitectHost,
+  target: Target,
+  overrides: json.JsonObject,
+): Promise<CacheContext | undefined> {
+  const builderName = await host.getBuilderNameForTarget(target);
+  const info = builderName ? await host.resolveBuilder(builderName) : null;
+  const description = info?.cache;
+  if (!builderName || !description || !Array.isArray(description.outputs)) {
+    return undefined;
+  }
+
+  const options = { ...(await host.getOptionsForTarget(target)), ...overrides };
+  if (options['watch']) {
+    // Watch mode never completes and its results depend on later changes.
+    return undefined;
+  }
+
+  const metadata = await host.getProjectMetadata(target);
+
+  return {
+    target,
+    builderName,
+    description,
+    options,
+    workspaceRoot: await host.getWorkspaceRoot(),
+    projectRoot: typeof metadata?.['root'] === 'string' ? metadata['root'] : '',
+  };
+}
+
+/**
+ * Replaces the placeholders of workspace relative paths.
+ * @returns The normalized paths or `undefined` when a placeholder cannot be resolved.
+ */
+async function resolvePaths(paths: string[], context: CacheContext): Promise<string[] | undefined> {
+  const result: string[] = [];
+
+  for (const value of paths) {
+    let resolvedPath = '';
+    let lastIndex = 0;
+    for (const match of value.matchAll(PLACEHOLDER_REGEXP)) {
+      const [placeholder, , option, property] = match;
+      const replacement =
+        option === undefined
+          ? context.projectRoot
+          : await resolveOptionPlaceholder(option, property, context);
+      if (replacement === undefined) {
+        return undefined;
+      }
+
+      resolvedPath += value.slice(lastIndex, match.index) + replacement;
+      lastIndex = (match.index ?? 0) + placeholder.length;
+    }
+    resolvedPath += value.slice(lastIndex);
+
+    result.push(toPosixPath(path.normalize(resolvedPath || '.')));
+  }
+
+  return result;
+}
+
+/**
+ * Resolves an `{options.<name>}` placeholder to the value of the option. With a property, such
+ * as `{options.project#dest}`, the option is the path of a JSON file and the placeholder resolves
+ * to the path in that property of the file, relative to the directory of the file.
+ */
+async function resolveOptionPlaceholder(
+  option: string,
+  property: string | undefined,
+  context: CacheContext,
+): Promise<string | undefined> {
+  const optionValue = context.options[option];
+  if (typeof optionValue !== 'string') {
+    return undefined;
+  }
+  if (property === undefined) {
+    return optionValue;
+  }
+
+  let content: json.JsonValue;
+  try {
+    content = JSON.parse(await fs.readFile(path.join(context.workspaceRoot, optionValue), 'utf-8'));
+  } catch {
+    return undefined;
+  }
+
+  const propertyValue = json.isJsonObject(content) ? content[property] : undefined;
+  if (typeof propertyValue !== 'string') {
+    return undefined;
+  }
+
+  return path.join(path.dirname(optionValue), propertyValue);
+}
+
+async function computeCacheKey(
+  context: CacheContext,
+  inputs: string[],
+  outputs: string[],
+): Promise<string> {
+  const { description, workspaceRoot } = context;
+  const hash = createHash('sha256');
+
+  hash.update(
+    JSON.stringify([
+      CACHE_VERSION,
+      targetStringFromTarget(context.target),
+      context.builderName,
+      sortObjectKeys(context.options),
+      (description.inputs?.env ?? []).map((name) => [name, process.env[name] ?? null]),
+    ]),
+  );
+
+  const excluded = new Set(outputs.map((output) => path.join(workspaceRoot, output)));
+  const files = new Set<string>();
+  for (const input of inputs) {
+    for (const file of await listFiles(path.join(workspaceRoot, input), excluded)) {
+      files.add(file);
+    }
+  }
+
+  for (const file of [...files].sort()) {
+    hash.update('\0' + toPosixPath(path.relative(workspaceRoot, file)) + '\0');
+    hash.update(hashContent(await fs.readFile(file)));
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Lists the files of a path recursively. `node_modules` and hidden directories are skipped.
+ * @returns The absolute file paths or an empty list when the path does not exist.
+ */
+async function listFiles(filePath: string, excluded = new Set<string>()): Promise<string[]> {
+  if (excluded.has(filePath)) {
+    return [];
+  }
+
+  let stats;
+  try {
+    stats = await fs.stat(filePath);
+  } catch {
+    return [];
+  }
+
+  if (!stats.isDirectory()) {
+    return [filePath];
+  }
+
+  const files: string[] = [];
+  for (const entry of await fs.readdir(filePath, { withFileTypes: true })) {
+    if (entry.isDirectory() && (entry.name === 'node_modules' || entry.name.startsWith('.'))) {
+      continue;
+    }
+
+    files.push(...(await listFiles(path.join(filePath, entry.name), excluded)));
+  }
+
+  return files;
+}
+
+function hashContent(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function sortObjectKeys(value: json.JsonValue | undefined): json.JsonValue | undefined {
+  if (Array.isArray(value)) {
+    return value.map((item) => sortObjectKeys(item) ?? null);
+  }
+
+  if (value !== undefined && json.isJsonObject(value)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortObjectKeys(value[key])]),
+    ) as json.JsonObject;
+  }
+
+  return value;
+}
+
+function toPosixPath(value: string): string {
+  return value.split(path.sep).join(path.posix.sep);
+}
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { json, schema } from '@angular-devkit/core';
+import { existsSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TestingArchitectHost } from '../testing/testing-architect-host';
+import { BuilderInfo } from './api';
+import { Architect } from './architect';
+import { createBuilder } from './create-builder';
+
+class CachingArchitectHost extends TestingArchitectHost {
+  inputFiles = ['src', 'missing.json'];
+  outputFiles = ['{options.outputPath}'];
+
+  override async resolveBuilder(builderName: string): Promise<BuilderInfo | null> {
+    const info = await super.resolveBuilder(builderName);
+
+    return (
+      info && {
+        ...info,
+        cache: {
+          inputs: { files: this.inputFiles, env: ['NG_TEST_CACHE_ENV'] },
+          outputs: this.outputFiles,
+        },
+      }
+    );
+  }
+}
+
+describe('build result cache', () => {
+  const target = { project: 'app', target: 'build' };
+  let workspaceRoot: string;
+  let cachePath: string;
+  let architect: Architect;
+  let host: CachingArchitectHost;
+  let called: number;
+
+  beforeEach(async () => {
+    workspaceRoot = await fs.mkdtemp(join(tmpdir(), 'architect-build-cache-'));
+    cachePath = join(workspaceRoot, '.angular/cache/architect');
+    await fs.mkdir(join(workspaceRoot, 'src'));
+    await fs.writeFile(join(workspaceRoot, 'src/input.txt'), 'hello');
+
+    host = new CachingArchitectHost(workspaceRoot);
+    architect = new Architect(host, new schema.CoreSchemaRegistry());
+    called = 0;
+
+    host.addBuilder(
+      'package:build',
+      createBuilder<{ outputPath: string; watch?: boolean } & json.JsonObject>(async (options) => {
+        called++;
+        const input = await fs.readFile(join(workspaceRoot, 'src/input.txt'), 'utf-8');
+        await fs.mkdir(join(workspaceRoot, options.outputPath, 'nested'), { recursive: true });
+        await fs.writeFile(join(workspaceRoot, options.outputPath, 'nested/output.txt'), input);
+
+        return { success: true, custom: input };
+      }),
+    );
+    host.addTarget(target, 'package:build', { outputPath: 'dist' });
+  });
+
+  afterEach(async () => {
+    delete process.env['NG_TEST_CACHE_ENV'];
+    await fs.rm(workspaceRoot, { recursive: true, force: true });
+  });
+
+  async function build(overrides: json.JsonObject = {}) {
+    const run = await architect.scheduleTarget(target, overrides, { cachePath });
+    const output = await run.lastOutput;
+    await run.stop();
+
+    return output;
+  }
+
+  it('replays the result and restores the outputs when the inputs did not change', async () => {
+    expect(await build()).toEqual(jasmine.objectContaining({ success: true, custom: 'hello' }));
+    await fs.rm(join(workspaceRoot, 'dist'), { recursive: true });
+
+    expect(await build()).toEqual(jasmine.objectContaining({ success: true, custom: 'hello' }));
+    expect(called).toBe(1);
+    expect(await fs.readFile(join(workspaceRoot, 'dist/nested/output.txt'), 'utf-8')).toBe('hello');
+  });
+
+  it('runs the builder when an input file changed', async () => {
+    await build();
+    await fs.writeFile(join(workspaceRoot, 'src/input.txt'), 'world');
+
+    expect(await build()).toEqual(jasmine.objectContaining({ custom: 'world' }));
+    expect(called).toBe(2);
+  });
+
+  it('runs the builder when the options changed', async () => {
+    await build();
+    await build({ outputPath: 'other' });
+
+    expect(called).toBe(2);
+    expect(existsSync(join(workspaceRoot, 'other/nested/output.txt'))).toBeTrue();
+  });
+
+  it('runs the builder when an environment variable input changed', async () => {
+    await build();
+    process.env['NG_TEST_CACHE_ENV'] = '1';
+    await build();
+
+    expect(called).toBe(2);
+  });
+
+  it('does not cache targets in watch mode', async () => {
+    await build({ watch: true });
+    await build({ watch: true });
+
+    expect(called).toBe(2);
+  });
+
+  it('does not cache when an input resolves to the workspace root', async () => {
+    // Projects without a root are located at the root of the workspace.
+    host.inputFiles = ['{projectRoot}'];
+    await build();
+    await build();
+
+    expect(called).toBe(2);
+  });
+
+  it('does not cache when an input placeholder cannot be resolved', async () => {
+    host.inputFiles = ['{options.tsConfig}'];
+    await build();
+    await build();
+
+    expect(called).toBe(2);
+  });
+
+  it('resolves paths from a property of the JSON file of an option', async () => {
+    host.outputFiles = ['{options.project#dest}'];
+    await fs.mkdir(join(workspaceRoot, 'lib'));
+    await fs.writeFile(join(workspaceRoot, 'lib/ng-package.json'), '{ "dest": "../dist" }');
+    await build({ project: 'lib/ng-package.json' });
+    await fs.rm(join(workspaceRoot, 'dist'), { recursive: true });
+    await build({ project: 'lib/ng-package.json' });
+
+    expect(called).toBe(1);
+    expect(await fs.readFile(join(workspaceRoot, 'dist/nested/output.txt'), 'utf-8')).toBe('hello');
+  });
+
+  it('does not cache when the property of the JSON file of an option is missing', async () => {
+    host.outputFiles = ['{options.project#dest}'];
+    await fs.mkdir(join(workspaceRoot, 'lib'));
+    await fs.writeFile(join(workspaceRoot, 'lib/ng-package.json'), '{}');
+    await build({ project: 'lib/ng-package.json' });
+    await build({ project: 'lib/ng-package.json' });
+
+    expect(called).toBe(2);
+  });
+
+  it('does not cache without a cache path', async () => {
+    const run = await architect.scheduleTarget(target);
+    await run.lastOutput;
+    await run.stop();
+    await build();
+
+    expect(called).toBe(2);
+  });
+});
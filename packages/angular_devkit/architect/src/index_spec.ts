@@ -432,4 +432,127 @@ describe('architect', () => {
 
     await run2.stop();
   });
+
+  describe('with target dependencies', () => {
+    let events: string[];
+
+    beforeEach(() => {
+      events = [];
+      testArchitectHost.addBuilder(
+        'package:record',
+        createBuilder<{ name: string; delay?: number; fail?: boolean }>(async (o) => {
+          events.push(`start ${o.name}`);
+          await new Promise((resolve) => setTimeout(resolve, o.delay ?? 5));
+          events.push(`end ${o.name}`);
+
+          return { success: !o.fail };
+        }),
+      );
+    });
+
+    function addTarget(name: string, dependsOn: string[], options: json.JsonObject = {}) {
+      testArchitectHost.addTarget(
+        { project: 'graph', target: name },
+        'package:record',
+        { name, ...options },
+        dependsOn.map((target) => ({ project: 'graph', target })),
+      );
+    }
+
+    it('runs dependencies before the target', async () => {
+      addTarget('lib', []);
+      addTarget('app', ['lib']);
+
+      const run = await architect.scheduleTarget({ project: 'graph', target: 'app' });
+      expect(await run.result).toEqual(jasmine.objectContaining({ success: true }));
+      await run.stop();
+
+      expect(events).toEqual(['start lib', 'end lib', 'start app', 'end app']);
+    });
+
+    it('runs independent dependencies concurrently', async () => {
+      addTarget('a', [], { delay: 20 });
+      addTarget('b', []);
+      addTarget('app', ['a', 'b']);
+
+      const run = await architect.scheduleTarget(
+        { project: 'graph', target: 'app' },
+        {},
+        { concurrency: 2 },
+      );
+      await run.result;
+      await run.stop();
+
+      expect(events).toEqual(['start a', 'start b', 'end b', 'end a', 'start app', 'end app']);
+    });
+
+    it('respects the concurrency limit', async () => {
+      addTarget('a', [], { delay: 20 });
+      addTarget('b', []);
+      addTarget('app', ['a', 'b']);
+
+      const run = await architect.scheduleTarget(
+        { project: 'graph', target: 'app' },
+        {},
+        { concurrency: 1 },
+      );
+      await run.result;
+      await run.stop();
+
+      expect(events).toEqual(['start a', 'end a', 'start b', 'end b', 'start app', 'end app']);
+    });
+
+    it('runs shared dependencies once', async () => {
+      addTarget('core', []);
+      addTarget('a', ['core']);
+      addTarget('b', ['core']);
+      addTarget('app', ['a', 'b']);
+
+      const run = await architect.scheduleTarget({ project: 'graph', target: 'app' });
+      await run.result;
+      await run.stop();
+
+      expect(events.filter((event) => event === 'start core').length).toBe(1);
+      expect(events.indexOf('end core')).toBeLessThan(events.indexOf('start a'));
+      expect(events.indexOf('end core')).toBeLessThan(events.indexOf('start b'));
+    });
+
+    it('does not run the target when a dependency fails', async () => {
+      addTarget('lib', [], { fail: true });
+      addTarget('app', ['lib']);
+
+      await expectAsync(
+        architect.scheduleTarget({ project: 'graph', target: 'app' }),
+      ).toBeRejectedWithError(/"graph:lib"/);
+      expect(events).toEqual(['start lib', 'end lib']);
+    });
+
+    it('errors on circular dependencies', async () => {
+      addTarget('a', ['b']);
+      addTarget('b', ['a']);
+
+      await expectAsync(
+        architect.scheduleTarget({ project: 'graph', target: 'a' }),
+      ).toBeRejectedWithError(
+        'Circular dependency between targets: graph:a -> graph:b -> graph:a.',
+      );
+      expect(events).toEqual([]);
+    });
+
+    it('reports the progress of each target', async () => {
+      addTarget('lib', []);
+      addTarget('app', ['lib']);
+
+      const progressTargets = new Set<string>();
+      const run = await architect.scheduleTarget(
+        { project: 'graph', target: 'app' },
+        {},
+        { onProgress: (target) => progressTargets.add(target.target) },
+      );
+      await run.result;
+      await run.stop();
+
+      expect([...progressTargets]).toEqual(['lib', 'app']);
+    });
+  });
 });
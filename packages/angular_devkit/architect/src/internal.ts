@@ -81,6 +81,13 @@ export interface ArchitectHost<BuilderInfoT extends BuilderInfo = BuilderInfo> {
 
   getOptionsForTarget(target: Target): Promise<json.JsonObject | null>;
 
+  /**
+   * Get the targets that must complete successfully before a target runs.
+   * Hosts that do not implement this method do not support target dependencies.
+   * @param target The target to inspect.
+   */
+  getDependenciesForTarget?(target: Target): Promise<Target[]>;
+
   getProjectMetadata(projectName: string): Promise<json.JsonObject | null>;
   getProjectMetadata(target: Target): Promise<json.JsonObject | null>;
 }
@@ -16,6 +16,7 @@ import {
   ignoreElements,
   lastValueFrom,
   map,
+  of,
   shareReplay,
 } from 'rxjs';
 import {
@@ -154,3 +155,19 @@ export async function scheduleByTarget(
     logger: options.logger,
   });
 }
+
+/**
+ * Creates a run which completes immediately with a previously produced output.
+ * This is used to replay results restored from a cache without scheduling the builder.
+ */
+export function createReplayedRun(info: BuilderInfo, output: BuilderOutput): BuilderRun {
+  return {
+    id: ++_uniqueId,
+    info,
+    result: Promise.resolve(output),
+    lastOutput: Promise.resolve(output),
+    output: of(output),
+    progress: EMPTY,
+    stop: async () => {},
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { BuilderOutput, Target, targetStringFromTarget } from './api';
+import { ArchitectHost } from './internal';
+
+/**
+ * A target of a dependency graph and the keys of the targets it depends on.
+ */
+export interface TargetGraphNode {
+  target: Target;
+  dependencies: string[];
+}
+
+/**
+ * Resolves the targets the given target depends on, directly or transitively.
+ * @param host The host used to retrieve the dependencies of each target.
+ * @param target The target to resolve.
+ * @returns A map of target strings to graph nodes, including the given target.
+ */
+export async function resolveTargetGraph(
+  host: ArchitectHost,
+  target: Target,
+): Promise<Map<string, TargetGraphNode>> {
+  const graph = new Map<string, TargetGraphNode>();
+  const visiting: string[] = [];
+
+  async function visit(current: Target): Promise<string> {
+    const key = targetStringFromTarget(current);
+    const cycleStart = visiting.indexOf(key);
+    if (cycleStart !== -1) {
+      throw new Error(
+        `Circular dependency between targets: ${[...visiting.slice(cycleStart), key].join(
+          ' -> ',
+        )}.`,
+      );
+    }
+
+    if (graph.has(key)) {
+      return key;
+    }
+
+    visiting.push(key);
+    const dependencies: string[] = [];
+    for (const dependency of (await host.getDependenciesForTarget?.(current)) ?? []) {
+      dependencies.push(await visit(dependency));
+    }
+    visiting.pop();
+
+    graph.set(key, { target: current, dependencies });
+
+    return key;
+  }
+
+  await visit(target);
+
+  return graph;
+}
+
+/**
+ * Runs the nodes of a dependency graph once all of their dependencies completed successfully.
+ * Independent nodes run concurrently up to the given limit.
+ * No further nodes are started once a node fails, and an error is thrown after the running nodes completed.
+ * @param nodes The nodes to run. Dependencies which are not part of the nodes are ignored.
+ * @param concurrency The maximum number of nodes that run at the same time.
+ * @param runNode A function that runs a single node and returns its result.
+ */
+export async function runTargetGraph(
+  nodes: Map<string, TargetGraphNode>,
+  concurrency: number,
+  runNode: (node: TargetGraphNode) => Promise<BuilderOutput>,
+): Promise<void> {
+  const pending = new Map(nodes);
+  const completed = new Set<string>();
+  const running = new Map<
+    string,
+    Promise<{ key: string; output?: BuilderOutput; error?: unknown }>
+  >();
+  const failures: string[] = [];
+  const limit = Math.max(1, concurrency);
+
+  const isReady = ({ dependencies }: TargetGraphNode) =>
+    dependencies.every((dependency) => completed.has(dependency) || !nodes.has(dependency));
+
+  while (pending.size || running.size) {
+    if (failures.length === 0) {
+      for (const [key, node] of pending) {
+        if (running.size >= limit) {
+          break;
+        }
+
+        if (isReady(node)) {
+          pending.delete(key);
+          running.set(
+            key,
+            runNode(node).then(
+              (output) => ({ key, output }),
+              (error) => ({ key, error }),
+            ),
+          );
+        }
+      }
+    }
+
+    if (running.size === 0) {
+      break;
+    }
+
+    const { key, output, error } = await Promise.race(running.values());
+    running.delete(key);
+
+    if (output?.success) {
+      completed.add(key);
+    } else {
+      const reason = error instanceof Error ? error.message : error ?? output?.error;
+      failures.push(`"${key}"` + (reason ? `: ${reason}` : ''));
+    }
+  }
+
+  if (failures.length) {
+    throw new Error(`Dependency targets failed:\n${failures.join('\n')}`);
+  }
+}
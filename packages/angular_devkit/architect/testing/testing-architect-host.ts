@@ -13,7 +13,10 @@ import { ArchitectHost, Builder } from '../src/internal';
 export class TestingArchitectHost implements ArchitectHost {
   private _builderImportMap = new Map<string, Builder>();
   private _builderMap = new Map<string, BuilderInfo>();
-  private _targetMap = new Map<string, { builderName: string; options: json.JsonObject }>();
+  private _targetMap = new Map<
+    string,
+    { builderName: string; options: json.JsonObject; dependsOn: Target[] }
+  >();
 
   /**
    * Can provide a backend host, in case of integration tests.
@@ -64,8 +67,13 @@ export class TestingArchitectHost implements ArchitectHost {
       this.addBuilder(`${packageJson.name}:${builderName}`, handler, b.description, optionsSchema);
     }
   }
-  addTarget(target: Target, builderName: string, options: json.JsonObject = {}) {
-    this._targetMap.set(targetStringFromTarget(target), { builderName, options });
+  addTarget(
+    target: Target,
+    builderName: string,
+    options: json.JsonObject = {},
+    dependsOn: Target[] = [],
+  ) {
+    this._targetMap.set(targetStringFromTarget(target), { builderName, options, dependsOn });
   }
 
   async getBuilderNameForTarget(target: Target): Promise<string | null> {
@@ -109,6 +117,16 @@ export class TestingArchitectHost implements ArchitectHost {
     return maybeTarget.options;
   }
 
+  async getDependenciesForTarget(target: Target): Promise<Target[]> {
+    const name = targetStringFromTarget(target);
+    const maybeTarget = this._targetMap.get(name);
+    if (!maybeTarget) {
+      return (await this._backendHost?.getDependenciesForTarget?.(target)) ?? [];
+    }
+
+    return maybeTarget.dependsOn;
+  }
+
   async getProjectMetadata(target: Target | string): Promise<json.JsonObject | null> {
     return this._backendHost && this._backendHost.getProjectMetadata(target as string);
   }
@@ -13,26 +13,40 @@ import {
   createBrowserPolyfillBundleOptions,
   createServerCodeBundleOptions,
 } from '../../tools/esbuild/application-code-bundle';
-import { generateBudgetStats } from '../../tools/esbuild/budget-stats';
+import { generateBudgetStats, generateRouteBudgetStats } from '../../tools/esbuild/budget-stats';
+import {
+  generateBundleAnalysis,
+  generateBundleAnalysisHtml,
+} from '../../tools/esbuild/bundle-analysis';
 import { BuildOutputFileType, BundlerContext } from '../../tools/esbuild/bundler-context';
 import { ExecutionResult, RebuildState } from '../../tools/esbuild/bundler-execution-result';
 import { checkCommonJSModules } from '../../tools/esbuild/commonjs-checker';
 import { createGlobalScriptsBundleOptions } from '../../tools/esbuild/global-scripts';
 import { createGlobalStylesBundleOptions } from '../../tools/esbuild/global-styles';
 import { extractLicenses } from '../../tools/esbuild/license-extractor';
+import { PersistentLoadResultCache } from '../../tools/esbuild/load-result-cache';
 import {
   calculateEstimatedTransferSizes,
+  getDynamicallyImportedFiles,
   getSupportedNodeTargets,
   logBuildStats,
   logMessages,
   transformSupportedBrowsersToTargets,
 } from '../../tools/esbuild/utils';
+import {
+  createBudgetBaselineSnapshot,
+  generateBudgetBaselineDiffTable,
+  getBudgetBaselineSizes,
+  readBudgetBaseline,
+  writeBudgetBaseline,
+} from '../../utils/budget-baseline';
 import { checkBudgets } from '../../utils/bundle-calculator';
 import { copyAssets } from '../../utils/copy-assets';
 import { getSupportedBrowsers } from '../../utils/supported-browsers';
 import { executePostBundleSteps } from './execute-post-bundle';
-import { inlineI18n, loadActiveTranslations } from './i18n';
+import { createLocaleInliner, inlineI18n, loadActiveTranslations } from './i18n';
 import { NormalizedApplicationBuildOptions } from './options';
+import { Type } from './schema';
 
 // eslint-disable-next-line max-lines-per-function
 export async function executeBuild(
@@ -59,7 +73,7 @@ export async function executeBuild(
   const target = transformSupportedBrowsersToTargets(browsers);
 
   // Load active translations if inlining
-  // TODO: Integrate into watch mode and only load changed translations
+  // Unchanged translations from a previous build are reused
   if (i18nOptions.shouldInline) {
     await loadActiveTranslations(context, i18nOptions);
   }
@@ -68,7 +82,10 @@ export async function executeBuild(
   let bundlerContexts = rebuildState?.rebuildContexts;
   const codeBundleCache =
     rebuildState?.codeBundleCache ??
-    new SourceFileCache(cacheOptions.enabled ? cacheOptions.path : undefined);
+    new SourceFileCache(
+      cacheOptions.enabled ? cacheOptions.path : undefined,
+      createPersistentCacheKey(options, target),
+    );
   if (bundlerContexts === undefined) {
     bundlerContexts = [];
 
@@ -139,6 +156,11 @@ export async function executeBuild(
 
   const bundlingResult = await BundlerContext.bundleAll(bundlerContexts);
 
+  // Remove unused and excess persisted load results once per build process
+  if (!rebuildState && codeBundleCache.loadResultCache instanceof PersistentLoadResultCache) {
+    await codeBundleCache.loadResultCache.prune();
+  }
+
   // Log all warnings and errors generated during bundling
   await logMessages(context, bundlingResult);
 
@@ -175,32 +197,34 @@ export async function executeBuild(
     );
   }
 
-  // Analyze files for bundle budget failures if present
-  let budgetFailures;
-  if (options.budgets) {
-    const compatStats = generateBudgetStats(metafile, initialFiles);
-    budgetFailures = [...checkBudgets(options.budgets, compatStats, true)];
-    for (const { severity, message } of budgetFailures) {
-      if (severity === 'error') {
-        context.logger.error(message);
-      } else {
-        context.logger.warn(message);
-      }
-    }
-  }
-
   // Calculate estimated transfer size if scripts are optimized
   let estimatedTransferSizes;
   if (optimizationOptions.scripts || optimizationOptions.styles.minify) {
     estimatedTransferSizes = await calculateEstimatedTransferSizes(executionResult.outputFiles);
   }
 
+  // Server chunks of lazy loaded code, which are used to find the code loaded by each route
+  const serverFiles = new Set(
+    outputFiles.filter(({ type }) => type === BuildOutputFileType.Server).map(({ path }) => path),
+  );
+  const lazyServerChunks = getDynamicallyImportedFiles(metafile, serverFiles);
+
   // Perform i18n translation inlining if enabled
-  if (i18nOptions.shouldInline) {
-    const { errors, warnings } = await inlineI18n(options, executionResult, initialFiles);
-    printWarningsAndErrorsToConsole(context, warnings, errors);
+  let routeLazyImports;
+  if (i18nOptions.shouldInline && options.lazyI18nInlining) {
+    // Locales are inlined when requested, such as by the development server
+    executionResult.inlineLocale = createLocaleInliner(
+      options,
+      executionResult,
+      initialFiles,
+      lazyServerChunks,
+    );
+  } else if (i18nOptions.shouldInline) {
+    const result = await inlineI18n(options, executionResult, initialFiles, lazyServerChunks);
+    routeLazyImports = result.routeLazyImports;
+    printWarningsAndErrorsToConsole(context, result.warnings, result.errors);
   } else {
-    const { errors, warnings, additionalAssets, additionalOutputFiles } =
+    const { errors, warnings, additionalAssets, additionalOutputFiles, ...result } =
       await executePostBundleSteps(
         options,
         executionResult.outputFiles,
@@ -208,13 +232,87 @@ export async function executeBuild(
         initialFiles,
         // Set lang attribute to the defined source locale if present
         i18nOptions.hasDefinedSourceLocale ? i18nOptions.sourceLocale : undefined,
+        lazyServerChunks,
       );
 
+    routeLazyImports = result.routeLazyImports;
     executionResult.outputFiles.push(...additionalOutputFiles);
     executionResult.assetFiles.push(...additionalAssets);
     printWarningsAndErrorsToConsole(context, warnings, errors);
   }
 
+  // Load the budget baseline snapshot if comparing against a previous build
+  let budgetBaseline;
+  if (options.budgetBaselineOptions && !options.budgetBaselineOptions.update) {
+    budgetBaseline = await readBudgetBaseline(options.budgetBaselineOptions.file);
+    if (!budgetBaseline) {
+      context.logger.warn(
+        `Budget baseline file '${options.budgetBaselineOptions.file}' does not exist.` +
+          ` Use the 'updateBudgetBaseline' option to create it.`,
+      );
+    }
+  }
+
+  // Budget stats are also recorded in the budget baseline when updating it
+  let compatStats;
+  if (options.budgets || options.budgetBaselineOptions) {
+    compatStats = generateBudgetStats(metafile, initialFiles);
+    if (options.budgets?.some(({ type }) => type === Type.Route)) {
+      if (routeLazyImports) {
+        compatStats.routes = generateRouteBudgetStats(
+          metafile,
+          initialFiles,
+          serverFiles,
+          routeLazyImports,
+        );
+      } else {
+        context.logger.warn(
+          `'route' budgets require the 'prerender' option with route discovery enabled.`,
+        );
+      }
+    }
+  }
+
+  // Analyze files for bundle budget failures if present
+  let budgetFailures;
+  if (options.budgets && compatStats) {
+    budgetFailures = [
+      ...checkBudgets(
+        options.budgets,
+        compatStats,
+        true,
+        budgetBaseline && getBudgetBaselineSizes(budgetBaseline),
+      ),
+    ];
+    for (const { severity, message } of budgetFailures) {
+      if (severity === 'error') {
+        context.logger.error(message);
+      } else {
+        context.logger.warn(message);
+      }
+    }
+  }
+
+  // Record or compare the chunk sizes of the build against the budget baseline
+  if (options.budgetBaselineOptions && compatStats) {
+    const snapshot = createBudgetBaselineSnapshot(
+      metafile,
+      initialFiles,
+      compatStats,
+      estimatedTransferSizes,
+    );
+    if (options.budgetBaselineOptions.update) {
+      await writeBudgetBaseline(options.budgetBaselineOptions.file, snapshot);
+      context.logger.info(`Budget baseline written to '${options.budgetBaselineOptions.file}'.`);
+    } else if (budgetBaseline) {
+      context.logger.info(
+        '\nBudget baseline difference:\n' +
+          generateBudgetBaselineDiffTable(budgetBaseline, snapshot) +
+          '\n',
+      );
+    }
+  }
+
   logBuildStats(context, metafile, initialFiles, budgetFailures, estimatedTransferSizes);
 
   const buildTime = Number(process.hrtime.bigint() - startTime) / 10 ** 9;
@@ -228,6 +326,21 @@ export async function executeBuild(
     );
   }
 
+  // Write bundle analysis report if analyze option is enabled
+  if (options.analyze) {
+    const analysis = generateBundleAnalysis(metafile, initialFiles);
+    executionResult.addOutputFile(
+      'analysis.json',
+      JSON.stringify(analysis, null, 2),
+      BuildOutputFileType.Root,
+    );
+    executionResult.addOutputFile(
+      'analysis.html',
+      generateBundleAnalysisHtml(analysis),
+      BuildOutputFileType.Root,
+    );
+  }
+
   return executionResult;
 }
 
@@ -243,3 +356,27 @@ function printWarningsAndErrorsToConsole(
     context.logger.warn(warning);
   }
 }
+
+/**
+ * Creates a key representing the build options that affect the output of cached load results
+ * such as transformed JavaScript files and compiled stylesheets. Persisted load results are only
+ * reused when this key is unchanged.
+ */
+function createPersistentCacheKey(
+  options: NormalizedApplicationBuildOptions,
+  target: string[],
+): string {
+  return JSON.stringify({
+    target,
+    jit: options.jit,
+    advancedOptimizations: options.advancedOptimizations,
+    optimizationOptions: options.optimizationOptions,
+    sourcemapOptions: options.sourcemapOptions,
+    inlineStyleLanguage: options.inlineStyleLanguage,
+    stylePreprocessorOptions: options.stylePreprocessorOptions,
+    tailwindConfiguration: options.tailwindConfiguration,
+    preserveSymlinks: options.preserveSymlinks,
+    externalDependencies: options.externalDependencies,
+    publicPath: options.publicPath,
+  });
+}
@@ -7,6 +7,7 @@
  */
 
 import assert from 'node:assert';
+import { join } from 'node:path';
 import {
   BuildOutputFile,
   BuildOutputFileType,
@@ -27,6 +28,8 @@ import { NormalizedApplicationBuildOptions } from './options';
  * @param assetFiles The assets of an executed build.
  * @param initialFiles A map containing initial file information for the executed build.
  * @param locale A language locale to insert in the index.html.
+ * @param lazyServerChunks The server chunks which are dynamically imported, used to find the lazy
+ * chunks of each discovered route.
  */
 export async function executePostBundleSteps(
   options: NormalizedApplicationBuildOptions,
@@ -34,16 +37,19 @@ export async function executePostBundleSteps(
   assetFiles: BuildOutputAsset[],
   initialFiles: Map<string, InitialFileRecord>,
   locale: string | undefined,
+  lazyServerChunks?: string[],
 ): Promise<{
   errors: string[];
   warnings: string[];
   additionalOutputFiles: BuildOutputFile[];
   additionalAssets: BuildOutputAsset[];
+  routeLazyImports?: Map<string, string[]>;
 }> {
   const additionalAssets: BuildOutputAsset[] = [];
   const additionalOutputFiles: BuildOutputFile[] = [];
   const allErrors: string[] = [];
   const allWarnings: string[] = [];
+  let routeLazyImports: Map<string, string[]> | undefined;
 
   const {
     serviceWorker,
@@ -55,6 +61,8 @@ export async function executePostBundleSteps(
     appShellOptions,
     workspaceRoot,
     verbose,
+    cacheOptions,
+    forcePrerender,
   } = options;
 
   /**
@@ -105,7 +113,7 @@ export async function executePostBundleSteps(
       'The "index" option is required when using the "ssg" or "appShell" options.',
     );
 
-    const { output, warnings, errors } = await prerenderPages(
+    const { output, warnings, errors, lazyImports } = await prerenderPages(
       workspaceRoot,
       appShellOptions,
       prerenderOptions,
@@ -115,8 +123,16 @@ export async function executePostBundleSteps(
       optimizationOptions.styles.inlineCritical,
       maxWorkers,
       verbose,
+      cacheOptions.enabled
+        ? {
+            path: join(cacheOptions.path, 'prerender', locale ?? ''),
+            force: forcePrerender,
+          }
+        : undefined,
+      lazyServerChunks,
     );
 
+    routeLazyImports = lazyImports;
     allErrors.push(...errors);
     allWarnings.push(...warnings);
 
@@ -156,5 +172,6 @@ export async function executePostBundleSteps(
     warnings: allWarnings,
     additionalAssets,
     additionalOutputFiles,
+    routeLazyImports,
   };
 }
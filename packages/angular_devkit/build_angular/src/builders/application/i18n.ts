@@ -7,9 +7,14 @@
  */
 
 import { BuilderContext } from '@angular-devkit/architect';
+import { statSync } from 'node:fs';
 import { join } from 'node:path';
 import { InitialFileRecord } from '../../tools/esbuild/bundler-context';
-import { ExecutionResult } from '../../tools/esbuild/bundler-execution-result';
+import {
+  BuildOutputAsset,
+  ExecutionResult,
+  LocaleExecutionResult,
+} from '../../tools/esbuild/bundler-execution-result';
 import { I18nInliner } from '../../tools/esbuild/i18n-inliner';
 import { maxWorkers } from '../../utils/environment-options';
 import { loadTranslations } from '../../utils/i18n-options';
@@ -24,12 +29,14 @@ import { NormalizedApplicationBuildOptions } from './options';
  * @param options The normalized application builder options used to create the build.
  * @param executionResult The result of an executed build.
  * @param initialFiles A map containing initial file information for the executed build.
+ * @param lazyServerChunks The server chunks which are dynamically imported.
  */
 export async function inlineI18n(
   options: NormalizedApplicationBuildOptions,
   executionResult: ExecutionResult,
   initialFiles: Map<string, InitialFileRecord>,
-): Promise<{ errors: string[]; warnings: string[] }> {
+  lazyServerChunks?: string[],
+): Promise<{ errors: string[]; warnings: string[]; routeLazyImports?: Map<string, string[]> }> {
   // Create the multi-threaded inliner with common options and the files generated from the build.
   const inliner = new I18nInliner(
     {
@@ -40,7 +47,11 @@ export async function inlineI18n(
     maxWorkers,
   );
 
-  const inlineResult: { errors: string[]; warnings: string[] } = {
+  const inlineResult: {
+    errors: string[];
+    warnings: string[];
+    routeLazyImports?: Map<string, string[]>;
+  } = {
     errors: [],
     warnings: [],
   };
@@ -50,48 +61,21 @@ export async function inlineI18n(
   const updatedAssetFiles = [];
   try {
     for (const locale of options.i18nOptions.inlineLocales) {
-      // A locale specific set of files is returned from the inliner.
-      const localeOutputFiles = await inliner.inlineForLocale(
+      const { outputFiles, assetFiles, errors, warnings, routeLazyImports } = await inlineLocale(
+        options,
+        inliner,
+        executionResult.assetFiles,
+        initialFiles,
         locale,
-        options.i18nOptions.locales[locale].translation,
+        lazyServerChunks,
       );
 
-      const baseHref =
-        getLocaleBaseHref(options.baseHref, options.i18nOptions, locale) ?? options.baseHref;
-
-      const { errors, warnings, additionalAssets, additionalOutputFiles } =
-        await executePostBundleSteps(
-          {
-            ...options,
-            baseHref,
-          },
-          localeOutputFiles,
-          executionResult.assetFiles,
-          initialFiles,
-          locale,
-        );
-
-      localeOutputFiles.push(...additionalOutputFiles);
+      // The routes and chunks of the application are the same for all locales
+      inlineResult.routeLazyImports ??= routeLazyImports;
       inlineResult.errors.push(...errors);
       inlineResult.warnings.push(...warnings);
-
-      // Update directory with locale base
-      if (options.i18nOptions.flatOutput !== true) {
-        localeOutputFiles.forEach((file) => {
-          file.path = join(locale, file.path);
-        });
-
-        for (const assetFile of [...executionResult.assetFiles, ...additionalAssets]) {
-          updatedAssetFiles.push({
-            source: assetFile.source,
-            destination: join(locale, assetFile.destination),
-          });
-        }
-      } else {
-        executionResult.assetFiles.push(...additionalAssets);
-      }
-
-      updatedOutputFiles.push(...localeOutputFiles);
+      updatedOutputFiles.push(...outputFiles);
+      updatedAssetFiles.push(...assetFiles);
     }
   } finally {
     await inliner.close();
@@ -100,14 +84,127 @@ export async function inlineI18n(
   // Update the result with all localized files
   executionResult.outputFiles = updatedOutputFiles;
 
-  // Assets are only changed if not using the flat output option
+  // Assets are only replaced if not using the flat output option
   if (options.i18nOptions.flatOutput !== true) {
     executionResult.assetFiles = updatedAssetFiles;
+  } else {
+    executionResult.assetFiles.push(...updatedAssetFiles);
   }
 
   return inlineResult;
 }
 
+/**
+ * Creates a function that inlines a single locale into the files of an executed build on request.
+ * This allows the development server to only inline the locales that are used.
+ * @param options The normalized application builder options used to create the build.
+ * @param executionResult The result of an executed build. The files of the result are not changed.
+ * @param initialFiles A map containing initial file information for the executed build.
+ * @param lazyServerChunks The server chunks which are dynamically imported.
+ */
+export function createLocaleInliner(
+  options: NormalizedApplicationBuildOptions,
+  executionResult: ExecutionResult,
+  initialFiles: Map<string, InitialFileRecord>,
+  lazyServerChunks?: string[],
+): (locale: string) => Promise<LocaleExecutionResult> {
+  const outputFiles = [...executionResult.outputFiles];
+  const assetFiles = [...executionResult.assetFiles];
+
+  return async (locale) => {
+    const inliner = new I18nInliner(
+      {
+        missingTranslation: options.i18nOptions.missingTranslationBehavior ?? 'warning',
+        outputFiles,
+        shouldOptimize: options.optimizationOptions.scripts,
+      },
+      maxWorkers,
+    );
+
+    try {
+      const { routeLazyImports, ...result } = await inlineLocale(
+        options,
+        inliner,
+        assetFiles,
+        initialFiles,
+        locale,
+        lazyServerChunks,
+      );
+
+      return result;
+    } finally {
+      await inliner.close();
+    }
+  };
+}
+
+/**
+ * Inlines a locale into the output files of a build and performs the post bundle steps, such as
+ * the generation of the index file, for the locale.
+ * @returns The files of the locale, which are placed in the locale directory unless using the
+ * flat output option. With the flat output option, only the additional asset files are returned.
+ */
+async function inlineLocale(
+  options: NormalizedApplicationBuildOptions,
+  inliner: I18nInliner,
+  assetFiles: BuildOutputAsset[],
+  initialFiles: Map<string, InitialFileRecord>,
+  locale: string,
+  lazyServerChunks: string[] | undefined,
+): Promise<LocaleExecutionResult & { routeLazyImports?: Map<string, string[]> }> {
+  // A locale specific set of files is returned from the inliner.
+  const localeOutputFiles = await inliner.inlineForLocale(
+    locale,
+    options.i18nOptions.locales[locale].translation,
+  );
+
+  const baseHref =
+    getLocaleBaseHref(options.baseHref, options.i18nOptions, locale) ?? options.baseHref;
+
+  const { errors, warnings, additionalAssets, additionalOutputFiles, routeLazyImports } =
+    await executePostBundleSteps(
+      {
+        ...options,
+        baseHref,
+      },
+      localeOutputFiles,
+      assetFiles,
+      initialFiles,
+      locale,
+      lazyServerChunks,
+    );
+
+  localeOutputFiles.push(...additionalOutputFiles);
+
+  // Update directory with locale base
+  if (options.i18nOptions.flatOutput === true) {
+    return {
+      outputFiles: localeOutputFiles,
+      assetFiles: additionalAssets,
+      errors,
+      warnings,
+      routeLazyImports,
+    };
+  }
+
+  localeOutputFiles.forEach((file) => {
+    file.path = join(locale, file.path);
+  });
+
+  const localeAssetFiles = [...assetFiles, ...additionalAssets].map((assetFile) => ({
+    source: assetFile.source,
+    destination: join(locale, assetFile.destination),
+  }));
+
+  return {
+    outputFiles: localeOutputFiles,
+    assetFiles: localeAssetFiles,
+    errors,
+    warnings,
+    routeLazyImports,
+  };
+}
+
 function getLocaleBaseHref(
   baseHref: string | undefined,
   i18n: NormalizedApplicationBuildOptions['i18nOptions'],
@@ -124,8 +221,15 @@ function getLocaleBaseHref(
   return undefined;
 }
 
+/**
+ * The modification times of the translation files of each loaded locale description.
+ * Used to reuse loaded translations during rebuilds.
+ */
+const loadedTranslationFiles = new WeakMap<object, string>();
+
 /**
  * Loads all active translations using the translation loaders from the `@angular/localize` package.
+ * Translations that were loaded by a previous build are reused if their files have not changed.
  * @param context The architect builder context for the current build.
  * @param i18n The normalized i18n options to use.
  */
@@ -144,6 +248,13 @@ export async function loadActiveTranslations(
       continue;
     }
 
+    const filesSignature = desc.files
+      .map(({ path }) => `${path}:${statSync(join(context.workspaceRoot, path)).mtimeMs}`)
+      .join('|');
+    if (desc.translation && loadedTranslationFiles.get(desc) === filesSignature) {
+      continue;
+    }
+
     loader ??= await createTranslationLoader();
 
     loadTranslations(
@@ -162,5 +273,7 @@ export async function loadActiveTranslations(
       undefined,
       i18n.duplicateTranslationBehavior,
     );
+
+    loadedTranslationFiles.set(desc, filesSignature);
   }
 }
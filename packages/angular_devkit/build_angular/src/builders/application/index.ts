@@ -9,6 +9,7 @@
 import { BuilderContext, BuilderOutput, createBuilder } from '@angular-devkit/architect';
 import type { Plugin } from 'esbuild';
 import { BuildOutputFile, BuildOutputFileType } from '../../tools/esbuild/bundler-context';
+import type { ExecutionResult } from '../../tools/esbuild/bundler-execution-result';
 import { purgeStaleBuildCache } from '../../utils/purge-cache';
 import { assertCompatibleAngularVersion } from '../../utils/version';
 import { runEsBuildBuildAction } from './build-action';
@@ -30,6 +31,7 @@ export async function* buildApplicationInternal(
   BuilderOutput & {
     outputFiles?: BuildOutputFile[];
     assetFiles?: { source: string; destination: string }[];
+    inlineLocale?: ExecutionResult['inlineLocale'];
   }
 > {
   // Check Angular version.
@@ -49,6 +49,12 @@ interface InternalOptions {
    */
   forceI18nFlatOutput?: boolean;
 
+  /**
+   * Inlines the translations of each locale on request with the `inlineLocale` function of the
+   * build result instead of during the build. This is only used by the development server.
+   */
+  lazyI18nInlining?: boolean;
+
   /**
    * Allows for usage of the deprecated `deployUrl` option with the compatibility builder `browser-esbuild`.
    */
@@ -189,6 +195,16 @@ export async function normalizeOptions(
     };
   }
 
+  let budgetBaselineOptions;
+  if (options.budgetBaseline) {
+    budgetBaselineOptions = {
+      file: path.join(workspaceRoot, options.budgetBaseline),
+      update: !!options.updateBudgetBaseline,
+    };
+  } else if (options.updateBudgetBaseline) {
+    throw new Error('`updateBudgetBaseline` option requires the `budgetBaseline` option.');
+  }
+
   let serverEntryPoint: string | undefined;
   if (options.server) {
     serverEntryPoint = path.join(workspaceRoot, options.server);
@@ -198,12 +214,18 @@ export async function normalizeOptions(
 
   let prerenderOptions;
   if (options.prerender) {
-    const { discoverRoutes = true, routesFile = undefined } =
-      options.prerender === true ? {} : options.prerender;
+    const {
+      discoverRoutes = true,
+      routesFile = undefined,
+      routeParamsFile = undefined,
+      dataFiles = [],
+    } = options.prerender === true ? {} : options.prerender;
 
     prerenderOptions = {
       discoverRoutes,
       routesFile: routesFile && path.join(workspaceRoot, routesFile),
+      routeParamsFile: routeParamsFile && path.join(workspaceRoot, routeParamsFile),
+      dataFiles: dataFiles.map((file) => path.join(workspaceRoot, file)),
     };
   }
 
@@ -238,6 +260,7 @@ export async function normalizeOptions(
     polyfills,
     preserveSymlinks,
     statsJson,
+    analyze,
     stylePreprocessorOptions,
     subresourceIntegrity,
     verbose,
@@ -248,6 +271,8 @@ export async function normalizeOptions(
     namedChunks,
     budgets,
     deployUrl,
+    forcePrerender,
+    lazyI18nInlining,
   } = options;
 
   // Return all the normalized options
@@ -263,16 +288,19 @@ export async function normalizeOptions(
     inlineStyleLanguage,
     jit: !aot,
     stats: !!statsJson,
+    analyze: !!analyze,
     polyfills: polyfills === undefined || Array.isArray(polyfills) ? polyfills : [polyfills],
     poll,
     progress,
     externalPackages,
+    lazyI18nInlining: !!lazyI18nInlining,
     // If not explicitly set, default to the Node.js process argument
     preserveSymlinks: preserveSymlinks ?? process.execArgv.includes('--preserve-symlinks'),
     stylePreprocessorOptions,
     subresourceIntegrity,
     serverEntryPoint,
     prerenderOptions,
+    forcePrerender: !!forcePrerender,
     appShellOptions,
     ssrOptions,
     verbose,
@@ -297,6 +325,7 @@ export async function normalizeOptions(
     i18nOptions,
     namedChunks,
     budgets: budgets?.length ? budgets : undefined,
+    budgetBaselineOptions,
     publicPath: deployUrl ? deployUrl : undefined,
     plugins: plugins?.length ? plugins : undefined,
   };
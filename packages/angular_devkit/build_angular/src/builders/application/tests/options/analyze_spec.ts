@@ -0,0 +1,65 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { buildApplication } from '../../index';
+import { APPLICATION_BUILDER_INFO, BASE_OPTIONS, describeBuilder } from '../setup';
+
+describeBuilder(buildApplication, APPLICATION_BUILDER_INFO, (harness) => {
+  describe('Option: "analyze"', () => {
+    it(`should generate 'analysis.html' and 'analysis.json' when 'analyze' is true`, async () => {
+      harness.useTarget('build', {
+        ...BASE_OPTIONS,
+        analyze: true,
+      });
+
+      const { result } = await harness.executeOnce();
+      expect(result?.success).toBe(true);
+      harness.expectFile('dist/analysis.html').content.toContain('<div id="treemap">');
+      harness.expectFile('dist/analysis.json').content.toContain('"@angular/core"');
+    });
+
+    it('should include lazy routes in the analysis summary', async () => {
+      await harness.writeFiles({
+        'src/lazy-module.ts': 'export const value = 42;',
+        'src/main.ts': `import('./lazy-module');`,
+      });
+
+      harness.useTarget('build', {
+        ...BASE_OPTIONS,
+        analyze: true,
+      });
+
+      const { result } = await harness.executeOnce();
+      expect(result?.success).toBe(true);
+      harness.expectFile('dist/analysis.json').content.toContain('"src/lazy-module.ts"');
+    });
+
+    it(`should not generate analysis files when 'analyze' is false`, async () => {
+      harness.useTarget('build', {
+        ...BASE_OPTIONS,
+        analyze: false,
+      });
+
+      const { result } = await harness.executeOnce();
+      expect(result?.success).toBe(true);
+      harness.expectFile('dist/analysis.html').toNotExist();
+      harness.expectFile('dist/analysis.json').toNotExist();
+    });
+
+    it(`should not generate analysis files when 'analyze' is not set`, async () => {
+      harness.useTarget('build', {
+        ...BASE_OPTIONS,
+      });
+
+      const { result } = await harness.executeOnce();
+      expect(result?.success).toBe(true);
+      harness.expectFile('dist/analysis.html').toNotExist();
+      harness.expectFile('dist/analysis.json').toNotExist();
+    });
+  });
+});
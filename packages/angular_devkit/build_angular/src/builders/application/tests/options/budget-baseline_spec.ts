@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { logging } from '@angular-devkit/core';
+import { buildApplication } from '../../index';
+import { Type } from '../../schema';
+import { APPLICATION_BUILDER_INFO, BASE_OPTIONS, describeBuilder } from '../setup';
+
+describeBuilder(buildApplication, APPLICATION_BUILDER_INFO, (harness) => {
+  describe('Option: "budgetBaseline"', () => {
+    it(`should write the baseline file when 'updateBudgetBaseline' is true`, async () => {
+      harness.useTarget('build', {
+        ...BASE_OPTIONS,
+        budgetBaseline: 'budgets-baseline.json',
+        updateBudgetBaseline: true,
+      });
+
+      const { result } = await harness.executeOnce();
+      expect(result?.success).toBe(true);
+      harness.expectFile('budgets-baseline.json').content.toContain('"main"');
+    });
+
+    it('should log a size difference table when a baseline file exists', async () => {
+      await harness.writeFile(
+        'budgets-baseline.json',
+        JSON.stringify({ version: 1, initial: { raw: 100 }, chunks: { main: { raw: 100 } } }),
+      );
+
+      harness.useTarget('build', {
+        ...BASE_OPTIONS,
+        budgetBaseline: 'budgets-baseline.json',
+      });
+
+      const { result, logs } = await harness.executeOnce();
+      expect(result?.success).toBe(true);
+      expect(logs).toContain(
+        jasmine.objectContaining<logging.LogEntry>({
+          message: jasmine.stringMatching('Budget baseline difference'),
+        }),
+      );
+    });
+
+    it('should calculate percentage budgets relative to the baseline file', async () => {
+      await harness.writeFile(
+        'budgets-baseline.json',
+        JSON.stringify({ version: 1, initial: { raw: 100 }, chunks: {} }),
+      );
+
+      harness.useTarget('build', {
+        ...BASE_OPTIONS,
+        budgetBaseline: 'budgets-baseline.json',
+        budgets: [{ type: Type.Initial, maximumError: '2%' }],
+      });
+
+      const { logs } = await harness.executeOnce();
+      expect(logs).toContain(
+        jasmine.objectContaining<logging.LogEntry>({
+          level: 'error',
+          message: jasmine.stringMatching('bundle initial exceeded maximum budget'),
+        }),
+      );
+    });
+
+    it('should warn when the baseline file does not exist', async () => {
+      harness.useTarget('build', {
+        ...BASE_OPTIONS,
+        budgetBaseline: 'budgets-baseline.json',
+      });
+
+      const { result, logs } = await harness.executeOnce();
+      expect(result?.success).toBe(true);
+      expect(logs).toContain(
+        jasmine.objectContaining<logging.LogEntry>({
+          level: 'warn',
+          message: jasmine.stringMatching('does not exist'),
+        }),
+      );
+    });
+  });
+});
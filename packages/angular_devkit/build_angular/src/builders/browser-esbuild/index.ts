@@ -12,7 +12,7 @@ import { constants as fsConstants } from 'node:fs';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import { BuildOutputFile } from '../../tools/esbuild/bundler-context';
-import { BuildOutputAsset } from '../../tools/esbuild/bundler-execution-result';
+import { BuildOutputAsset, ExecutionResult } from '../../tools/esbuild/bundler-execution-result';
 import { emitFilesToDisk } from '../../tools/esbuild/utils';
 import { buildApplicationInternal } from '../application';
 import { Schema as ApplicationBuilderOptions } from '../application/schema';
@@ -37,6 +37,7 @@ export async function* buildEsbuildBrowser(
   BuilderOutput & {
     outputFiles?: BuildOutputFile[];
     assetFiles?: { source: string; destination: string }[];
+    inlineLocale?: ExecutionResult['inlineLocale'];
   }
 > {
   // Inform user of status of builder and options
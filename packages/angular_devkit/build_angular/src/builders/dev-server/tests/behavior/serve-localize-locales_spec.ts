@@ -0,0 +1,171 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import fetch from 'node-fetch'; // eslint-disable-line import/no-extraneous-dependencies
+import { concatMap, count, take, timeout } from 'rxjs';
+import { URL } from 'url';
+import { executeDevServerBuilder } from '../../index';
+import {
+  BASE_OPTIONS,
+  BUILD_TIMEOUT,
+  DEV_SERVER_BUILDER_INFO,
+  describeBuilder,
+  setupApplicationTarget,
+} from '../setup';
+
+describeBuilder(executeDevServerBuilder, DEV_SERVER_BUILDER_INFO, (harness) => {
+  describe('Behavior: "Vite localization of multiple locales"', () => {
+    beforeEach(async () => {
+      harness.useProject('test', {
+        root: '.',
+        sourceRoot: 'src',
+        cli: {
+          cache: {
+            enabled: false,
+          },
+        },
+        i18n: {
+          locales: {
+            'fr': 'src/locales/messages.fr.xlf',
+            'de': 'src/locales/messages.de.xlf',
+          },
+        },
+      });
+
+      setupApplicationTarget(harness, { localize: true });
+
+      await harness.writeFile(
+        'src/app/app.component.html',
+        `
+          <p id="hello" i18n="An introduction header for this sample">Hello {{ title }}! </p>
+        `,
+      );
+      await harness.writeFile('src/locales/messages.fr.xlf', createTranslationFile('Bonjour'));
+      await harness.writeFile('src/locales/messages.de.xlf', createTranslationFile('Hallo'));
+    });
+
+    it('serves each locale from its own base path', async () => {
+      harness.useTarget('serve', {
+        ...BASE_OPTIONS,
+      });
+
+      const buildCount = await harness
+        .execute()
+        .pipe(
+          timeout(BUILD_TIMEOUT),
+          concatMap(async ({ result }) => {
+            expect(result?.success).toBeTrue();
+
+            const frIndex = await fetch(new URL('fr/', `${result?.baseUrl}`));
+            expect(await frIndex.text()).toContain('<base href="/fr/">');
+
+            const deIndex = await fetch(new URL('de/', `${result?.baseUrl}`));
+            expect(await deIndex.text()).toContain('<base href="/de/">');
+
+            const frMain = await fetch(new URL('fr/main.js', `${result?.baseUrl}`));
+            expect(await frMain.text()).toContain('Bonjour');
+
+            const deMain = await fetch(new URL('de/main.js', `${result?.baseUrl}`));
+            expect(await deMain.text()).toContain('Hallo');
+          }),
+          take(1),
+          count(),
+        )
+        .toPromise();
+
+      expect(buildCount).toBe(1);
+    });
+
+    it('serves application routes with the index file of the locale', async () => {
+      harness.useTarget('serve', {
+        ...BASE_OPTIONS,
+      });
+
+      const buildCount = await harness
+        .execute()
+        .pipe(
+          timeout(BUILD_TIMEOUT),
+          concatMap(async ({ result }) => {
+            expect(result?.success).toBeTrue();
+
+            const response = await fetch(new URL('de/some/route', `${result?.baseUrl}`));
+            expect(await response.text()).toContain('<base href="/de/">');
+          }),
+          take(1),
+          count(),
+        )
+        .toPromise();
+
+      expect(buildCount).toBe(1);
+    });
+
+    it('reloads the translations of a locale when its translation file changes', async () => {
+      harness.useTarget('serve', {
+        ...BASE_OPTIONS,
+        watch: true,
+      });
+
+      const buildCount = await harness
+        .execute()
+        .pipe(
+          timeout(BUILD_TIMEOUT),
+          concatMap(async ({ result }, index) => {
+            expect(result?.success).toBeTrue();
+
+            const frMainUrl = new URL('fr/main.js', `${result?.baseUrl}`);
+            const deMainUrl = new URL('de/main.js', `${result?.baseUrl}`);
+
+            switch (index) {
+              case 0: {
+                expect(await (await fetch(frMainUrl)).text()).toContain('Bonjour');
+
+                await harness.modifyFile('src/locales/messages.fr.xlf', (content) =>
+                  content.replace('Bonjour', 'Salut'),
+                );
+                break;
+              }
+              case 1: {
+                const frMain = await (await fetch(frMainUrl)).text();
+                expect(frMain).toContain('Salut');
+                expect(frMain).not.toContain('Bonjour');
+
+                // Unchanged translations of other locales are still applied
+                expect(await (await fetch(deMainUrl)).text()).toContain('Hallo');
+                break;
+              }
+            }
+          }),
+          take(2),
+          count(),
+        )
+        .toPromise();
+
+      expect(buildCount).toBe(2);
+    });
+  });
+});
+
+function createTranslationFile(greeting: string): string {
+  return `
+  <?xml version="1.0" encoding="UTF-8" ?>
+  <xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+    <file target-language="en-US" datatype="plaintext" original="ng2.template">
+      <body>
+        <trans-unit id="4286451273117902052" datatype="html">
+          <target>${greeting} <x id="INTERPOLATION" equiv-text="{{ title }}"/>! </target>
+          <context-group purpose="location">
+            <context context-type="targetfile">src/app/app.component.html</context>
+            <context context-type="linenumber">2,3</context>
+          </context-group>
+          <note priority="1" from="description">An introduction header for this sample</note>
+        </trans-unit>
+      </body>
+    </file>
+  </xliff>
+`;
+}
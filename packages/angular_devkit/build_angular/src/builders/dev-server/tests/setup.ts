@@ -9,6 +9,12 @@
 import { json } from '@angular-devkit/core';
 import { readFileSync } from 'fs';
 import { BuilderHarness } from '../../../testing/builder-harness';
+import { buildApplication } from '../../application';
+import { Schema as ApplicationSchema } from '../../application/schema';
+import {
+  BASE_OPTIONS as APPLICATION_BASE_OPTIONS,
+  APPLICATION_BUILDER_INFO,
+} from '../../application/tests/setup';
 import { buildWebpackBrowser } from '../../browser';
 import { Schema as BrowserSchema } from '../../browser/schema';
 import {
@@ -45,6 +51,11 @@ export const BUILD_TIMEOUT = 25_000;
  */
 let browserSchema: json.schema.JsonSchema | undefined = undefined;
 
+/**
+ * Cached application builder option schema
+ */
+let applicationSchema: json.schema.JsonSchema | undefined = undefined;
+
 /**
  * Adds a `build` target to a builder test harness for the browser builder with the base options
  * used by the browser builder tests.
@@ -75,3 +86,34 @@ export function setupBrowserTarget<T>(
     },
   );
 }
+
+/**
+ * Adds a `build` target to a builder test harness for the application builder with the base options
+ * used by the application builder tests. The development server uses Vite for such targets.
+ *
+ * @param harness The builder harness to use when setting up the application builder target
+ * @param extraOptions The additional options that should be used when executing the target.
+ */
+export function setupApplicationTarget<T>(
+  harness: BuilderHarness<T>,
+  extraOptions?: Partial<ApplicationSchema>,
+): void {
+  if (!applicationSchema) {
+    applicationSchema = JSON.parse(
+      readFileSync(APPLICATION_BUILDER_INFO.schemaPath, 'utf8'),
+    ) as json.schema.JsonSchema;
+  }
+
+  harness.withBuilderTarget(
+    'build',
+    buildApplication,
+    {
+      ...APPLICATION_BASE_OPTIONS,
+      ...extraOptions,
+    },
+    {
+      builderName: APPLICATION_BUILDER_INFO.name,
+      optionSchema: applicationSchema,
+    },
+  );
+}
@@ -18,11 +18,14 @@ import type { AddressInfo } from 'node:net';
 import path, { posix } from 'node:path';
 import type { Connect, InlineConfig, ViteDevServer } from 'vite';
 import { BuildOutputFile, BuildOutputFileType } from '../../tools/esbuild/bundler-context';
+import type { LocaleExecutionResult } from '../../tools/esbuild/bundler-execution-result';
 import { JavaScriptTransformer } from '../../tools/esbuild/javascript-transformer';
 import { getFeatureSupport, transformSupportedBrowsersToTargets } from '../../tools/esbuild/utils';
 import { createAngularLocaleDataPlugin } from '../../tools/vite/i18n-locale-plugin';
+import { createI18nOptions } from '../../utils/i18n-options';
 import { RenderOptions, renderPage } from '../../utils/server-rendering/render-page';
 import { getSupportedBrowsers } from '../../utils/supported-browsers';
+import { urlJoin } from '../../utils/url';
 import { getIndexOutputFile } from '../../utils/webpack-browser-config';
 import { buildApplicationInternal } from '../application';
 import { buildEsbuildBrowser } from '../browser-esbuild';
@@ -81,16 +84,39 @@ export async function* serveWithVite(
     serverOptions.servePath = browserOptions.baseHref;
   }
 
-  // The development server currently only supports a single locale when localizing.
-  // This matches the behavior of the Webpack-based development server but could be expanded in the future.
+  const projectName = context.target?.project;
+  if (!projectName) {
+    throw new Error('The builder requires a target.');
+  }
+
+  // When localizing multiple locales, each locale is served under its own base path (e.g. `/fr/`).
+  // The keys are the locale output directories and the values are the paths relative to the serve path.
+  let localeServePaths: Map<string, string> | undefined;
   if (
     browserOptions.localize === true ||
     (Array.isArray(browserOptions.localize) && browserOptions.localize.length > 1)
   ) {
-    context.logger.warn(
-      'Localization (`localize` option) has been disabled. The development server only supports localizing a single locale per build.',
+    const i18nOptions = createI18nOptions(
+      await context.getProjectMetadata(projectName),
+      browserOptions.localize,
     );
-    browserOptions.localize = false;
+
+    localeServePaths = new Map();
+    for (const locale of i18nOptions.inlineLocales) {
+      const localeBaseHref = i18nOptions.locales[locale]?.baseHref;
+      localeServePaths.set(
+        locale,
+        urlJoin('/', localeBaseHref === '' ? '' : localeBaseHref ?? locale, '/'),
+      );
+    }
+
+    context.logger.info(
+      'Serving localized application for locales: ' +
+        [...localeServePaths].map(([locale, path]) => `${locale} (${path})`).join(', '),
+    );
+
+    // Only inline the locales that are requested instead of all locales on every rebuild
+    browserOptions.lazyI18nInlining = true;
   } else if (browserOptions.localize) {
     // When localization is enabled with a single locale, force a flat path to maintain behavior with the existing Webpack-based dev server.
     browserOptions.forceI18nFlatOutput = true;
@@ -117,6 +143,59 @@ export async function* serveWithVite(
   let listeningAddress: AddressInfo | undefined;
   const generatedFiles = new Map<string, OutputFileRecord>();
   const assetFiles = new Map<string, string>();
+
+  // Locales are inlined when requested for the first time. Requested locales are inlined again
+  // when rebuilding to update their files.
+  let inlineLocale: ((locale: string) => Promise<LocaleExecutionResult>) | undefined;
+  const inlinedLocales = new Map<string, Promise<LocaleExecutionResult>>();
+  const loadLocale = (locale: string): Promise<LocaleExecutionResult> | undefined => {
+    let localeResult = inlinedLocales.get(locale);
+    if (localeResult === undefined && inlineLocale) {
+      localeResult = inlineLocale(locale).then((result) => {
+        result.errors.forEach((message) => context.logger.error(message));
+        result.warnings.forEach((message) => context.logger.warn(message));
+
+        return result;
+      });
+      inlinedLocales.set(locale, localeResult);
+
+      // Allow inlining the locale again with the next request if inlining failed
+      localeResult.catch(() => {
+        if (inlinedLocales.get(locale) === localeResult) {
+          inlinedLocales.delete(locale);
+        }
+      });
+    }
+
+    return localeResult;
+  };
+  const loadLocaleFiles = async (localeServePath: string): Promise<void> => {
+    const [locale] =
+      [...(localeServePaths ?? [])].find(([, path]) => path === localeServePath) ?? [];
+    if (locale === undefined) {
+      return;
+    }
+
+    const localeResult = loadLocale(locale);
+    if (localeResult === undefined) {
+      return;
+    }
+
+    const { outputFiles, assetFiles: localeAssetFiles } = await localeResult;
+
+    // Skip the files of a previous build when a rebuild started in the meantime
+    if (inlinedLocales.get(locale) === localeResult) {
+      addLocaleFiles(
+        normalizePath,
+        htmlIndexPath,
+        outputFiles,
+        localeAssetFiles,
+        generatedFiles,
+        assetFiles,
+        localeServePaths,
+      );
+    }
+  };
   const build =
     builderName === '@angular-devkit/build-angular:application'
       ? buildApplicationInternal
@@ -134,24 +213,50 @@ export async function* serveWithVite(
   )) {
     assert(result.outputFiles, 'Builder did not provide result files.');
 
+    let resultOutputFiles = result.outputFiles;
+    let resultAssetFiles = result.assetFiles;
+    if (result.inlineLocale) {
+      inlineLocale = result.inlineLocale;
+      const requestedLocales = [...inlinedLocales.keys()];
+      inlinedLocales.clear();
+
+      const localeResults = await Promise.all(
+        requestedLocales.map(
+          (locale) =>
+            loadLocale(locale)?.catch((error) => {
+              context.logger.error(
+                `Unable to inline locale '${locale}': ` +
+                  (error instanceof Error ? error.message : `${error}`),
+              );
+            }),
+        ),
+      );
+      resultOutputFiles = localeResults.flatMap((localeResult) => localeResult?.outputFiles ?? []);
+      resultAssetFiles = localeResults.flatMap((localeResult) => localeResult?.assetFiles ?? []);
+    }
+
     // Analyze result files for changes
-    analyzeResultFiles(normalizePath, htmlIndexPath, result.outputFiles, generatedFiles);
+    analyzeResultFiles(
+      normalizePath,
+      htmlIndexPath,
+      resultOutputFiles,
+      generatedFiles,
+      localeServePaths,
+    );
 
     assetFiles.clear();
-    if (result.assetFiles) {
-      for (const asset of result.assetFiles) {
-        assetFiles.set('/' + normalizePath(asset.destination), asset.source);
+    if (resultAssetFiles) {
+      for (const asset of resultAssetFiles) {
+        assetFiles.set(
+          getServedFilePath(normalizePath(asset.destination), localeServePaths),
+          asset.source,
+        );
       }
     }
 
     if (server) {
       handleUpdate(generatedFiles, server, serverOptions, context.logger);
     } else {
-      const projectName = context.target?.project;
-      if (!projectName) {
-        throw new Error('The builder requires a target.');
-      }
-
       const { root = '' } = await context.getProjectMetadata(projectName);
       const projectRoot = path.join(context.workspaceRoot, root as string);
       const browsers = getSupportedBrowsers(projectRoot, context.logger);
@@ -167,6 +272,8 @@ export async function* serveWithVite(
         !!browserOptions.ssr,
         prebundleTransformer,
         target,
+        localeServePaths,
+        localeServePaths && loadLocaleFiles,
       );
 
       server = await createServer(serverConfiguration);
@@ -252,17 +359,11 @@ function analyzeResultFiles(
   htmlIndexPath: string,
   resultFiles: BuildOutputFile[],
   generatedFiles: Map<string, OutputFileRecord>,
+  localeServePaths?: Map<string, string>,
 ) {
   const seen = new Set<string>(['/index.html']);
   for (const file of resultFiles) {
-    let filePath;
-    if (file.path === htmlIndexPath) {
-      // Convert custom index output path to standard index path for dev-server usage.
-      // This mimics the Webpack dev-server behavior.
-      filePath = '/index.html';
-    } else {
-      filePath = '/' + normalizePath(file.path);
-    }
+    const filePath = getServedFilePath(normalizePath(file.path), localeServePaths, htmlIndexPath);
     seen.add(filePath);
 
     // Skip analysis of sourcemaps
@@ -313,6 +414,95 @@ function analyzeResultFiles(
   }
 }
 
+/**
+ * Adds the files of a locale that was inlined on request to the served files.
+ * The files of other locales are not changed.
+ */
+function addLocaleFiles(
+  normalizePath: (id: string) => string,
+  htmlIndexPath: string,
+  outputFiles: BuildOutputFile[],
+  localeAssetFiles: { source: string; destination: string }[],
+  generatedFiles: Map<string, OutputFileRecord>,
+  assetFiles: Map<string, string>,
+  localeServePaths?: Map<string, string>,
+): void {
+  for (const file of outputFiles) {
+    generatedFiles.set(
+      getServedFilePath(normalizePath(file.path), localeServePaths, htmlIndexPath),
+      {
+        contents: file.contents,
+        size: file.contents.byteLength,
+        updated: false,
+        servable:
+          file.type === BuildOutputFileType.Browser || file.type === BuildOutputFileType.Media,
+      },
+    );
+  }
+
+  for (const asset of localeAssetFiles) {
+    assetFiles.set(
+      getServedFilePath(normalizePath(asset.destination), localeServePaths),
+      asset.source,
+    );
+  }
+}
+
+/**
+ * Converts an output file path into the path used to serve the file.
+ * Custom index output paths are converted to the standard index path for dev-server usage which
+ * mimics the Webpack dev-server behavior. Files within a locale output directory are moved to the
+ * serve path of the locale.
+ */
+function getServedFilePath(
+  outputPath: string,
+  localeServePaths?: Map<string, string>,
+  htmlIndexPath?: string,
+): string {
+  let localeServePath = '/';
+  let filePath = outputPath;
+  if (localeServePaths) {
+    const [locale, ...rest] = outputPath.split('/');
+    const servePath = localeServePaths.get(locale);
+    if (servePath !== undefined && rest.length) {
+      localeServePath = servePath;
+      filePath = rest.join('/');
+    }
+  }
+
+  if (filePath === htmlIndexPath) {
+    filePath = 'index.html';
+  }
+
+  return localeServePath + filePath;
+}
+
+/**
+ * Finds the serve path of the locale that contains the requested path.
+ * @returns The locale serve path or `undefined` if not localizing multiple locales.
+ */
+function findLocaleServePath(
+  pathname: string,
+  localeServePaths: Map<string, string> | undefined,
+): string | undefined {
+  if (!localeServePaths?.size) {
+    return undefined;
+  }
+
+  let match: string | undefined;
+  for (const servePath of localeServePaths.values()) {
+    if (
+      (pathname + '/').startsWith(servePath) &&
+      (match === undefined || servePath.length > match.length)
+    ) {
+      match = servePath;
+    }
+  }
+
+  // Requests outside of all locales are served by the first locale
+  return match ?? localeServePaths.values().next().value;
+}
+
 // eslint-disable-next-line max-lines-per-function
 export async function setupServer(
   serverOptions: NormalizedDevServerOptions,
@@ -323,6 +513,8 @@ export async function setupServer(
   ssr: boolean,
   prebundleTransformer: JavaScriptTransformer,
   target: string[],
+  localeServePaths?: Map<string, string>,
+  loadLocale?: (localeServePath: string) => Promise<void>,
 ): Promise<InlineConfig> {
   const proxy = await loadProxyConfiguration(
     serverOptions.workspaceRoot,
@@ -403,6 +595,23 @@ export async function setupServer(
           };
         },
         configureServer(server) {
+          // Locales are inlined when they are requested for the first time
+          if (loadLocale) {
+            server.middlewares.use(function angularLocaleMiddleware(req, _res, next) {
+              const localeServePath = findLocaleServePath(
+                pathnameWithoutServePath(req.originalUrl ?? req.url ?? '/', serverOptions),
+                localeServePaths,
+              );
+              if (localeServePath === undefined) {
+                next();
+
+                return;
+              }
+
+              loadLocale(localeServePath).then(() => next(), next);
+            });
+          }
+
           // Assets and resources get handled first
           server.middlewares.use(function angularAssetsMiddleware(req, res, next) {
             if (req.url === undefined || res.writableEnded) {
@@ -475,7 +684,9 @@ export async function setupServer(
                 }
               }
 
-              const rawHtml = outputFiles.get('/index.server.html')?.contents;
+              const pathname = pathnameWithoutServePath(url, serverOptions);
+              const localeServePath = findLocaleServePath(pathname, localeServePaths) ?? '/';
+              const rawHtml = outputFiles.get(localeServePath + 'index.server.html')?.contents;
               if (!rawHtml) {
                 next();
 
@@ -485,10 +696,11 @@ export async function setupServer(
               transformIndexHtmlAndAddHeaders(url, rawHtml, res, next, async (html) => {
                 const { content } = await renderPage({
                   document: html,
-                  route: pathnameWithoutServePath(url, serverOptions),
+                  route: '/' + pathname.slice(localeServePath.length),
                   serverContext: 'ssr',
                   loadBundle: (path: string) =>
-                    server.ssrLoadModule(path.slice(1)) as ReturnType<
+                    // Bundle paths are relative to the locale output directory (e.g. `./main.server.mjs`).
+                    server.ssrLoadModule(localeServePath + path.slice(2)) as ReturnType<
                       NonNullable<RenderOptions['loadBundle']>
                     >,
                   // Files here are only needed for critical CSS inlining.
@@ -516,8 +728,21 @@ export async function setupServer(
               // The base of the URL is unused but required to parse the URL.
               const pathname = pathnameWithoutServePath(req.url, serverOptions);
 
-              if (pathname === '/' || pathname === `/index.html`) {
-                const rawHtml = outputFiles.get('/index.html')?.contents;
+              // Each locale has its own index file. The original URL is used since the Vite
+              // HTML fallback middleware rewrites application routes to `/index.html`.
+              const indexServePath =
+                findLocaleServePath(
+                  pathnameWithoutServePath(req.originalUrl ?? req.url, serverOptions),
+                  localeServePaths,
+                ) ?? '/';
+
+              if (
+                pathname === '/' ||
+                pathname === '/index.html' ||
+                pathname === indexServePath ||
+                pathname === `${indexServePath}index.html`
+              ) {
+                const rawHtml = outputFiles.get(`${indexServePath}index.html`)?.contents;
                 if (rawHtml) {
                   transformIndexHtmlAndAddHeaders(req.url, rawHtml, res, next);
 
@@ -21,7 +21,7 @@ import { pathToFileURL } from 'node:url';
 import ts from 'typescript';
 import { maxWorkers } from '../../../utils/environment-options';
 import { JavaScriptTransformer } from '../javascript-transformer';
-import { LoadResultCache } from '../load-result-cache';
+import { LoadResultCache, createCachedLoad } from '../load-result-cache';
 import {
   logCumulativeDurations,
   profileAsync,
@@ -333,26 +333,31 @@ export function createCompilerPlugin(
         };
       });
 
-      build.onLoad({ filter: /\.[cm]?js$/ }, (args) =>
-        profileAsync(
-          'NG_EMIT_JS*',
-          async () => {
-            // The filename is currently used as a cache key. Since the cache is memory only,
-            // the options cannot change and do not need to be represented in the key. If the
-            // cache is later stored to disk, then the options that affect transform output
-            // would need to be added to the key as well as a check for any change of content.
-            let contents = pluginOptions.sourceFileCache?.babelFileCache.get(args.path);
-            if (contents === undefined) {
-              contents = await javascriptTransformer.transformFile(args.path, pluginOptions.jit);
-              pluginOptions.sourceFileCache?.babelFileCache.set(args.path, contents);
-            }
-
-            return {
-              contents,
-              loader: 'js',
-            };
-          },
-          true,
+      build.onLoad(
+        { filter: /\.[cm]?js$/ },
+        // The load result cache may be persisted to disk. The options that affect the transform
+        // output are represented in the persistent cache key and the returned watch files allow
+        // the content of the file to be validated before a persisted result is reused.
+        createCachedLoad(pluginOptions.loadResultCache, (args) =>
+          profileAsync(
+            'NG_EMIT_JS*',
+            async () => {
+              // The filename is used as the in-memory cache key. Since this cache is memory only,
+              // the options cannot change and do not need to be represented in the key.
+              let contents = pluginOptions.sourceFileCache?.babelFileCache.get(args.path);
+              if (contents === undefined) {
+                contents = await javascriptTransformer.transformFile(args.path, pluginOptions.jit);
+                pluginOptions.sourceFileCache?.babelFileCache.set(args.path, contents);
+              }
+
+              return {
+                contents,
+                loader: 'js',
+                watchFiles: [args.path],
+              };
+            },
+            true,
+          ),
         ),
       );
 
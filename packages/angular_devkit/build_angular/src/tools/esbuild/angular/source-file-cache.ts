@@ -10,7 +10,7 @@ import { platform } from 'node:os';
 import * as path from 'node:path';
 import { pathToFileURL } from 'node:url';
 import ts from 'typescript';
-import { MemoryLoadResultCache } from '../load-result-cache';
+import { MemoryLoadResultCache, PersistentLoadResultCache } from '../load-result-cache';
 
 const USING_WINDOWS = platform() === 'win32';
 const WINDOWS_SEP_REGEXP = new RegExp(`\\${path.win32.sep}`, 'g');
@@ -19,12 +19,28 @@ export class SourceFileCache extends Map<string, ts.SourceFile> {
   readonly modifiedFiles = new Set<string>();
   readonly babelFileCache = new Map<string, Uint8Array>();
   readonly typeScriptFileCache = new Map<string, string | Uint8Array>();
-  readonly loadResultCache = new MemoryLoadResultCache();
+  readonly loadResultCache: MemoryLoadResultCache | PersistentLoadResultCache;
 
   referencedFiles?: readonly string[];
 
-  constructor(readonly persistentCachePath?: string) {
+  /**
+   * @param persistentCachePath The directory used to store persistent cache entries. If not present,
+   * all cached values are only stored in memory.
+   * @param persistentCacheKey A value representing the build options that affect the output of
+   * cached load results. Persisted load results created with a different key are not reused.
+   */
+  constructor(
+    readonly persistentCachePath?: string,
+    persistentCacheKey = '',
+  ) {
     super();
+
+    this.loadResultCache = persistentCachePath
+      ? new PersistentLoadResultCache(
+          path.join(persistentCachePath, 'load-results'),
+          persistentCacheKey,
+        )
+      : new MemoryLoadResultCache();
   }
 
   invalidate(files: Iterable<string>): void {
@@ -8,7 +8,7 @@
 
 import type { Metafile } from 'esbuild';
 import { basename } from 'node:path';
-import type { BudgetStats } from '../../utils/bundle-calculator';
+import type { BudgetRoute, BudgetStats } from '../../utils/bundle-calculator';
 import type { InitialFileRecord } from './bundler-context';
 
 /**
@@ -26,6 +26,7 @@ export function generateBudgetStats(
   const stats: Required<BudgetStats> = {
     chunks: [],
     assets: [],
+    routes: [],
   };
 
   for (const [file, entry] of Object.entries(metafile.outputs)) {
@@ -62,3 +63,59 @@ export function generateBudgetStats(
 
   return stats;
 }
+
+/**
+ * Generates the route information required by `route` budgets by mapping the lazy server chunks
+ * imported by each route to the browser chunks created from the same entry point. Shared chunks
+ * that are statically imported by the lazy browser chunks are also included.
+ * @param metafile The esbuild metafile of a build to use.
+ * @param initialFiles The records of all initial files of a build.
+ * @param serverFiles The output files of the server build.
+ * @param routeLazyImports A map of route paths to the server output files dynamically imported by the route.
+ * @returns The non-initial browser files loaded by each route.
+ */
+export function generateRouteBudgetStats(
+  metafile: Metafile,
+  initialFiles: Map<string, InitialFileRecord>,
+  serverFiles: Set<string>,
+  routeLazyImports: Map<string, string[]>,
+): BudgetRoute[] {
+  // Browser output files keyed by the entry point of their lazy chunk
+  const browserFilesByEntryPoint = new Map<string, string>();
+  for (const [file, output] of Object.entries(metafile.outputs)) {
+    if (output.entryPoint && !serverFiles.has(file) && !initialFiles.has(file)) {
+      browserFilesByEntryPoint.set(output.entryPoint, file);
+    }
+  }
+
+  const routes: BudgetRoute[] = [];
+  for (const [route, lazyImports] of routeLazyImports) {
+    const files = new Set<string>();
+    const pending: string[] = [];
+
+    for (const serverFile of lazyImports) {
+      const entryPoint = metafile.outputs[serverFile]?.entryPoint;
+      const browserFile = entryPoint && browserFilesByEntryPoint.get(entryPoint);
+      if (browserFile) {
+        pending.push(browserFile);
+      }
+    }
+
+    for (let file = pending.pop(); file; file = pending.pop()) {
+      if (files.has(file) || initialFiles.has(file)) {
+        continue;
+      }
+      files.add(file);
+
+      for (const { path, kind, external } of metafile.outputs[file]?.imports ?? []) {
+        if (!external && kind === 'import-statement') {
+          pending.push(path);
+        }
+      }
+    }
+
+    routes.push({ route, files: [...files] });
+  }
+
+  return routes;
+}
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import type { Metafile } from 'esbuild';
+import { generateRouteBudgetStats } from './budget-stats';
+import type { InitialFileRecord } from './bundler-context';
+
+describe('generateRouteBudgetStats()', () => {
+  const metafile = {
+    inputs: {},
+    outputs: {
+      'main.js': { bytes: 100, entryPoint: 'src/main.ts', imports: [], inputs: {}, exports: [] },
+      'admin.js': {
+        bytes: 100,
+        entryPoint: 'src/admin.ts',
+        imports: [
+          { path: 'chunk-shared.js', kind: 'import-statement' },
+          { path: 'main.js', kind: 'import-statement' },
+        ],
+        inputs: {},
+        exports: [],
+      },
+      'chunk-shared.js': { bytes: 100, imports: [], inputs: {}, exports: [] },
+      'main.server.mjs': {
+        bytes: 100,
+        entryPoint: 'src/main.server.ts',
+        imports: [],
+        inputs: {},
+        exports: [],
+      },
+      'chunk-ADMIN.mjs': {
+        bytes: 100,
+        entryPoint: 'src/admin.ts',
+        imports: [],
+        inputs: {},
+        exports: [],
+      },
+    },
+  } as unknown as Metafile;
+  const initialFiles = new Map<string, InitialFileRecord>([
+    ['main.js', { entrypoint: true, name: 'main', type: 'script' }],
+  ]);
+  const serverFiles = new Set(['main.server.mjs', 'chunk-ADMIN.mjs']);
+
+  it('maps lazy server chunks of a route to the browser chunks', () => {
+    const routes = generateRouteBudgetStats(
+      metafile,
+      initialFiles,
+      serverFiles,
+      new Map([['admin', ['chunk-ADMIN.mjs']]]),
+    );
+
+    expect(routes).toEqual([
+      { route: 'admin', files: jasmine.arrayWithExactContents(['admin.js', 'chunk-shared.js']) },
+    ]);
+  });
+
+  it('ignores lazy imports that do not have a browser chunk', () => {
+    const routes = generateRouteBudgetStats(
+      metafile,
+      initialFiles,
+      serverFiles,
+      new Map([['admin', ['chunk-UNKNOWN.mjs']]]),
+    );
+
+    expect(routes).toEqual([{ route: 'admin', files: [] }]);
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import type { Metafile } from 'esbuild';
+import type { InitialFileRecord } from './bundler-context';
+
+/**
+ * The package name used for all modules that are not part of a node package.
+ */
+export const APPLICATION_PACKAGE_NAME = '(application)';
+
+export interface BundleAnalysisModule {
+  /** The path of the input module relative to the workspace root. */
+  path: string;
+  /** The number of bytes of the module present in the output chunk. */
+  bytes: number;
+  /** The package that contains the module or {@link APPLICATION_PACKAGE_NAME}. */
+  package: string;
+  /**
+   * The modules that statically import this module.
+   * Only present for modules within initial chunks.
+   */
+  importedBy?: string[];
+}
+
+export interface BundleAnalysisChunk {
+  /** The output file of the chunk relative to the output directory. */
+  file: string;
+  name?: string;
+  initial: boolean;
+  bytes: number;
+  /** The lazy routes that load this chunk, either directly or via a transitive static import. */
+  lazyRoutes?: string[];
+  /** The number of bytes of the chunk per package. */
+  packages: Record<string, number>;
+  /** The number of bytes of the chunk per Angular library. */
+  angularLibraries: Record<string, number>;
+  modules: BundleAnalysisModule[];
+}
+
+export interface BundleAnalysisLazyRoute {
+  /** The module that contains the dynamic import of the route. */
+  importer: string;
+  /** The dynamically imported module. */
+  entryPoint: string;
+  /** The non-initial chunks loaded by the route. */
+  chunks: string[];
+  /** The total number of bytes of all chunks loaded by the route. */
+  bytes: number;
+}
+
+export interface BundleAnalysis {
+  initialBytes: number;
+  lazyBytes: number;
+  /** The number of bytes per package across all chunks. */
+  packages: Record<string, number>;
+  /** The number of bytes per Angular library across all chunks. */
+  angularLibraries: Record<string, number>;
+  /** The lazy routes keyed by the dynamically imported module. */
+  lazyRoutes: Record<string, BundleAnalysisLazyRoute>;
+  chunks: BundleAnalysisChunk[];
+}
+
+/**
+ * Analyzes the esbuild metafile of a build and calculates the size of each output chunk
+ * broken down by package, Angular library and lazy route.
+ * @param metafile The esbuild metafile of a build to analyze.
+ * @param initialFiles The records of all initial files of a build.
+ * @returns An object containing the analysis of all JavaScript and CSS output chunks.
+ */
+export function generateBundleAnalysis(
+  metafile: Metafile,
+  initialFiles: Map<string, InitialFileRecord>,
+): BundleAnalysis {
+  const analysis: BundleAnalysis = {
+    initialBytes: 0,
+    lazyBytes: 0,
+    packages: {},
+    angularLibraries: {},
+    lazyRoutes: {},
+    chunks: [],
+  };
+
+  // Collect the static importers of each input to explain why modules are present in initial chunks
+  const staticImporters = new Map<string, string[]>();
+  for (const [importer, input] of Object.entries(metafile.inputs)) {
+    for (const { path, kind, external } of input.imports) {
+      if (external || kind === 'dynamic-import') {
+        continue;
+      }
+
+      let importers = staticImporters.get(path);
+      if (importers === undefined) {
+        importers = [];
+        staticImporters.set(path, importers);
+      }
+      importers.push(importer);
+    }
+  }
+
+  const lazyChunks = findLazyRouteChunks(metafile, initialFiles);
+
+  for (const [file, output] of Object.entries(metafile.outputs)) {
+    if (!file.endsWith('.js') && !file.endsWith('.css')) {
+      continue;
+    }
+    // Skip internal component resources
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    if ((output as any)['ng-component']) {
+      continue;
+    }
+
+    const initial = initialFiles.has(file);
+    const chunk: BundleAnalysisChunk = {
+      file,
+      name: initialFiles.get(file)?.name,
+      initial,
+      bytes: output.bytes,
+      lazyRoutes: lazyChunks.get(file),
+      packages: {},
+      angularLibraries: {},
+      modules: [],
+    };
+
+    for (const [path, { bytesInOutput }] of Object.entries(output.inputs)) {
+      const packageName = getPackageName(path);
+      const module: BundleAnalysisModule = {
+        path,
+        bytes: bytesInOutput,
+        package: packageName,
+      };
+      if (initial) {
+        module.importedBy = staticImporters.get(path) ?? [];
+      }
+      chunk.modules.push(module);
+
+      addBytes(chunk.packages, packageName, bytesInOutput);
+      addBytes(analysis.packages, packageName, bytesInOutput);
+      if (isAngularLibraryModule(path)) {
+        addBytes(chunk.angularLibraries, packageName, bytesInOutput);
+        addBytes(analysis.angularLibraries, packageName, bytesInOutput);
+      }
+    }
+
+    chunk.modules.sort((a, b) => b.bytes - a.bytes);
+    analysis.chunks.push(chunk);
+
+    if (initial) {
+      analysis.initialBytes += output.bytes;
+    } else {
+      analysis.lazyBytes += output.bytes;
+    }
+  }
+
+  // Calculate the total download size of each lazy route
+  for (const chunk of analysis.chunks) {
+    for (const entryPoint of chunk.lazyRoutes ?? []) {
+      const route = analysis.lazyRoutes[entryPoint];
+      if (route) {
+        route.chunks.push(chunk.file);
+        route.bytes += chunk.bytes;
+      } else {
+        analysis.lazyRoutes[entryPoint] = {
+          importer: findDynamicImporter(metafile, entryPoint) ?? '',
+          entryPoint,
+          chunks: [chunk.file],
+          bytes: chunk.bytes,
+        };
+      }
+    }
+  }
+
+  return analysis;
+}
+
+/**
+ * Finds all non-initial chunks that are loaded by each lazy route. A lazy route is represented by
+ * the entry point of a dynamically imported chunk. Shared chunks statically imported by the lazy chunk
+ * are also considered part of the route.
+ * @returns A map of output files to the lazy route entry points that load them.
+ */
+function findLazyRouteChunks(
+  metafile: Metafile,
+  initialFiles: Map<string, InitialFileRecord>,
+): Map<string, string[]> {
+  const lazyChunks = new Map<string, string[]>();
+
+  for (const [file, output] of Object.entries(metafile.outputs)) {
+    if (!output.entryPoint || initialFiles.has(file) || !file.endsWith('.js')) {
+      continue;
+    }
+
+    const pending = [file];
+    const visited = new Set<string>();
+    for (let current = pending.pop(); current; current = pending.pop()) {
+      if (visited.has(current) || initialFiles.has(current)) {
+        continue;
+      }
+      visited.add(current);
+
+      let routes = lazyChunks.get(current);
+      if (routes === undefined) {
+        routes = [];
+        lazyChunks.set(current, routes);
+      }
+      routes.push(output.entryPoint);
+
+      for (const { path, kind } of metafile.outputs[current]?.imports ?? []) {
+        if (kind === 'import-statement') {
+          pending.push(path);
+        }
+      }
+    }
+  }
+
+  return lazyChunks;
+}
+
+function findDynamicImporter(metafile: Metafile, entryPoint: string): string | undefined {
+  for (const [importer, input] of Object.entries(metafile.inputs)) {
+    if (input.imports.some(({ path, kind }) => kind === 'dynamic-import' && path === entryPoint)) {
+      return importer;
+    }
+  }
+
+  return undefined;
+}
+
+function getPackageName(path: string): string {
+  const normalizedPath = path.replace(/\\/g, '/');
+  const index = normalizedPath.lastIndexOf('node_modules/');
+  if (index === -1) {
+    return APPLICATION_PACKAGE_NAME;
+  }
+
+  const [scopeOrName, name] = normalizedPath.slice(index + 'node_modules/'.length).split('/');
+
+  return scopeOrName.startsWith('@') && name ? `${scopeOrName}/${name}` : scopeOrName;
+}
+
+/**
+ * Determines if a module is part of an Angular library by checking for an Angular Package Format
+ * flattened ES module location.
+ */
+function isAngularLibraryModule(path: string): boolean {
+  return /node_modules[\\/].+[\\/]fesm20\d\d[\\/]/.test(path);
+}
+
+function addBytes(record: Record<string, number>, key: string, bytes: number): void {
+  record[key] = (record[key] ?? 0) + bytes;
+}
+
+/**
+ * Generates a self-contained HTML document that displays a treemap of the output chunks
+ * of a build grouped by package.
+ * @param analysis The bundle analysis to display.
+ * @returns The content of the HTML document.
+ */
+export function generateBundleAnalysisHtml(analysis: BundleAnalysis): string {
+  const tree = {
+    name: 'All chunks',
+    children: analysis.chunks.map((chunk) => ({
+      name: `${chunk.file}${chunk.initial ? ' (initial)' : ''}`,
+      children: Object.keys(chunk.packages).map((packageName) => ({
+        name: packageName,
+        children: chunk.modules
+          .filter((module) => module.package === packageName && module.bytes > 0)
+          .map((module) => ({ name: module.path, value: module.bytes })),
+      })),
+    })),
+  };
+
+  // Escape characters that could prematurely close the script element
+  const data = JSON.stringify(tree).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Bundle Analysis</title>
+<style>
+  body { margin: 0; font-family: sans-serif; font-size: 12px; }
+  header { padding: 8px 12px; background: #1976d2; color: #fff; }
+  #treemap { position: relative; width: 100vw; height: calc(100vh - 40px); }
+  .node { position: absolute; box-sizing: border-box; overflow: hidden; border: 1px solid #fff; padding: 2px; }
+  .node:hover { filter: brightness(0.9); }
+</style>
+</head>
+<body>
+<header>Initial: ${analysis.initialBytes} bytes &middot; Lazy: ${analysis.lazyBytes} bytes</header>
+<div id="treemap"></div>
+<script>
+(function () {
+  var data = ${data};
+  var colors = ['#bbdefb', '#c8e6c9', '#fff9c4', '#ffccbc', '#d1c4e9', '#b2ebf2', '#f8bbd0'];
+  function size(node) {
+    if (node.value === undefined) {
+      node.value = (node.children || []).reduce(function (total, child) { return total + size(child); }, 0);
+    }
+    return node.value;
+  }
+  function layout(node, x, y, width, height, depth, container) {
+    var element = document.createElement('div');
+    element.className = 'node';
+    element.style.left = x + 'px';
+    element.style.top = y + 'px';
+    element.style.width = width + 'px';
+    element.style.height = height + 'px';
+    element.style.background = colors[depth % colors.length];
+    element.title = node.name + ' (' + node.value + ' bytes)';
+    element.textContent = width > 40 && height > 14 ? node.name : '';
+    container.appendChild(element);
+    var children = (node.children || []).filter(function (child) { return child.value > 0; });
+    var offset = 0;
+    var header = depth > 0 && height > 30 ? 14 : 0;
+    children.forEach(function (child) {
+      var ratio = child.value / node.value;
+      if (width > height) {
+        layout(child, x + offset, y + header, width * ratio, height - header, depth + 1, container);
+        offset += width * ratio;
+      } else {
+        layout(child, x, y + header + offset, width, (height - header) * ratio, depth + 1, container);
+        offset += (height - header) * ratio;
+      }
+    });
+  }
+  var container = document.getElementById('treemap');
+  size(data);
+  layout(data, 0, 0, container.clientWidth, container.clientHeight, 0, container);
+})();
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import type { Metafile } from 'esbuild';
+import {
+  APPLICATION_PACKAGE_NAME,
+  generateBundleAnalysis,
+  generateBundleAnalysisHtml,
+} from './bundle-analysis';
+import type { InitialFileRecord } from './bundler-context';
+
+const CORE_PATH = 'node_modules/@angular/core/fesm2022/core.mjs';
+const LODASH_PATH = 'node_modules/lodash-es/lodash.js';
+
+const metafile: Metafile = {
+  inputs: {
+    'src/main.ts': {
+      bytes: 100,
+      imports: [
+        { path: CORE_PATH, kind: 'import-statement' },
+        { path: 'src/lazy.ts', kind: 'dynamic-import' },
+      ],
+    },
+    'src/lazy.ts': {
+      bytes: 50,
+      imports: [{ path: LODASH_PATH, kind: 'import-statement' }],
+    },
+    [CORE_PATH]: { bytes: 1000, imports: [] },
+    [LODASH_PATH]: { bytes: 500, imports: [] },
+  },
+  outputs: {
+    'main.js': {
+      bytes: 1100,
+      entryPoint: 'src/main.ts',
+      exports: [],
+      imports: [{ path: 'lazy.js', kind: 'dynamic-import' }],
+      inputs: {
+        'src/main.ts': { bytesInOutput: 100 },
+        [CORE_PATH]: { bytesInOutput: 1000 },
+      },
+    },
+    'lazy.js': {
+      bytes: 50,
+      entryPoint: 'src/lazy.ts',
+      exports: [],
+      imports: [{ path: 'chunk-shared.js', kind: 'import-statement' }],
+      inputs: { 'src/lazy.ts': { bytesInOutput: 50 } },
+    },
+    'chunk-shared.js': {
+      bytes: 500,
+      exports: [],
+      imports: [],
+      inputs: { [LODASH_PATH]: { bytesInOutput: 500 } },
+    },
+  },
+};
+
+const initialFiles = new Map<string, InitialFileRecord>([
+  ['main.js', { entrypoint: true, name: 'main', type: 'script' }],
+]);
+
+describe('generateBundleAnalysis()', () => {
+  it('calculates initial and lazy sizes', () => {
+    const analysis = generateBundleAnalysis(metafile, initialFiles);
+
+    expect(analysis.initialBytes).toBe(1100);
+    expect(analysis.lazyBytes).toBe(550);
+  });
+
+  it('breaks down sizes by package and Angular library', () => {
+    const analysis = generateBundleAnalysis(metafile, initialFiles);
+
+    expect(analysis.packages).toEqual({
+      [APPLICATION_PACKAGE_NAME]: 150,
+      '@angular/core': 1000,
+      'lodash-es': 500,
+    });
+    expect(analysis.angularLibraries).toEqual({ '@angular/core': 1000 });
+  });
+
+  it('includes transitive shared chunks in lazy routes', () => {
+    const analysis = generateBundleAnalysis(metafile, initialFiles);
+
+    expect(analysis.lazyRoutes['src/lazy.ts']).toEqual({
+      importer: 'src/main.ts',
+      entryPoint: 'src/lazy.ts',
+      chunks: ['lazy.js', 'chunk-shared.js'],
+      bytes: 550,
+    });
+  });
+
+  it('lists the importers of modules in initial chunks', () => {
+    const analysis = generateBundleAnalysis(metafile, initialFiles);
+    const main = analysis.chunks.find((chunk) => chunk.file === 'main.js');
+    const lazy = analysis.chunks.find((chunk) => chunk.file === 'lazy.js');
+
+    expect(main?.modules.find((module) => module.path === CORE_PATH)?.importedBy).toEqual([
+      'src/main.ts',
+    ]);
+    expect(lazy?.modules[0].importedBy).toBeUndefined();
+  });
+});
+
+describe('generateBundleAnalysisHtml()', () => {
+  it('escapes embedded data to prevent closing the script element', () => {
+    const html = generateBundleAnalysisHtml({
+      initialBytes: 0,
+      lazyBytes: 0,
+      packages: {},
+      angularLibraries: {},
+      lazyRoutes: {},
+      chunks: [
+        {
+          file: '</script>.js',
+          initial: true,
+          bytes: 0,
+          packages: {},
+          angularLibraries: {},
+          modules: [],
+        },
+      ],
+    });
+
+    expect(html).not.toContain('</script>.js');
+  });
+});
@@ -22,6 +22,16 @@ export interface RebuildState {
   fileChanges: ChangedFiles;
 }
 
+/**
+ * Represents the localized files of a single locale created from the result of a build.
+ */
+export interface LocaleExecutionResult {
+  outputFiles: BuildOutputFile[];
+  assetFiles: BuildOutputAsset[];
+  errors: string[];
+  warnings: string[];
+}
+
 /**
  * Represents the result of a single builder execute call.
  */
@@ -29,6 +39,12 @@ export class ExecutionResult {
   outputFiles: BuildOutputFile[] = [];
   assetFiles: BuildOutputAsset[] = [];
 
+  /**
+   * Inlines the translations of a locale into the files of the build when localizing on request.
+   * The output and asset files of the result are not localized in that case.
+   */
+  inlineLocale?: (locale: string) => Promise<LocaleExecutionResult>;
+
   constructor(
     private rebuildContexts: BundlerContext[],
     private codeBundleCache?: SourceFileCache,
@@ -53,6 +69,7 @@ export class ExecutionResult {
       success: this.outputFiles.length > 0,
       outputFiles: this.outputFiles,
       assetFiles: this.assetFiles,
+      inlineLocale: this.inlineLocale,
     };
   }
 
@@ -6,48 +6,71 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-import type { OnLoadResult, PluginBuild } from 'esbuild';
-import { normalize } from 'node:path';
+import type { OnLoadArgs, OnLoadResult, PartialMessage, PluginBuild } from 'esbuild';
+import glob from 'fast-glob';
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { join, normalize } from 'node:path';
+
+/** A glob pattern of files that a load result depends on, relative to a directory. */
+export interface WatchGlob {
+  dir: string;
+  glob: string;
+}
+
+/**
+ * A load result which can also contain the glob patterns of its watch files, such as the content
+ * files of Tailwind CSS. Persisted load results store the patterns instead of the matching files
+ * to also detect added files. The patterns are removed before the result is returned to esbuild.
+ */
+export interface LoadResult extends OnLoadResult {
+  watchGlobs?: WatchGlob[];
+}
 
 export interface LoadResultCache {
-  get(path: string): OnLoadResult | undefined;
-  put(path: string, result: OnLoadResult): Promise<void>;
+  get(path: string): LoadResult | undefined | Promise<LoadResult | undefined>;
+  put(path: string, result: LoadResult): Promise<void>;
 }
 
 export function createCachedLoad(
   cache: LoadResultCache | undefined,
-  callback: Parameters<PluginBuild['onLoad']>[1],
+  callback: (
+    args: OnLoadArgs,
+  ) => LoadResult | null | undefined | Promise<LoadResult | null | undefined>,
 ): Parameters<PluginBuild['onLoad']>[1] {
-  if (cache === undefined) {
-    return callback;
-  }
-
   return async (args) => {
     const loadCacheKey = `${args.namespace}:${args.path}`;
-    let result: OnLoadResult | null | undefined = cache.get(loadCacheKey);
+    let result: LoadResult | null | undefined = await cache?.get(loadCacheKey);
 
     if (result === undefined) {
       result = await callback(args);
 
       // Do not cache null or undefined or results with errors
-      if (result && result.errors === undefined) {
+      if (cache && result && result.errors === undefined) {
         await cache.put(loadCacheKey, result);
       }
     }
 
+    // esbuild does not allow additional properties in load results
+    if (result?.watchGlobs) {
+      const { watchGlobs, ...loadResult } = result;
+
+      return loadResult;
+    }
+
     return result;
   };
 }
 
 export class MemoryLoadResultCache implements LoadResultCache {
-  #loadResults = new Map<string, OnLoadResult>();
+  #loadResults = new Map<string, LoadResult>();
   #fileDependencies = new Map<string, Set<string>>();
 
-  get(path: string): OnLoadResult | undefined {
+  get(path: string): LoadResult | undefined {
     return this.#loadResults.get(path);
   }
 
-  async put(path: string, result: OnLoadResult): Promise<void> {
+  async put(path: string, result: LoadResult): Promise<void> {
     this.#loadResults.set(path, result);
     if (result.watchFiles) {
       for (const watchFile of result.watchFiles) {
@@ -77,3 +100,235 @@ export class MemoryLoadResultCache implements LoadResultCache {
     return found;
   }
 }
+
+/** The maximum age of persisted load results that were not used by a build. */
+const MAX_ENTRY_AGE = 7 * 24 * 60 * 60 * 1000;
+
+/** The maximum total size of persisted load results. The least recently used entries are removed first. */
+const MAX_CACHE_SIZE = 512 * 1024 * 1024;
+
+/**
+ * The serialized form of a load result that is stored on disk by the {@link PersistentLoadResultCache}.
+ */
+interface PersistedLoadResult {
+  /** The load cache key used to create the entry. Used to guard against hash collisions. */
+  key: string;
+  /** A map of each watch file path to the state of the file at the time the entry was created. */
+  dependencies: Record<string, string>;
+  /** The glob patterns of watch files and the state of all matching files. */
+  globs?: (WatchGlob & { state: string })[];
+  contents: string;
+  /** Indicates that `contents` is a base64 encoded binary value. */
+  binary?: boolean;
+  loader?: OnLoadResult['loader'];
+  resolveDir?: string;
+  warnings?: PartialMessage[];
+}
+
+/**
+ * A load result cache that persists load results to disk in addition to storing them in memory.
+ * Persisted entries are keyed on the load cache key as well as a key representing the options
+ * that affect the load output (for example, sourcemaps and optimization settings). An entry is
+ * only reused if none of its watch files changed since the entry was created, based on the size
+ * and modification time of the files.
+ * Results without watch files or with values that cannot be serialized are only kept in memory.
+ */
+export class PersistentLoadResultCache implements LoadResultCache {
+  readonly #memoryCache = new MemoryLoadResultCache();
+
+  constructor(
+    private readonly cachePath: string,
+    private readonly optionsKey: string,
+  ) {}
+
+  async get(path: string): Promise<LoadResult | undefined> {
+    const result = this.#memoryCache.get(path);
+    if (result !== undefined) {
+      return result;
+    }
+
+    const entryPath = this.getEntryPath(path);
+    let entry: PersistedLoadResult;
+    try {
+      entry = JSON.parse(await readFile(entryPath, 'utf-8')) as PersistedLoadResult;
+    } catch {
+      // Missing or corrupted entries are treated as a cache miss
+      return undefined;
+    }
+
+    if (entry.key !== path) {
+      return undefined;
+    }
+
+    // Only reuse the entry if none of the files it depends on have changed
+    const watchFiles = Object.keys(entry.dependencies);
+    const fileStates = await Promise.all(watchFiles.map(getFileState));
+    if (fileStates.some((state, index) => state !== entry.dependencies[watchFiles[index]])) {
+      return undefined;
+    }
+    for (const { state, ...watchGlob } of entry.globs ?? []) {
+      const globFiles = await findGlobFiles(watchGlob);
+      if ((await getFilesState(globFiles)) !== state) {
+        return undefined;
+      }
+      watchFiles.push(...globFiles);
+    }
+
+    const persistedResult: LoadResult = {
+      contents: entry.binary ? Buffer.from(entry.contents, 'base64') : entry.contents,
+      loader: entry.loader,
+      resolveDir: entry.resolveDir,
+      warnings: entry.warnings,
+      watchFiles,
+      watchGlobs: entry.globs?.map(({ dir, glob }) => ({ dir, glob })),
+    };
+
+    // Store in memory to allow for watch file based invalidation during rebuilds
+    await this.#memoryCache.put(path, persistedResult);
+
+    // Mark the entry as recently used to keep it when pruning the cache
+    const now = new Date();
+    await utimes(entryPath, now, now).catch(() => {});
+
+    return persistedResult;
+  }
+
+  async put(path: string, result: LoadResult): Promise<void> {
+    await this.#memoryCache.put(path, result);
+
+    // Results that cannot be validated or serialized are only cached in memory
+    if (
+      !result.watchFiles?.length ||
+      result.watchDirs?.length ||
+      result.pluginData !== undefined ||
+      result.contents === undefined
+    ) {
+      return;
+    }
+
+    try {
+      // Files matching a glob pattern are validated with the pattern to also detect added files
+      const globs = [];
+      const globFiles = new Set<string>();
+      for (const watchGlob of result.watchGlobs ?? []) {
+        const files = await findGlobFiles(watchGlob);
+        files.forEach((file) => globFiles.add(file));
+        globs.push({ ...watchGlob, state: await getFilesState(files) });
+      }
+
+      const dependencies: Record<string, string> = {};
+      for (const watchFile of result.watchFiles) {
+        // Normalize the watch file path to ensure OS consistent paths
+        const normalizedWatchFile = normalize(watchFile);
+        if (globFiles.has(normalizedWatchFile)) {
+          continue;
+        }
+
+        const state = await getFileState(normalizedWatchFile);
+        if (state === undefined) {
+          return;
+        }
+        dependencies[normalizedWatchFile] = state;
+      }
+
+      const binary = typeof result.contents !== 'string';
+      const entry: PersistedLoadResult = {
+        key: path,
+        dependencies,
+        globs: globs.length ? globs : undefined,
+        contents: binary
+          ? Buffer.from(result.contents as Uint8Array).toString('base64')
+          : (result.contents as string),
+        binary: binary || undefined,
+        loader: result.loader,
+        resolveDir: result.resolveDir,
+        // The `detail` property can contain non-serializable values
+        warnings: result.warnings?.map(({ detail, ...warning }) => warning),
+      };
+
+      await mkdir(this.cachePath, { recursive: true });
+      await writeFile(this.getEntryPath(path), JSON.stringify(entry));
+    } catch {
+      // Failure to persist an entry is not fatal; the result remains available in memory
+    }
+  }
+
+  invalidate(path: string): boolean {
+    return this.#memoryCache.invalidate(path);
+  }
+
+  /**
+   * Removes persisted entries that were not used for longer than the maximum entry age as well as
+   * the least recently used entries exceeding the maximum cache size.
+   * @param maxAge The maximum age of an entry in milliseconds.
+   * @param maxSize The maximum total size of all entries in bytes.
+   */
+  async prune(maxAge = MAX_ENTRY_AGE, maxSize = MAX_CACHE_SIZE): Promise<void> {
+    let entries;
+    try {
+      entries = await Promise.all(
+        (await readdir(this.cachePath)).map(async (name) => {
+          const entryPath = join(this.cachePath, name);
+          const { size, mtimeMs } = await stat(entryPath);
+
+          return { entryPath, size, mtimeMs };
+        }),
+      );
+    } catch {
+      // A missing cache directory or entries removed concurrently are not an error
+      return;
+    }
+
+    // Most recently used entries first
+    entries.sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+    const oldestTime = Date.now() - maxAge;
+    let totalSize = 0;
+    for (const { entryPath, size, mtimeMs } of entries) {
+      totalSize += size;
+      if (mtimeMs < oldestTime || totalSize > maxSize) {
+        await rm(entryPath, { force: true });
+      }
+    }
+  }
+
+  private getEntryPath(path: string): string {
+    const entryHash = createHash('sha256').update(this.optionsKey).update('\0').update(path);
+
+    return join(this.cachePath, entryHash.digest('hex') + '.json');
+  }
+}
+
+/**
+ * Gets a value representing the state of a file, which changes when the file is modified.
+ * @returns The state of the file or `undefined` if the file does not exist.
+ */
+async function getFileState(file: string): Promise<string | undefined> {
+  try {
+    const { size, mtimeMs } = await stat(file);
+
+    return `${size}:${mtimeMs}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Gets a value representing the state of a list of files, including which files are present. */
+async function getFilesState(files: string[]): Promise<string> {
+  const hash = createHash('sha256');
+  for (const file of files) {
+    hash
+      .update(file)
+      .update('\0')
+      .update((await getFileState(file)) ?? '')
+      .update('\0');
+  }
+
+  return hash.digest('hex');
+}
+
+async function findGlobFiles({ dir, glob: pattern }: WatchGlob): Promise<string[]> {
+  const files = await glob(pattern, { absolute: true, cwd: dir });
+
+  return files.map((file) => normalize(file)).sort();
+}
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import type { OnLoadArgs } from 'esbuild';
+import { mkdir, mkdtemp, readdir, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PersistentLoadResultCache, createCachedLoad } from './load-result-cache';
+
+describe('PersistentLoadResultCache', () => {
+  let tempDirectory: string;
+  let cachePath: string;
+  let sourceFile: string;
+
+  beforeEach(async () => {
+    tempDirectory = await mkdtemp(join(tmpdir(), 'angular-load-result-cache-'));
+    cachePath = join(tempDirectory, 'cache');
+    sourceFile = join(tempDirectory, 'styles.scss');
+    await writeFile(sourceFile, 'a { color: red; }');
+  });
+
+  afterEach(async () => {
+    await rm(tempDirectory, { recursive: true, force: true });
+  });
+
+  it('reuses a persisted result in a new cache instance', async () => {
+    await new PersistentLoadResultCache(cachePath, 'options').put('file:styles.scss', {
+      contents: 'a{color:red}',
+      loader: 'css',
+      watchFiles: [sourceFile],
+    });
+
+    const result = await new PersistentLoadResultCache(cachePath, 'options').get(
+      'file:styles.scss',
+    );
+
+    expect(result?.contents).toBe('a{color:red}');
+    expect(result?.loader).toBe('css');
+    expect(result?.watchFiles).toEqual([sourceFile]);
+  });
+
+  it('reuses a persisted result with binary contents', async () => {
+    await new PersistentLoadResultCache(cachePath, 'options').put('file:main.js', {
+      contents: new Uint8Array([1, 2, 3]),
+      loader: 'js',
+      watchFiles: [sourceFile],
+    });
+
+    const result = await new PersistentLoadResultCache(cachePath, 'options').get('file:main.js');
+
+    expect(result?.contents).toEqual(Buffer.from([1, 2, 3]));
+  });
+
+  it('does not reuse a persisted result when a watch file changed', async () => {
+    await new PersistentLoadResultCache(cachePath, 'options').put('file:styles.scss', {
+      contents: 'a{color:red}',
+      watchFiles: [sourceFile],
+    });
+    await writeFile(sourceFile, 'a { color: blue; }');
+
+    const result = await new PersistentLoadResultCache(cachePath, 'options').get(
+      'file:styles.scss',
+    );
+
+    expect(result).toBeUndefined();
+  });
+
+  it('does not reuse a persisted result when the options key changed', async () => {
+    await new PersistentLoadResultCache(cachePath, 'options').put('file:styles.scss', {
+      contents: 'a{color:red}',
+      watchFiles: [sourceFile],
+    });
+
+    const result = await new PersistentLoadResultCache(cachePath, 'other').get('file:styles.scss');
+
+    expect(result).toBeUndefined();
+  });
+
+  it('only keeps results without watch files in memory', async () => {
+    const cache = new PersistentLoadResultCache(cachePath, 'options');
+    await cache.put('file:styles.scss', { contents: 'a{color:red}' });
+
+    expect((await cache.get('file:styles.scss'))?.contents).toBe('a{color:red}');
+    expect(
+      await new PersistentLoadResultCache(cachePath, 'options').get('file:styles.scss'),
+    ).toBeUndefined();
+  });
+
+  it('removes invalidated results from memory', async () => {
+    const cache = new PersistentLoadResultCache(cachePath, 'options');
+    await cache.put('file:styles.scss', { contents: 'a{color:red}', watchFiles: [sourceFile] });
+    await writeFile(sourceFile, 'a { color: blue; }');
+
+    expect(cache.invalidate(sourceFile)).toBeTrue();
+    expect(await cache.get('file:styles.scss')).toBeUndefined();
+  });
+
+  it('does not reuse a persisted result when a file matching a watch glob was added', async () => {
+    const contentDirectory = join(tempDirectory, 'src');
+    await mkdir(contentDirectory);
+    await writeFile(join(contentDirectory, 'app.html'), '<div class="flex"></div>');
+    const result = {
+      contents: '.flex{display:flex}',
+      watchFiles: [sourceFile, join(contentDirectory, 'app.html')],
+      watchGlobs: [{ dir: contentDirectory, glob: '**/*.html' }],
+    };
+    await new PersistentLoadResultCache(cachePath, 'options').put('file:styles.scss', result);
+
+    const cachedResult = await new PersistentLoadResultCache(cachePath, 'options').get(
+      'file:styles.scss',
+    );
+    expect(cachedResult?.watchFiles).toEqual(result.watchFiles);
+    expect(cachedResult?.watchGlobs).toEqual(result.watchGlobs);
+
+    await writeFile(join(contentDirectory, 'other.html'), '<div class="grid"></div>');
+
+    expect(
+      await new PersistentLoadResultCache(cachePath, 'options').get('file:styles.scss'),
+    ).toBeUndefined();
+  });
+
+  it('prunes old entries and the least recently used entries exceeding the size', async () => {
+    const cache = new PersistentLoadResultCache(cachePath, 'options');
+    for (const name of ['a', 'b', 'c']) {
+      await cache.put(`file:${name}.scss`, { contents: 'a{color:red}', watchFiles: [sourceFile] });
+    }
+    const [oldEntry, usedEntry, newEntry] = await readdir(cachePath);
+    const now = Date.now() / 1000;
+    await utimes(join(cachePath, oldEntry), now - 30, now - 30);
+    await utimes(join(cachePath, usedEntry), now - 20, now - 20);
+    await utimes(join(cachePath, newEntry), now - 10, now - 10);
+
+    await cache.prune(25_000, Number.MAX_SAFE_INTEGER);
+    expect((await readdir(cachePath)).sort()).toEqual([newEntry, usedEntry].sort());
+
+    const { size } = await stat(join(cachePath, newEntry));
+    await cache.prune(25_000, size);
+    expect(await readdir(cachePath)).toEqual([newEntry]);
+  });
+});
+
+describe('createCachedLoad', () => {
+  it('removes watch globs from load results', async () => {
+    const load = createCachedLoad(undefined, () => ({
+      contents: '',
+      watchGlobs: [{ dir: '/', glob: '*.html' }],
+    }));
+
+    const result = await load({ path: 'styles.css', namespace: 'file' } as OnLoadArgs);
+
+    expect(result).toEqual({ contents: '' });
+  });
+});
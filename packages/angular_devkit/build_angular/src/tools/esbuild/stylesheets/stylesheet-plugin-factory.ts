@@ -11,13 +11,13 @@ import glob from 'fast-glob';
 import assert from 'node:assert';
 import { readFile } from 'node:fs/promises';
 import { extname } from 'node:path';
-import { LoadResultCache, createCachedLoad } from '../load-result-cache';
+import { LoadResult, LoadResultCache, createCachedLoad } from '../load-result-cache';
 
 /**
  * The lazy-loaded instance of the postcss stylesheet postprocessor.
  * It is only imported and initialized if postcss is needed.
  */
-let postcss: typeof import('postcss')['default'] | undefined;
+let postcss: (typeof import('postcss'))['default'] | undefined;
 
 /**
  * An object containing the plugin options to use when processing stylesheets.
@@ -173,7 +173,7 @@ async function processStylesheet(
   build: PluginBuild,
   postcssProcessor: import('postcss').Processor | undefined,
 ) {
-  let result: OnLoadResult;
+  let result: LoadResult;
 
   // Process the input data if the language requires preprocessing
   if (language.process) {
@@ -226,14 +226,14 @@ async function processStylesheet(
  * @param filename The name of the file that contains the data.
  * @param postcssProcessor A postcss processor instance to use.
  * @param options The plugin options to control the processing.
- * @returns An esbuild OnLoaderResult object with the processed content, warnings, and/or errors.
+ * @returns A load result object with the processed content, warnings, and/or errors.
  */
 async function compileString(
   data: string,
   filename: string,
   postcssProcessor: import('postcss').Processor,
   options: StylesheetPluginOptions,
-): Promise<OnLoadResult> {
+): Promise<LoadResult> {
   try {
     const postcssResult = await postcssProcessor.process(data, {
       from: filename,
@@ -244,7 +244,7 @@ async function compileString(
       },
     });
 
-    const loadResult: OnLoadResult = {
+    const loadResult: LoadResult = {
       contents: postcssResult.css,
       loader: 'css',
     };
@@ -291,6 +291,10 @@ async function compileString(
           cwd: resultMessage['dir'],
         });
         loadResult.watchFiles.push(...dependencies);
+
+        // Allows persisted results to detect files added to the directory
+        loadResult.watchGlobs ??= [];
+        loadResult.watchGlobs.push({ dir: resultMessage['dir'], glob: resultMessage['glob'] });
       }
     }
 
@@ -98,6 +98,26 @@ export async function calculateEstimatedTransferSizes(
   return sizes;
 }
 
+/**
+ * Finds the output files which are dynamically imported by other output files, such as the chunks
+ * of lazy loaded routes.
+ * @param metafile The esbuild metafile of the build.
+ * @param files The output files to search, such as the files of the server bundle.
+ * @returns The dynamically imported output files.
+ */
+export function getDynamicallyImportedFiles(metafile: Metafile, files: Set<string>): string[] {
+  const importedFiles = new Set<string>();
+  for (const file of files) {
+    for (const { path, kind } of metafile.outputs[file]?.imports ?? []) {
+      if (kind === 'dynamic-import' && files.has(path)) {
+        importedFiles.add(path);
+      }
+    }
+  }
+
+  return [...importedFiles];
+}
+
 export async function withSpinner<T>(text: string, action: () => T | Promise<T>): Promise<T> {
   const spinner = new Spinner(text);
   spinner.start();
@@ -0,0 +1,213 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import type { Metafile } from 'esbuild';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname } from 'node:path';
+import textTable from 'text-table';
+import type { InitialFileRecord } from '../tools/esbuild/bundler-context';
+import { formatSize } from '../tools/webpack/utils/stats';
+import { BudgetStats, calculateBudgetLabelSizes } from './bundle-calculator';
+
+export interface BudgetBaselineSizes {
+  /** The raw size in bytes. */
+  raw: number;
+  /** The estimated transfer size in bytes. Only present for builds with optimized output. */
+  transfer?: number;
+}
+
+/**
+ * A snapshot of the output chunk sizes of a build that can be used as the baseline
+ * for percentage based budgets of later builds.
+ */
+export interface BudgetBaselineSnapshot {
+  version: 1;
+  /** The combined sizes of all initial chunks. */
+  initial: BudgetBaselineSizes;
+  /** The sizes of each chunk keyed by the chunk name. Unnamed chunks use the output file name. */
+  chunks: Record<string, BudgetBaselineSizes & { initial: boolean }>;
+  /**
+   * The raw sizes of the budgets keyed by the label used in budget results without output file
+   * hashes. For example `main`, `bundle initial`, `total`, `main.js` and `route /path`.
+   */
+  budgets: Record<string, number>;
+}
+
+/**
+ * Creates a budget baseline snapshot from the esbuild metafile of a build.
+ * @param metafile The esbuild metafile of a build to use.
+ * @param initialFiles The records of all initial files of a build.
+ * @param budgetStats The budget stats of the build used to record the sizes of the budget types.
+ * @param estimatedTransferSizes The estimated transfer sizes of the output files if calculated.
+ * @returns A budget baseline snapshot of the build.
+ */
+export function createBudgetBaselineSnapshot(
+  metafile: Metafile,
+  initialFiles: Map<string, InitialFileRecord>,
+  budgetStats: BudgetStats,
+  estimatedTransferSizes?: Map<string, number>,
+): BudgetBaselineSnapshot {
+  const snapshot: BudgetBaselineSnapshot = {
+    version: 1,
+    initial: { raw: 0, transfer: estimatedTransferSizes ? 0 : undefined },
+    chunks: {},
+    budgets: calculateBudgetLabelSizes(budgetStats),
+  };
+
+  for (const [file, output] of Object.entries(metafile.outputs)) {
+    if (!file.endsWith('.js') && !file.endsWith('.css')) {
+      continue;
+    }
+    // Skip internal component resources
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    if ((output as any)['ng-component']) {
+      continue;
+    }
+
+    const initial = initialFiles.has(file);
+    let name = initialFiles.get(file)?.name;
+    if (name === undefined && output.entryPoint) {
+      name = basename(output.entryPoint)
+        .replace(/\.[cm]?[jt]s$/, '')
+        .replace(/[\\/.]/g, '-');
+    }
+    // Keep stylesheets and scripts with the same name separate
+    const key = (name ?? file) + (name && file.endsWith('.css') ? '.css' : '');
+    const transfer = estimatedTransferSizes?.get(file);
+
+    snapshot.chunks[key] = { raw: output.bytes, transfer, initial };
+
+    if (initial) {
+      snapshot.initial.raw += output.bytes;
+      if (snapshot.initial.transfer !== undefined) {
+        snapshot.initial.transfer += transfer ?? output.bytes;
+      }
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Reads a budget baseline snapshot file.
+ * @param file The full path of the snapshot file.
+ * @returns The snapshot or `undefined` if the file does not exist.
+ */
+export async function readBudgetBaseline(
+  file: string,
+): Promise<BudgetBaselineSnapshot | undefined> {
+  let content;
+  try {
+    content = await readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+
+    throw error;
+  }
+
+  const snapshot = JSON.parse(content) as BudgetBaselineSnapshot;
+  if (snapshot.version !== 1 || !snapshot.budgets) {
+    throw new Error(
+      `Budget baseline file '${file}' has an unsupported format. Update the budget baseline.`,
+    );
+  }
+
+  return snapshot;
+}
+
+/**
+ * Writes a budget baseline snapshot file.
+ * @param file The full path of the snapshot file.
+ * @param snapshot The snapshot to write.
+ */
+export async function writeBudgetBaseline(
+  file: string,
+  snapshot: BudgetBaselineSnapshot,
+): Promise<void> {
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(snapshot, null, 2) + '\n');
+}
+
+/**
+ * Creates the baseline sizes keyed by budget label for use with `checkBudgets`.
+ * Percentage based budget thresholds without an explicit `baseline` are calculated
+ * relative to these sizes.
+ */
+export function getBudgetBaselineSizes(snapshot: BudgetBaselineSnapshot): Record<string, number> {
+  return snapshot.budgets;
+}
+
+/**
+ * Generates a table containing the size difference of each chunk between a baseline snapshot
+ * and the snapshot of the current build.
+ * @param baseline The baseline snapshot.
+ * @param current The snapshot of the current build.
+ * @returns A formatted text table.
+ */
+export function generateBudgetBaselineDiffTable(
+  baseline: BudgetBaselineSnapshot,
+  current: BudgetBaselineSnapshot,
+): string {
+  const showTransfer =
+    baseline.initial.transfer !== undefined && current.initial.transfer !== undefined;
+  const rows: string[][] = [];
+
+  const addRow = (
+    name: string,
+    before: BudgetBaselineSizes | undefined,
+    after: BudgetBaselineSizes | undefined,
+  ) => {
+    const row = [
+      name,
+      before ? formatSize(before.raw) : '-',
+      after ? formatSize(after.raw) : '-',
+      formatDifference(before?.raw, after?.raw),
+    ];
+    if (showTransfer) {
+      row.push(formatDifference(before?.transfer, after?.transfer));
+    }
+    rows.push(row);
+  };
+
+  addRow('Initial total', baseline.initial, current.initial);
+
+  const names = new Set([...Object.keys(baseline.chunks), ...Object.keys(current.chunks)]);
+  for (const name of [...names].sort()) {
+    addRow(name, baseline.chunks[name], current.chunks[name]);
+  }
+
+  const header = ['Chunk', 'Baseline', 'Current', 'Raw difference'];
+  if (showTransfer) {
+    header.push('Transfer difference');
+  }
+
+  return textTable([header, ...rows], {
+    align: ['l', 'r', 'r', 'r', 'r'],
+  });
+}
+
+function formatDifference(before: number | undefined, after: number | undefined): string {
+  if (before === undefined && after === undefined) {
+    return '-';
+  }
+  if (before === undefined) {
+    return 'added';
+  }
+  if (after === undefined) {
+    return 'removed';
+  }
+
+  const difference = after - before;
+  const sign = difference > 0 ? '+' : difference < 0 ? '-' : '';
+  const percentage =
+    before === 0 ? '' : ` (${sign}${((Math.abs(difference) / before) * 100).toFixed(2)}%)`;
+
+  return `${sign}${formatSize(Math.abs(difference))}${percentage}`;
+}
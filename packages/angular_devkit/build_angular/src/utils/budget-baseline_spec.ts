@@ -0,0 +1,144 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import type { Metafile } from 'esbuild';
+import { Budget, Type } from '../builders/application/schema';
+import { generateBudgetStats } from '../tools/esbuild/budget-stats';
+import type { InitialFileRecord } from '../tools/esbuild/bundler-context';
+import {
+  createBudgetBaselineSnapshot,
+  generateBudgetBaselineDiffTable,
+  getBudgetBaselineSizes,
+} from './budget-baseline';
+import { ThresholdSeverity, checkBudgets } from './bundle-calculator';
+
+const metafile = {
+  inputs: {},
+  outputs: {
+    'main-ABCD1234.js': {
+      bytes: 1000,
+      entryPoint: 'src/main.ts',
+      inputs: {},
+      imports: [],
+      exports: [],
+    },
+    'styles-EFGH5678.css': { bytes: 200, entryPoint: 'src/styles.css', inputs: {}, imports: [] },
+    'lazy-IJKL9012.js': {
+      bytes: 300,
+      entryPoint: 'src/lazy.ts',
+      inputs: {},
+      imports: [],
+      exports: [],
+    },
+    'chunk-MNOP3456.js': { bytes: 50, inputs: {}, imports: [], exports: [] },
+    'chunk-QRST7890.js': { bytes: 60, inputs: {}, imports: [], exports: [] },
+    'main-ABCD1234.js.map': { bytes: 5000, inputs: {}, imports: [], exports: [] },
+  },
+} as unknown as Metafile;
+
+const initialFiles = new Map<string, InitialFileRecord>([
+  ['main-ABCD1234.js', { entrypoint: true, name: 'main', type: 'script' }],
+  ['styles-EFGH5678.css', { entrypoint: true, name: 'styles', type: 'style' }],
+]);
+
+const budgetStats = generateBudgetStats(metafile, initialFiles);
+
+describe('budget-baseline', () => {
+  describe('createBudgetBaselineSnapshot()', () => {
+    it('records raw sizes of chunks by name', () => {
+      const snapshot = createBudgetBaselineSnapshot(metafile, initialFiles, budgetStats);
+
+      expect(snapshot.initial).toEqual({ raw: 1200, transfer: undefined });
+      expect(snapshot.chunks).toEqual({
+        'main': { raw: 1000, transfer: undefined, initial: true },
+        'styles.css': { raw: 200, transfer: undefined, initial: true },
+        'lazy': { raw: 300, transfer: undefined, initial: false },
+        'chunk-MNOP3456.js': { raw: 50, transfer: undefined, initial: false },
+        'chunk-QRST7890.js': { raw: 60, transfer: undefined, initial: false },
+      });
+    });
+
+    it('records estimated transfer sizes when available', () => {
+      const snapshot = createBudgetBaselineSnapshot(
+        metafile,
+        initialFiles,
+        budgetStats,
+        new Map([
+          ['main-ABCD1234.js', 400],
+          ['styles-EFGH5678.css', 100],
+          ['lazy-IJKL9012.js', 150],
+        ]),
+      );
+
+      expect(snapshot.initial.transfer).toBe(500);
+      expect(snapshot.chunks['lazy'].transfer).toBe(150);
+    });
+
+    it('records the sizes of budgets by label without output file hashes', () => {
+      const snapshot = createBudgetBaselineSnapshot(metafile, initialFiles, {
+        ...budgetStats,
+        routes: [{ route: 'lazy', files: ['lazy-IJKL9012.js'] }],
+      });
+
+      expect(snapshot.budgets).toEqual({
+        'total': 1610,
+        'total scripts': 1410,
+        'main.js': 1000,
+        'styles.css': 200,
+        'lazy.js': 300,
+        'bundle initial': 1200,
+        'main': 1000,
+        'styles': 200,
+        'lazy': 300,
+        'route /lazy': 300,
+      });
+    });
+  });
+
+  describe('getBudgetBaselineSizes()', () => {
+    it('provides sizes which match the labels of budget results', () => {
+      const baselineSizes = getBudgetBaselineSizes(
+        createBudgetBaselineSnapshot(metafile, initialFiles, budgetStats),
+      );
+      const budgets: Budget[] = [
+        { type: Type.Bundle, name: 'styles', maximumError: '0%' },
+        { type: Type.Any, maximumError: '0%' },
+        { type: Type.Initial, maximumError: '0%' },
+      ];
+
+      const results = [...checkBudgets(budgets, budgetStats, false, baselineSizes)];
+
+      expect(results).toEqual([
+        {
+          severity: ThresholdSeverity.Warning,
+          label: 'chunk-MNOP3456.js',
+          message: jasmine.stringMatching('no size in the budget baseline'),
+        },
+        {
+          severity: ThresholdSeverity.Warning,
+          label: 'chunk-QRST7890.js',
+          message: jasmine.stringMatching('no size in the budget baseline'),
+        },
+      ]);
+    });
+  });
+
+  describe('generateBudgetBaselineDiffTable()', () => {
+    it('includes the difference of each chunk', () => {
+      const baseline = createBudgetBaselineSnapshot(metafile, initialFiles, budgetStats);
+      const current = createBudgetBaselineSnapshot(metafile, initialFiles, budgetStats);
+      current.chunks['main'].raw = 1100;
+      delete current.chunks['lazy'];
+
+      const table = generateBudgetBaselineDiffTable(baseline, current);
+
+      expect(table).toMatch(/main .*\+100 bytes \(\+10\.00%\)/);
+      expect(table).toMatch(/lazy .*removed/);
+    });
+  });
+});
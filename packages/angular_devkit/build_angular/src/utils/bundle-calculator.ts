@@ -6,7 +6,7 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-import { Budget, Type } from '../builders/browser/schema';
+import { Budget, Type } from '../builders/application/schema';
 import { formatSize } from '../tools/webpack/utils/stats';
 
 interface Size {
@@ -48,15 +48,36 @@ export interface BudgetAsset {
   componentStyle?: boolean;
 }
 
+export interface BudgetRoute {
+  /** The route path without a leading slash. */
+  route: string;
+  /** The non-initial files loaded when navigating to the route. */
+  files: string[];
+}
+
 export interface BudgetStats {
   chunks?: BudgetChunk[];
   assets?: BudgetAsset[];
+  routes?: BudgetRoute[];
 }
 
-export function* calculateThresholds(budget: Budget): IterableIterator<Threshold> {
+/**
+ * Calculates the thresholds of a budget.
+ * @param budget The budget to use.
+ * @param baselineSize The size in bytes of the budget from a baseline snapshot if available.
+ * Percentage based thresholds are relative to this size when the budget has no explicit `baseline`.
+ */
+export function* calculateThresholds(
+  budget: Budget,
+  baselineSize?: number,
+): IterableIterator<Threshold> {
+  const baselineFor = (value: string): string | undefined =>
+    budget.baseline ??
+    (baselineSize !== undefined && value.trim().endsWith('%') ? `${baselineSize}` : undefined);
+
   if (budget.maximumWarning) {
     yield {
-      limit: calculateBytes(budget.maximumWarning, budget.baseline, 1),
+      limit: calculateBytes(budget.maximumWarning, baselineFor(budget.maximumWarning), 1),
       type: ThresholdType.Max,
       severity: ThresholdSeverity.Warning,
     };
@@ -64,7 +85,7 @@ export function* calculateThresholds(budget: Budget): IterableIterator<Threshold
 
   if (budget.maximumError) {
     yield {
-      limit: calculateBytes(budget.maximumError, budget.baseline, 1),
+      limit: calculateBytes(budget.maximumError, baselineFor(budget.maximumError), 1),
       type: ThresholdType.Max,
       severity: ThresholdSeverity.Error,
     };
@@ -72,7 +93,7 @@ export function* calculateThresholds(budget: Budget): IterableIterator<Threshold
 
   if (budget.minimumWarning) {
     yield {
-      limit: calculateBytes(budget.minimumWarning, budget.baseline, -1),
+      limit: calculateBytes(budget.minimumWarning, baselineFor(budget.minimumWarning), -1),
       type: ThresholdType.Min,
       severity: ThresholdSeverity.Warning,
     };
@@ -80,7 +101,7 @@ export function* calculateThresholds(budget: Budget): IterableIterator<Threshold
 
   if (budget.minimumError) {
     yield {
-      limit: calculateBytes(budget.minimumError, budget.baseline, -1),
+      limit: calculateBytes(budget.minimumError, baselineFor(budget.minimumError), -1),
       type: ThresholdType.Min,
       severity: ThresholdSeverity.Error,
     };
@@ -88,13 +109,13 @@ export function* calculateThresholds(budget: Budget): IterableIterator<Threshold
 
   if (budget.warning) {
     yield {
-      limit: calculateBytes(budget.warning, budget.baseline, -1),
+      limit: calculateBytes(budget.warning, baselineFor(budget.warning), -1),
       type: ThresholdType.Min,
       severity: ThresholdSeverity.Warning,
     };
 
     yield {
-      limit: calculateBytes(budget.warning, budget.baseline, 1),
+      limit: calculateBytes(budget.warning, baselineFor(budget.warning), 1),
       type: ThresholdType.Max,
       severity: ThresholdSeverity.Warning,
     };
@@ -102,13 +123,13 @@ export function* calculateThresholds(budget: Budget): IterableIterator<Threshold
 
   if (budget.error) {
     yield {
-      limit: calculateBytes(budget.error, budget.baseline, -1),
+      limit: calculateBytes(budget.error, baselineFor(budget.error), -1),
       type: ThresholdType.Min,
       severity: ThresholdSeverity.Error,
     };
 
     yield {
-      limit: calculateBytes(budget.error, budget.baseline, 1),
+      limit: calculateBytes(budget.error, baselineFor(budget.error), 1),
       type: ThresholdType.Max,
       severity: ThresholdSeverity.Error,
     };
@@ -120,7 +141,12 @@ export function* calculateThresholds(budget: Budget): IterableIterator<Threshold
  */
 function calculateSizes(budget: Budget, stats: BudgetStats): Size[] {
   type CalculatorTypes = {
-    new (budget: Budget, chunks: BudgetChunk[], assets: BudgetAsset[]): Calculator;
+    new (
+      budget: Budget,
+      chunks: BudgetChunk[],
+      assets: BudgetAsset[],
+      routes: BudgetRoute[],
+    ): Calculator;
   };
   const calculatorMap: Record<Budget['type'], CalculatorTypes> = {
     all: AllCalculator,
@@ -130,10 +156,11 @@ function calculateSizes(budget: Budget, stats: BudgetStats): Size[] {
     anyComponentStyle: AnyComponentStyleCalculator,
     bundle: BundleCalculator,
     initial: InitialCalculator,
+    route: RouteCalculator,
   };
 
   const ctor = calculatorMap[budget.type];
-  const { chunks, assets } = stats;
+  const { chunks, assets, routes = [] } = stats;
   if (!chunks) {
     throw new Error('Webpack stats output did not include chunk information.');
   }
@@ -141,7 +168,7 @@ function calculateSizes(budget: Budget, stats: BudgetStats): Size[] {
     throw new Error('Webpack stats output did not include asset information.');
   }
 
-  const calculator = new ctor(budget, chunks, assets);
+  const calculator = new ctor(budget, chunks, assets, routes);
 
   return calculator.calculate();
 }
@@ -151,6 +178,7 @@ abstract class Calculator {
     protected budget: Budget,
     protected chunks: BudgetChunk[],
     protected assets: BudgetAsset[],
+    protected routes: BudgetRoute[],
   ) {}
 
   abstract calculate(): Size[];
@@ -216,6 +244,25 @@ class InitialCalculator extends Calculator {
   }
 }
 
+/**
+ * The sum of all lazy files loaded by a route. When a budget name is present, only the route
+ * with a matching path is checked. Otherwise each route is checked individually.
+ */
+class RouteCalculator extends Calculator {
+  calculate() {
+    const budgetRoute = this.budget.name?.replace(/^\//, '');
+
+    return this.routes
+      .filter(({ route }) => budgetRoute === undefined || route === budgetRoute)
+      .map(({ route, files }) => ({
+        label: `route /${route}`,
+        size: files
+          .map((file) => this.assets.find((asset) => asset.name === file))
+          .reduce((total, asset) => total + (asset ? this.getAssetSize(asset) : 0), 0),
+      }));
+  }
+}
+
 /**
  * The sum of all the scripts portions.
  */
@@ -320,10 +367,18 @@ function calculateBytes(input: string, baseline?: string, factor: 1 | -1 = 1): n
   return baselineBytes + value * factor;
 }
 
+/**
+ * Checks the budgets against the sizes of a build.
+ * @param budgets The budgets to check.
+ * @param stats The stats of the build.
+ * @param checkComponentStyles Whether `anyComponentStyle` budgets should be checked.
+ * @param baselineSizes Sizes from a budget baseline snapshot keyed by budget label.
+ */
 export function* checkBudgets(
   budgets: Budget[],
   stats: BudgetStats,
   checkComponentStyles?: boolean,
+  baselineSizes?: Record<string, number>,
 ): IterableIterator<BudgetCalculatorResult> {
   // Ignore AnyComponentStyle budgets as these are handled in `AnyComponentStyleBudgetChecker` unless requested
   const computableBudgets = checkComponentStyles
@@ -333,9 +388,88 @@ export function* checkBudgets(
   for (const budget of computableBudgets) {
     const sizes = calculateSizes(budget, stats);
     for (const { size, label } of sizes) {
-      yield* checkThresholds(calculateThresholds(budget), size, label);
+      const baselineSize =
+        label !== undefined ? baselineSizes?.[getBaselineLabel(label)] : undefined;
+      if (baselineSizes && baselineSize === undefined && hasRelativeThreshold(budget)) {
+        // Percentage thresholds would otherwise be calculated as absolute sizes.
+        yield {
+          severity: ThresholdSeverity.Warning,
+          label,
+          message:
+            `${label} has a percentage budget but no size in the budget baseline and was not checked.` +
+            ` Update the budget baseline or set the 'baseline' option of the budget.`,
+        };
+        continue;
+      }
+
+      yield* checkThresholds(calculateThresholds(budget, baselineSize), size, label);
+    }
+  }
+}
+
+/**
+ * Calculates the sizes of a build for all budget types except `anyComponentStyle`, keyed by
+ * the budget result label with output file hashes removed so the sizes of later builds can be
+ * matched. Labels which are ambiguous without their hashes, such as lazy chunks, are omitted.
+ * @param stats The stats of the build.
+ */
+export function calculateBudgetLabelSizes(stats: BudgetStats): Record<string, number> {
+  const budgets: Budget[] = [Type.All, Type.AllScript, Type.Any, Type.AnyScript, Type.Initial].map(
+    (type) => ({ type }),
+  );
+  const bundleNames = new Set(stats.chunks?.flatMap((chunk) => chunk.names ?? []));
+  for (const name of bundleNames) {
+    budgets.push({ type: Type.Bundle, name });
+  }
+  if (stats.routes?.length) {
+    budgets.push({ type: Type.Route });
+  }
+
+  // The same file can be reported by several budget types, such as `any` and `anyScript`
+  const labelSizes = new Map<string, number>();
+  for (const budget of budgets) {
+    for (const { size, label } of calculateSizes(budget, stats)) {
+      if (label !== undefined) {
+        labelSizes.set(label, size);
+      }
+    }
+  }
+
+  const sizes: Record<string, number> = {};
+  const ambiguousLabels = new Set<string>();
+  for (const [label, size] of labelSizes) {
+    const baselineLabel = getBaselineLabel(label);
+    if (sizes[baselineLabel] !== undefined) {
+      ambiguousLabels.add(baselineLabel);
     }
+    sizes[baselineLabel] = size;
+  }
+  for (const label of ambiguousLabels) {
+    delete sizes[label];
+  }
+
+  return sizes;
+}
+
+/** Removes the output hash from budget labels of output files, e.g. `main-ABCD1234.js`. */
+function getBaselineLabel(label: string): string {
+  return label.replace(/-[A-Z0-9]{8}(\.(?:js|css))$/, '$1');
+}
+
+/** Whether a budget has a percentage threshold without an explicit baseline. */
+function hasRelativeThreshold(budget: Budget): boolean {
+  if (budget.baseline) {
+    return false;
   }
+
+  return [
+    budget.maximumWarning,
+    budget.maximumError,
+    budget.minimumWarning,
+    budget.minimumError,
+    budget.warning,
+    budget.error,
+  ].some((value) => value?.trim().endsWith('%'));
 }
 
 export function* checkThresholds(
@@ -7,8 +7,8 @@
  */
 
 import { StatsCompilation } from 'webpack';
-import { Budget, Type } from '../builders/browser/schema';
-import { ThresholdSeverity, checkBudgets } from './bundle-calculator';
+import { Budget, Type } from '../builders/application/schema';
+import { ThresholdSeverity, calculateBudgetLabelSizes, checkBudgets } from './bundle-calculator';
 
 const KB = 1024;
 
@@ -340,5 +340,243 @@ describe('bundle-calculator', () => {
         message: jasmine.stringMatching('foo.ext exceeded maximum budget.'),
       });
     });
+
+    it('calculates percentage budgets relative to baseline sizes', () => {
+      const budgets: Budget[] = [
+        {
+          type: Type.Initial,
+          maximumError: '2%',
+        },
+      ];
+      const stats = {
+        chunks: [
+          {
+            id: 0,
+            initial: true,
+            names: ['main'],
+            files: ['main.js'],
+          },
+        ],
+        assets: [
+          {
+            name: 'main.js',
+            size: 1.05 * KB,
+          },
+        ],
+      } as unknown as StatsCompilation;
+
+      const failures = Array.from(
+        checkBudgets(budgets, stats, false, { 'bundle initial': 1 * KB }),
+      );
+
+      expect(failures.length).toBe(1);
+      expect(failures).toContain({
+        severity: ThresholdSeverity.Error,
+        label: 'bundle initial',
+        message: jasmine.stringMatching('bundle initial exceeded maximum budget.'),
+      });
+    });
+
+    it('skips percentage budgets without a baseline size with a warning', () => {
+      const budgets: Budget[] = [
+        {
+          type: Type.All,
+          maximumError: '2%',
+        },
+        {
+          type: Type.AnyScript,
+          maximumWarning: '5%',
+          baseline: '1kb',
+        },
+      ];
+      const stats = {
+        chunks: [],
+        assets: [
+          {
+            name: 'main.js',
+            size: 1.5 * KB,
+          },
+        ],
+      } as unknown as StatsCompilation;
+
+      const failures = Array.from(
+        checkBudgets(budgets, stats, false, { 'bundle initial': 1 * KB }),
+      );
+
+      expect(failures).toEqual([
+        {
+          severity: ThresholdSeverity.Warning,
+          label: 'total',
+          message: jasmine.stringMatching('total has a percentage budget but no size in the'),
+        },
+        {
+          severity: ThresholdSeverity.Warning,
+          label: 'main.js',
+          message: jasmine.stringMatching('main.js exceeded maximum budget.'),
+        },
+      ]);
+    });
+
+    it('matches baseline sizes of output files without their hashes', () => {
+      const budgets: Budget[] = [
+        {
+          type: Type.AnyScript,
+          maximumError: '2%',
+        },
+      ];
+      const stats = {
+        chunks: [],
+        assets: [
+          {
+            name: 'main-ABCD1234.js',
+            size: 1.05 * KB,
+          },
+        ],
+      } as unknown as StatsCompilation;
+
+      const failures = Array.from(checkBudgets(budgets, stats, false, { 'main.js': 1 * KB }));
+
+      expect(failures).toEqual([
+        {
+          severity: ThresholdSeverity.Error,
+          label: 'main-ABCD1234.js',
+          message: jasmine.stringMatching('main-ABCD1234.js exceeded maximum budget.'),
+        },
+      ]);
+    });
+
+    it('does not apply baseline sizes to absolute budgets', () => {
+      const budgets: Budget[] = [
+        {
+          type: Type.Initial,
+          maximumError: '2kb',
+        },
+      ];
+      const stats = {
+        chunks: [
+          {
+            id: 0,
+            initial: true,
+            names: ['main'],
+            files: ['main.js'],
+          },
+        ],
+        assets: [
+          {
+            name: 'main.js',
+            size: 1.5 * KB,
+          },
+        ],
+      } as unknown as StatsCompilation;
+
+      const failures = Array.from(
+        checkBudgets(budgets, stats, false, { 'bundle initial': 1 * KB }),
+      );
+
+      expect(failures.length).toBe(0);
+    });
+
+    it('yields exceeded route budgets', () => {
+      const budgets: Budget[] = [
+        {
+          type: Type.Route,
+          name: '/admin',
+          maximumError: '1kb',
+        },
+      ];
+      const stats = {
+        chunks: [],
+        assets: [
+          {
+            name: 'admin.js',
+            size: 0.75 * KB,
+          },
+          {
+            name: 'chunk-shared.js',
+            size: 0.5 * KB,
+          },
+        ],
+        routes: [
+          { route: 'admin', files: ['admin.js', 'chunk-shared.js'] },
+          { route: 'home', files: ['chunk-shared.js'] },
+        ],
+      };
+
+      const failures = Array.from(checkBudgets(budgets, stats));
+
+      expect(failures.length).toBe(1);
+      expect(failures).toContain({
+        severity: ThresholdSeverity.Error,
+        label: 'route /admin',
+        message: jasmine.stringMatching('route /admin exceeded maximum budget.'),
+      });
+    });
+  });
+  describe('calculateBudgetLabelSizes()', () => {
+    it('calculates sizes keyed by budget labels without output file hashes', () => {
+      const stats = {
+        chunks: [
+          {
+            initial: true,
+            names: ['main'],
+            files: ['main-ABCD1234.js'],
+          },
+          {
+            initial: true,
+            names: ['styles'],
+            files: ['styles-EFGH5678.css'],
+          },
+        ],
+        assets: [
+          {
+            name: 'main-ABCD1234.js',
+            size: 1 * KB,
+          },
+          {
+            name: 'styles-EFGH5678.css',
+            size: 0.5 * KB,
+          },
+        ],
+        routes: [
+          {
+            route: 'admin',
+            files: ['main-ABCD1234.js'],
+          },
+        ],
+      };
+
+      expect(calculateBudgetLabelSizes(stats)).toEqual({
+        'total': 1.5 * KB,
+        'total scripts': 1 * KB,
+        'main.js': 1 * KB,
+        'styles.css': 0.5 * KB,
+        'bundle initial': 1.5 * KB,
+        'main': 1 * KB,
+        'styles': 0.5 * KB,
+        'route /admin': 1 * KB,
+      });
+    });
+
+    it('omits labels which are ambiguous without output file hashes', () => {
+      const stats = {
+        chunks: [],
+        assets: [
+          {
+            name: 'chunk-ABCD1234.js',
+            size: 1 * KB,
+          },
+          {
+            name: 'chunk-EFGH5678.js',
+            size: 2 * KB,
+          },
+        ],
+      };
+
+      expect(calculateBudgetLabelSizes(stats)).toEqual({
+        'total': 3 * KB,
+        'total scripts': 3 * KB,
+        'bundle initial': 0,
+      });
+    });
   });
 });
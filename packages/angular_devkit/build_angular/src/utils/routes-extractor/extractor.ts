@@ -21,11 +21,17 @@ import {
   ɵINTERNAL_SERVER_PLATFORM_PROVIDERS as INTERNAL_SERVER_PLATFORM_PROVIDERS,
 } from '@angular/platform-server';
 import { Route, Router, ɵloadChildren as loadChildrenHelper } from '@angular/router';
+import { firstValueFrom, isObservable } from 'rxjs';
 
 interface RouterResult {
   route: string;
   success: boolean;
   redirect: boolean;
+  /**
+   * The values loaded by the `loadChildren` and `loadComponent` functions of the route and its
+   * parents. These are the exports of the lazy loaded chunks of the route.
+   */
+  lazyExports?: unknown[];
 }
 
 async function* getRoutesFromRouterConfig(
@@ -33,9 +39,10 @@ async function* getRoutesFromRouterConfig(
   compiler: Compiler,
   parentInjector: Injector,
   parentRoute = '',
+  parentLazyExports: unknown[] = [],
 ): AsyncIterableIterator<RouterResult> {
   for (const route of routes) {
-    const { path, redirectTo, loadChildren, children } = route;
+    const { path, redirectTo, loadChildren, loadComponent, children } = route;
     if (path === undefined) {
       continue;
     }
@@ -48,16 +55,28 @@ async function* getRoutesFromRouterConfig(
       continue;
     }
 
+    const lazyExports = [
+      ...parentLazyExports,
+      ...(await getLazyExports(loadChildren)),
+      ...(await getLazyExports(loadComponent)),
+    ];
+
     if (/[:*]/.test(path)) {
       // TODO: handle parameterized routes population.
-      yield { route: currentRoutePath, success: false, redirect: false };
+      yield { route: currentRoutePath, success: false, redirect: false, lazyExports };
       continue;
     }
 
-    yield { route: currentRoutePath, success: true, redirect: false };
+    yield { route: currentRoutePath, success: true, redirect: false, lazyExports };
 
     if (children?.length) {
-      yield* getRoutesFromRouterConfig(children, compiler, parentInjector, currentRoutePath);
+      yield* getRoutesFromRouterConfig(
+        children,
+        compiler,
+        parentInjector,
+        currentRoutePath,
+        lazyExports,
+      );
     }
 
     if (loadChildren) {
@@ -69,7 +88,13 @@ async function* getRoutesFromRouterConfig(
 
       if (loadedChildRoutes) {
         const { routes: childRoutes, injector = parentInjector } = loadedChildRoutes;
-        yield* getRoutesFromRouterConfig(childRoutes, compiler, injector, currentRoutePath);
+        yield* getRoutesFromRouterConfig(
+          childRoutes,
+          compiler,
+          injector,
+          currentRoutePath,
+          lazyExports,
+        );
       }
     }
   }
@@ -131,6 +156,21 @@ function isBootstrapFn(value: unknown): value is () => Promise<ApplicationRef> {
   return typeof value === 'function' && !('ɵmod' in value);
 }
 
+/**
+ * Calls a lazy loading function such as `loadChildren` or `loadComponent` and returns the loaded
+ * value, which is unwrapped when it is a module with a default export.
+ */
+async function getLazyExports(loadFn: (() => unknown) | undefined): Promise<unknown[]> {
+  if (!loadFn) {
+    return [];
+  }
+
+  const result = loadFn();
+  const value = isObservable(result) ? await firstValueFrom(result) : await result;
+
+  return [value && typeof value === 'object' && 'default' in value ? value.default : value];
+}
+
 function buildRoutePath(...routeParts: string[]): string {
   return routeParts.filter(Boolean).join('/');
 }
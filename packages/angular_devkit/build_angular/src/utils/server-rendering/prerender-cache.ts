@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const MANIFEST_FILENAME = 'manifest.json';
+
+interface PrerenderManifestEntry {
+  /** A hash of all the inputs used to render the route. */
+  dependencies: string;
+  /** A hash of the rendered HTML content. Also used as the name of the cached content file. */
+  html: string;
+}
+
+interface PrerenderManifest {
+  version: 1;
+  routes: Record<string, PrerenderManifestEntry>;
+}
+
+/**
+ * A persistent cache of prerendered pages. A manifest maps each route to a hash of the
+ * inputs used to render it, such as the server bundle files and data files, along with a
+ * hash of the rendered HTML. The rendered content of a route is reused if the hash of its
+ * inputs is unchanged.
+ */
+export class PrerenderCache {
+  readonly #routes = new Map<string, PrerenderManifestEntry>();
+
+  private constructor(
+    private readonly cachePath: string,
+    entries: Record<string, PrerenderManifestEntry>,
+  ) {
+    for (const [route, entry] of Object.entries(entries)) {
+      this.#routes.set(route, entry);
+    }
+  }
+
+  /**
+   * Loads the prerender cache from the provided directory.
+   * A missing or invalid manifest results in an empty cache.
+   * @param cachePath The directory used to store the manifest and rendered content.
+   */
+  static async load(cachePath: string): Promise<PrerenderCache> {
+    let entries: Record<string, PrerenderManifestEntry> = {};
+    try {
+      const manifest = JSON.parse(
+        await readFile(join(cachePath, MANIFEST_FILENAME), 'utf-8'),
+      ) as PrerenderManifest;
+      if (manifest.version === 1) {
+        entries = manifest.routes;
+      }
+    } catch {}
+
+    return new PrerenderCache(cachePath, entries);
+  }
+
+  /**
+   * Retrieves the cached content of a route.
+   * @param route The route to retrieve.
+   * @param dependencies A hash of the current inputs used to render the route.
+   * @returns The rendered content or `undefined` if no valid entry is present.
+   */
+  async get(route: string, dependencies: string): Promise<string | undefined> {
+    const entry = this.#routes.get(route);
+    if (entry?.dependencies !== dependencies) {
+      return undefined;
+    }
+
+    try {
+      const content = await readFile(join(this.cachePath, `${entry.html}.html`), 'utf-8');
+
+      // Guard against modified or truncated cache content
+      return hashContent(content) === entry.html ? content : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores the rendered content of a route.
+   * @param route The rendered route.
+   * @param dependencies A hash of the inputs used to render the route.
+   * @param content The rendered content.
+   */
+  async set(route: string, dependencies: string, content: string): Promise<void> {
+    const html = hashContent(content);
+    this.#routes.set(route, { dependencies, html });
+
+    await mkdir(this.cachePath, { recursive: true });
+    await writeFile(join(this.cachePath, `${html}.html`), content);
+  }
+
+  /**
+   * Writes the manifest and removes the content of routes that are no longer present.
+   * @param routes The routes of the current build.
+   */
+  async save(routes: Iterable<string>): Promise<void> {
+    const currentRoutes = new Set(routes);
+    const manifest: PrerenderManifest = { version: 1, routes: {} };
+    const staleContent = new Set<string>();
+
+    for (const [route, entry] of this.#routes) {
+      if (currentRoutes.has(route)) {
+        manifest.routes[route] = entry;
+      } else {
+        staleContent.add(entry.html);
+      }
+    }
+
+    // Content may be shared by multiple routes with identical output
+    for (const { html } of Object.values(manifest.routes)) {
+      staleContent.delete(html);
+    }
+
+    await mkdir(this.cachePath, { recursive: true });
+    await writeFile(join(this.cachePath, MANIFEST_FILENAME), JSON.stringify(manifest, null, 2));
+    for (const html of staleContent) {
+      await rm(join(this.cachePath, `${html}.html`), { force: true });
+    }
+  }
+}
+
+export function hashContent(content: string | Uint8Array): string {
+  return createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PrerenderCache, hashContent } from './prerender-cache';
+
+describe('PrerenderCache', () => {
+  let cachePath: string;
+
+  beforeEach(async () => {
+    cachePath = await mkdtemp(join(tmpdir(), 'angular-prerender-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(cachePath, { recursive: true, force: true });
+  });
+
+  it('reuses the content of a route with unchanged dependencies', async () => {
+    const cache = await PrerenderCache.load(cachePath);
+    await cache.set('home', 'deps', '<html>home</html>');
+    await cache.save(['home']);
+
+    const reloaded = await PrerenderCache.load(cachePath);
+
+    expect(await reloaded.get('home', 'deps')).toBe('<html>home</html>');
+  });
+
+  it('does not reuse the content of a route with changed dependencies', async () => {
+    const cache = await PrerenderCache.load(cachePath);
+    await cache.set('home', 'deps', '<html>home</html>');
+    await cache.save(['home']);
+
+    const reloaded = await PrerenderCache.load(cachePath);
+
+    expect(await reloaded.get('home', 'changed')).toBeUndefined();
+  });
+
+  it('does not reuse modified cached content', async () => {
+    const cache = await PrerenderCache.load(cachePath);
+    await cache.set('home', 'deps', '<html>home</html>');
+    await cache.save(['home']);
+    await writeFile(join(cachePath, `${hashContent('<html>home</html>')}.html`), 'modified');
+
+    const reloaded = await PrerenderCache.load(cachePath);
+
+    expect(await reloaded.get('home', 'deps')).toBeUndefined();
+  });
+
+  it('removes routes that are no longer present when saving', async () => {
+    const cache = await PrerenderCache.load(cachePath);
+    await cache.set('home', 'deps', '<html>home</html>');
+    await cache.set('about', 'deps', '<html>about</html>');
+    await cache.save(['home']);
+
+    const reloaded = await PrerenderCache.load(cachePath);
+
+    expect(await reloaded.get('about', 'deps')).toBeUndefined();
+    expect(await readdir(cachePath)).toEqual(
+      jasmine.arrayWithExactContents(['manifest.json', `${hashContent('<html>home</html>')}.html`]),
+    );
+  });
+
+  it('ignores a missing manifest', async () => {
+    const cache = await PrerenderCache.load(join(cachePath, 'missing'));
+
+    expect(await cache.get('home', 'deps')).toBeUndefined();
+  });
+});
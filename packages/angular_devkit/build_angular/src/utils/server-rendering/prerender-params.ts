@@ -0,0 +1,112 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { stat } from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
+import { loadEsmModule } from '../load-esm';
+
+/** A set of route parameter values keyed by the parameter name. */
+export type PrerenderParams = Record<string, string>;
+
+/**
+ * A function that provides the parameter sets used to prerender a parameterized route.
+ * Each parameter set results in a single prerendered page.
+ */
+export type PrerenderParamsProvider = () => PrerenderParams[] | Promise<PrerenderParams[]>;
+
+/**
+ * Loads a route parameters module and expands the parameterized routes it provides.
+ * The default export of the module is an object containing a provider function for each
+ * parameterized route, keyed by the route path (e.g. `product/:id`).
+ * @param paramsFile The full path of the route parameters module.
+ * @returns The expanded routes, the parameterized routes of the module and the errors encountered
+ * while expanding them.
+ */
+export async function getRoutesFromParamsFile(
+  paramsFile: string,
+): Promise<{ routes: string[]; parameterizedRoutes: string[]; errors: string[] }> {
+  const routes: string[] = [];
+  const parameterizedRoutes: string[] = [];
+  const errors: string[] = [];
+
+  let providers: unknown;
+  try {
+    // Imported modules are cached for the lifetime of the process. The modification time is added
+    // to the URL to load the changes of the module when rebuilding in watch mode.
+    const paramsUrl = pathToFileURL(paramsFile);
+    paramsUrl.search = `?mtime=${(await stat(paramsFile)).mtimeMs}`;
+
+    ({ default: providers } = await loadEsmModule<{ default?: unknown }>(paramsUrl));
+  } catch (error) {
+    errors.push(
+      `Unable to load route parameters file '${paramsFile}': ` +
+        (error instanceof Error ? error.message : `${error}`),
+    );
+
+    return { routes, parameterizedRoutes, errors };
+  }
+
+  if (!providers || typeof providers !== 'object') {
+    errors.push(
+      `Route parameters file '${paramsFile}' must have a default export object containing ` +
+        'a function for each parameterized route.',
+    );
+
+    return { routes, parameterizedRoutes, errors };
+  }
+
+  for (const [route, provider] of Object.entries(providers)) {
+    parameterizedRoutes.push(route);
+    if (typeof provider !== 'function') {
+      errors.push(`Route parameters provider for '${route}' is not a function.`);
+      continue;
+    }
+
+    try {
+      const paramsList = await (provider as PrerenderParamsProvider)();
+      for (const params of paramsList) {
+        routes.push(buildRouteFromParams(route, params));
+      }
+    } catch (error) {
+      errors.push(
+        `Unable to provide the parameters of route '${route}': ` +
+          (error instanceof Error ? error.message : `${error}`),
+      );
+    }
+  }
+
+  return { routes, parameterizedRoutes, errors };
+}
+
+/**
+ * Replaces the parameter segments of a route path with the provided values.
+ * @param route A route path containing parameter segments such as `product/:id`.
+ * @param params The values of the route parameters keyed by the parameter name.
+ * @returns The route path with all parameters replaced.
+ */
+export function buildRouteFromParams(route: string, params: PrerenderParams): string {
+  return route
+    .split('/')
+    .map((segment) => {
+      if (segment === '**') {
+        throw new Error(`Wildcard routes cannot be prerendered.`);
+      }
+
+      if (segment.charAt(0) !== ':') {
+        return segment;
+      }
+
+      const value = params[segment.slice(1)];
+      if (value === undefined || value === null) {
+        throw new Error(`Missing value for route parameter '${segment.slice(1)}'.`);
+      }
+
+      return encodeURIComponent(value);
+    })
+    .join('/');
+}
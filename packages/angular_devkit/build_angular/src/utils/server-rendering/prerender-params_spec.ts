@@ -0,0 +1,128 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { mkdtemp, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { buildRouteFromParams, getRoutesFromParamsFile } from './prerender-params';
+
+describe('buildRouteFromParams', () => {
+  it('replaces parameter segments with the provided values', () => {
+    expect(buildRouteFromParams('shop/:category/:id', { category: 'books', id: '42' })).toBe(
+      'shop/books/42',
+    );
+  });
+
+  it('encodes parameter values', () => {
+    expect(buildRouteFromParams('product/:id', { id: 'a b/c' })).toBe('product/a%20b%2Fc');
+  });
+
+  it('throws when a parameter value is missing', () => {
+    expect(() => buildRouteFromParams('product/:id', {})).toThrowError(
+      `Missing value for route parameter 'id'.`,
+    );
+  });
+
+  it('throws for wildcard routes', () => {
+    expect(() => buildRouteFromParams('**', {})).toThrowError(
+      'Wildcard routes cannot be prerendered.',
+    );
+  });
+});
+
+describe('getRoutesFromParamsFile', () => {
+  let tempDirectory: string;
+
+  beforeEach(async () => {
+    tempDirectory = await mkdtemp(join(tmpdir(), 'angular-prerender-params-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDirectory, { recursive: true, force: true });
+  });
+
+  it('expands the routes provided by the default export', async () => {
+    const paramsFile = join(tempDirectory, 'params.mjs');
+    await writeFile(
+      paramsFile,
+      `export default {
+        'product/:id': async () => [{ id: '1' }, { id: '2' }],
+        'user/:name': () => [{ name: 'alice' }],
+      };`,
+    );
+
+    const result = await getRoutesFromParamsFile(paramsFile);
+
+    expect(result.routes).toEqual(['product/1', 'product/2', 'user/alice']);
+    expect(result.parameterizedRoutes).toEqual(['product/:id', 'user/:name']);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('reports errors of failing providers', async () => {
+    const paramsFile = join(tempDirectory, 'params.mjs');
+    await writeFile(
+      paramsFile,
+      `export default {
+        'product/:id': async () => { throw new Error('CMS unavailable'); },
+        'user/:name': () => [{ name: 'alice' }],
+      };`,
+    );
+
+    const result = await getRoutesFromParamsFile(paramsFile);
+
+    expect(result.routes).toEqual(['user/alice']);
+    expect(result.errors).toEqual([
+      `Unable to provide the parameters of route 'product/:id': CMS unavailable`,
+    ]);
+  });
+
+  it('reports an error when the module has no default export', async () => {
+    const paramsFile = join(tempDirectory, 'params.mjs');
+    await writeFile(paramsFile, `export const routes = {};`);
+
+    const result = await getRoutesFromParamsFile(paramsFile);
+
+    expect(result.routes).toEqual([]);
+    expect(result.errors.length).toBe(1);
+  });
+
+  it('reports an error when the module cannot be loaded', async () => {
+    const paramsFile = join(tempDirectory, 'params.mjs');
+    await writeFile(paramsFile, `export default {`);
+
+    const result = await getRoutesFromParamsFile(paramsFile);
+
+    expect(result.routes).toEqual([]);
+    expect(result.errors).toEqual([
+      jasmine.stringMatching(`^Unable to load route parameters file '${paramsFile}': `),
+    ]);
+  });
+
+  it('reports an error when the module does not exist', async () => {
+    const paramsFile = join(tempDirectory, 'missing.mjs');
+
+    const result = await getRoutesFromParamsFile(paramsFile);
+
+    expect(result.errors).toEqual([
+      jasmine.stringMatching(`^Unable to load route parameters file '${paramsFile}': `),
+    ]);
+  });
+
+  it('loads the changes of the module', async () => {
+    const paramsFile = join(tempDirectory, 'params.mjs');
+    await writeFile(paramsFile, `export default { 'product/:id': () => [{ id: '1' }] };`);
+    await utimes(paramsFile, 1000, 1000);
+    await getRoutesFromParamsFile(paramsFile);
+
+    await writeFile(paramsFile, `export default { 'product/:id': () => [{ id: '2' }] };`);
+    await utimes(paramsFile, 2000, 2000);
+    const result = await getRoutesFromParamsFile(paramsFile);
+
+    expect(result.routes).toEqual(['product/2']);
+  });
+});
@@ -7,10 +7,12 @@
  */
 
 import { readFile } from 'node:fs/promises';
-import { extname, join, posix } from 'node:path';
+import { extname, posix } from 'node:path';
 import Piscina from 'piscina';
 import { BuildOutputFile, BuildOutputFileType } from '../../tools/esbuild/bundler-context';
 import { getESMLoaderArgs } from './esm-in-memory-loader/node-18-utils';
+import { PrerenderCache, hashContent } from './prerender-cache';
+import { getRoutesFromParamsFile } from './prerender-params';
 import type { RenderResult, ServerContext } from './render-page';
 import type { RenderWorkerData } from './render-worker';
 import type {
@@ -21,12 +23,21 @@ import type {
 interface PrerenderOptions {
   routesFile?: string;
   discoverRoutes?: boolean;
+  routeParamsFile?: string;
+  dataFiles?: string[];
 }
 
 interface AppShellOptions {
   route?: string;
 }
 
+interface PrerenderCacheOptions {
+  /** The directory used to store the prerendered pages of previous builds. */
+  path: string;
+  /** Render all routes while still updating the cache. */
+  force?: boolean;
+}
+
 export async function prerenderPages(
   workspaceRoot: string,
   appShellOptions: AppShellOptions = {},
@@ -37,43 +48,26 @@ export async function prerenderPages(
   inlineCriticalCss = false,
   maxThreads = 1,
   verbose = false,
+  cacheOptions?: PrerenderCacheOptions,
+  lazyChunks?: string[],
 ): Promise<{
   output: Record<string, string>;
   warnings: string[];
   errors: string[];
+  /** The server chunks lazy loaded by each discovered route. */
+  lazyImports?: Map<string, string[]>;
 }> {
   const output: Record<string, string> = {};
   const warnings: string[] = [];
   const errors: string[] = [];
-  const outputFilesForWorker: Record<string, string> = {};
-  const serverBundlesSourceMaps = new Map<string, string>();
-
-  for (const { text, path, type } of outputFiles) {
-    const fileExt = extname(path);
-    if (type === BuildOutputFileType.Server && fileExt === '.map') {
-      serverBundlesSourceMaps.set(path.slice(0, -4), text);
-    } else if (
-      type === BuildOutputFileType.Server || // Contains the server runnable application code
-      (type === BuildOutputFileType.Browser && fileExt === '.css') // Global styles for critical CSS inlining.
-    ) {
-      outputFilesForWorker[path] = text;
-    }
-  }
-
-  // Inline sourcemap into JS file. This is needed to make Node.js resolve sourcemaps
-  // when using `--enable-source-maps` when using in memory files.
-  for (const [filePath, map] of serverBundlesSourceMaps) {
-    const jsContent = outputFilesForWorker[filePath];
-    if (jsContent) {
-      outputFilesForWorker[filePath] =
-        jsContent +
-        `\n//# sourceMappingURL=` +
-        `data:application/json;base64,${Buffer.from(map).toString('base64')}`;
-    }
-  }
-  serverBundlesSourceMaps.clear();
+  const outputFilesForWorker = getOutputFilesForWorker(outputFiles);
 
-  const { routes: allRoutes, warnings: routesWarnings } = await getAllRoutes(
+  const {
+    routes: allRoutes,
+    warnings: routesWarnings,
+    errors: routesErrors,
+    lazyImports,
+  } = await getAllRoutes(
     workspaceRoot,
     outputFilesForWorker,
     document,
@@ -81,17 +75,68 @@ export async function prerenderPages(
     prerenderOptions,
     sourcemap,
     verbose,
+    lazyChunks,
   );
 
   if (routesWarnings?.length) {
     warnings.push(...routesWarnings);
   }
 
+  if (routesErrors?.length) {
+    errors.push(...routesErrors);
+  }
+
   if (allRoutes.size < 1) {
     return {
       errors,
       warnings,
       output,
+      lazyImports,
+    };
+  }
+
+  const appShellRoute = appShellOptions.route && removeLeadingSlash(appShellOptions.route);
+  const getOutputPath = (route: string) =>
+    appShellRoute === route ? 'index.html' : posix.join(route, 'index.html');
+
+  // Reuse the content of routes with unchanged inputs from a previous build
+  let cache: PrerenderCache | undefined;
+  let routeDependencies: Map<string, string> | undefined;
+  const routesToRender: string[] = [];
+  if (cacheOptions) {
+    cache = await PrerenderCache.load(cacheOptions.path);
+    routeDependencies = await getRouteDependencies(
+      allRoutes,
+      outputFilesForWorker,
+      document,
+      inlineCriticalCss,
+      prerenderOptions.dataFiles,
+      lazyImports,
+    );
+  }
+
+  for (const route of allRoutes) {
+    const dependencies = routeDependencies?.get(route);
+    const content =
+      cache && dependencies && !cacheOptions?.force
+        ? await cache.get(route, dependencies)
+        : undefined;
+
+    if (content === undefined) {
+      routesToRender.push(route);
+    } else {
+      output[getOutputPath(route)] = content;
+    }
+  }
+
+  if (routesToRender.length < 1) {
+    await cache?.save(allRoutes);
+
+    return {
+      errors,
+      warnings,
+      output,
+      lazyImports,
     };
   }
 
@@ -102,7 +147,7 @@ export async function prerenderPages(
 
   const renderWorker = new Piscina({
     filename: require.resolve('./render-worker'),
-    maxThreads: Math.min(allRoutes.size, maxThreads),
+    maxThreads: Math.min(routesToRender.length, maxThreads),
     workerData: {
       workspaceRoot,
       outputFiles: outputFilesForWorker,
@@ -114,17 +159,19 @@ export async function prerenderPages(
 
   try {
     const renderingPromises: Promise<void>[] = [];
-    const appShellRoute = appShellOptions.route && removeLeadingSlash(appShellOptions.route);
 
-    for (const route of allRoutes) {
-      const isAppShellRoute = appShellRoute === route;
-      const serverContext: ServerContext = isAppShellRoute ? 'app-shell' : 'ssg';
+    for (const route of routesToRender) {
+      const serverContext: ServerContext = appShellRoute === route ? 'app-shell' : 'ssg';
 
       const render: Promise<RenderResult> = renderWorker.run({ route, serverContext });
-      const renderResult: Promise<void> = render.then(({ content, warnings, errors }) => {
+      const renderResult: Promise<void> = render.then(async ({ content, warnings, errors }) => {
         if (content !== undefined) {
-          const outPath = isAppShellRoute ? 'index.html' : posix.join(route, 'index.html');
-          output[outPath] = content;
+          output[getOutputPath(route)] = content;
+
+          const dependencies = routeDependencies?.get(route);
+          if (cache && dependencies && !errors?.length) {
+            await cache.set(route, dependencies, content);
+          }
         }
 
         if (warnings) {
@@ -140,6 +187,7 @@ export async function prerenderPages(
     }
 
     await Promise.all(renderingPromises);
+    await cache?.save(allRoutes);
   } finally {
     void renderWorker.destroy();
   }
@@ -148,9 +196,45 @@ export async function prerenderPages(
     errors,
     warnings,
     output,
+    lazyImports,
   };
 }
 
+/**
+ * Collects the output files needed by the rendering workers. Server source maps are inlined
+ * into their respective server files.
+ */
+function getOutputFilesForWorker(outputFiles: Readonly<BuildOutputFile[]>): Record<string, string> {
+  const outputFilesForWorker: Record<string, string> = {};
+  const serverBundlesSourceMaps = new Map<string, string>();
+
+  for (const { text, path, type } of outputFiles) {
+    const fileExt = extname(path);
+    if (type === BuildOutputFileType.Server && fileExt === '.map') {
+      serverBundlesSourceMaps.set(path.slice(0, -4), text);
+    } else if (
+      type === BuildOutputFileType.Server || // Contains the server runnable application code
+      (type === BuildOutputFileType.Browser && fileExt === '.css') // Global styles for critical CSS inlining.
+    ) {
+      outputFilesForWorker[path] = text;
+    }
+  }
+
+  // Inline sourcemap into JS file. This is needed to make Node.js resolve sourcemaps
+  // when using `--enable-source-maps` when using in memory files.
+  for (const [filePath, map] of serverBundlesSourceMaps) {
+    const jsContent = outputFilesForWorker[filePath];
+    if (jsContent) {
+      outputFilesForWorker[filePath] =
+        jsContent +
+        `\n//# sourceMappingURL=` +
+        `data:application/json;base64,${Buffer.from(map).toString('base64')}`;
+    }
+  }
+
+  return outputFilesForWorker;
+}
+
 class RoutesSet extends Set<string> {
   override add(value: string): this {
     return super.add(removeLeadingSlash(value));
@@ -165,9 +249,17 @@ async function getAllRoutes(
   prerenderOptions: PrerenderOptions,
   sourcemap: boolean,
   verbose: boolean,
-): Promise<{ routes: Set<string>; warnings?: string[] }> {
-  const { routesFile, discoverRoutes } = prerenderOptions;
+  lazyChunks: string[] | undefined,
+): Promise<{
+  routes: Set<string>;
+  warnings?: string[];
+  errors?: string[];
+  lazyImports?: Map<string, string[]>;
+}> {
+  const { routesFile, routeParamsFile, discoverRoutes } = prerenderOptions;
   const routes = new RoutesSet();
+  let errors: string[] | undefined;
+  let parameterizedRoutes: string[] | undefined;
 
   const { route: appShellRoute } = appShellOptions;
   if (appShellRoute !== undefined) {
@@ -181,8 +273,18 @@ async function getAllRoutes(
     }
   }
 
+  if (routeParamsFile) {
+    const paramsResult = await getRoutesFromParamsFile(routeParamsFile);
+    for (const route of paramsResult.routes) {
+      routes.add(route);
+    }
+
+    errors = paramsResult.errors;
+    parameterizedRoutes = paramsResult.parameterizedRoutes.map(removeLeadingSlash);
+  }
+
   if (!discoverRoutes) {
-    return { routes };
+    return { routes, errors };
   }
 
   const workerExecArgv = getESMLoaderArgs();
@@ -198,19 +300,100 @@ async function getAllRoutes(
       outputFiles: outputFilesForWorker,
       document,
       verbose,
+      parameterizedRoutes,
+      lazyChunks,
     } as RoutesExtractorWorkerData,
     execArgv: workerExecArgv,
   });
 
-  const { routes: extractedRoutes, warnings }: RoutersExtractorWorkerResult = await renderWorker
+  const {
+    routes: extractedRoutes,
+    warnings,
+    lazyImports: extractedLazyImports,
+  }: RoutersExtractorWorkerResult = await renderWorker
     .run({})
     .finally(() => void renderWorker.destroy());
 
+  const lazyImports = new Map<string, string[]>();
+  for (const [route, files] of Object.entries(extractedLazyImports)) {
+    lazyImports.set(removeLeadingSlash(route), files);
+  }
+
   for (const route of extractedRoutes) {
     routes.add(route);
+
+    // Discovered routes without an entry do not lazy load any code
+    const path = removeLeadingSlash(route);
+    if (!lazyImports.has(path)) {
+      lazyImports.set(path, []);
+    }
+  }
+
+  return { routes, warnings, errors, lazyImports };
+}
+
+/**
+ * Calculates a hash of the inputs used to render each route. A route depends on the index HTML,
+ * the global styles, the data files and all server files except for the lazy chunks of other routes.
+ * Routes without known lazy imports, such as routes provided via a routes file, depend on all server files.
+ * @returns A map of routes to the hash of their inputs.
+ */
+async function getRouteDependencies(
+  routes: Set<string>,
+  outputFilesForWorker: Record<string, string>,
+  document: string,
+  inlineCriticalCss: boolean,
+  dataFiles: string[] = [],
+  lazyImports = new Map<string, string[]>(),
+): Promise<Map<string, string>> {
+  const lazyFiles = new Set<string>();
+  for (const files of lazyImports.values()) {
+    for (const file of files) {
+      if (outputFilesForWorker[file] !== undefined) {
+        lazyFiles.add(file);
+      }
+    }
+  }
+
+  // Lazy chunk names contain a content hash. These are replaced in the shared files to avoid
+  // changing the inputs of all routes when only the lazy chunk of a single route changes.
+  const lazyFileNames = [...lazyFiles].map((file) => posix.basename(file));
+  const sharedInputs: string[] = [document, String(inlineCriticalCss)];
+  for (const [file, content] of Object.entries(outputFilesForWorker).sort(([a], [b]) =>
+    a.localeCompare(b),
+  )) {
+    if (!lazyFiles.has(file)) {
+      sharedInputs.push(file, removeFileNames(content, lazyFileNames));
+    }
+  }
+  for (const file of [...dataFiles].sort()) {
+    sharedInputs.push(file, hashContent(await readFile(file)));
+  }
+  const sharedHash = hashContent(sharedInputs.join('\0'));
+
+  const dependencies = new Map<string, string>();
+  for (const route of routes) {
+    const routeFiles = lazyImports.get(route) ?? [...lazyFiles];
+    const routeInputs = [sharedHash];
+    for (const file of [...new Set(routeFiles)].sort()) {
+      const content = outputFilesForWorker[file];
+      if (content !== undefined) {
+        routeInputs.push(file, content);
+      }
+    }
+
+    dependencies.set(route, hashContent(routeInputs.join('\0')));
+  }
+
+  return dependencies;
+}
+
+function removeFileNames(content: string, fileNames: string[]): string {
+  for (const fileName of fileNames) {
+    content = content.replaceAll(fileName, '');
   }
 
-  return { routes, warnings };
+  return content;
 }
 
 function removeLeadingSlash(value: string): string {
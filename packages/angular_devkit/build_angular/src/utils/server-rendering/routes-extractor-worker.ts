@@ -14,17 +14,28 @@ import { MainServerBundleExports } from './main-bundle-exports';
 export interface RoutesExtractorWorkerData extends ESMInMemoryFileLoaderWorkerData {
   document: string;
   verbose: boolean;
+  /** Parameterized routes that are prerendered using a route parameters file. */
+  parameterizedRoutes?: string[];
+  /** The server chunks which are dynamically imported according to the esbuild metafile. */
+  lazyChunks?: string[];
 }
 
 export interface RoutersExtractorWorkerResult {
   routes: string[];
   warnings?: string[];
+  /** The server chunks lazy loaded by each route including parameterized routes. */
+  lazyImports: Record<string, string[]>;
 }
 
 /**
  * This is passed as workerData when setting up the worker via the `piscina` package.
  */
-const { document, verbose } = workerData as RoutesExtractorWorkerData;
+const {
+  document,
+  verbose,
+  parameterizedRoutes = [],
+  lazyChunks = [],
+} = workerData as RoutesExtractorWorkerData;
 
 export default async function (): Promise<RoutersExtractorWorkerResult> {
   const { default: bootstrapAppFnOrModule, extractRoutes } =
@@ -34,10 +45,16 @@ export default async function (): Promise<RoutersExtractorWorkerResult> {
   const skippedOthers: string[] = [];
   const routes: string[] = [];
 
-  for await (const { route, success, redirect } of extractRoutes(
+  const lazyExports: Record<string, unknown[]> = {};
+
+  for await (const { route, success, redirect, lazyExports: routeLazyExports } of extractRoutes(
     bootstrapAppFnOrModule,
     document,
   )) {
+    if (routeLazyExports?.length) {
+      lazyExports[route] = routeLazyExports;
+    }
+
     if (success) {
       routes.push(route);
       continue;
@@ -45,13 +62,30 @@ export default async function (): Promise<RoutersExtractorWorkerResult> {
 
     if (redirect) {
       skippedRedirects.push(route);
-    } else {
+    } else if (!parameterizedRoutes.includes(route.replace(/^\//, ''))) {
       skippedOthers.push(route);
     }
   }
 
+  // Find the lazy chunks of each route by the identity of the values loaded by the route.
+  // Chunks loaded by the routes are cached, so importing these again returns the same exports.
+  const chunksByExport = new Map<unknown, string[]>();
+  for (const chunk of lazyChunks) {
+    const chunkExports = await loadEsmModule<Record<string, unknown>>(`./${chunk}`);
+    for (const value of Object.values(chunkExports)) {
+      if (typeof value === 'function' || (typeof value === 'object' && value !== null)) {
+        chunksByExport.set(value, [...(chunksByExport.get(value) ?? []), chunk]);
+      }
+    }
+  }
+
+  const lazyImports: Record<string, string[]> = {};
+  for (const [route, values] of Object.entries(lazyExports)) {
+    lazyImports[route] = [...new Set(values.flatMap((value) => chunksByExport.get(value) ?? []))];
+  }
+
   if (!verbose) {
-    return { routes };
+    return { routes, lazyImports };
   }
 
   let warnings: string[] | undefined;
@@ -69,5 +103,5 @@ export default async function (): Promise<RoutersExtractorWorkerResult> {
     );
   }
 
-  return { routes, warnings };
+  return { routes, warnings, lazyImports };
 }
@@ -27,6 +27,11 @@ export interface TargetDefinition {
   configurations?: Record<string, Record<string, JsonValue | undefined> | undefined>;
   defaultConfiguration?: string;
   builder: string;
+  /**
+   * Targets that must complete successfully before this target runs.
+   * Entries are either a target name of the same project or a `project:target[:configuration]` string.
+   */
+  dependsOn?: string[];
 }
 
 export type DefinitionCollectionListener<V extends object> = (
@@ -225,6 +230,7 @@ export class TargetDefinitionCollection extends DefinitionCollection<TargetDefin
       options: definition.options,
       configurations: definition.configurations,
       defaultConfiguration: definition.defaultConfiguration,
+      dependsOn: definition.dependsOn,
     };
 
     super.set(definition.name, target);
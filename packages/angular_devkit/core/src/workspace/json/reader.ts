@@ -285,7 +285,7 @@ function parseTargetsObject(
 
     if (context.trackChanges) {
       targets[name] = createVirtualAstObject<TargetDefinition>(value, {
-        include: ['builder', 'options', 'configurations', 'defaultConfiguration'],
+        include: ['builder', 'options', 'configurations', 'defaultConfiguration', 'dependsOn'],
         listener(path, value) {
           jsonMetadata.addChange(['projects', projectName, 'targets', name, ...path], value);
         },
@@ -107,6 +107,7 @@ function convertJsonTarget(target: TargetDefinition): JsonObject {
     ...(target.defaultConfiguration === undefined
       ? {}
       : { defaultConfiguration: target.defaultConfiguration }),
+    ...(isEmpty(target.dependsOn) ? {} : { dependsOn: target.dependsOn as string[] }),
   };
 }
 
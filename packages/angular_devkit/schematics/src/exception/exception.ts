@@ -33,8 +33,8 @@ export class InvalidUpdateRecordException extends BaseException {
   }
 }
 export class MergeConflictException extends BaseException {
-  constructor(path: string) {
-    super(`A merge conflicted on path "${path}".`);
+  constructor(path: string, details?: string) {
+    super(`A merge conflicted on path "${path}"${details ? `: ${details}` : ''}.`);
   }
 }
 
@@ -33,6 +33,7 @@ export { UpdateRecorder } from './tree/interface';
 export * from './engine/schematic';
 export * from './sink/dryrun';
 export * from './sink/host';
+export * from './sink/patch';
 export * from './sink/sink';
 export { formats, strings, workflow };
 
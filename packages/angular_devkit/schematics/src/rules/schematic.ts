@@ -17,12 +17,16 @@ import { branch } from '../tree/static';
  * @param collectionName The name of the collection that contains the schematic to run.
  * @param schematicName The name of the schematic to run.
  * @param options The options to pass as input to the RuleFactory.
+ * @param strategy The strategy used to merge the changes of the schematic into the input tree.
+ *   Use `MergeStrategy.ThreeWayMerge` to combine changes of both trees to different lines of the
+ *   same file.
  */
 export function externalSchematic<OptionT extends object>(
   collectionName: string,
   schematicName: string,
   options: OptionT,
   executionOptions?: Partial<ExecutionOptions>,
+  strategy = MergeStrategy.AllowOverwriteConflict,
 ): Rule {
   return (input: Tree, context: SchematicContext) => {
     const collection = context.engine.createCollection(
@@ -34,7 +38,7 @@ export function externalSchematic<OptionT extends object>(
     return schematic.call(options, observableOf(branch(input)), context, executionOptions).pipe(
       last(),
       map((x) => {
-        input.merge(x, MergeStrategy.AllowOverwriteConflict);
+        input.merge(x, strategy);
 
         return input;
       }),
@@ -47,11 +51,15 @@ export function externalSchematic<OptionT extends object>(
  *
  * @param schematicName The name of the schematic to run.
  * @param options The options to pass as input to the RuleFactory.
+ * @param strategy The strategy used to merge the changes of the schematic into the input tree.
+ *   Use `MergeStrategy.ThreeWayMerge` to combine changes of both trees to different lines of the
+ *   same file.
  */
 export function schematic<OptionT extends object>(
   schematicName: string,
   options: OptionT,
   executionOptions?: Partial<ExecutionOptions>,
+  strategy = MergeStrategy.AllowOverwriteConflict,
 ): Rule {
   return (input: Tree, context: SchematicContext) => {
     const collection = context.schematic.collection;
@@ -60,9 +68,9 @@ export function schematic<OptionT extends object>(
     return schematic.call(options, observableOf(branch(input)), context, executionOptions).pipe(
       last(),
       map((x) => {
-        // We allow overwrite conflict here because they're the only merge conflict we particularly
-        // don't want to deal with; the input tree might have an OVERWRITE which the sub
-        input.merge(x, MergeStrategy.AllowOverwriteConflict);
+        // We allow overwrite conflict by default because they're the only merge conflict we
+        // particularly don't want to deal with; the input tree might have an OVERWRITE which the sub
+        input.merge(x, strategy);
 
         return input;
       }),
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Observable, lastValueFrom, map } from 'rxjs';
+import { SchematicContext } from '../engine/interface';
+import { HostTree } from '../tree/host-tree';
+import { MergeStrategy, Tree } from '../tree/interface';
+import { callRule } from './call';
+import { externalSchematic, schematic } from './schematic';
+
+describe('schematic rules', () => {
+  const content = 'line 1\nline 2\nline 3\nline 4\nline 5\n';
+  let input: Tree;
+  let context: SchematicContext;
+
+  beforeEach(() => {
+    input = new HostTree();
+    input.create('/file', content);
+
+    // The schematic changes the last line, while the input tree changes the first line.
+    const fakeSchematic = {
+      call: (_options: {}, tree$: Observable<Tree>) =>
+        tree$.pipe(
+          map((tree) => {
+            tree.overwrite('/file', content.replace('line 5', 'line five'));
+            input.overwrite('/file', content.replace('line 1', 'line one'));
+
+            return tree;
+          }),
+        ),
+    };
+    const collection = { createSchematic: () => fakeSchematic };
+    context = {
+      engine: { createCollection: () => collection },
+      schematic: { collection },
+      strategy: MergeStrategy.Default,
+    } as {} as SchematicContext;
+  });
+
+  it('should overwrite the changes of the input tree by default', async () => {
+    await lastValueFrom(callRule(schematic('test', {}), input, context));
+
+    expect(input.readText('/file')).toBe(content.replace('line 5', 'line five'));
+  });
+
+  it('should merge the changes of the schematic with the given strategy', async () => {
+    const rule = schematic('test', {}, undefined, MergeStrategy.ThreeWayMerge);
+    await lastValueFrom(callRule(rule, input, context));
+
+    expect(input.readText('/file')).toBe(
+      content.replace('line 1', 'line one').replace('line 5', 'line five'),
+    );
+  });
+
+  it('should merge the changes of external schematics with the given strategy', async () => {
+    const rule = externalSchematic('test', 'test', {}, undefined, MergeStrategy.ThreeWayMerge);
+    await lastValueFrom(callRule(rule, input, context));
+
+    expect(input.readText('/file')).toBe(
+      content.replace('line 1', 'line one').replace('line 5', 'line five'),
+    );
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Path, virtualFs } from '@angular-devkit/core';
+import { createHash } from 'node:crypto';
+import { constants, deflateSync } from 'node:zlib';
+import {
+  Observable,
+  Subject,
+  concatMap,
+  map,
+  mergeMap,
+  from as observableFrom,
+  of as observableOf,
+  reduce,
+  tap,
+} from 'rxjs';
+import { DiffLine, diffLines, isBinary, splitLines } from '../utility/diff';
+import { HostSink } from './host';
+
+/** The number of unchanged lines shown around the changes of a file. */
+const CONTEXT_LINES = 3;
+
+/** The object ID of missing files in the `index` lines of Git. */
+const NULL_OBJECT_ID = '0'.repeat(40);
+
+/** The alphabet of the base 85 encoding of binary patches used by Git. */
+const BASE85_ALPHABET =
+  '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz!#$%&()*+-;<=>?@^_`{|}~';
+
+interface FileChange {
+  from: Path | null;
+  to: Path | null;
+  content: Buffer | null;
+}
+
+/**
+ * A sink that does not write to its host, but reports the changes of a tree as a patch in the
+ * unified diff format of Git. Created, deleted and renamed files are described with extended
+ * headers so the patch can be applied with `git apply`.
+ */
+export class PatchSink extends HostSink {
+  protected _subject = new Subject<string>();
+
+  /** The patch, which is emitted once when the tree is committed. */
+  readonly patch: Observable<string> = this._subject.asObservable();
+
+  constructor(host: virtualFs.Host, force = false) {
+    super(host, force);
+  }
+
+  override _done() {
+    const changes: FileChange[] = [];
+    const renamedPaths = new Set<Path>();
+
+    for (const [from, to] of this._filesToRename) {
+      renamedPaths.add(from).add(to);
+      changes.push({ from, to, content: this._filesToUpdate.get(to) ?? null });
+    }
+    for (const path of this._filesToDelete) {
+      if (!renamedPaths.has(path)) {
+        changes.push({ from: path, to: null, content: null });
+      }
+    }
+    for (const [path, content] of this._filesToCreate) {
+      if (!renamedPaths.has(path)) {
+        changes.push({ from: null, to: path, content: this._filesToUpdate.get(path) ?? content });
+      }
+    }
+    for (const [path, content] of this._filesToUpdate) {
+      if (!renamedPaths.has(path) && !this._filesToCreate.has(path)) {
+        changes.push({ from: path, to: path, content });
+      }
+    }
+
+    // Sort the files by their paths like Git, independently of the locale.
+    changes.sort((a, b) => comparePaths(getSortPath(a), getSortPath(b)));
+
+    return observableFrom(changes).pipe(
+      concatMap((change) =>
+        this._readOriginalContent(change.from ?? change.to).pipe(
+          map((original) => formatFileDiff(change, original)),
+        ),
+      ),
+      reduce((patch, fileDiff) => patch + fileDiff, ''),
+      tap((patch) => {
+        this._subject.next(patch);
+        this._subject.complete();
+      }),
+      map(() => undefined),
+    );
+  }
+
+  /**
+   * Reads the content of a changed file before the changes. Files which are created but already
+   * exist, when using `force`, are reported as modified.
+   */
+  protected _readOriginalContent(path: Path | null): Observable<Buffer | null> {
+    if (!path) {
+      return observableOf(null);
+    }
+
+    return this._host
+      .exists(path)
+      .pipe(
+        mergeMap((exists) =>
+          exists
+            ? this._host.read(path).pipe(map((content) => Buffer.from(content)))
+            : observableOf(null),
+        ),
+      );
+  }
+}
+
+function getSortPath({ from, to }: FileChange): string {
+  return from ?? to ?? '';
+}
+
+function comparePaths(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function formatFileDiff(change: FileChange, original: Buffer | null): string {
+  const fromPath = change.from ?? change.to;
+  const toPath = change.to ?? change.from;
+  const oldContent = original;
+  const newContent = change.to ? change.content ?? original : null;
+
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  const oldName = fromPath!.replace(/^\//, '');
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  const newName = toPath!.replace(/^\//, '');
+
+  let header = `diff --git a/${oldName} b/${newName}\n`;
+  if (!oldContent) {
+    header += 'new file mode 100644\n';
+  } else if (!newContent) {
+    header += 'deleted file mode 100644\n';
+  }
+
+  if (isBinary(oldContent) || isBinary(newContent)) {
+    if (oldName !== newName) {
+      header += `rename from ${oldName}\nrename to ${newName}\n`;
+    }
+
+    return oldContent && newContent && oldContent.equals(newContent)
+      ? header
+      : header + formatBinaryPatch(oldContent, newContent);
+  }
+
+  const oldLines = splitLines(oldContent);
+  const newLines = splitLines(newContent);
+  const lines = diffLines(oldLines, newLines);
+
+  if (oldName !== newName) {
+    const unchanged = lines.filter(({ kind }) => kind === ' ').length;
+    const total = oldLines.length + newLines.length;
+    const similarity = total ? Math.floor((200 * unchanged) / total) : 100;
+    header += `similarity index ${similarity}%\nrename from ${oldName}\nrename to ${newName}\n`;
+  }
+
+  if (lines.every(({ kind }) => kind === ' ')) {
+    return header;
+  }
+
+  return (
+    header +
+    `--- ${oldContent ? `a/${oldName}` : '/dev/null'}\n` +
+    `+++ ${newContent ? `b/${newName}` : '/dev/null'}\n` +
+    formatHunks(lines)
+  );
+}
+
+/** Formats the changed lines and their surrounding lines as hunks. */
+function formatHunks(lines: DiffLine[]): string {
+  const changes: number[] = [];
+  lines.forEach(({ kind }, index) => {
+    if (kind !== ' ') {
+      changes.push(index);
+    }
+  });
+
+  let output = '';
+  for (let i = 0; i < changes.length; i++) {
+    const start = Math.max(0, changes[i] - CONTEXT_LINES);
+    let end = Math.min(lines.length, changes[i] + CONTEXT_LINES + 1);
+
+    // Merge the changes which are close enough to share their context.
+    while (i + 1 < changes.length && changes[i + 1] - CONTEXT_LINES <= end) {
+      end = Math.min(lines.length, changes[++i] + CONTEXT_LINES + 1);
+    }
+
+    const preceding = lines.slice(0, start);
+    const hunk = lines.slice(start, end);
+    const oldStart = preceding.filter(({ kind }) => kind !== '+').length;
+    const newStart = preceding.filter(({ kind }) => kind !== '-').length;
+    const oldCount = hunk.filter(({ kind }) => kind !== '+').length;
+    const newCount = hunk.filter(({ kind }) => kind !== '-').length;
+
+    output += `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@\n`;
+    for (const { kind, text } of hunk) {
+      output += text.endsWith('\n')
+        ? kind + text
+        : `${kind}${text}\n\\ No newline at end of file\n`;
+    }
+  }
+
+  return output;
+}
+
+function formatRange(linesBefore: number, count: number): string {
+  // Empty ranges refer to the line before the range.
+  const start = count === 0 ? linesBefore : linesBefore + 1;
+
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Formats the changes of a binary file as a patch with the full content before and after the
+ * changes. `git apply` requires the object IDs of both contents to apply binary patches.
+ */
+function formatBinaryPatch(oldContent: Buffer | null, newContent: Buffer | null): string {
+  const oldId = oldContent ? getObjectId(oldContent) : NULL_OBJECT_ID;
+  const newId = newContent ? getObjectId(newContent) : NULL_OBJECT_ID;
+  const mode = oldContent && newContent ? ' 100644' : '';
+
+  return (
+    `index ${oldId}..${newId}${mode}\n` +
+    'GIT binary patch\n' +
+    formatBinaryHunk(newContent ?? Buffer.alloc(0)) +
+    formatBinaryHunk(oldContent ?? Buffer.alloc(0))
+  );
+}
+
+/** Gets the object ID of file content, as computed by `git hash-object`. */
+function getObjectId(content: Buffer): string {
+  return createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+}
+
+/**
+ * Formats a literal hunk of a binary patch. The compressed content is encoded in lines of up to
+ * 52 bytes, which are prefixed by their length encoded as a letter.
+ */
+function formatBinaryHunk(content: Buffer): string {
+  // Git compresses binary patches for speed by default.
+  const data = deflateSync(content, { level: constants.Z_BEST_SPEED });
+
+  let output = `literal ${content.length}\n`;
+  for (let offset = 0; offset < data.length; offset += 52) {
+    const line = data.subarray(offset, offset + 52);
+    const length =
+      line.length <= 26
+        ? String.fromCharCode(64 + line.length)
+        : String.fromCharCode(70 + line.length);
+    output += length + encodeBase85(line) + '\n';
+  }
+
+  return output + '\n';
+}
+
+/** Encodes data with the base 85 encoding of Git, which pads the data to groups of 4 bytes. */
+function encodeBase85(data: Buffer): string {
+  let output = '';
+  for (let offset = 0; offset < data.length; offset += 4) {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      value = value * 256 + (data[offset + i] ?? 0);
+    }
+
+    let group = '';
+    for (let i = 0; i < 5; i++) {
+      group = BASE85_ALPHABET[value % 85] + group;
+      value = Math.floor(value / 85);
+    }
+    output += group;
+  }
+
+  return output;
+}
@@ -0,0 +1,204 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { normalize, virtualFs } from '@angular-devkit/core';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { lastValueFrom } from 'rxjs';
+import { HostTree } from '../tree/host-tree';
+import { PatchSink } from './patch';
+
+function binaryContent(start: number, length: number): virtualFs.FileBuffer {
+  return Uint8Array.from({ length }, (_, i) => (start + i) % 256).buffer;
+}
+
+describe('PatchSink', () => {
+  let host: virtualFs.test.TestHost;
+
+  beforeEach(() => {
+    host = new virtualFs.test.TestHost({
+      '/hello': 'hello\nworld\n',
+      '/sub/file1': Array.from({ length: 12 }, (_, i) => `line ${i + 1}\n`).join(''),
+      '/sub/file2': 'no newline',
+    });
+    host.sync.write(normalize('/image.bin'), binaryContent(0, 100));
+  });
+
+  async function commit(tree: HostTree): Promise<string> {
+    const sink = new PatchSink(host);
+    const [patch] = await Promise.all([
+      lastValueFrom(sink.patch),
+      lastValueFrom(sink.commit(tree)),
+    ]);
+
+    return patch;
+  }
+
+  it('reports created files', async () => {
+    const tree = new HostTree(host);
+    tree.create('/test', 'testing\n1 2\n');
+
+    expect(await commit(tree)).toBe(
+      'diff --git a/test b/test\n' +
+        'new file mode 100644\n' +
+        '--- /dev/null\n' +
+        '+++ b/test\n' +
+        '@@ -0,0 +1,2 @@\n' +
+        '+testing\n' +
+        '+1 2\n',
+    );
+  });
+
+  it('reports deleted files', async () => {
+    const tree = new HostTree(host);
+    tree.delete('/hello');
+
+    expect(await commit(tree)).toBe(
+      'diff --git a/hello b/hello\n' +
+        'deleted file mode 100644\n' +
+        '--- a/hello\n' +
+        '+++ /dev/null\n' +
+        '@@ -1,2 +0,0 @@\n' +
+        '-hello\n' +
+        '-world\n',
+    );
+  });
+
+  it('reports the changed lines of updated files with their context', async () => {
+    const tree = new HostTree(host);
+    tree.overwrite(
+      '/sub/file1',
+      tree
+        .readText('/sub/file1')
+        .replace('line 2\n', 'line two\n')
+        .replace('line 11\n', 'line 11\nline 11.5\n'),
+    );
+
+    expect(await commit(tree)).toBe(
+      'diff --git a/sub/file1 b/sub/file1\n' +
+        '--- a/sub/file1\n' +
+        '+++ b/sub/file1\n' +
+        '@@ -1,5 +1,5 @@\n' +
+        ' line 1\n' +
+        '-line 2\n' +
+        '+line two\n' +
+        ' line 3\n' +
+        ' line 4\n' +
+        ' line 5\n' +
+        '@@ -9,4 +9,5 @@\n' +
+        ' line 9\n' +
+        ' line 10\n' +
+        ' line 11\n' +
+        '+line 11.5\n' +
+        ' line 12\n',
+    );
+  });
+
+  it('reports lines without a trailing newline', async () => {
+    const tree = new HostTree(host);
+    tree.overwrite('/sub/file2', 'no newline\n');
+
+    expect(await commit(tree)).toBe(
+      'diff --git a/sub/file2 b/sub/file2\n' +
+        '--- a/sub/file2\n' +
+        '+++ b/sub/file2\n' +
+        '@@ -1 +1 @@\n' +
+        '-no newline\n' +
+        '\\ No newline at end of file\n' +
+        '+no newline\n',
+    );
+  });
+
+  it('reports renamed files', async () => {
+    const tree = new HostTree(host);
+    tree.rename('/hello', '/sub/hello');
+
+    expect(await commit(tree)).toBe(
+      'diff --git a/hello b/sub/hello\n' +
+        'similarity index 100%\n' +
+        'rename from hello\n' +
+        'rename to sub/hello\n',
+    );
+  });
+
+  it('reports the changes of renamed files', async () => {
+    const tree = new HostTree(host);
+    tree.rename('/hello', '/sub/hello');
+    tree.overwrite('/sub/hello', 'hello\nthere\n');
+
+    expect(await commit(tree)).toBe(
+      'diff --git a/hello b/sub/hello\n' +
+        'similarity index 50%\n' +
+        'rename from hello\n' +
+        'rename to sub/hello\n' +
+        '--- a/hello\n' +
+        '+++ b/sub/hello\n' +
+        '@@ -1,2 +1,2 @@\n' +
+        ' hello\n' +
+        '-world\n' +
+        '+there\n',
+    );
+  });
+
+  it('does not write to the host', async () => {
+    const tree = new HostTree(host);
+    tree.create('/test', 'test');
+    tree.delete('/hello');
+
+    await commit(tree);
+
+    expect(host.files.map((path) => path.toString()).sort()).toEqual([
+      '/hello',
+      '/image.bin',
+      '/sub/file1',
+      '/sub/file2',
+    ]);
+  });
+
+  it('reports binary files with the object IDs and literal contents', async () => {
+    const tree = new HostTree(host);
+    tree.create('/zero.bin', Buffer.from([0]));
+
+    expect(await commit(tree)).toBe(
+      'diff --git a/zero.bin b/zero.bin\n' +
+        'new file mode 100644\n' +
+        'index 0000000000000000000000000000000000000000..f76dd238ade08917e6712764a16a22005a50573d\n' +
+        'GIT binary patch\n' +
+        'literal 1\n' +
+        'IcmZPo000310RR91\n' +
+        '\n' +
+        'literal 0\n' +
+        'HcmV?d00001\n' +
+        '\n',
+    );
+  });
+
+  it('reports binary patches which can be applied by Git', async () => {
+    const tree = new HostTree(host);
+    tree.overwrite('/image.bin', Buffer.from(binaryContent(50, 300)));
+    tree.create('/sub/image.bin', Buffer.from(binaryContent(0, 10)));
+    tree.delete('/hello');
+    const patch = await commit(tree);
+
+    const root = mkdtempSync(join(tmpdir(), 'schematics-patch-'));
+    try {
+      writeFileSync(join(root, 'hello'), 'hello\nworld\n');
+      writeFileSync(join(root, 'image.bin'), Buffer.from(binaryContent(0, 100)));
+      writeFileSync(join(root, 'changes.patch'), patch);
+      execFileSync('git', ['apply', 'changes.patch'], { cwd: root, stdio: 'pipe' });
+
+      expect(readFileSync(join(root, 'image.bin'))).toEqual(Buffer.from(binaryContent(50, 300)));
+      expect(readFileSync(join(root, 'sub/image.bin'))).toEqual(Buffer.from(binaryContent(0, 10)));
+      expect(() => readFileSync(join(root, 'hello'))).toThrow();
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -21,6 +21,11 @@ import {
 export class DelegateTree implements Tree {
   constructor(protected _other: Tree) {}
 
+  /** The tree which all operations are delegated to. */
+  get delegate(): Tree {
+    return this._other;
+  }
+
   branch(): Tree {
     return this._other.branch();
   }
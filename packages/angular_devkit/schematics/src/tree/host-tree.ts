@@ -28,6 +28,8 @@ import {
   MergeConflictException,
   SchematicsException,
 } from '../exception/exception';
+import { isBinary } from '../utility/diff';
+import { threeWayMerge } from '../utility/three-way-merge';
 import {
   Action,
   CreateFileAction,
@@ -106,6 +108,9 @@ export class HostTree implements Tree {
   private _record: virtualFs.CordHost;
   private _recordSync: virtualFs.SyncDelegateHost;
   private _ancestry = new Set<number>();
+  // The content of files at the point where this tree was branched from each ancestor, by ancestor
+  // ID. The content of a file is only kept once the file is changed after branching.
+  private _branchPoints = new Map<number, Map<Path, Buffer | null>>();
 
   private _dirCache = new Map<Path, HostDirEntry>();
 
@@ -155,16 +160,28 @@ export class HostTree implements Tree {
     branchedTree._record = this._record.clone();
     branchedTree._recordSync = new virtualFs.SyncDelegateHost(branchedTree._record);
     branchedTree._ancestry = new Set(this._ancestry).add(this._id);
+    branchedTree._branchPoints = new Map(
+      [...this._branchPoints].map(([id, contents]) => [id, new Map(contents)]),
+    ).set(this._id, new Map());
 
     return branchedTree;
   }
 
+  /** Keeps the content of a file at the branch points before the file is first changed. */
+  private recordBranchPoint(path: Path): void {
+    const contents = [...this._branchPoints.values()].filter((contents) => !contents.has(path));
+    if (contents.length) {
+      const content = this.read(path);
+      contents.forEach((contents) => contents.set(path, content));
+    }
+  }
+
   private isAncestorOf(tree: Tree): boolean {
     if (tree instanceof HostTree) {
       return tree._ancestry.has(this._id);
     }
     if (tree instanceof DelegateTree) {
-      return this.isAncestorOf((tree as unknown as { _other: Tree })._other);
+      return this.isAncestorOf(tree.delegate);
     }
     if (tree instanceof ScopedTree) {
       return this.isAncestorOf((tree as unknown as { _base: Tree })._base);
@@ -173,12 +190,93 @@ export class HostTree implements Tree {
     return false;
   }
 
+  /**
+   * Finds the content of the closest common ancestor of this tree and another tree, at the point
+   * where the other tree was branched from it.
+   */
+  private findMergeBase(tree: Tree): Map<Path, Buffer | null> | undefined {
+    if (tree instanceof DelegateTree) {
+      return this.findMergeBase(tree.delegate);
+    }
+    if (!(tree instanceof HostTree)) {
+      return undefined;
+    }
+
+    for (const id of [this._id, ...[...this._ancestry].reverse()]) {
+      const mergeBase = tree._branchPoints.get(id);
+      if (mergeBase) {
+        return mergeBase;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Merges the content of a file changed in both this tree and another tree.
+   * @returns whether the content was merged. Contents without a common base cannot be merged.
+   */
+  private mergeContent(
+    path: Path,
+    content: Buffer,
+    mergeBase: Map<Path, Buffer | null> | undefined,
+    conflictAllowed: boolean,
+  ): boolean {
+    const existingContent = this.read(path);
+    const baseContent = mergeBase?.get(path);
+    if (!existingContent || !baseContent) {
+      return false;
+    }
+
+    if ([baseContent, existingContent, content].some(isBinary)) {
+      return false;
+    }
+
+    const { content: mergedContent, conflicts } = threeWayMerge(
+      baseContent,
+      existingContent,
+      content,
+    );
+    if (conflicts.length) {
+      if (conflictAllowed) {
+        return false;
+      }
+
+      const lines = conflicts.map(({ start, end }) =>
+        start === end
+          ? `after line ${start}`
+          : end - start === 1
+          ? `line ${end}`
+          : `lines ${start + 1}-${end}`,
+      );
+
+      throw new MergeConflictException(
+        path,
+        `both trees changed ${lines.join(', ')} of the original content`,
+      );
+    }
+
+    this.recordBranchPoint(path);
+    this._record.write(path, mergedContent as {} as virtualFs.FileBuffer).subscribe();
+
+    return true;
+  }
+
   merge(other: Tree, strategy: MergeStrategy = MergeStrategy.Default): void {
     if (other === this) {
       // Merging with yourself? Tsk tsk. Nothing to do at least.
       return;
     }
 
+    // Content conflicts of a three-way merge are found with the merge base, so the workaround below
+    // does not apply to them.
+    const contentConflictAllowed =
+      (strategy & MergeStrategy.AllowOverwriteConflict) == MergeStrategy.AllowOverwriteConflict;
+    const mergeBase =
+      (strategy & MergeStrategy.ThreeWayMerge) == MergeStrategy.ThreeWayMerge
+        ? this.findMergeBase(other)
+        : undefined;
+
     if (this.isAncestorOf(other)) {
       // Workaround for merging a branch back into one of its ancestors
       // More complete branch point tracking is required to avoid
@@ -204,12 +302,18 @@ export class HostTree implements Tree {
               return;
             }
 
+            if (this.mergeContent(path, content, mergeBase, contentConflictAllowed)) {
+              return;
+            }
+
             if (!creationConflictAllowed) {
               throw new MergeConflictException(path);
             }
 
+            this.recordBranchPoint(path);
             this._record.overwrite(path, content as {} as virtualFs.FileBuffer).subscribe();
           } else {
+            this.recordBranchPoint(path);
             this._record.create(path, content as {} as virtualFs.FileBuffer).subscribe();
           }
 
@@ -230,12 +334,17 @@ export class HostTree implements Tree {
               return;
             }
 
+            if (this.mergeContent(path, content, mergeBase, contentConflictAllowed)) {
+              return;
+            }
+
             if (!overwriteConflictAllowed) {
               throw new MergeConflictException(path);
             }
           }
           // We use write here as merge validation has already been done, and we want to let
           // the CordHost do its job.
+          this.recordBranchPoint(path);
           this._record.write(path, content as {} as virtualFs.FileBuffer).subscribe();
 
           return;
@@ -273,6 +382,7 @@ export class HostTree implements Tree {
             throw new MergeConflictException(path);
           }
 
+          this.recordBranchPoint(path);
           this._recordSync.delete(path);
 
           return;
@@ -375,6 +485,7 @@ export class HostTree implements Tree {
       throw new FileDoesNotExistException(p);
     }
     const c = typeof content == 'string' ? Buffer.from(content) : content;
+    this.recordBranchPoint(p);
     this._record.overwrite(p, c as {} as virtualFs.FileBuffer).subscribe();
   }
   beginUpdate(path: string): UpdateRecorder {
@@ -409,13 +520,20 @@ export class HostTree implements Tree {
       throw new FileAlreadyExistException(p);
     }
     const c = typeof content == 'string' ? Buffer.from(content) : content;
+    this.recordBranchPoint(p);
     this._record.create(p, c as {} as virtualFs.FileBuffer).subscribe();
   }
   delete(path: string): void {
-    this._recordSync.delete(this._normalizePath(path));
+    const p = this._normalizePath(path);
+    this.recordBranchPoint(p);
+    this._recordSync.delete(p);
   }
   rename(from: string, to: string): void {
-    this._recordSync.rename(this._normalizePath(from), this._normalizePath(to));
+    const f = this._normalizePath(from);
+    const t = this._normalizePath(to);
+    this.recordBranchPoint(f);
+    this.recordBranchPoint(t);
+    this._recordSync.rename(f, t);
   }
 
   apply(action: Action, strategy?: MergeStrategy): void {
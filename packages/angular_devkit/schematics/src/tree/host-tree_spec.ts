@@ -126,6 +126,78 @@ describe('HostTree', () => {
       expect(tree.actions[0].kind).toEqual('c');
       expect(tree.actions.length).toEqual(1);
     });
+
+    describe('with the ThreeWayMerge strategy', () => {
+      let tree: HostTree;
+
+      beforeEach(() => {
+        tree = new HostTree(
+          new virtualFs.test.TestHost({ '/file1': 'line 1\nline 2\nline 3\nline 4\nline 5\n' }),
+        );
+      });
+
+      it('should combine changes to different lines of a file', () => {
+        const branch1 = tree.branch();
+        const branch2 = tree.branch();
+        branch1.overwrite('/file1', branch1.readText('/file1').replace('line 1', 'line one'));
+        branch2.overwrite('/file1', branch2.readText('/file1').replace('line 5', 'line five'));
+
+        tree.merge(branch1, MergeStrategy.ThreeWayMerge);
+        tree.merge(branch2, MergeStrategy.ThreeWayMerge);
+
+        expect(tree.readText('/file1')).toBe('line one\nline 2\nline 3\nline 4\nline five\n');
+      });
+
+      it('should combine changes of files created before branching', () => {
+        tree.create('/file2', 'a\nb\nc\nd\n');
+        const branch = tree.branch();
+        branch.overwrite('/file2', 'a\nb\nc\nd\ne\n');
+        tree.overwrite('/file2', 'z\na\nb\nc\nd\n');
+
+        tree.merge(branch, MergeStrategy.ThreeWayMerge);
+
+        expect(tree.readText('/file2')).toBe('z\na\nb\nc\nd\ne\n');
+      });
+
+      it('should combine changes of nested branches with the content of their branch point', () => {
+        tree.create('/file2', 'a\nb\nc\nd\ne\nf\ng\n');
+        const branch = tree.branch();
+        branch.overwrite('/file2', 'a\nB\nc\nd\ne\nf\ng\n');
+        const nestedBranch = branch.branch();
+        branch.overwrite('/file2', 'a\nB\nC\nd\ne\nf\ng\n');
+        nestedBranch.overwrite('/file2', 'a\nB\nc\nd\ne\nf\nG\n');
+        tree.overwrite('/file2', 'a\nb\nc\nD\ne\nf\ng\n');
+
+        tree.merge(nestedBranch, MergeStrategy.ThreeWayMerge);
+
+        expect(tree.readText('/file2')).toBe('a\nB\nc\nD\ne\nf\nG\n');
+      });
+
+      it('should throw with the conflicting lines if both trees changed the same lines', () => {
+        const branch1 = tree.branch();
+        const branch2 = tree.branch();
+        branch1.overwrite('/file1', branch1.readText('/file1').replace('line 2', 'line two'));
+        branch2.overwrite('/file1', branch2.readText('/file1').replace('line 2', 'line II'));
+
+        tree.merge(branch1, MergeStrategy.ThreeWayMerge);
+
+        expect(() => tree.merge(branch2, MergeStrategy.ThreeWayMerge)).toThrowError(
+          'A merge conflicted on path "/file1": both trees changed line 2 of the original content.',
+        );
+      });
+
+      it('should overwrite conflicting changes if allowed', () => {
+        const branch1 = tree.branch();
+        const branch2 = tree.branch();
+        branch1.overwrite('/file1', 'one\n');
+        branch2.overwrite('/file1', 'two\n');
+
+        tree.merge(branch1, MergeStrategy.ThreeWayMerge);
+        tree.merge(branch2, MergeStrategy.ThreeWayMerge | MergeStrategy.AllowOverwriteConflict);
+
+        expect(tree.readText('/file1')).toBe('two\n');
+      });
+    });
   });
 });
 
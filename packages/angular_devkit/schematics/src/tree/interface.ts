@@ -14,6 +14,10 @@ export enum MergeStrategy {
   AllowCreationConflict = 1 << 2,
   AllowDeleteConflict = 1 << 3,
 
+  // Merge the text content of files changed in both trees, based on the content at the point where
+  // the trees were branched. Changes to the same lines are still conflicting.
+  ThreeWayMerge = 1 << 4,
+
   // Uses the default strategy.
   Default = 0,
 
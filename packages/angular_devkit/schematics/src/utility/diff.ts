@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+/** A line of a diff, which is either unchanged, removed or added. */
+export interface DiffLine {
+  kind: ' ' | '-' | '+';
+  text: string;
+}
+
+/** Checks whether content is binary, using the same heuristic as Git. */
+export function isBinary(content: Buffer | null): boolean {
+  return !!content && content.subarray(0, 8000).includes(0);
+}
+
+/** Splits content into lines. Lines include their line terminator, if any. */
+export function splitLines(content: Buffer | null): string[] {
+  if (!content?.length) {
+    return [];
+  }
+
+  return content.toString().match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Computes the shortest edit script between two lists of lines with the linear space variant of
+ * the Myers diff algorithm, which recursively splits the lines at the middle of an edit script.
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  const result: DiffLine[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, result);
+
+  return result;
+}
+
+function diffRange(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  result: DiffLine[],
+): void {
+  // Common lines at the start and end are not part of the (often much smaller) difference.
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    result.push({ kind: ' ', text: a[aStart++] });
+    bStart++;
+  }
+  let suffixLength = 0;
+  while (
+    aEnd - suffixLength > aStart &&
+    bEnd - suffixLength > bStart &&
+    a[aEnd - suffixLength - 1] === b[bEnd - suffixLength - 1]
+  ) {
+    suffixLength++;
+  }
+  aEnd -= suffixLength;
+  bEnd -= suffixLength;
+
+  // Lines of created and deleted files, or of a single changed range, do not need to be compared.
+  if (aStart === aEnd || bStart === bEnd) {
+    for (let x = aStart; x < aEnd; x++) {
+      result.push({ kind: '-', text: a[x] });
+    }
+    for (let y = bStart; y < bEnd; y++) {
+      result.push({ kind: '+', text: b[y] });
+    }
+  } else {
+    const snake = findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd);
+    diffRange(a, aStart, snake.startX, b, bStart, snake.startY, result);
+    for (let x = snake.startX; x < snake.endX; x++) {
+      result.push({ kind: ' ', text: a[x] });
+    }
+    diffRange(a, snake.endX, aEnd, b, snake.endY, bEnd, result);
+  }
+
+  for (let x = aEnd; x < aEnd + suffixLength; x++) {
+    result.push({ kind: ' ', text: a[x] });
+  }
+}
+
+/**
+ * Finds the unchanged lines in the middle of a shortest edit script, by searching the furthest
+ * reaching paths from both ends until they overlap. Only the furthest positions of the current
+ * number of edits are kept, so the memory is linear in the number of lines.
+ */
+function findMiddleSnake(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+): { startX: number; startY: number; endX: number; endY: number } {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const delta = n - m;
+  const maxEdits = Math.ceil((n + m) / 2);
+  const offset = maxEdits + 1;
+  // The furthest `x` of each diagonal `k`, from the start and from the end of the lines.
+  const forward = new Array<number>(2 * offset + 1).fill(0);
+  const backward = new Array<number>(2 * offset + 1).fill(0);
+
+  for (let d = 0; d <= maxEdits; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      const startX =
+        k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+      const startY = startX - k;
+      let x = startX;
+      let y = startY;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+
+      const c = delta - k;
+      if (delta % 2 !== 0 && c >= -(d - 1) && c <= d - 1 && x + backward[offset + c] >= n) {
+        return {
+          startX: aStart + startX,
+          startY: bStart + startY,
+          endX: aStart + x,
+          endY: bStart + y,
+        };
+      }
+    }
+
+    for (let c = -d; c <= d; c += 2) {
+      const startX =
+        c === -d || (c !== d && backward[offset + c - 1] < backward[offset + c + 1])
+          ? backward[offset + c + 1]
+          : backward[offset + c - 1] + 1;
+      const startY = startX - c;
+      let x = startX;
+      let y = startY;
+      while (x < n && y < m && a[aEnd - x - 1] === b[bEnd - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[offset + c] = x;
+
+      const k = delta - c;
+      if (delta % 2 === 0 && k >= -d && k <= d && x + forward[offset + k] >= n) {
+        return {
+          startX: aEnd - x,
+          startY: bEnd - y,
+          endX: aEnd - startX,
+          endY: bEnd - startY,
+        };
+      }
+    }
+  }
+
+  // The paths always overlap after at most half of the edits.
+  throw new Error('The middle of the edit script was not found.');
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { DiffLine, diffLines, isBinary, splitLines } from './diff';
+
+describe('diff', () => {
+  function getEditCount(lines: DiffLine[]): number {
+    return lines.filter(({ kind }) => kind !== ' ').length;
+  }
+
+  /** Computes the minimal number of edits with the longest common subsequence. */
+  function getMinimalEditCount(a: string[], b: string[]): number {
+    let previous = new Array<number>(b.length + 1).fill(0);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [0];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] =
+          a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+      }
+      previous = current;
+    }
+
+    return a.length + b.length - 2 * previous[b.length];
+  }
+
+  describe('splitLines', () => {
+    it('should keep line terminators and the last line without terminator', () => {
+      expect(splitLines(Buffer.from('a\nb\r\n\nc'))).toEqual(['a\n', 'b\r\n', '\n', 'c']);
+      expect(splitLines(null)).toEqual([]);
+    });
+  });
+
+  describe('isBinary', () => {
+    it('should check for null bytes', () => {
+      expect(isBinary(Buffer.from([1, 0, 2]))).toBeTrue();
+      expect(isBinary(Buffer.from('text'))).toBeFalse();
+      expect(isBinary(null)).toBeFalse();
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should report the changed lines between unchanged lines', () => {
+      expect(diffLines(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e'])).toEqual([
+        { kind: ' ', text: 'a' },
+        { kind: '-', text: 'b' },
+        { kind: '+', text: 'x' },
+        { kind: ' ', text: 'c' },
+        { kind: ' ', text: 'd' },
+        { kind: '+', text: 'e' },
+      ]);
+    });
+
+    it('should find a shortest edit script', () => {
+      // A fixed linear congruential generator keeps the inputs deterministic.
+      let seed = 42;
+      const random = (max: number) => (seed = (seed * 1103515245 + 12345) % 2 ** 31) % max;
+      const createLines = () => Array.from({ length: random(30) }, () => `${random(4)}`);
+
+      for (let i = 0; i < 200; i++) {
+        const a = createLines();
+        const b = createLines();
+        const lines = diffLines(a, b);
+
+        expect(lines.filter(({ kind }) => kind !== '+').map(({ text }) => text)).toEqual(a);
+        expect(lines.filter(({ kind }) => kind !== '-').map(({ text }) => text)).toEqual(b);
+        expect(getEditCount(lines)).toBe(getMinimalEditCount(a, b));
+      }
+    });
+
+    it('should diff created, deleted and rewritten files of many lines', () => {
+      const a = Array.from({ length: 20000 }, (_, i) => `a${i}\n`);
+      const b = a.slice(0, 2000).map((line, i) => (i % 2 ? line : `b${i}\n`));
+
+      expect(getEditCount(diffLines([], a))).toBe(20000);
+      expect(getEditCount(diffLines(a, []))).toBe(20000);
+      expect(getEditCount(diffLines(a.slice(0, 2000), b))).toBe(2000);
+    });
+  });
+});
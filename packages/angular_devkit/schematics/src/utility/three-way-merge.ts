@@ -0,0 +1,116 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { diffLines, splitLines } from './diff';
+
+/** The lines of the base content, as a zero-based range, which were changed by both sides. */
+export interface MergeConflict {
+  start: number;
+  end: number;
+}
+
+export interface ThreeWayMergeResult {
+  content: Buffer;
+  conflicts: MergeConflict[];
+}
+
+/** A change of one side, which replaces a range of lines of the base content. */
+interface Hunk {
+  ours: boolean;
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Merges two versions of a text content which were both changed from the same base content.
+ * Changes of both sides are combined when they touch different lines of the base content.
+ * Otherwise, the changes are conflicting unless they are identical; the content of conflicting
+ * lines is the one of `ours`.
+ */
+export function threeWayMerge(base: Buffer, ours: Buffer, theirs: Buffer): ThreeWayMergeResult {
+  const baseLines = splitLines(base);
+  const hunks = [
+    ...getHunks(baseLines, splitLines(ours), true),
+    ...getHunks(baseLines, splitLines(theirs), false),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const lines: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let position = 0;
+  for (let i = 0; i < hunks.length; ) {
+    const { start } = hunks[i];
+    let end = hunks[i].end;
+    const group: Hunk[] = [];
+
+    // Changes of adjacent lines are grouped as well, the same way as Git does.
+    while (i < hunks.length && hunks[i].start <= end) {
+      end = Math.max(end, hunks[i].end);
+      group.push(hunks[i++]);
+    }
+
+    const oursLines = applyHunks(baseLines, start, end, group, true);
+    const theirsLines = applyHunks(baseLines, start, end, group, false);
+
+    lines.push(...baseLines.slice(position, start));
+    if (!group.some((hunk) => hunk.ours)) {
+      lines.push(...theirsLines);
+    } else {
+      lines.push(...oursLines);
+      if (group.some((hunk) => !hunk.ours) && oursLines.join('') !== theirsLines.join('')) {
+        conflicts.push({ start, end });
+      }
+    }
+    position = end;
+  }
+  lines.push(...baseLines.slice(position));
+
+  return { content: Buffer.from(lines.join('')), conflicts };
+}
+
+function getHunks(base: string[], changed: string[], ours: boolean): Hunk[] {
+  const hunks: Hunk[] = [];
+  let position = 0;
+  let current: Hunk | undefined;
+
+  for (const { kind, text } of diffLines(base, changed)) {
+    if (kind === ' ') {
+      current = undefined;
+      position++;
+      continue;
+    }
+
+    if (!current) {
+      current = { ours, start: position, end: position, lines: [] };
+      hunks.push(current);
+    }
+
+    if (kind === '-') {
+      current.end = ++position;
+    } else {
+      current.lines.push(text);
+    }
+  }
+
+  return hunks;
+}
+
+/** Gets the lines of one side for a range of the base content. */
+function applyHunks(base: string[], start: number, end: number, group: Hunk[], ours: boolean) {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of group) {
+    if (hunk.ours === ours) {
+      lines.push(...base.slice(position, hunk.start), ...hunk.lines);
+      position = hunk.end;
+    }
+  }
+  lines.push(...base.slice(position, end));
+
+  return lines;
+}
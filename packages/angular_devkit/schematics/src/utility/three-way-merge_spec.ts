@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { threeWayMerge } from './three-way-merge';
+
+describe('threeWayMerge', () => {
+  const base = 'a\nb\nc\nd\ne\nf\n';
+
+  function merge(ours: string, theirs: string) {
+    const { content, conflicts } = threeWayMerge(
+      Buffer.from(base),
+      Buffer.from(ours),
+      Buffer.from(theirs),
+    );
+
+    return { content: content.toString(), conflicts };
+  }
+
+  it('combines changes to different lines', () => {
+    expect(merge('a\nB\nc\nd\ne\nf\n', 'a\nb\nc\nd\nE\nf\ng\n')).toEqual({
+      content: 'a\nB\nc\nd\nE\nf\ng\n',
+      conflicts: [],
+    });
+  });
+
+  it('combines removals and insertions', () => {
+    expect(merge('b\nc\nd\ne\nf\n', 'a\nb\nc\nc2\nd\ne\nf\n')).toEqual({
+      content: 'b\nc\nc2\nd\ne\nf\n',
+      conflicts: [],
+    });
+  });
+
+  it('uses the changes of one side if the other side is unchanged', () => {
+    expect(merge(base, 'x\n')).toEqual({ content: 'x\n', conflicts: [] });
+    expect(merge('x\n', base)).toEqual({ content: 'x\n', conflicts: [] });
+  });
+
+  it('accepts identical changes of both sides', () => {
+    expect(merge('a\nB\nc\nd\ne\nf\n', 'a\nB\nc\nd\ne\nF\n')).toEqual({
+      content: 'a\nB\nc\nd\ne\nF\n',
+      conflicts: [],
+    });
+  });
+
+  it('reports changes to the same lines as conflicts', () => {
+    expect(merge('a\nb1\nc1\nd\ne\nf\n', 'a\nb2\nc\nd\ne\nf\n')).toEqual({
+      content: 'a\nb1\nc1\nd\ne\nf\n',
+      conflicts: [{ start: 1, end: 3 }],
+    });
+  });
+
+  it('reports changes to adjacent lines as conflicts', () => {
+    expect(merge('a\nB\nc\nd\ne\nf\n', 'a\nb\nC\nd\ne\nf\n').conflicts).toEqual([
+      { start: 1, end: 3 },
+    ]);
+  });
+
+  it('reports different insertions at the same position as conflicts', () => {
+    expect(merge('a\nb\nc\nx\nd\ne\nf\n', 'a\nb\nc\ny\nd\ne\nf\n').conflicts).toEqual([
+      { start: 3, end: 3 },
+    ]);
+  });
+});
@@ -17,6 +17,7 @@ import {
   from,
   ignoreElements,
   last,
+  merge,
   of,
   tap,
   throwError,
@@ -26,6 +27,7 @@ import { UnsuccessfulWorkflowExecution } from '../exception/exception';
 import { standardFormats } from '../formats';
 import { DryRunEvent, DryRunSink } from '../sink/dryrun';
 import { HostSink } from '../sink/host';
+import { PatchSink } from '../sink/patch';
 import { Sink } from '../sink/sink';
 import { HostTree } from '../tree/host-tree';
 import { Tree } from '../tree/interface';
@@ -43,6 +45,11 @@ export interface BaseWorkflowOptions {
 
   force?: boolean;
   dryRun?: boolean;
+  /**
+   * Whether to keep the changes in memory instead of writing them, so they can be reported with
+   * `createPatch`. Each execution sees the changes of the previous executions.
+   */
+  patch?: boolean;
 }
 
 /**
@@ -70,6 +77,7 @@ export abstract class BaseWorkflow implements Workflow {
 
   protected _force: boolean;
   protected _dryRun: boolean;
+  protected _patchHost: virtualFs.CordHost | null;
 
   constructor(options: BaseWorkflowOptions) {
     this._host = options.host;
@@ -88,6 +96,7 @@ export abstract class BaseWorkflow implements Workflow {
 
     this._force = options.force || false;
     this._dryRun = options.dryRun || false;
+    this._patchHost = options.patch ? new virtualFs.CordHost(this._host) : null;
   }
 
   get context(): Readonly<WorkflowExecutionContext> {
@@ -117,7 +126,7 @@ export abstract class BaseWorkflow implements Workflow {
   protected _createSinks(): Sink[] {
     let error = false;
 
-    const dryRunSink = new DryRunSink(this._host, this._force);
+    const dryRunSink = new DryRunSink(this._patchHost ?? this._host, this._force);
     const dryRunSubscriber = dryRunSink.reporter.subscribe((event) => {
       this._reporter.next(event);
       error = error || event.kind == 'error';
@@ -138,11 +147,47 @@ export abstract class BaseWorkflow implements Workflow {
         },
       },
 
-      // Only add a HostSink if this is not a dryRun.
-      ...(!this._dryRun ? [new HostSink(this._host, this._force)] : []),
+      // Only add a HostSink if this is not a dryRun. When patching, the changes are kept in memory.
+      ...(this._patchHost ? [new HostSink(this._patchHost, this._force)] : []),
+      ...(!this._dryRun && !this._patchHost ? [new HostSink(this._host, this._force)] : []),
     ];
   }
 
+  /**
+   * Creates a patch in the unified diff format of Git for the changes of all executions, when
+   * using the `patch` option.
+   */
+  createPatch(): Observable<string> {
+    if (!this._patchHost) {
+      return of('');
+    }
+
+    // Replay the recorded changes on a tree, which can be committed to a patch sink.
+    const tree = new HostTree(this._host);
+    for (const record of this._patchHost.records()) {
+      switch (record.kind) {
+        case 'create':
+        case 'overwrite':
+          if (tree.exists(record.path)) {
+            tree.overwrite(record.path, Buffer.from(record.content));
+          } else {
+            tree.create(record.path, Buffer.from(record.content));
+          }
+          break;
+        case 'rename':
+          tree.rename(record.from, record.to);
+          break;
+        case 'delete':
+          tree.delete(record.path);
+          break;
+      }
+    }
+
+    const patchSink = new PatchSink(this._host, this._force);
+
+    return merge(patchSink.patch, patchSink.commit(tree).pipe(ignoreElements()));
+  }
+
   execute(
     options: Partial<WorkflowExecutionContext> & RequiredWorkflowExecutionContext,
   ): Observable<void> {
@@ -172,7 +217,9 @@ export abstract class BaseWorkflow implements Workflow {
     this._context.push(context);
 
     return schematic
-      .call(options.options, of(new HostTree(this._host)), { logger: context.logger })
+      .call(options.options, of(new HostTree(this._patchHost ?? this._host)), {
+        logger: context.logger,
+      })
       .pipe(
         concatMap((tree: Tree) => {
           // Process all sinks.
@@ -185,7 +232,7 @@ export abstract class BaseWorkflow implements Workflow {
           );
         }),
         concatMap(() => {
-          if (this._dryRun) {
+          if (this._dryRun || this._patchHost) {
             return EMPTY;
           }
 
@@ -45,6 +45,12 @@ const packageManagers: { [name: string]: PackageManagerProfile } = {
       installPackage: 'install',
     },
   },
+  'bun': {
+    commands: {
+      installAll: 'install',
+      installPackage: 'add',
+    },
+  },
 };
 
 export class UnknownPackageManagerException extends BaseException {
@@ -18,6 +18,7 @@ import { validateOptionsWithSchema } from '../schema-option-transform';
 export interface NodeWorkflowOptions {
   force?: boolean;
   dryRun?: boolean;
+  patch?: boolean;
   packageManager?: string;
   packageManagerForce?: boolean;
   packageRegistry?: string;
@@ -55,6 +56,7 @@ export class NodeWorkflow extends workflow.BaseWorkflow {
 
       force: options.force,
       dryRun: options.dryRun,
+      patch: options.patch,
       registry: options.registry,
     });
 
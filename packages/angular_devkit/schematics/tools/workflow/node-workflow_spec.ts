@@ -7,8 +7,11 @@
  */
 
 /* eslint-disable import/no-extraneous-dependencies */
+import { virtualFs } from '@angular-devkit/core';
 import { NodeJsSyncHost } from '@angular-devkit/core/node';
 import { NodeWorkflow } from '@angular-devkit/schematics/tools';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
 import * as path from 'path';
 
 describe('NodeWorkflow', () => {
@@ -26,4 +29,64 @@ describe('NodeWorkflow', () => {
       .toPromise()
       .then(done, done.fail);
   });
+
+  describe('with the patch option', () => {
+    let collectionPath: string;
+    let tempDirectory: string;
+
+    beforeEach(() => {
+      tempDirectory = mkdtempSync(path.join(tmpdir(), 'node-workflow-'));
+      collectionPath = path.join(tempDirectory, 'collection.json');
+      writeFileSync(
+        collectionPath,
+        JSON.stringify({
+          schematics: {
+            create: { description: 'Creates a file.', factory: './index#create' },
+            update: { description: 'Updates the files.', factory: './index#update' },
+          },
+        }),
+      );
+      writeFileSync(
+        path.join(tempDirectory, 'index.js'),
+        `exports.create = () => (tree) => { tree.create('file.txt', 'first\\n'); };\n` +
+          `exports.update = () => (tree) => {\n` +
+          `  tree.overwrite('file.txt', tree.readText('file.txt') + 'second\\n');\n` +
+          `  tree.delete('README.md');\n` +
+          `};\n`,
+      );
+    });
+
+    afterEach(() => {
+      rmSync(tempDirectory, { recursive: true, force: true });
+    });
+
+    it('creates a single patch of executions which build on each other', async () => {
+      const host = new virtualFs.test.TestHost({ '/README.md': 'readme\n' });
+      const workflow = new NodeWorkflow(host, { patch: true });
+
+      await workflow
+        .execute({ collection: collectionPath, schematic: 'create', options: {} })
+        .toPromise();
+      await workflow
+        .execute({ collection: collectionPath, schematic: 'update', options: {} })
+        .toPromise();
+
+      expect(await workflow.createPatch().toPromise()).toBe(
+        'diff --git a/README.md b/README.md\n' +
+          'deleted file mode 100644\n' +
+          '--- a/README.md\n' +
+          '+++ /dev/null\n' +
+          '@@ -1 +0,0 @@\n' +
+          '-readme\n' +
+          'diff --git a/file.txt b/file.txt\n' +
+          'new file mode 100644\n' +
+          '--- /dev/null\n' +
+          '+++ b/file.txt\n' +
+          '@@ -0,0 +1,2 @@\n' +
+          '+first\n' +
+          '+second\n',
+      );
+      expect(host.files.map((file) => file.toString())).toEqual(['/README.md']);
+    });
+  });
 });
@@ -14,7 +14,7 @@ import { ProcessOutput, createConsoleLogger } from '@angular-devkit/core/node';
 import { UnsuccessfulWorkflowExecution } from '@angular-devkit/schematics';
 import { NodeWorkflow } from '@angular-devkit/schematics/tools';
 import * as ansiColors from 'ansi-colors';
-import { existsSync } from 'fs';
+import { existsSync, promises as fs } from 'fs';
 import * as inquirer from 'inquirer';
 import * as path from 'path';
 import yargsParser, { camelCase, decamelize } from 'yargs-parser';
@@ -215,11 +215,13 @@ export async function main({
   const dryRun = dryRunPresent ? !!cliOptions['dry-run'] : debug;
   const force = !!cliOptions.force;
   const allowPrivate = !!cliOptions['allow-private'];
+  const patchPath = cliOptions.patch;
 
   /** Create the workflow scoped to the working directory that will be executed with this run. */
   const workflow = new NodeWorkflow(process.cwd(), {
     force,
     dryRun,
+    patch: !!patchPath,
     resolvePaths: [process.cwd(), __dirname],
     schemaValidation: true,
     packageManager: getPackageManagerName(),
@@ -337,8 +339,15 @@ export async function main({
       })
       .toPromise();
 
+    if (patchPath) {
+      const patch = await workflow.createPatch().toPromise();
+      await fs.writeFile(path.resolve(patchPath), patch ?? '');
+    }
+
     if (nothingDone) {
       logger.info('Nothing to be done.');
+    } else if (patchPath) {
+      logger.info(`Patch written to ${patchPath}. No files written to disk.`);
     } else if (dryRun) {
       logger.info(
         `Dry run enabled${
@@ -384,6 +393,9 @@ function getUsage(): string {
 
       --force             Force overwriting files that would otherwise be an error.
 
+      --patch=<file>      Write the changes to a patch file in the unified diff format instead of
+                          writing them to disk. The patch can be applied with "git apply".
+
       --list-schematics   List all schematics from the collection, by name. A collection name
                           should be suffixed by a colon. Example: '@angular-devkit/schematics-cli:'.
 
@@ -409,6 +421,8 @@ const booleanArgs = [
   'interactive',
 ] as const;
 
+const stringArgs = ['patch'] as const;
+
 type ElementType<T extends ReadonlyArray<unknown>> = T extends ReadonlyArray<infer ElementType>
   ? ElementType
   : never;
@@ -416,13 +430,15 @@ type ElementType<T extends ReadonlyArray<unknown>> = T extends ReadonlyArray<inf
 interface Options {
   _: string[];
   schematicOptions: Record<string, unknown>;
-  cliOptions: Partial<Record<ElementType<typeof booleanArgs>, boolean | null>>;
+  cliOptions: Partial<Record<ElementType<typeof booleanArgs>, boolean | null>> &
+    Partial<Record<ElementType<typeof stringArgs>, string>>;
 }
 
 /** Parse the command line. */
 function parseArgs(args: string[]): Options {
   const { _, ...options } = yargsParser(args, {
     boolean: booleanArgs as unknown as string[],
+    string: stringArgs as unknown as string[],
     default: {
       'interactive': true,
       'debug': null,
@@ -444,6 +460,10 @@ function parseArgs(args: string[]): Options {
     key: ElementType<typeof booleanArgs> | string,
   ): key is ElementType<typeof booleanArgs> =>
     booleanArgs.includes(key as ElementType<typeof booleanArgs>);
+  const isStringCliOption = (
+    key: ElementType<typeof stringArgs> | string,
+  ): key is ElementType<typeof stringArgs> =>
+    stringArgs.includes(key as ElementType<typeof stringArgs>);
 
   for (const [key, value] of Object.entries(options)) {
     if (/[A-Z]/.test(key)) {
@@ -452,6 +472,8 @@ function parseArgs(args: string[]): Options {
 
     if (isCliOptions(key)) {
       cliOptions[key] = value;
+    } else if (isStringCliOption(key)) {
+      cliOptions[key] = `${value}`;
     } else {
       schematicOptions[camelCase(key)] = value;
     }
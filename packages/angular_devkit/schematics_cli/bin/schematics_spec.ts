@@ -6,6 +6,9 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { main } from './schematics';
 
 // We only care about the write method in these mocks of NodeJS.WriteStream.
@@ -65,6 +68,27 @@ describe('schematics-cli binary', () => {
     expect(res).toEqual(0);
   });
 
+  it('patch writes the changes to a patch file', async () => {
+    const tempDirectory = mkdtempSync(join(tmpdir(), 'schematics-cli-'));
+    const patchPath = join(tempDirectory, 'changes.patch');
+    try {
+      const args = ['blank', 'foo', `--patch=${patchPath}`];
+      const res = await main({ args, stdout, stderr });
+      expect(stdout.lines).toMatch(/CREATE foo\/README.md/);
+      expect(stdout.lines).toMatch(/Patch written to .*changes.patch. No files written to disk./);
+      expect(res).toEqual(0);
+
+      const patch = readFileSync(patchPath, 'utf-8');
+      expect(patch).toContain(
+        'diff --git a/foo/README.md b/foo/README.md\nnew file mode 100644\n--- /dev/null\n',
+      );
+      expect(patch).toContain('+++ b/foo/src/foo/index.ts\n');
+      expect(existsSync('foo')).toBeFalse();
+    } finally {
+      rmSync(tempDirectory, { recursive: true, force: true });
+    }
+  });
+
   it('error when no name is provided', async () => {
     const args = ['blank'];
     const res = await main({ args, stdout, stderr });
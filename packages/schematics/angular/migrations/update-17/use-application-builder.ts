@@ -0,0 +1,406 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { JsonValue, logging } from '@angular-devkit/core';
+import { Rule, SchematicsException, Tree } from '@angular-devkit/schematics';
+import { posix } from 'node:path';
+import { JSONFile } from '../../utility/json-file';
+import {
+  ProjectDefinition,
+  TargetDefinition,
+  allTargetOptions,
+  allWorkspaceTargets,
+  updateWorkspace,
+} from '../../utility/workspace';
+import { Builders, ProjectType } from '../../utility/workspace-models';
+
+/** Options of the `browser` builder which are not supported by the `application` builder. */
+const REMOVED_BUILD_OPTIONS = [
+  'buildOptimizer',
+  'commonChunk',
+  'deployUrl',
+  'main',
+  'ngswConfigPath',
+  'resourcesOutputPath',
+  'vendorChunk',
+];
+
+/** Builders whose targets are replaced by options of the `application` builder. */
+const REPLACED_BUILDERS: string[] = [
+  Builders.AppShell,
+  Builders.Prerender,
+  Builders.Server,
+  Builders.SsrDevServer,
+];
+
+export default function (): Rule {
+  return (tree, context) =>
+    updateWorkspace((workspace) => {
+      // Targets which are removed, mapped to the targets replacing them in `project:target` format.
+      const replacedTargets = new Map<string, string>();
+
+      for (const [projectName, project] of workspace.projects) {
+        if (project.extensions.projectType !== ProjectType.Application) {
+          // Only interested in application projects since these changes only effects application builders
+          continue;
+        }
+
+        const buildTarget = project.targets.get('build');
+        if (!buildTarget || buildTarget.builder === Builders.Application) {
+          continue;
+        }
+
+        if (
+          buildTarget.builder !== Builders.Browser &&
+          buildTarget.builder !== Builders.BrowserEsbuild
+        ) {
+          context.logger.warn(
+            `Project "${projectName}" was not updated to use the application builder. ` +
+              `Only projects using "${Builders.Browser}" or "${Builders.BrowserEsbuild}" ` +
+              'can be updated automatically.',
+          );
+
+          continue;
+        }
+
+        updateProject(tree, context.logger, projectName, project, replacedTargets);
+      }
+
+      // Update the targets referring to removed targets, such as `devServerTarget` of E2E targets.
+      for (const [, target] of allWorkspaceTargets(workspace)) {
+        for (const [, options] of allTargetOptions(target)) {
+          for (const [name, value] of Object.entries(options)) {
+            if (typeof value !== 'string') {
+              continue;
+            }
+
+            const [project, targetName, configuration] = value.split(':');
+            const replacement = replacedTargets.get(`${project}:${targetName}`);
+            if (replacement) {
+              options[name] = configuration ? `${replacement}:${configuration}` : replacement;
+            }
+          }
+        }
+      }
+    });
+}
+
+function updateProject(
+  tree: Tree,
+  logger: logging.LoggerApi,
+  projectName: string,
+  project: ProjectDefinition,
+  replacedTargets: Map<string, string>,
+): void {
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  const buildTarget = project.targets.get('build')!;
+  buildTarget.builder = Builders.Application;
+
+  for (const [, options] of allTargetOptions(buildTarget, false)) {
+    updateBuildOptions(options, project, projectName, logger);
+  }
+
+  // SSR is served by the development server when using the application builder.
+  const devServerTargetName = [...project.targets].find(
+    ([, target]) => target.builder === Builders.DevServer,
+  )?.[0];
+
+  const targets = new Map<string, TargetDefinition>();
+  for (const [name, target] of project.targets) {
+    if (!REPLACED_BUILDERS.includes(target.builder)) {
+      continue;
+    }
+
+    targets.set(target.builder, target);
+    project.targets.delete(name);
+
+    if (target.builder !== Builders.SsrDevServer) {
+      replacedTargets.set(`${projectName}:${name}`, `${projectName}:build`);
+    } else if (devServerTargetName) {
+      replacedTargets.set(`${projectName}:${name}`, `${projectName}:${devServerTargetName}`);
+    }
+  }
+
+  const buildOptions = (buildTarget.options ??= {});
+  const serverTarget = targets.get(Builders.Server);
+  if (serverTarget) {
+    updateServerOptions(tree, logger, buildOptions, serverTarget, projectName);
+  }
+
+  const prerenderTarget = targets.get(Builders.Prerender);
+  if (prerenderTarget) {
+    buildOptions['prerender'] = getPrerenderOptions(tree, prerenderTarget, project);
+  }
+
+  if (targets.has(Builders.AppShell)) {
+    buildOptions['appShell'] = true;
+  }
+
+  const devServerTarget = devServerTargetName && project.targets.get(devServerTargetName);
+  if (devServerTarget) {
+    for (const [, options] of allTargetOptions(devServerTarget)) {
+      if (options['browserTarget'] !== undefined) {
+        options['buildTarget'] ??= options['browserTarget'];
+        delete options['browserTarget'];
+      }
+    }
+  }
+}
+
+function updateBuildOptions(
+  options: Record<string, JsonValue | undefined>,
+  project: ProjectDefinition,
+  projectName: string,
+  logger: logging.LoggerApi,
+): void {
+  if (typeof options['main'] === 'string') {
+    options['browser'] = options['main'];
+  }
+
+  if (typeof options['polyfills'] === 'string') {
+    options['polyfills'] = [options['polyfills']];
+  }
+
+  if (options['serviceWorker'] === true || options['ngswConfigPath'] !== undefined) {
+    options['serviceWorker'] =
+      options['ngswConfigPath'] ?? posix.join(project.root, 'ngsw-config.json');
+  }
+
+  const outputPath = options['outputPath'];
+  if (typeof outputPath === 'string') {
+    if (/\/browser\/?$/.test(outputPath)) {
+      options['outputPath'] = outputPath.replace(/\/browser\/?$/, '');
+    } else {
+      logger.warn(
+        `The browser files of project "${projectName}" are now written to ` +
+          `"${posix.join(outputPath, 'browser')}" instead of "${outputPath}". ` +
+          'You might need to update your deployment.',
+      );
+    }
+  }
+
+  for (const name of REMOVED_BUILD_OPTIONS) {
+    delete options[name];
+  }
+}
+
+function updateServerOptions(
+  tree: Tree,
+  logger: logging.LoggerApi,
+  buildOptions: Record<string, JsonValue | undefined>,
+  serverTarget: TargetDefinition,
+  projectName: string,
+): void {
+  const { main, tsConfig, outputPath } = serverTarget.options ?? {};
+  if (typeof main !== 'string') {
+    throw new SchematicsException(
+      `Cannot find the server entry point of project "${projectName}".`,
+    );
+  }
+
+  // The server entry point of webpack based applications is usually an Express server, which
+  // imports the application from `main.server.ts`.
+  const browser = buildOptions['browser'];
+  const mainServer =
+    typeof browser === 'string' ? posix.join(posix.dirname(browser), 'main.server.ts') : undefined;
+  if (mainServer && mainServer !== main && tree.exists(mainServer)) {
+    buildOptions['server'] = mainServer;
+    buildOptions['ssr'] = main;
+
+    if (updateServerFile(tree, main)) {
+      // The server entry point now uses the default import of Express.
+      const browserTsConfig = buildOptions['tsConfig'];
+      if (typeof browserTsConfig === 'string') {
+        const json = new JSONFile(tree, browserTsConfig);
+        if (json.get(['compilerOptions', 'esModuleInterop']) === undefined) {
+          json.modify(['compilerOptions', 'esModuleInterop'], true);
+        }
+      }
+    } else {
+      logger.warn(
+        `Could not update "${main}" automatically. The server entry point needs to locate the ` +
+          `browser files and "index.server.html" relative to its own location, and must not ` +
+          'rely on webpack specific globals.',
+      );
+    }
+  } else {
+    buildOptions['server'] = main;
+  }
+
+  const browserTsConfig = buildOptions['tsConfig'];
+  if (typeof tsConfig === 'string' && typeof browserTsConfig === 'string') {
+    mergeTsConfigs(tree, browserTsConfig, tsConfig);
+  }
+
+  const browserOutputPath = buildOptions['outputPath'];
+  if (typeof outputPath === 'string' && typeof browserOutputPath === 'string') {
+    updatePackageJsonScripts(
+      tree,
+      posix.join(outputPath, 'main.js'),
+      posix.join(browserOutputPath, 'server', 'server.mjs'),
+    );
+  }
+}
+
+function getPrerenderOptions(
+  tree: Tree,
+  prerenderTarget: TargetDefinition,
+  project: ProjectDefinition,
+): JsonValue {
+  const { routes, routesFile, discoverRoutes } = prerenderTarget.options ?? {};
+  const prerender: Record<string, JsonValue> = {};
+
+  if (typeof routesFile === 'string') {
+    prerender['routesFile'] = routesFile;
+  } else if (Array.isArray(routes) && routes.length) {
+    // The application builder only supports routes listed in a file.
+    const path = posix.join(project.root, 'routes.txt');
+    if (!tree.exists(path)) {
+      tree.create(path, routes.join('\n') + '\n');
+    }
+    prerender['routesFile'] = path;
+  }
+
+  if (typeof discoverRoutes === 'boolean') {
+    prerender['discoverRoutes'] = discoverRoutes;
+  }
+
+  return Object.keys(prerender).length ? prerender : true;
+}
+
+function mergeTsConfigs(tree: Tree, browserTsConfig: string, serverTsConfig: string): void {
+  if (browserTsConfig === serverTsConfig || !tree.exists(serverTsConfig)) {
+    return;
+  }
+
+  const browserJson = new JSONFile(tree, browserTsConfig);
+  const serverJson = new JSONFile(tree, serverTsConfig);
+
+  // Files are relative to the directory of the tsconfig.
+  const serverFiles = ((serverJson.get(['files']) as string[] | undefined) ?? []).map((file) =>
+    posix.relative(posix.dirname(browserTsConfig), posix.join(posix.dirname(serverTsConfig), file)),
+  );
+  const files = new Set([...((browserJson.get(['files']) as string[] | undefined) ?? [])]);
+  serverFiles.forEach((file) => files.add(file));
+  browserJson.modify(['files'], [...files]);
+
+  const typesPath = ['compilerOptions', 'types'];
+  const types = new Set([
+    ...((browserJson.get(typesPath) as string[] | undefined) ?? []),
+    ...((serverJson.get(typesPath) as string[] | undefined) ?? []),
+  ]);
+  browserJson.modify(typesPath, [...types]);
+
+  tree.delete(serverTsConfig);
+}
+
+function updatePackageJsonScripts(tree: Tree, oldServerPath: string, newServerPath: string): void {
+  if (!tree.exists('/package.json')) {
+    return;
+  }
+
+  const packageJson = new JSONFile(tree, '/package.json');
+  const scripts = packageJson.get(['scripts']) as Record<string, unknown> | undefined;
+  for (const [name, script] of Object.entries(scripts ?? {})) {
+    if (typeof script === 'string' && script.includes(oldServerPath)) {
+      packageJson.modify(['scripts', name], script.replaceAll(oldServerPath, newServerPath));
+    }
+  }
+}
+
+/**
+ * Matches the location of the browser files in server entry points generated for webpack, such
+ * as `const distFolder = join(process.cwd(), 'dist/app/browser');`.
+ */
+const DIST_FOLDER_REGEXP = /^([ \t]*)const (\w+) = join\(process\.cwd\(\), (['"`]).*?\3\);$/m;
+
+/**
+ * Matches the location of the index file in server entry points generated for webpack.
+ */
+const INDEX_HTML_REGEXP =
+  /existsSync\(join\((\w+), 'index\.original\.html'\)\)\s*\?\s*join\(\1, 'index\.original\.html'\)\s*:\s*join\(\1, 'index\.html'\)/;
+
+/**
+ * Matches the webpack specific check which only starts the server when the bundle is executed.
+ */
+const MAIN_MODULE_REGEXP =
+  /^(?:\/\/.*\n)*declare const __non_webpack_require__: NodeRequire;\n[\s\S]*?^}\n/m;
+
+/**
+ * Updates a server entry point generated for webpack to run as an ES module in the layout of the
+ * application builder, where the server files are written to the `server` directory next to the
+ * `browser` directory.
+ * @returns whether the server entry point could be updated.
+ */
+function updateServerFile(tree: Tree, path: string): boolean {
+  let content = tree.readText(path);
+  if (!DIST_FOLDER_REGEXP.test(content)) {
+    return false;
+  }
+
+  content = content
+    .replace(
+      DIST_FOLDER_REGEXP,
+      (_, indent: string, name: string) =>
+        `${indent}const serverDistFolder = dirname(fileURLToPath(import.meta.url));\n` +
+        `${indent}const ${name} = resolve(serverDistFolder, '../browser');`,
+    )
+    .replace(INDEX_HTML_REGEXP, `join(serverDistFolder, 'index.server.html')`)
+    .replace(MAIN_MODULE_REGEXP, 'run();\n')
+    .replace(`import * as express from 'express';`, `import express from 'express';`);
+
+  if (!/\bexistsSync\(/.test(content)) {
+    content = updateNamedImports(content, ['fs', 'node:fs'], [], ['existsSync']);
+  }
+  content = updateNamedImports(content, ['path', 'node:path'], ['dirname', 'join', 'resolve'], []);
+  if (!/\bfileURLToPath\b.*\bfrom '(node:)?url';$/m.test(content)) {
+    content = content.replace(
+      /^import .* from '(node:)?path';$/m,
+      (pathImport) => `${pathImport}\nimport { fileURLToPath } from 'node:url';`,
+    );
+  }
+
+  tree.overwrite(path, content);
+
+  return true;
+}
+
+/**
+ * Adds and removes names of a named import declaration, such as `import { join } from 'path';`.
+ * A new declaration is added when the module is not imported yet.
+ */
+function updateNamedImports(
+  content: string,
+  modules: string[],
+  add: string[],
+  remove: string[],
+): string {
+  const importRegExp = new RegExp(`^import \\{([^}]*)\\} from '(${modules.join('|')})';\\n`, 'm');
+  const match = importRegExp.exec(content);
+  if (!match) {
+    return add.length
+      ? content.replace(
+          /^(import .*\n)(?!import )/m,
+          `$1import { ${add.join(', ')} } from '${modules[modules.length - 1]}';\n`,
+        )
+      : content;
+  }
+
+  const names = new Set(
+    match[1]
+      .split(',')
+      .map((name) => name.trim())
+      .filter((name) => name && !remove.includes(name)),
+  );
+  add.forEach((name) => names.add(name));
+
+  return content.replace(
+    importRegExp,
+    names.size ? `import { ${[...names].sort().join(', ')} } from '${match[2]}';\n` : '',
+  );
+}
@@ -0,0 +1,242 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { EmptyTree } from '@angular-devkit/schematics';
+import { SchematicTestRunner, UnitTestTree } from '@angular-devkit/schematics/testing';
+import { Builders, ProjectType, WorkspaceSchema } from '../../utility/workspace-models';
+
+function createWorkSpaceConfig(tree: UnitTestTree) {
+  const angularConfig: WorkspaceSchema = {
+    version: 1,
+    projects: {
+      app: {
+        root: '',
+        sourceRoot: 'src',
+        projectType: ProjectType.Application,
+        prefix: 'app',
+        architect: {
+          build: {
+            builder: Builders.Browser,
+            options: {
+              outputPath: 'dist/app/browser',
+              index: 'src/index.html',
+              main: 'src/main.ts',
+              polyfills: 'zone.js',
+              tsConfig: 'tsconfig.app.json',
+              buildOptimizer: false,
+              vendorChunk: true,
+            },
+            configurations: {
+              production: {
+                buildOptimizer: true,
+                vendorChunk: false,
+                serviceWorker: true,
+              },
+            },
+          },
+          serve: {
+            builder: Builders.DevServer,
+            options: {
+              browserTarget: 'app:build',
+            },
+          },
+          server: {
+            builder: Builders.Server,
+            options: {
+              outputPath: 'dist/app/server',
+              main: 'server.ts',
+              tsConfig: 'tsconfig.server.json',
+            },
+          },
+          'serve-ssr': {
+            builder: Builders.SsrDevServer,
+            options: {
+              browserTarget: 'app:build',
+              serverTarget: 'app:server',
+            },
+          },
+          prerender: {
+            builder: Builders.Prerender,
+            options: {
+              browserTarget: 'app:build:production',
+              serverTarget: 'app:server:production',
+              routes: ['/', '/about'],
+            },
+          },
+          e2e: {
+            builder: Builders.Protractor,
+            options: {
+              devServerTarget: 'app:serve-ssr:production',
+            },
+          },
+        },
+      },
+    },
+  } as unknown as WorkspaceSchema;
+
+  tree.create('/angular.json', JSON.stringify(angularConfig, undefined, 2));
+}
+
+const SERVER_FILE = `import 'zone.js/node';
+
+import { APP_BASE_HREF } from '@angular/common';
+import { CommonEngine } from '@angular/ssr';
+import * as express from 'express';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import bootstrap from './src/main.server';
+
+export function app(): express.Express {
+  const server = express();
+  const distFolder = join(process.cwd(), 'dist/app/browser');
+  const indexHtml = existsSync(join(distFolder, 'index.original.html'))
+    ? join(distFolder, 'index.original.html')
+    : join(distFolder, 'index.html');
+
+  return server;
+}
+
+function run(): void {
+  app().listen(4000);
+}
+
+// Webpack will replace 'require' with '__webpack_require__'
+// '__non_webpack_require__' is a proxy to Node 'require'
+// The below code is to ensure that the server is run only when not requiring the bundle.
+declare const __non_webpack_require__: NodeRequire;
+const mainModule = __non_webpack_require__.main;
+const moduleFilename = mainModule && mainModule.filename || '';
+if (moduleFilename === __filename || moduleFilename.includes('iisnode')) {
+  run();
+}
+
+export default bootstrap;
+`;
+
+describe(`Migration to use the application builder`, () => {
+  const schematicName = 'use-application-builder';
+
+  const schematicRunner = new SchematicTestRunner(
+    'migrations',
+    require.resolve('../migration-collection.json'),
+  );
+
+  let tree: UnitTestTree;
+  beforeEach(() => {
+    tree = new UnitTestTree(new EmptyTree());
+    createWorkSpaceConfig(tree);
+    tree.create('/server.ts', SERVER_FILE);
+    tree.create('/src/main.server.ts', '');
+    tree.create(
+      '/tsconfig.app.json',
+      JSON.stringify({ compilerOptions: { types: [] }, files: ['src/main.ts'] }, undefined, 2),
+    );
+    tree.create(
+      '/tsconfig.server.json',
+      JSON.stringify(
+        { compilerOptions: { types: ['node'] }, files: ['src/main.server.ts', 'server.ts'] },
+        undefined,
+        2,
+      ),
+    );
+    tree.create(
+      '/package.json',
+      JSON.stringify({ scripts: { 'serve:ssr': 'node dist/app/server/main.js' } }, undefined, 2),
+    );
+  });
+
+  it(`should merge the server and prerender targets into the build target`, async () => {
+    const newTree = await schematicRunner.runSchematic(schematicName, {}, tree);
+    const {
+      projects: { app },
+    } = JSON.parse(newTree.readContent('/angular.json'));
+
+    expect(Object.keys(app.architect)).toEqual(['build', 'serve', 'e2e']);
+    expect(app.architect.build.builder).toBe(Builders.Application);
+    expect(app.architect.build.options).toEqual({
+      outputPath: 'dist/app',
+      index: 'src/index.html',
+      browser: 'src/main.ts',
+      polyfills: ['zone.js'],
+      tsConfig: 'tsconfig.app.json',
+      server: 'src/main.server.ts',
+      ssr: 'server.ts',
+      prerender: { routesFile: 'routes.txt' },
+    });
+    expect(newTree.readContent('/routes.txt')).toBe('/\n/about\n');
+  });
+
+  it(`should remove unsupported options`, async () => {
+    const newTree = await schematicRunner.runSchematic(schematicName, {}, tree);
+    const {
+      projects: { app },
+    } = JSON.parse(newTree.readContent('/angular.json'));
+
+    expect(app.architect.build.configurations.production).toEqual({
+      serviceWorker: 'ngsw-config.json',
+    });
+  });
+
+  it(`should update targets referring to removed targets`, async () => {
+    const newTree = await schematicRunner.runSchematic(schematicName, {}, tree);
+    const {
+      projects: { app },
+    } = JSON.parse(newTree.readContent('/angular.json'));
+
+    expect(app.architect.serve.options).toEqual({ buildTarget: 'app:build' });
+    expect(app.architect.e2e.options.devServerTarget).toBe('app:serve:production');
+  });
+
+  it(`should merge the server tsconfig into the browser tsconfig`, async () => {
+    const newTree = await schematicRunner.runSchematic(schematicName, {}, tree);
+    const { compilerOptions, files } = JSON.parse(newTree.readContent('/tsconfig.app.json'));
+
+    expect(files).toEqual(['src/main.ts', 'src/main.server.ts', 'server.ts']);
+    expect(compilerOptions.types).toEqual(['node']);
+    expect(compilerOptions.esModuleInterop).toBeTrue();
+    expect(newTree.exists('/tsconfig.server.json')).toBeFalse();
+  });
+
+  it(`should update the server file to use the application builder output`, async () => {
+    const newTree = await schematicRunner.runSchematic(schematicName, {}, tree);
+    const content = newTree.readContent('/server.ts');
+
+    expect(content).toContain(`import express from 'express';`);
+    expect(content).toContain(`import { dirname, join, resolve } from 'node:path';`);
+    expect(content).toContain(`import { fileURLToPath } from 'node:url';`);
+    expect(content).not.toContain('existsSync');
+    expect(content).toContain(
+      `  const serverDistFolder = dirname(fileURLToPath(import.meta.url));\n` +
+        `  const distFolder = resolve(serverDistFolder, '../browser');\n` +
+        `  const indexHtml = join(serverDistFolder, 'index.server.html');`,
+    );
+    expect(content).not.toContain('__non_webpack_require__');
+    expect(content).toContain(`}\n\nrun();\n\nexport default bootstrap;`);
+  });
+
+  it(`should update the path of the server bundle in scripts`, async () => {
+    const newTree = await schematicRunner.runSchematic(schematicName, {}, tree);
+    const { scripts } = JSON.parse(newTree.readContent('/package.json'));
+
+    expect(scripts['serve:ssr']).toBe('node dist/app/server/server.mjs');
+  });
+
+  it(`should not update projects using other builders`, async () => {
+    const config = JSON.parse(tree.readContent('/angular.json'));
+    config.projects.app.architect.build.builder = '@custom/builder:browser';
+    tree.overwrite('/angular.json', JSON.stringify(config, undefined, 2));
+
+    const newTree = await schematicRunner.runSchematic(schematicName, {}, tree);
+    const {
+      projects: { app },
+    } = JSON.parse(newTree.readContent('/angular.json'));
+
+    expect(app.architect.build.builder).toBe('@custom/builder:browser');
+    expect(app.architect.server).toBeDefined();
+  });
+});
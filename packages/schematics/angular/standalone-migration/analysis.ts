@@ -0,0 +1,289 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { DirEntry, Tree } from '@angular-devkit/schematics';
+import { posix } from 'node:path';
+import ts from '../third_party/github.com/Microsoft/TypeScript/lib/typescript';
+import { getMetadataField } from '../utility/ast-utils';
+
+export type AngularClassKind = 'NgModule' | 'Component' | 'Directive' | 'Pipe';
+
+const ANGULAR_CLASS_KINDS: readonly string[] = ['NgModule', 'Component', 'Directive', 'Pipe'];
+
+/** A TypeScript file of the project and the symbols which it imports. */
+export interface ProjectFile {
+  path: string;
+  sourceFile: ts.SourceFile;
+  /** The imported symbols by local name. */
+  imports: Map<string, { name: string; moduleSpecifier: string }>;
+}
+
+/** A class decorated with one of the Angular decorators. */
+export interface AngularClass {
+  kind: AngularClassKind;
+  name: string;
+  file: ProjectFile;
+  node: ts.ClassDeclaration;
+  metadata: ts.ObjectLiteralExpression;
+  standalone: boolean;
+}
+
+/**
+ * A reference to a symbol within the metadata of an Angular class.
+ * `local` references resolve to the Angular classes of the project, `external` references are
+ * imported from other packages or files which could not be analyzed.
+ */
+export type SymbolReference =
+  | { kind: 'local'; node: ts.Expression; declaration: AngularClass }
+  | { kind: 'external'; node: ts.Expression; name: string; moduleSpecifier: string; file: string }
+  | { kind: 'unresolved'; node: ts.Expression };
+
+export class ProjectAnalysis {
+  readonly files = new Map<string, ProjectFile>();
+  readonly classes: AngularClass[] = [];
+
+  constructor(
+    private readonly tree: Tree,
+    sourceRoot: string,
+  ) {
+    this.visit(tree.getDir(sourceRoot));
+  }
+
+  private visit(directory: DirEntry): void {
+    for (const path of directory.subfiles) {
+      if (path.endsWith('.ts') && !path.endsWith('.d.ts')) {
+        this.addFile(posix.join(directory.path, path));
+      }
+    }
+
+    for (const path of directory.subdirs) {
+      if (path !== 'node_modules' && !path.startsWith('.')) {
+        this.visit(directory.dir(path));
+      }
+    }
+  }
+
+  private addFile(path: string): void {
+    const sourceFile = ts.createSourceFile(
+      path,
+      this.tree.readText(path),
+      ts.ScriptTarget.Latest,
+      true,
+    );
+    const file: ProjectFile = { path, sourceFile, imports: new Map() };
+    this.files.set(path, file);
+
+    for (const statement of sourceFile.statements) {
+      if (
+        ts.isImportDeclaration(statement) &&
+        ts.isStringLiteral(statement.moduleSpecifier) &&
+        statement.importClause?.namedBindings &&
+        ts.isNamedImports(statement.importClause.namedBindings)
+      ) {
+        for (const element of statement.importClause.namedBindings.elements) {
+          file.imports.set(element.name.text, {
+            name: (element.propertyName ?? element.name).text,
+            moduleSpecifier: statement.moduleSpecifier.text,
+          });
+        }
+      } else if (ts.isClassDeclaration(statement) && statement.name) {
+        const angularClass = this.getAngularClass(file, statement);
+        if (angularClass) {
+          this.classes.push(angularClass);
+        }
+      }
+    }
+  }
+
+  private getAngularClass(file: ProjectFile, node: ts.ClassDeclaration): AngularClass | undefined {
+    for (const decorator of ts.getDecorators(node) ?? []) {
+      if (
+        !ts.isCallExpression(decorator.expression) ||
+        !ts.isIdentifier(decorator.expression.expression)
+      ) {
+        continue;
+      }
+
+      const imported = file.imports.get(decorator.expression.expression.text);
+      const [metadata] = decorator.expression.arguments;
+      if (
+        imported?.moduleSpecifier !== '@angular/core' ||
+        !ANGULAR_CLASS_KINDS.includes(imported.name) ||
+        !metadata ||
+        !ts.isObjectLiteralExpression(metadata)
+      ) {
+        continue;
+      }
+
+      const [standalone] = getMetadataField(metadata, 'standalone');
+
+      return {
+        kind: imported.name as AngularClassKind,
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        name: node.name!.text,
+        file,
+        node,
+        metadata,
+        standalone:
+          !!standalone &&
+          ts.isPropertyAssignment(standalone) &&
+          standalone.initializer.kind === ts.SyntaxKind.TrueKeyword,
+      };
+    }
+
+    return undefined;
+  }
+
+  /** Finds the Angular class with the given name which is declared in a file. */
+  findClass(path: string, name: string): AngularClass | undefined {
+    return this.classes.find((c) => c.file.path === path && c.name === name);
+  }
+
+  /**
+   * Resolves the file of a relative module specifier.
+   * @returns the path of the file or `undefined` when the file is not part of the project.
+   */
+  resolveModule(fromPath: string, moduleSpecifier: string): string | undefined {
+    if (!moduleSpecifier.startsWith('.')) {
+      return undefined;
+    }
+
+    const path = posix.join(posix.dirname(fromPath), moduleSpecifier);
+
+    return [`${path}.ts`, `${path}/index.ts`].find((candidate) => this.files.has(candidate));
+  }
+
+  /** Resolves an expression used within the metadata of an Angular class of a file. */
+  resolveReference(file: ProjectFile, node: ts.Expression): SymbolReference {
+    if (!ts.isIdentifier(node)) {
+      return { kind: 'unresolved', node };
+    }
+
+    const localClass = this.findClass(file.path, node.text);
+    if (localClass) {
+      return { kind: 'local', node, declaration: localClass };
+    }
+
+    const imported = file.imports.get(node.text);
+    if (!imported) {
+      return { kind: 'unresolved', node };
+    }
+
+    const resolvedPath = this.resolveModule(file.path, imported.moduleSpecifier);
+    const declaration = resolvedPath && this.findClass(resolvedPath, imported.name);
+    if (declaration) {
+      return { kind: 'local', node, declaration };
+    }
+
+    return {
+      kind: 'external',
+      node,
+      name: imported.name,
+      moduleSpecifier: imported.moduleSpecifier,
+      file: file.path,
+    };
+  }
+
+  /**
+   * Resolves the elements of an array within the metadata of an Angular class.
+   * @returns the references or `undefined` when the field is not an array literal.
+   */
+  getMetadataArray(
+    angularClass: AngularClass,
+    field: string,
+  ): { array?: ts.ArrayLiteralExpression; references: SymbolReference[] } | undefined {
+    const [property] = getMetadataField(angularClass.metadata, field);
+    if (!property) {
+      return { references: [] };
+    }
+
+    if (!ts.isPropertyAssignment(property) || !ts.isArrayLiteralExpression(property.initializer)) {
+      return undefined;
+    }
+
+    const array = property.initializer;
+
+    return {
+      array,
+      references: array.elements.map((element) =>
+        this.resolveReference(angularClass.file, element),
+      ),
+    };
+  }
+
+  /**
+   * Gets the template of a component.
+   * @returns the template or `undefined` when it cannot be determined statically.
+   */
+  getTemplate(component: AngularClass): string | undefined {
+    const [template] = getMetadataField(component.metadata, 'template');
+    if (template && ts.isPropertyAssignment(template)) {
+      return ts.isStringLiteralLike(template.initializer) ? template.initializer.text : undefined;
+    }
+
+    const templateUrl = getStringField(component, 'templateUrl');
+    const templatePath = templateUrl && posix.join(posix.dirname(component.file.path), templateUrl);
+
+    return templatePath && this.tree.exists(templatePath)
+      ? this.tree.readText(templatePath)
+      : undefined;
+  }
+}
+
+/** Gets the value of a string field within the metadata of an Angular class. */
+export function getStringField(angularClass: AngularClass, field: string): string | undefined {
+  const [property] = getMetadataField(angularClass.metadata, field);
+
+  return property &&
+    ts.isPropertyAssignment(property) &&
+    ts.isStringLiteralLike(property.initializer)
+    ? property.initializer.text
+    : undefined;
+}
+
+/**
+ * Checks whether a directive, component or pipe may be used by a template. Selectors which cannot
+ * be checked, such as class selectors, are assumed to be used.
+ */
+export function isUsedInTemplate(template: string, declaration: AngularClass): boolean {
+  if (declaration.kind === 'Pipe') {
+    const name = getStringField(declaration, 'name');
+
+    return !name || new RegExp(`\\|\\s*${escapeRegExp(name)}\\b`).test(template);
+  }
+
+  const selector = getStringField(declaration, 'selector');
+
+  return !selector || selector.split(',').some((part) => matchesSelector(template, part.trim()));
+}
+
+function matchesSelector(template: string, selector: string): boolean {
+  // Only element and attribute selectors are checked.
+  const match = /^([\w-]+)?((?:\[[^\]]+\])*)$/.exec(selector);
+  if (!match) {
+    return true;
+  }
+
+  const [, element, attributes] = match;
+  if (element && !new RegExp(`<${escapeRegExp(element)}[\\s/>]`).test(template)) {
+    return false;
+  }
+
+  for (const [, attribute] of attributes.matchAll(/\[([^\]=~|^$*]+)[^\]]*\]/g)) {
+    // Attributes can also be used as bindings, such as `[attr]`, `(attr)` and `*attr`.
+    if (!new RegExp(`[\\s[(*]${escapeRegExp(attribute.trim())}[\\s=\\])>/]`).test(template)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
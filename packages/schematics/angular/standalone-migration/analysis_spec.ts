@@ -0,0 +1,179 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { HostTree } from '@angular-devkit/schematics';
+import { AngularClass, ProjectAnalysis, isUsedInTemplate } from './analysis';
+
+describe('ProjectAnalysis', () => {
+  let tree: HostTree;
+
+  beforeEach(() => {
+    tree = new HostTree();
+    tree.create(
+      '/src/app/foo.component.ts',
+      `import { Component } from '@angular/core';\n` +
+        `import { Shared } from '../shared';\n\n` +
+        `@Component({ selector: 'app-foo', templateUrl: './foo.component.html' })\n` +
+        `export class FooComponent {}\n\n` +
+        `@Component({ selector: 'app-bar', template: '<app-foo />', standalone: true })\n` +
+        `export class BarComponent {}\n\n` +
+        `export class Plain {}\n`,
+    );
+    tree.create('/src/app/foo.component.html', '<p>foo</p>');
+    tree.create(
+      '/src/app/app.module.ts',
+      `import { NgModule } from '@angular/core';\n` +
+        `import { CommonModule as Common } from '@angular/common';\n` +
+        `import { FooComponent } from './foo.component';\n\n` +
+        `@NgModule({ declarations: [FooComponent, Missing], imports: [Common, Other.forRoot()] })\n` +
+        `export class AppModule {}\n`,
+    );
+    tree.create('/src/shared/index.ts', `export const Shared = 1;\n`);
+    tree.create('/src/types.d.ts', `export declare const value: number;\n`);
+    tree.create('/src/node_modules/lib/index.ts', `export const lib = 1;\n`);
+  });
+
+  it('should find the TypeScript files of the source root', () => {
+    const analysis = new ProjectAnalysis(tree, '/src');
+
+    expect([...analysis.files.keys()].sort()).toEqual([
+      '/src/app/app.module.ts',
+      '/src/app/foo.component.ts',
+      '/src/shared/index.ts',
+    ]);
+  });
+
+  it('should find the decorated classes and whether they are standalone', () => {
+    const analysis = new ProjectAnalysis(tree, '/src');
+
+    expect(
+      analysis.classes.map(({ kind, name, standalone }) => ({ kind, name, standalone })),
+    ).toEqual(
+      jasmine.arrayWithExactContents([
+        { kind: 'Component', name: 'FooComponent', standalone: false },
+        { kind: 'Component', name: 'BarComponent', standalone: true },
+        { kind: 'NgModule', name: 'AppModule', standalone: false },
+      ]),
+    );
+  });
+
+  it('should resolve relative module specifiers to files and index files', () => {
+    const analysis = new ProjectAnalysis(tree, '/src');
+
+    expect(analysis.resolveModule('/src/app/app.module.ts', './foo.component')).toBe(
+      '/src/app/foo.component.ts',
+    );
+    expect(analysis.resolveModule('/src/app/foo.component.ts', '../shared')).toBe(
+      '/src/shared/index.ts',
+    );
+    expect(analysis.resolveModule('/src/app/app.module.ts', './missing')).toBeUndefined();
+    expect(analysis.resolveModule('/src/app/app.module.ts', '@angular/core')).toBeUndefined();
+  });
+
+  it('should resolve the elements of metadata arrays', () => {
+    const analysis = new ProjectAnalysis(tree, '/src');
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const module = analysis.findClass('/src/app/app.module.ts', 'AppModule')!;
+
+    const declarations = analysis.getMetadataArray(module, 'declarations');
+    const imports = analysis.getMetadataArray(module, 'imports');
+
+    expect(declarations?.references.map(({ kind }) => kind)).toEqual(['local', 'unresolved']);
+    expect(declarations?.references[0]).toEqual(
+      jasmine.objectContaining({
+        declaration: analysis.findClass('/src/app/foo.component.ts', 'FooComponent'),
+      }),
+    );
+    expect(imports?.references[0]).toEqual(
+      jasmine.objectContaining({
+        kind: 'external',
+        name: 'CommonModule',
+        moduleSpecifier: '@angular/common',
+      }),
+    );
+    expect(imports?.references[1].kind).toBe('unresolved');
+    expect(analysis.getMetadataArray(module, 'exports')).toEqual({ references: [] });
+  });
+
+  it('should not resolve metadata fields which are not array literals', () => {
+    tree.overwrite(
+      '/src/app/app.module.ts',
+      `import { NgModule } from '@angular/core';\n\n` +
+        `const DECLARATIONS = [];\n\n` +
+        `@NgModule({ declarations: DECLARATIONS })\n` +
+        `export class AppModule {}\n`,
+    );
+    const analysis = new ProjectAnalysis(tree, '/src');
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const module = analysis.findClass('/src/app/app.module.ts', 'AppModule')!;
+
+    expect(analysis.getMetadataArray(module, 'declarations')).toBeUndefined();
+  });
+
+  it('should get inline and external templates', () => {
+    const analysis = new ProjectAnalysis(tree, '/src');
+    const path = '/src/app/foo.component.ts';
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    expect(analysis.getTemplate(analysis.findClass(path, 'FooComponent')!)).toBe('<p>foo</p>');
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    expect(analysis.getTemplate(analysis.findClass(path, 'BarComponent')!)).toBe('<app-foo />');
+  });
+});
+
+describe('isUsedInTemplate', () => {
+  function createDeclaration(kind: AngularClass['kind'], metadata: string): AngularClass {
+    const tree = new HostTree();
+    tree.create(
+      '/src/declaration.ts',
+      `import { ${kind} } from '@angular/core';\n\n` +
+        `@${kind}(${metadata})\n` +
+        `export class Declaration {}\n`,
+    );
+
+    return new ProjectAnalysis(tree, '/src').classes[0];
+  }
+
+  it('should check the element selectors of components', () => {
+    const component = createDeclaration('Component', `{ selector: 'app-foo' }`);
+
+    expect(isUsedInTemplate('<app-foo></app-foo>', component)).toBeTrue();
+    expect(isUsedInTemplate('<app-foo/>', component)).toBeTrue();
+    expect(isUsedInTemplate('<app-foobar></app-foobar>', component)).toBeFalse();
+  });
+
+  it('should check attribute selectors, including bindings and structural directives', () => {
+    const directive = createDeclaration('Directive', `{ selector: '[appHighlight]' }`);
+
+    expect(isUsedInTemplate('<p appHighlight>', directive)).toBeTrue();
+    expect(isUsedInTemplate('<p [appHighlight]="color">', directive)).toBeTrue();
+    expect(isUsedInTemplate('<p *appHighlight>', directive)).toBeTrue();
+    expect(isUsedInTemplate('<p appHighlighted>', directive)).toBeFalse();
+  });
+
+  it('should check each selector of a selector list', () => {
+    const directive = createDeclaration('Directive', `{ selector: 'app-foo, [appFoo]' }`);
+
+    expect(isUsedInTemplate('<div appFoo></div>', directive)).toBeTrue();
+    expect(isUsedInTemplate('<div></div>', directive)).toBeFalse();
+  });
+
+  it('should assume that selectors which cannot be checked are used', () => {
+    const directive = createDeclaration('Directive', `{ selector: '.foo:not(p)' }`);
+
+    expect(isUsedInTemplate('<div></div>', directive)).toBeTrue();
+  });
+
+  it('should check the names of pipes', () => {
+    const pipe = createDeclaration('Pipe', `{ name: 'currencyCode' }`);
+
+    expect(isUsedInTemplate('{{ value | currencyCode }}', pipe)).toBeTrue();
+    expect(isUsedInTemplate('{{ value | currencyCode: "EUR" }}', pipe)).toBeTrue();
+    expect(isUsedInTemplate('{{ value | currency }}', pipe)).toBeFalse();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { posix } from 'node:path';
+import ts from '../third_party/github.com/Microsoft/TypeScript/lib/typescript';
+import { AngularClass, ProjectFile, SymbolReference } from './analysis';
+
+/** Modules which only configure providers and therefore must not be imported by components. */
+export const PROVIDER_MODULES = new Set([
+  'BrowserAnimationsModule',
+  'HttpClientJsonpModule',
+  'HttpClientModule',
+  'NoopAnimationsModule',
+  'ServiceWorkerModule',
+]);
+
+/** A symbol which can be imported by the files of the project. */
+export interface Dependency {
+  name: string;
+  /** The declaration, when the symbol is an Angular class of the project. */
+  declaration?: AngularClass;
+  /** The module specifier of other symbols, which is relative to `file` for relative paths. */
+  moduleSpecifier?: string;
+  file?: string;
+}
+
+/** Gets the dependencies of components for an external symbol imported by an NgModule. */
+export function toComponentDependencies(
+  reference: Extract<SymbolReference, { kind: 'external' }>,
+): Dependency[] {
+  if (reference.name === 'BrowserModule') {
+    return [{ name: 'CommonModule', moduleSpecifier: '@angular/common' }];
+  }
+
+  return PROVIDER_MODULES.has(reference.name)
+    ? []
+    : [{ name: reference.name, moduleSpecifier: reference.moduleSpecifier, file: reference.file }];
+}
+
+/** Gets the module specifier to import a dependency from a file. */
+export function getModuleSpecifier(dependency: Dependency, fromPath: string): string {
+  let path: string;
+  if (dependency.declaration) {
+    path = dependency.declaration.file.path.replace(/\.ts$/, '');
+  } else if (dependency.file && dependency.moduleSpecifier?.startsWith('.')) {
+    path = posix.join(posix.dirname(dependency.file), dependency.moduleSpecifier);
+  } else {
+    return dependency.moduleSpecifier ?? '';
+  }
+
+  const relativePath = posix.relative(posix.dirname(fromPath), path);
+
+  return relativePath.startsWith('.') ? relativePath : './' + relativePath;
+}
+
+export function deduplicate(dependencies: Dependency[]): Dependency[] {
+  const seen = new Set<string>();
+
+  return dependencies.filter((dependency) => {
+    const key = dependency.declaration
+      ? `${dependency.declaration.file.path}#${dependency.name}`
+      : `${dependency.moduleSpecifier}#${dependency.name}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+
+    return true;
+  });
+}
+
+/**
+ * Gets the dependencies of expressions which are moved out of a file.
+ * @returns the dependencies or `undefined` when the expressions use symbols declared in the file.
+ */
+export function getExpressionDependencies(
+  file: ProjectFile,
+  expressions: ts.Node[],
+): Dependency[] | undefined {
+  const declaredNames = new Set<string>();
+  for (const statement of file.sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      for (const { name } of statement.declarationList.declarations) {
+        if (ts.isIdentifier(name)) {
+          declaredNames.add(name.text);
+        }
+      }
+    } else if (
+      (ts.isClassDeclaration(statement) ||
+        ts.isFunctionDeclaration(statement) ||
+        ts.isEnumDeclaration(statement)) &&
+      statement.name
+    ) {
+      declaredNames.add(statement.name.text);
+    }
+  }
+
+  const dependencies: Dependency[] = [];
+  let usesDeclaredNames = false;
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isIdentifier(node) &&
+      !(ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) &&
+      !(ts.isPropertyAssignment(node.parent) && node.parent.name === node)
+    ) {
+      const imported = file.imports.get(node.text);
+      if (imported && imported.name === node.text) {
+        dependencies.push({
+          name: node.text,
+          moduleSpecifier: imported.moduleSpecifier,
+          file: file.path,
+        });
+      } else if (imported || declaredNames.has(node.text)) {
+        usesDeclaredNames = true;
+      }
+    }
+
+    node.forEachChild(visit);
+  };
+  expressions.forEach(visit);
+
+  return usesDeclaredNames ? undefined : deduplicate(dependencies);
+}
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { HostTree } from '@angular-devkit/schematics';
+import ts from '../third_party/github.com/Microsoft/TypeScript/lib/typescript';
+import { AngularClass, ProjectAnalysis, ProjectFile, SymbolReference } from './analysis';
+import {
+  deduplicate,
+  getExpressionDependencies,
+  getModuleSpecifier,
+  toComponentDependencies,
+} from './dependencies';
+
+describe('standalone migration dependencies', () => {
+  let analysis: ProjectAnalysis;
+  let appModule: ProjectFile;
+  let fooComponent: AngularClass;
+
+  beforeEach(() => {
+    const tree = new HostTree();
+    tree.create(
+      '/src/app/app.module.ts',
+      `import { NgModule } from '@angular/core';\n` +
+        `import { RouterModule } from '@angular/router';\n` +
+        `import { StoreModule } from '@ngrx/store';\n` +
+        `import { reducers } from './state/reducers';\n` +
+        `import { environment as env } from '../environments/environment';\n\n` +
+        `const routes = [];\n\n` +
+        `@NgModule({\n` +
+        `  imports: [StoreModule.forRoot(reducers), RouterModule.forRoot(routes)],\n` +
+        `  providers: [{ provide: 'production', useValue: env.production }],\n` +
+        `})\n` +
+        `export class AppModule {}\n`,
+    );
+    tree.create(
+      '/src/app/foo/foo.component.ts',
+      `import { Component } from '@angular/core';\n\n` +
+        `@Component({ selector: 'app-foo', template: '' })\n` +
+        `export class FooComponent {}\n`,
+    );
+
+    analysis = new ProjectAnalysis(tree, '/src');
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    appModule = analysis.files.get('/src/app/app.module.ts')!;
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fooComponent = analysis.classes.find(({ name }) => name === 'FooComponent')!;
+  });
+
+  describe('toComponentDependencies', () => {
+    function external(
+      name: string,
+      moduleSpecifier: string,
+    ): Extract<SymbolReference, { kind: 'external' }> {
+      return {
+        kind: 'external',
+        node: ts.factory.createIdentifier(name),
+        name,
+        moduleSpecifier,
+        file: appModule.path,
+      };
+    }
+
+    it('should replace the BrowserModule with the CommonModule', () => {
+      expect(
+        toComponentDependencies(external('BrowserModule', '@angular/platform-browser')),
+      ).toEqual([{ name: 'CommonModule', moduleSpecifier: '@angular/common' }]);
+    });
+
+    it('should omit modules which only configure providers', () => {
+      expect(toComponentDependencies(external('HttpClientModule', '@angular/common/http'))).toEqual(
+        [],
+      );
+    });
+
+    it('should keep other modules', () => {
+      expect(toComponentDependencies(external('FormsModule', '@angular/forms'))).toEqual([
+        { name: 'FormsModule', moduleSpecifier: '@angular/forms', file: '/src/app/app.module.ts' },
+      ]);
+    });
+  });
+
+  describe('getModuleSpecifier', () => {
+    it('should get relative paths to the declarations of the project', () => {
+      const dependency = { name: 'FooComponent', declaration: fooComponent };
+
+      expect(getModuleSpecifier(dependency, '/src/app/app.module.ts')).toBe('./foo/foo.component');
+      expect(getModuleSpecifier(dependency, '/src/main.ts')).toBe('./app/foo/foo.component');
+      expect(getModuleSpecifier(dependency, '/src/app/bar/bar.component.ts')).toBe(
+        '../foo/foo.component',
+      );
+    });
+
+    it('should rebase relative module specifiers of other files', () => {
+      const dependency = {
+        name: 'reducers',
+        moduleSpecifier: './state/reducers',
+        file: '/src/app/app.module.ts',
+      };
+
+      expect(getModuleSpecifier(dependency, '/src/main.ts')).toBe('./app/state/reducers');
+    });
+
+    it('should keep the module specifiers of packages', () => {
+      const dependency = { name: 'StoreModule', moduleSpecifier: '@ngrx/store', file: '/src/a.ts' };
+
+      expect(getModuleSpecifier(dependency, '/src/main.ts')).toBe('@ngrx/store');
+    });
+  });
+
+  describe('deduplicate', () => {
+    it('should remove dependencies which are imported from the same module or file', () => {
+      const dependencies = deduplicate([
+        { name: 'FooComponent', declaration: fooComponent },
+        { name: 'CommonModule', moduleSpecifier: '@angular/common' },
+        { name: 'FooComponent', declaration: fooComponent },
+        { name: 'CommonModule', moduleSpecifier: '@angular/common', file: '/src/main.ts' },
+        { name: 'CommonModule', moduleSpecifier: './common' },
+      ]);
+
+      expect(dependencies.map(({ name }) => name)).toEqual([
+        'FooComponent',
+        'CommonModule',
+        'CommonModule',
+      ]);
+    });
+  });
+
+  describe('getExpressionDependencies', () => {
+    function getExpression(index: number) {
+      const module = analysis.findClass(appModule.path, 'AppModule');
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const imports = analysis.getMetadataArray(module!, 'imports')!;
+
+      return imports.references[index].node;
+    }
+
+    it('should get the imports used by the expressions', () => {
+      expect(getExpressionDependencies(appModule, [getExpression(0)])).toEqual([
+        { name: 'StoreModule', moduleSpecifier: '@ngrx/store', file: appModule.path },
+        { name: 'reducers', moduleSpecifier: './state/reducers', file: appModule.path },
+      ]);
+    });
+
+    it('should not get dependencies for expressions using symbols declared in the file', () => {
+      expect(getExpressionDependencies(appModule, [getExpression(1)])).toBeUndefined();
+    });
+
+    it('should not get dependencies for expressions using aliased imports', () => {
+      const module = analysis.findClass(appModule.path, 'AppModule');
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const [providers] = module!.metadata.properties.slice(-1);
+
+      expect(getExpressionDependencies(appModule, [providers])).toBeUndefined();
+    });
+  });
+});
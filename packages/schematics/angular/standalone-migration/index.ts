@@ -0,0 +1,38 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { normalize } from '@angular-devkit/core';
+import { Rule, SchematicsException } from '@angular-devkit/schematics';
+import { posix } from 'node:path';
+import { getMainFilePath } from '../utility/standalone/util';
+import { getWorkspace } from '../utility/workspace';
+import { ProjectAnalysis } from './analysis';
+import { StandaloneMigration } from './migration';
+import { Schema as StandaloneMigrationOptions } from './schema';
+
+export default function (options: StandaloneMigrationOptions): Rule {
+  return async (tree, context) => {
+    const workspace = await getWorkspace(tree);
+    const project = workspace.projects.get(options.project);
+    if (!project) {
+      throw new SchematicsException(`Project "${options.project}" does not exist.`);
+    }
+
+    const sourceRoot = normalize('/' + (project.sourceRoot ?? posix.join(project.root, 'src')));
+    const migrationPath = normalize('/' + (options.path ?? ''));
+    const mainFilePath = await getMainFilePath(tree, options.project).catch(() => undefined);
+
+    const migration = new StandaloneMigration(
+      tree,
+      new ProjectAnalysis(tree, sourceRoot),
+      migrationPath,
+      context.logger,
+    );
+    migration.run(mainFilePath && normalize('/' + mainFilePath));
+  };
+}
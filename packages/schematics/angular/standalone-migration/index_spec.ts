@@ -0,0 +1,277 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { SchematicTestRunner, UnitTestTree } from '@angular-devkit/schematics/testing';
+import { Schema as ApplicationOptions, Style } from '../application/schema';
+import { Schema as WorkspaceOptions } from '../workspace/schema';
+import { Schema as StandaloneMigrationOptions } from './schema';
+
+describe('Standalone Migration Schematic', () => {
+  const schematicRunner = new SchematicTestRunner(
+    '@schematics/angular',
+    require.resolve('../collection.json'),
+  );
+  const defaultOptions: StandaloneMigrationOptions = {
+    project: 'bar',
+  };
+
+  const workspaceOptions: WorkspaceOptions = {
+    name: 'workspace',
+    newProjectRoot: 'projects',
+    version: '6.0.0',
+  };
+
+  const appOptions: ApplicationOptions = {
+    name: 'bar',
+    inlineStyle: false,
+    inlineTemplate: false,
+    routing: true,
+    style: Style.Css,
+    skipTests: false,
+    skipPackageJson: false,
+    standalone: false,
+  };
+
+  const appPath = '/projects/bar/src/app';
+  let appTree: UnitTestTree;
+
+  function addAppModuleImport(name: string, moduleSpecifier: string): void {
+    const appModule = appTree.readContent(`${appPath}/app.module.ts`);
+    appTree.overwrite(
+      `${appPath}/app.module.ts`,
+      appModule
+        .replace(
+          `import { AppComponent } from './app.component';`,
+          `import { AppComponent } from './app.component';\n` +
+            `import { ${name} } from '${moduleSpecifier}';`,
+        )
+        .replace(`FeatureModule\n`, `FeatureModule,\n    ${name}\n`),
+    );
+  }
+
+  beforeEach(async () => {
+    appTree = await schematicRunner.runSchematic('workspace', workspaceOptions);
+    appTree = await schematicRunner.runSchematic('application', appOptions, appTree);
+    appTree = await schematicRunner.runSchematic(
+      'module',
+      { name: 'feature', project: 'bar' },
+      appTree,
+    );
+    appTree = await schematicRunner.runSchematic(
+      'component',
+      { name: 'feature/foo', project: 'bar', module: 'feature', export: true, standalone: false },
+      appTree,
+    );
+
+    const appModule = appTree.readContent(`${appPath}/app.module.ts`);
+    appTree.overwrite(
+      `${appPath}/app.module.ts`,
+      appModule
+        .replace(
+          `import { AppComponent } from './app.component';`,
+          `import { AppComponent } from './app.component';\n` +
+            `import { FeatureModule } from './feature/feature.module';`,
+        )
+        .replace(`AppRoutingModule\n`, `AppRoutingModule,\n    FeatureModule\n`),
+    );
+    appTree.overwrite(
+      `${appPath}/app.component.html`,
+      `<app-foo></app-foo>\n<router-outlet></router-outlet>\n`,
+    );
+  });
+
+  it('should convert the declarations to standalone components', async () => {
+    const tree = await schematicRunner.runSchematic(
+      'standalone-migration',
+      defaultOptions,
+      appTree,
+    );
+    const content = tree.readContent(`${appPath}/app.component.ts`);
+
+    expect(content).toContain(
+      `  selector: 'app-root',\n  standalone: true,\n` +
+        `  imports: [CommonModule, RouterModule, FooComponent],\n`,
+    );
+    expect(content).toContain(`import { CommonModule } from '@angular/common';`);
+    expect(content).toContain(`import { RouterModule } from '@angular/router';`);
+    expect(content).toContain(`import { FooComponent } from './feature/foo/foo.component';`);
+    expect(tree.readContent(`${appPath}/feature/foo/foo.component.ts`)).toContain(
+      `  selector: 'app-foo',\n  standalone: true,\n  imports: [CommonModule],\n`,
+    );
+  });
+
+  it('should remove the emptied NgModules', async () => {
+    const tree = await schematicRunner.runSchematic(
+      'standalone-migration',
+      defaultOptions,
+      appTree,
+    );
+
+    expect(tree.exists(`${appPath}/app.module.ts`)).toBeFalse();
+    expect(tree.exists(`${appPath}/feature/feature.module.ts`)).toBeFalse();
+    expect(tree.exists(`${appPath}/app-routing.module.ts`)).toBeTrue();
+  });
+
+  it('should bootstrap the application with bootstrapApplication', async () => {
+    const tree = await schematicRunner.runSchematic(
+      'standalone-migration',
+      defaultOptions,
+      appTree,
+    );
+    const content = tree.readContent('/projects/bar/src/main.ts');
+
+    expect(content).toContain(
+      `bootstrapApplication(AppComponent, {\n  providers: [importProvidersFrom(AppRoutingModule)],\n})`,
+    );
+    expect(content).toContain(`import { bootstrapApplication } from '@angular/platform-browser';`);
+    expect(content).toContain(`import { importProvidersFrom } from '@angular/core';`);
+    expect(content).toContain(`import { AppComponent } from './app/app.component';`);
+    expect(content).toContain(`import { AppRoutingModule } from './app/app-routing.module';`);
+    expect(content).not.toContain('AppModule');
+    expect(content).not.toContain('platformBrowserDynamic');
+  });
+
+  it('should import the converted declarations in unit tests', async () => {
+    const tree = await schematicRunner.runSchematic(
+      'standalone-migration',
+      defaultOptions,
+      appTree,
+    );
+    const content = tree.readContent(`${appPath}/app.component.spec.ts`);
+
+    expect(content).toContain(
+      `imports: [\n        RouterTestingModule,\n        AppComponent\n      ],`,
+    );
+    expect(content).not.toContain('declarations');
+  });
+
+  it('should only migrate the declarations within the given path', async () => {
+    const tree = await schematicRunner.runSchematic(
+      'standalone-migration',
+      { ...defaultOptions, path: 'projects/bar/src/app/feature' },
+      appTree,
+    );
+    const appModule = tree.readContent(`${appPath}/app.module.ts`);
+
+    expect(tree.readContent(`${appPath}/app.component.ts`)).not.toContain('standalone');
+    expect(tree.exists(`${appPath}/feature/feature.module.ts`)).toBeFalse();
+    expect(appModule).toContain('FooComponent');
+    expect(appModule).toContain(`import { FooComponent } from './feature/foo/foo.component';`);
+    expect(appModule).not.toContain('FeatureModule');
+    expect(tree.readContent('/projects/bar/src/main.ts')).toContain('bootstrapModule(AppModule)');
+  });
+
+  it('should keep NgModules whose imports provide services', async () => {
+    appTree.create(
+      `${appPath}/core/core.module.ts`,
+      `import { NgModule } from '@angular/core';\n` +
+        `import { HttpClientModule } from '@angular/common/http';\n\n` +
+        `@NgModule({\n  imports: [HttpClientModule],\n})\n` +
+        `export class CoreModule {}\n`,
+    );
+    addAppModuleImport('CoreModule', './core/core.module');
+
+    const tree = await schematicRunner.runSchematic(
+      'standalone-migration',
+      defaultOptions,
+      appTree,
+    );
+    const content = tree.readContent('/projects/bar/src/main.ts');
+
+    expect(tree.exists(`${appPath}/core/core.module.ts`)).toBeTrue();
+    expect(tree.exists(`${appPath}/feature/feature.module.ts`)).toBeFalse();
+    expect(content).toContain(`importProvidersFrom(AppRoutingModule, CoreModule)`);
+    expect(content).toContain(`import { CoreModule } from './app/core/core.module';`);
+    expect(tree.readContent(`${appPath}/app.component.ts`)).not.toContain('CoreModule');
+  });
+
+  it('should keep NgModules which import modules with providers', async () => {
+    const featureModule = appTree.readContent(`${appPath}/feature/feature.module.ts`);
+    appTree.overwrite(
+      `${appPath}/feature/feature.module.ts`,
+      featureModule
+        .replace(
+          `import { CommonModule } from '@angular/common';`,
+          `import { CommonModule } from '@angular/common';\n` +
+            `import { RouterModule } from '@angular/router';`,
+        )
+        .replace(/CommonModule\n/, `CommonModule,\n    RouterModule.forChild([])\n`),
+    );
+
+    const tree = await schematicRunner.runSchematic(
+      'standalone-migration',
+      defaultOptions,
+      appTree,
+    );
+    const content = tree.readContent(`${appPath}/feature/feature.module.ts`);
+
+    expect(content).toContain('RouterModule.forChild([])');
+    expect(content).toContain('FooComponent');
+    expect(content).not.toContain('declarations');
+    expect(tree.readContent(`${appPath}/feature/foo/foo.component.ts`)).toContain(
+      `  standalone: true,\n  imports: [CommonModule, RouterModule],\n`,
+    );
+    expect(tree.readContent('/projects/bar/src/main.ts')).toContain(
+      `importProvidersFrom(AppRoutingModule, FeatureModule)`,
+    );
+  });
+
+  it('should convert pipes and directives', async () => {
+    appTree = await schematicRunner.runSchematic(
+      'pipe',
+      { name: 'feature/bar', project: 'bar', module: 'feature', export: true, standalone: false },
+      appTree,
+    );
+    appTree = await schematicRunner.runSchematic(
+      'directive',
+      { name: 'feature/baz', project: 'bar', module: 'feature', export: true, standalone: false },
+      appTree,
+    );
+
+    const tree = await schematicRunner.runSchematic(
+      'standalone-migration',
+      defaultOptions,
+      appTree,
+    );
+
+    expect(tree.readContent(`${appPath}/feature/bar.pipe.ts`)).toContain(
+      `  name: 'bar',\n  standalone: true\n`,
+    );
+    expect(tree.readContent(`${appPath}/feature/baz.directive.ts`)).toContain(
+      `  selector: '[appBaz]',\n  standalone: true\n`,
+    );
+    expect(tree.exists(`${appPath}/feature/feature.module.ts`)).toBeFalse();
+  });
+
+  it('should warn about NgModules whose metadata cannot be analyzed statically', async () => {
+    const featureModule = appTree.readContent(`${appPath}/feature/feature.module.ts`);
+    appTree.overwrite(
+      `${appPath}/feature/feature.module.ts`,
+      featureModule
+        .replace('@NgModule', 'const DECLARATIONS = [FooComponent];\n\n@NgModule')
+        .replace(/declarations: \[[^\]]*\]/, 'declarations: DECLARATIONS'),
+    );
+    const messages: string[] = [];
+    schematicRunner.logger.subscribe(({ message }) => messages.push(message));
+
+    const tree = await schematicRunner.runSchematic(
+      'standalone-migration',
+      defaultOptions,
+      appTree,
+    );
+
+    expect(messages).toContain(
+      `NgModule "FeatureModule" in "${appPath}/feature/feature.module.ts" was not migrated ` +
+        'as its metadata cannot be analyzed statically.',
+    );
+    expect(tree.readContent(`${appPath}/feature/foo/foo.component.ts`)).not.toContain('standalone');
+    expect(tree.readContent(`${appPath}/feature/feature.module.ts`)).toContain(
+      'declarations: DECLARATIONS',
+    );
+  });
+});
@@ -0,0 +1,516 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { logging } from '@angular-devkit/core';
+import { Tree } from '@angular-devkit/schematics';
+import ts from '../third_party/github.com/Microsoft/TypeScript/lib/typescript';
+import { getMetadataField } from '../utility/ast-utils';
+import { findBootstrapModuleCall } from '../utility/ng-ast-utils';
+import {
+  AngularClass,
+  ProjectAnalysis,
+  ProjectFile,
+  SymbolReference,
+  isUsedInTemplate,
+} from './analysis';
+import { Dependency, deduplicate, getExpressionDependencies } from './dependencies';
+import { NgModuleGraph, NgModuleInfo } from './ng-module-graph';
+import { SourceEditor } from './source-editor';
+
+/**
+ * Converts the declarations of NgModules to standalone declarations, removes the NgModules which
+ * are no longer needed and bootstraps the application with `bootstrapApplication`.
+ */
+export class StandaloneMigration {
+  private readonly graph: NgModuleGraph;
+  private readonly editor: SourceEditor;
+  private readonly converted = new Set<AngularClass>();
+  private readonly removedModules = new Set<AngularClass>();
+
+  constructor(
+    private readonly tree: Tree,
+    private readonly analysis: ProjectAnalysis,
+    private readonly migrationPath: string,
+    private readonly logger: logging.LoggerApi,
+  ) {
+    this.graph = new NgModuleGraph(
+      analysis,
+      (declaration) => declaration.standalone || this.converted.has(declaration),
+      logger,
+    );
+    this.editor = new SourceEditor(tree);
+  }
+
+  run(mainFilePath: string | undefined): void {
+    this.selectDeclarations();
+
+    for (const [module, info] of this.graph.modules) {
+      if (this.isRemovable(info)) {
+        this.removedModules.add(module);
+      }
+    }
+
+    const bootstrap = mainFilePath && this.analysis.files.get(mainFilePath);
+    if (bootstrap) {
+      this.migrateBootstrap(bootstrap);
+    }
+
+    for (const declaration of this.converted) {
+      this.convertDeclaration(declaration);
+    }
+
+    for (const info of this.graph.modules.values()) {
+      if (!this.removedModules.has(info.module)) {
+        this.updateModule(info);
+      }
+    }
+
+    for (const module of this.removedModules) {
+      this.removeClass(module);
+    }
+
+    this.updateTestingModules();
+    this.editor.apply();
+  }
+
+  private isInMigrationPath(angularClass: AngularClass): boolean {
+    return (
+      this.migrationPath === '/' || angularClass.file.path.startsWith(this.migrationPath + '/')
+    );
+  }
+
+  /**
+   * Selects the declarations to convert. Components can only be converted when the declarations
+   * used by their templates can also be converted.
+   */
+  private selectDeclarations(): void {
+    for (const [declaration, info] of this.graph.declaringModules) {
+      if (
+        !declaration.standalone &&
+        declaration.kind !== 'NgModule' &&
+        this.isInMigrationPath(declaration) &&
+        info.declarations.every((reference) => reference.kind === 'local') &&
+        this.graph.getModuleDependencies(info) !== undefined
+      ) {
+        this.converted.add(declaration);
+      }
+    }
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const declaration of this.converted) {
+        if (declaration.kind === 'Component' && !this.getTemplateDependencies(declaration)) {
+          this.logger.warn(
+            `Component "${declaration.name}" in "${declaration.file.path}" was not converted ` +
+              'as its template uses declarations which cannot be converted.',
+          );
+          this.converted.delete(declaration);
+          changed = true;
+        }
+      }
+    }
+  }
+
+  /**
+   * Computes the dependencies of a component from its declaring NgModule. Declarations which are
+   * not used by the template are omitted.
+   * @returns the dependencies or `undefined` when the template uses declarations of the NgModule
+   * which are not converted.
+   */
+  private getTemplateDependencies(component: AngularClass): Dependency[] | undefined {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const info = this.graph.declaringModules.get(component)!;
+    const template = this.analysis.getTemplate(component);
+    const isUsed = (declaration: AngularClass) =>
+      template === undefined || isUsedInTemplate(template, declaration);
+
+    const dependencies: Dependency[] = [];
+    for (const dependency of this.graph.getModuleDependencies(info) ?? []) {
+      if (
+        !dependency.declaration ||
+        dependency.declaration.kind === 'NgModule' ||
+        isUsed(dependency.declaration)
+      ) {
+        dependencies.push(dependency);
+      }
+    }
+
+    for (const reference of info.declarations) {
+      if (reference.kind !== 'local' || reference.declaration === component) {
+        continue;
+      }
+
+      const { declaration } = reference;
+      if (isUsed(declaration)) {
+        if (!this.converted.has(declaration)) {
+          return undefined;
+        }
+        dependencies.push({ name: declaration.name, declaration });
+      }
+    }
+
+    return deduplicate(dependencies);
+  }
+
+  /**
+   * Checks whether an NgModule is emptied by the migration and can be replaced by its exports.
+   * NgModules which provide services, directly or through their imports, are kept.
+   */
+  private isRemovable(info: NgModuleInfo): boolean {
+    const { module } = info;
+
+    return (
+      this.isInMigrationPath(module) &&
+      info.declarations.every(
+        (reference) => reference.kind === 'local' && this.converted.has(reference.declaration),
+      ) &&
+      !info.hasProviders &&
+      info.bootstrap.length === 0 &&
+      module.node.members.length === 0 &&
+      !this.graph.importsProviders(info) &&
+      this.graph.getExportedDependencies(info) !== undefined &&
+      this.findReferences(module).every((reference) => isMetadataArrayElement(reference))
+    );
+  }
+
+  /** Finds the references to an Angular class, except its declaration and imports. */
+  private findReferences(angularClass: AngularClass): ts.Identifier[] {
+    const references: ts.Identifier[] = [];
+    for (const file of this.analysis.files.values()) {
+      const visit = (node: ts.Node) => {
+        if (ts.isImportDeclaration(node)) {
+          return;
+        }
+
+        if (
+          ts.isIdentifier(node) &&
+          node.text === angularClass.name &&
+          node !== angularClass.node.name
+        ) {
+          const reference = this.analysis.resolveReference(file, node);
+          if (reference.kind === 'local' && reference.declaration === angularClass) {
+            references.push(node);
+          }
+        }
+
+        node.forEachChild(visit);
+      };
+      file.sourceFile.forEachChild(visit);
+    }
+
+    return references;
+  }
+
+  /**
+   * Gets the elements replacing a reference within the `imports` or `exports` of an Angular class.
+   */
+  private getReplacement(file: ProjectFile, reference: SymbolReference): string[] {
+    if (reference.kind !== 'local') {
+      return [reference.node.getText()];
+    }
+
+    const { declaration } = reference;
+    const info = this.graph.modules.get(declaration);
+    if (info && this.removedModules.has(declaration)) {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const dependencies = this.graph.getExportedDependencies(info)!;
+      this.editor.removeImport(file, reference.node.getText());
+      dependencies.forEach((dependency) => this.editor.addImport(file, dependency));
+
+      return dependencies.map(({ name }) => name);
+    }
+
+    return [reference.node.getText()];
+  }
+
+  private convertDeclaration(declaration: AngularClass): void {
+    const properties = ['standalone: true'];
+    if (declaration.kind === 'Component') {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const dependencies = this.getTemplateDependencies(declaration)!;
+      if (dependencies.length) {
+        properties.push(`imports: [${dependencies.map(({ name }) => name).join(', ')}]`);
+        dependencies.forEach((dependency) => this.editor.addImport(declaration.file, dependency));
+      }
+    }
+
+    const anchor = declaration.kind === 'Pipe' ? 'name' : 'selector';
+    this.editor.addProperties(declaration.file, declaration.metadata, properties, anchor);
+  }
+
+  /**
+   * Moves the converted declarations of an NgModule to its imports. Converted declarations are
+   * only imported when they are exported or can be used by the remaining declarations.
+   */
+  private updateModule(info: NgModuleInfo): void {
+    const { module } = info;
+    const declarations = info.declarations.filter(
+      (reference) => reference.kind !== 'local' || !this.converted.has(reference.declaration),
+    );
+    const imports = info.imports.flatMap((reference) =>
+      this.getReplacement(module.file, reference),
+    );
+    const exports = info.exports.flatMap((reference) =>
+      this.getReplacement(module.file, reference),
+    );
+
+    for (const reference of info.declarations) {
+      if (
+        reference.kind === 'local' &&
+        this.converted.has(reference.declaration) &&
+        (declarations.length > 0 || exports.includes(reference.node.getText())) &&
+        !imports.includes(reference.node.getText())
+      ) {
+        imports.push(reference.node.getText());
+      }
+    }
+
+    this.editor.setDeclarationsAndImports(
+      module.file,
+      module.metadata,
+      declarations.map((reference) => reference.node.getText()),
+      deduplicateText(imports),
+    );
+    this.editor.setArrayProperty(module.file, module.metadata, 'exports', deduplicateText(exports));
+  }
+
+  /** Updates the `declarations` and `imports` of the testing modules of unit tests. */
+  private updateTestingModules(): void {
+    for (const file of this.analysis.files.values()) {
+      const visit = (node: ts.Node) => {
+        if (
+          ts.isCallExpression(node) &&
+          ts.isPropertyAccessExpression(node.expression) &&
+          node.expression.name.text === 'configureTestingModule' &&
+          node.arguments.length === 1 &&
+          ts.isObjectLiteralExpression(node.arguments[0])
+        ) {
+          this.updateTestingModule(file, node.arguments[0]);
+        }
+
+        node.forEachChild(visit);
+      };
+      file.sourceFile.forEachChild(visit);
+    }
+
+    // Standalone components can import the removed NgModules as well.
+    for (const angularClass of this.analysis.classes) {
+      if (angularClass.kind !== 'Component' || !angularClass.standalone) {
+        continue;
+      }
+
+      const imports = this.analysis.getMetadataArray(angularClass, 'imports');
+      if (imports?.array) {
+        this.editor.setArrayProperty(
+          angularClass.file,
+          angularClass.metadata,
+          'imports',
+          deduplicateText(
+            imports.references.flatMap((reference) =>
+              this.getReplacement(angularClass.file, reference),
+            ),
+          ),
+        );
+      }
+    }
+  }
+
+  private updateTestingModule(file: ProjectFile, metadata: ts.ObjectLiteralExpression): void {
+    const getArray = (field: string) => {
+      const [property] = getMetadataField(metadata, field);
+
+      return property &&
+        ts.isPropertyAssignment(property) &&
+        ts.isArrayLiteralExpression(property.initializer)
+        ? property.initializer.elements.map((element) =>
+            this.analysis.resolveReference(file, element),
+          )
+        : undefined;
+    };
+
+    const declarations = getArray('declarations') ?? [];
+    const imports = (getArray('imports') ?? []).flatMap((reference) =>
+      this.getReplacement(file, reference),
+    );
+    const remainingDeclarations: string[] = [];
+    for (const reference of declarations) {
+      if (reference.kind === 'local' && this.converted.has(reference.declaration)) {
+        imports.push(reference.node.getText());
+      } else {
+        remainingDeclarations.push(reference.node.getText());
+      }
+    }
+
+    this.editor.setDeclarationsAndImports(
+      file,
+      metadata,
+      remainingDeclarations,
+      deduplicateText(imports),
+    );
+  }
+
+  /**
+   * Switches the bootstrapping of an NgModule to `bootstrapApplication` when its component is
+   * converted and the NgModule is not used otherwise.
+   */
+  private migrateBootstrap(mainFile: ProjectFile): void {
+    const call = findBootstrapModuleCall(this.tree, mainFile.path);
+    const [moduleIdentifier] = call?.arguments ?? [];
+    if (!call || call.arguments.length !== 1 || !ts.isIdentifier(moduleIdentifier)) {
+      return;
+    }
+
+    const reference = this.analysis.resolveReference(mainFile, moduleIdentifier);
+    const info = reference.kind === 'local' && this.graph.modules.get(reference.declaration);
+    if (!info) {
+      return;
+    }
+
+    const { module } = info;
+    if (!this.isInMigrationPath(module)) {
+      return;
+    }
+
+    const [component] = info.bootstrap;
+    if (
+      info.bootstrap.length !== 1 ||
+      component.kind !== 'local' ||
+      !this.converted.has(component.declaration) ||
+      !info.declarations.every(
+        (declaration) =>
+          declaration.kind === 'local' && this.converted.has(declaration.declaration),
+      ) ||
+      module.node.members.length > 0 ||
+      this.findReferences(module).some(
+        // The bootstrap call is found within a separately parsed source file.
+        (identifier) =>
+          identifier.getSourceFile() !== mainFile.sourceFile ||
+          identifier.getStart() !== moduleIdentifier.getStart(),
+      )
+    ) {
+      this.logger.warn(
+        `The bootstrapping of NgModule "${module.name}" was not migrated to ` +
+          '"bootstrapApplication" as the NgModule is still needed.',
+      );
+
+      return;
+    }
+
+    // Removed modules of the project are replaced by the imports of the components. The remaining
+    // modules, such as modules which provide services, are imported with their providers.
+    const importedModules = info.imports.filter(
+      (reference) =>
+        !(reference.kind === 'external' && reference.name === 'BrowserModule') &&
+        !(reference.kind === 'local' && reference.declaration.kind !== 'NgModule') &&
+        !(reference.kind === 'local' && this.removedModules.has(reference.declaration)),
+    );
+    const [providersProperty] = getMetadataField(module.metadata, 'providers');
+    const providers =
+      providersProperty &&
+      ts.isPropertyAssignment(providersProperty) &&
+      ts.isArrayLiteralExpression(providersProperty.initializer)
+        ? providersProperty.initializer.elements
+        : undefined;
+
+    const dependencies =
+      (providers || !providersProperty) &&
+      getExpressionDependencies(module.file, [
+        ...importedModules.map(({ node }) => node),
+        ...(providers ?? []),
+      ]);
+    if (!dependencies) {
+      this.logger.warn(
+        `The bootstrapping of NgModule "${module.name}" was not migrated to ` +
+          `"bootstrapApplication" as its imports or providers use symbols of "${module.file.path}".`,
+      );
+
+      return;
+    }
+
+    const providerTexts = (providers ?? []).map((node) => node.getText());
+    if (importedModules.length) {
+      providerTexts.unshift(
+        `importProvidersFrom(${importedModules.map(({ node }) => node.getText()).join(', ')})`,
+      );
+      dependencies.push({ name: 'importProvidersFrom', moduleSpecifier: '@angular/core' });
+    }
+
+    const componentName = component.declaration.name;
+    let bootstrapText = `bootstrapApplication(${componentName})`;
+    if (providerTexts.length === 1) {
+      bootstrapText = `bootstrapApplication(${componentName}, {\n  providers: [${providerTexts[0]}],\n})`;
+    } else if (providerTexts.length > 1) {
+      bootstrapText =
+        `bootstrapApplication(${componentName}, {\n  providers: [\n` +
+        providerTexts.map((text) => `    ${text},\n`).join('') +
+        '  ],\n})';
+    }
+
+    this.editor.addEdit(mainFile, call.getStart(), call.getEnd(), bootstrapText);
+    this.editor.removeImport(mainFile, moduleIdentifier.text);
+    if (ts.isPropertyAccessExpression(call.expression)) {
+      const platform = call.expression.expression;
+      if (ts.isCallExpression(platform) && ts.isIdentifier(platform.expression)) {
+        this.editor.removeImport(mainFile, platform.expression.text);
+      }
+    }
+    for (const dependency of [
+      { name: 'bootstrapApplication', moduleSpecifier: '@angular/platform-browser' },
+      { name: componentName, declaration: component.declaration },
+      ...dependencies,
+    ]) {
+      this.editor.addImport(mainFile, dependency);
+    }
+
+    this.removedModules.add(module);
+  }
+
+  /** Removes a class and deletes its file when nothing else remains in it. */
+  private removeClass(angularClass: AngularClass): void {
+    const { file, node } = angularClass;
+    if (!this.analysis.files.has(file.path)) {
+      return;
+    }
+
+    const remainingStatements = file.sourceFile.statements.filter(
+      (statement) =>
+        !ts.isImportDeclaration(statement) &&
+        ![...this.removedModules].some(({ node }) => node === statement),
+    );
+
+    if (remainingStatements.length === 0) {
+      this.editor.deleteFile(file);
+      this.analysis.files.delete(file.path);
+    } else {
+      this.editor.addEdit(file, node.getFullStart(), node.getEnd(), '');
+    }
+  }
+}
+
+function deduplicateText(elements: string[]): string[] {
+  return [...new Set(elements)];
+}
+
+/**
+ * Checks whether an identifier is an element of the `imports` or `exports` array within the
+ * metadata of an Angular class or a testing module.
+ */
+function isMetadataArrayElement(identifier: ts.Identifier): boolean {
+  const array = identifier.parent;
+  const property = array?.parent;
+
+  return (
+    ts.isArrayLiteralExpression(array) &&
+    ts.isPropertyAssignment(property) &&
+    ts.isIdentifier(property.name) &&
+    (property.name.text === 'imports' || property.name.text === 'exports') &&
+    ts.isObjectLiteralExpression(property.parent) &&
+    ts.isCallExpression(property.parent.parent)
+  );
+}
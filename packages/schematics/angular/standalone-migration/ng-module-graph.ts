@@ -0,0 +1,195 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { logging } from '@angular-devkit/core';
+import ts from '../third_party/github.com/Microsoft/TypeScript/lib/typescript';
+import { getMetadataField } from '../utility/ast-utils';
+import { AngularClass, ProjectAnalysis, SymbolReference } from './analysis';
+import { Dependency, PROVIDER_MODULES, toComponentDependencies } from './dependencies';
+
+/** The arrays within the metadata of an NgModule. */
+export interface NgModuleInfo {
+  module: AngularClass;
+  declarations: SymbolReference[];
+  imports: SymbolReference[];
+  exports: SymbolReference[];
+  hasProviders: boolean;
+  bootstrap: SymbolReference[];
+}
+
+/** The NgModules of a project which can be analyzed statically and their declarations. */
+export class NgModuleGraph {
+  readonly modules = new Map<AngularClass, NgModuleInfo>();
+  readonly declaringModules = new Map<AngularClass, NgModuleInfo>();
+
+  /**
+   * @param isStandalone checks whether a declaration is standalone, including the declarations
+   * which are converted by the migration.
+   */
+  constructor(
+    private readonly analysis: ProjectAnalysis,
+    private readonly isStandalone: (declaration: AngularClass) => boolean,
+    logger: logging.LoggerApi,
+  ) {
+    for (const module of analysis.classes) {
+      if (module.kind !== 'NgModule') {
+        continue;
+      }
+
+      const info = this.analyzeModule(module);
+      if (!info) {
+        logger.warn(
+          `NgModule "${module.name}" in "${module.file.path}" was not migrated ` +
+            'as its metadata cannot be analyzed statically.',
+        );
+
+        continue;
+      }
+      this.modules.set(module, info);
+
+      for (const reference of info.declarations) {
+        if (reference.kind === 'local') {
+          this.declaringModules.set(reference.declaration, info);
+        }
+      }
+    }
+  }
+
+  private analyzeModule(module: AngularClass): NgModuleInfo | undefined {
+    const declarations = this.analysis.getMetadataArray(module, 'declarations');
+    const imports = this.analysis.getMetadataArray(module, 'imports');
+    const exports = this.analysis.getMetadataArray(module, 'exports');
+    const bootstrap = this.analysis.getMetadataArray(module, 'bootstrap');
+    const [providers] = getMetadataField(module.metadata, 'providers');
+    if (!declarations || !imports || !exports || !bootstrap) {
+      return undefined;
+    }
+
+    return {
+      module,
+      declarations: declarations.references,
+      imports: imports.references,
+      exports: exports.references,
+      bootstrap: bootstrap.references,
+      hasProviders:
+        !!providers &&
+        !(
+          ts.isPropertyAssignment(providers) &&
+          ts.isArrayLiteralExpression(providers.initializer) &&
+          providers.initializer.elements.length === 0
+        ),
+    };
+  }
+
+  /**
+   * Gets the dependencies which provide the exports of an NgModule. Exported NgModules of the
+   * project are replaced by their own exports where possible.
+   * @returns the dependencies or `undefined` when they cannot be determined.
+   */
+  getExportedDependencies(
+    info: NgModuleInfo,
+    visited = new Set<AngularClass>(),
+  ): Dependency[] | undefined {
+    if (visited.has(info.module)) {
+      return [];
+    }
+    visited.add(info.module);
+
+    const dependencies: Dependency[] = [];
+    for (const reference of info.exports) {
+      if (reference.kind === 'unresolved') {
+        return undefined;
+      } else if (reference.kind === 'external') {
+        dependencies.push(...toComponentDependencies(reference));
+      } else if (reference.declaration.kind !== 'NgModule') {
+        if (!this.isStandalone(reference.declaration)) {
+          return undefined;
+        }
+        dependencies.push({ name: reference.declaration.name, declaration: reference.declaration });
+      } else {
+        const exportedModule = this.modules.get(reference.declaration);
+        const exported = exportedModule && this.getExportedDependencies(exportedModule, visited);
+        if (!exported) {
+          return undefined;
+        }
+        dependencies.push(...exported);
+      }
+    }
+
+    return dependencies;
+  }
+
+  /**
+   * Gets the dependencies which the declarations of an NgModule get from its imports.
+   * @returns the dependencies or `undefined` when they cannot be determined.
+   */
+  getModuleDependencies(info: NgModuleInfo): Dependency[] | undefined {
+    const dependencies: Dependency[] = [];
+    for (const reference of info.imports) {
+      // Modules with providers, such as `RouterModule.forChild(routes)`, are imported without them.
+      const resolved =
+        reference.kind === 'unresolved' &&
+        ts.isCallExpression(reference.node) &&
+        ts.isPropertyAccessExpression(reference.node.expression)
+          ? this.analysis.resolveReference(info.module.file, reference.node.expression.expression)
+          : reference;
+
+      if (resolved.kind === 'unresolved') {
+        return undefined;
+      } else if (resolved.kind === 'external') {
+        dependencies.push(...toComponentDependencies(resolved));
+      } else if (resolved.declaration.kind !== 'NgModule') {
+        dependencies.push({ name: resolved.declaration.name, declaration: resolved.declaration });
+      } else {
+        const importedModule = this.modules.get(resolved.declaration);
+        dependencies.push(
+          ...((importedModule && this.getExportedDependencies(importedModule)) ?? [
+            { name: resolved.declaration.name, declaration: resolved.declaration },
+          ]),
+        );
+      }
+    }
+
+    return dependencies;
+  }
+
+  /**
+   * Checks whether the imports of an NgModule provide services. These are calls returning
+   * modules with providers, such as `StoreModule.forRoot()`, known provider modules of other
+   * packages and NgModules of the project which have providers or import them.
+   */
+  importsProviders(info: NgModuleInfo, visited = new Set<AngularClass>()): boolean {
+    if (visited.has(info.module)) {
+      return false;
+    }
+    visited.add(info.module);
+
+    return info.imports.some((reference) => {
+      switch (reference.kind) {
+        case 'unresolved':
+          return true;
+        case 'external':
+          return PROVIDER_MODULES.has(reference.name);
+        case 'local': {
+          if (reference.declaration.kind !== 'NgModule') {
+            return false;
+          }
+
+          // NgModules which cannot be analyzed might have providers.
+          const importedModule = this.modules.get(reference.declaration);
+
+          return (
+            !importedModule ||
+            importedModule.hasProviders ||
+            this.importsProviders(importedModule, visited)
+          );
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { logging } from '@angular-devkit/core';
+import { HostTree } from '@angular-devkit/schematics';
+import { AngularClass, ProjectAnalysis } from './analysis';
+import { NgModuleGraph, NgModuleInfo } from './ng-module-graph';
+
+describe('NgModuleGraph', () => {
+  let tree: HostTree;
+  let warnings: string[];
+  let standalone: Set<string>;
+
+  function createModule(name: string, metadata: string, imports = ''): void {
+    tree.create(
+      `/src/${name}.ts`,
+      `import { NgModule } from '@angular/core';\n` +
+        imports +
+        `\n@NgModule(${metadata})\n` +
+        `export class ${name} {}\n`,
+    );
+  }
+
+  function createGraph(): NgModuleGraph {
+    const logger = new logging.Logger('test');
+    logger.subscribe(({ level, message }) => {
+      if (level === 'warn') {
+        warnings.push(message);
+      }
+    });
+
+    return new NgModuleGraph(
+      new ProjectAnalysis(tree, '/src'),
+      (declaration: AngularClass) => declaration.standalone || standalone.has(declaration.name),
+      logger,
+    );
+  }
+
+  function getModule(graph: NgModuleGraph, name: string): NgModuleInfo {
+    const info = [...graph.modules.values()].find(({ module }) => module.name === name);
+    if (!info) {
+      throw new Error(`NgModule "${name}" was not analyzed.`);
+    }
+
+    return info;
+  }
+
+  beforeEach(() => {
+    tree = new HostTree();
+    warnings = [];
+    standalone = new Set();
+
+    tree.create(
+      '/src/foo.component.ts',
+      `import { Component } from '@angular/core';\n\n` +
+        `@Component({ selector: 'app-foo', template: '' })\n` +
+        `export class FooComponent {}\n`,
+    );
+    createModule(
+      'SharedModule',
+      `{ declarations: [FooComponent], imports: [CommonModule], exports: [CommonModule, FooComponent] }`,
+      `import { CommonModule } from '@angular/common';\n` +
+        `import { FooComponent } from './foo.component';\n`,
+    );
+  });
+
+  it('should map the declarations to their NgModules', () => {
+    const graph = createGraph();
+    const shared = getModule(graph, 'SharedModule');
+
+    expect([...graph.declaringModules.keys()].map(({ name }) => name)).toEqual(['FooComponent']);
+    expect([...graph.declaringModules.values()]).toEqual([shared]);
+    expect(shared.hasProviders).toBeFalse();
+  });
+
+  it('should warn about NgModules whose metadata cannot be analyzed statically', () => {
+    createModule('DynamicModule', `{ imports: IMPORTS }`, `import { IMPORTS } from './imports';\n`);
+    const graph = createGraph();
+
+    expect([...graph.modules.keys()].map(({ name }) => name)).toEqual(['SharedModule']);
+    expect(warnings).toEqual([
+      'NgModule "DynamicModule" in "/src/DynamicModule.ts" was not migrated ' +
+        'as its metadata cannot be analyzed statically.',
+    ]);
+  });
+
+  it('should only consider non-empty providers', () => {
+    createModule('EmptyModule', `{ providers: [] }`);
+    createModule('ProvidersModule', `{ providers: PROVIDERS }`, `const PROVIDERS = [];\n`);
+    const graph = createGraph();
+
+    expect(getModule(graph, 'EmptyModule').hasProviders).toBeFalse();
+    expect(getModule(graph, 'ProvidersModule').hasProviders).toBeTrue();
+  });
+
+  describe('getExportedDependencies', () => {
+    it('should get the exports of NgModules when the declarations are standalone', () => {
+      standalone.add('FooComponent');
+      const graph = createGraph();
+
+      expect(graph.getExportedDependencies(getModule(graph, 'SharedModule'))).toEqual([
+        { name: 'CommonModule', moduleSpecifier: '@angular/common', file: '/src/SharedModule.ts' },
+        jasmine.objectContaining({ name: 'FooComponent' }),
+      ]);
+    });
+
+    it('should not get the exports when declarations are not standalone', () => {
+      const graph = createGraph();
+
+      expect(graph.getExportedDependencies(getModule(graph, 'SharedModule'))).toBeUndefined();
+    });
+
+    it('should replace the exported NgModules of the project by their exports', () => {
+      standalone.add('FooComponent');
+      createModule(
+        'ReexportModule',
+        `{ exports: [SharedModule] }`,
+        `import { SharedModule } from './SharedModule';\n`,
+      );
+      const graph = createGraph();
+
+      expect(
+        graph.getExportedDependencies(getModule(graph, 'ReexportModule'))?.map(({ name }) => name),
+      ).toEqual(['CommonModule', 'FooComponent']);
+    });
+  });
+
+  describe('getModuleDependencies', () => {
+    it('should get the dependencies of the imports, including modules with providers', () => {
+      standalone.add('FooComponent');
+      createModule(
+        'FeatureModule',
+        `{ imports: [SharedModule, RouterModule.forChild([]), HttpClientModule] }`,
+        `import { HttpClientModule } from '@angular/common/http';\n` +
+          `import { RouterModule } from '@angular/router';\n` +
+          `import { SharedModule } from './SharedModule';\n`,
+      );
+      const graph = createGraph();
+
+      expect(
+        graph.getModuleDependencies(getModule(graph, 'FeatureModule'))?.map(({ name }) => name),
+      ).toEqual(['CommonModule', 'FooComponent', 'RouterModule']);
+    });
+
+    it('should import the NgModules of the project whose exports cannot be replaced', () => {
+      createModule(
+        'FeatureModule',
+        `{ imports: [SharedModule] }`,
+        `import { SharedModule } from './SharedModule';\n`,
+      );
+      const graph = createGraph();
+
+      expect(
+        graph.getModuleDependencies(getModule(graph, 'FeatureModule'))?.map(({ name }) => name),
+      ).toEqual(['SharedModule']);
+    });
+
+    it('should not get the dependencies of unresolved imports', () => {
+      createModule('FeatureModule', `{ imports: [getModules()] }`);
+      const graph = createGraph();
+
+      expect(graph.getModuleDependencies(getModule(graph, 'FeatureModule'))).toBeUndefined();
+    });
+  });
+
+  describe('importsProviders', () => {
+    it('should be false for imports without providers', () => {
+      createModule(
+        'FeatureModule',
+        `{ imports: [SharedModule, FooComponent] }`,
+        `import { FooComponent } from './foo.component';\n` +
+          `import { SharedModule } from './SharedModule';\n`,
+      );
+      const graph = createGraph();
+
+      expect(graph.importsProviders(getModule(graph, 'FeatureModule'))).toBeFalse();
+    });
+
+    it('should be true for provider modules of other packages', () => {
+      createModule(
+        'CoreModule',
+        `{ imports: [HttpClientModule] }`,
+        `import { HttpClientModule } from '@angular/common/http';\n`,
+      );
+      const graph = createGraph();
+
+      expect(graph.importsProviders(getModule(graph, 'CoreModule'))).toBeTrue();
+    });
+
+    it('should be true for calls returning modules with providers', () => {
+      createModule(
+        'CoreModule',
+        `{ imports: [StoreModule.forRoot({})] }`,
+        `import { StoreModule } from '@ngrx/store';\n`,
+      );
+      const graph = createGraph();
+
+      expect(graph.importsProviders(getModule(graph, 'CoreModule'))).toBeTrue();
+    });
+
+    it('should be true for NgModules of the project which provide services', () => {
+      createModule('ServicesModule', `{ providers: [Service] }`, `class Service {}\n`);
+      createModule(
+        'CoreModule',
+        `{ imports: [ServicesModule] }`,
+        `import { ServicesModule } from './ServicesModule';\n`,
+      );
+      createModule(
+        'AppModule',
+        `{ imports: [CoreModule] }`,
+        `import { CoreModule } from './CoreModule';\n`,
+      );
+      const graph = createGraph();
+
+      expect(graph.importsProviders(getModule(graph, 'CoreModule'))).toBeTrue();
+      expect(graph.importsProviders(getModule(graph, 'AppModule'))).toBeTrue();
+    });
+
+    it('should be true for NgModules of the project which cannot be analyzed', () => {
+      createModule('DynamicModule', `{ imports: IMPORTS }`, `const IMPORTS = [];\n`);
+      createModule(
+        'CoreModule',
+        `{ imports: [DynamicModule] }`,
+        `import { DynamicModule } from './DynamicModule';\n`,
+      );
+      const graph = createGraph();
+
+      expect(graph.importsProviders(getModule(graph, 'CoreModule'))).toBeTrue();
+    });
+
+    it('should support circular imports', () => {
+      createModule(
+        'FirstModule',
+        `{ imports: [SecondModule] }`,
+        `import { SecondModule } from './SecondModule';\n`,
+      );
+      createModule(
+        'SecondModule',
+        `{ imports: [FirstModule] }`,
+        `import { FirstModule } from './FirstModule';\n`,
+      );
+      const graph = createGraph();
+
+      expect(graph.importsProviders(getModule(graph, 'FirstModule'))).toBeFalse();
+    });
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { SchematicsException, Tree } from '@angular-devkit/schematics';
+import ts from '../third_party/github.com/Microsoft/TypeScript/lib/typescript';
+import { getMetadataField, insertImport } from '../utility/ast-utils';
+import { applyToUpdateRecorder } from '../utility/change';
+import { ProjectFile } from './analysis';
+import { Dependency, deduplicate, getModuleSpecifier } from './dependencies';
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Collects the changes to the files of a project. Text edits are based on the analyzed source
+ * files and are applied together with the added and removed imports.
+ */
+export class SourceEditor {
+  private readonly edits = new Map<string, TextEdit[]>();
+  private readonly addedImports = new Map<string, Dependency[]>();
+  private readonly removedImports = new Map<string, Set<string>>();
+
+  constructor(private readonly tree: Tree) {}
+
+  addEdit(file: ProjectFile, start: number, end: number, text: string): void {
+    let edits = this.edits.get(file.path);
+    if (!edits) {
+      edits = [];
+      this.edits.set(file.path, edits);
+    }
+    edits.push({ start, end, text });
+  }
+
+  /** Imports a dependency into a file unless it is declared by the file itself. */
+  addImport(file: ProjectFile, dependency: Dependency): void {
+    if (dependency.declaration?.file === file) {
+      return;
+    }
+
+    let imports = this.addedImports.get(file.path);
+    if (!imports) {
+      imports = [];
+      this.addedImports.set(file.path, imports);
+    }
+    imports.push(dependency);
+  }
+
+  /** Removes a named import from a file when it is no longer used after the changes. */
+  removeImport(file: ProjectFile, name: string): void {
+    let names = this.removedImports.get(file.path);
+    if (!names) {
+      names = new Set();
+      this.removedImports.set(file.path, names);
+    }
+    names.add(name);
+  }
+
+  /** Deletes a file and discards the changes to it. */
+  deleteFile(file: ProjectFile): void {
+    this.tree.delete(file.path);
+    this.edits.delete(file.path);
+    this.addedImports.delete(file.path);
+    this.removedImports.delete(file.path);
+  }
+
+  /**
+   * Adds properties to an object literal after the given property, or as the first properties.
+   */
+  addProperties(
+    file: ProjectFile,
+    literal: ts.ObjectLiteralExpression,
+    properties: string[],
+    after: string,
+  ): void {
+    const [anchor] = getMetadataField(literal, after);
+    const multiline = literal.getText().includes('\n');
+
+    if (!literal.properties.length) {
+      this.addEdit(file, literal.getStart(), literal.getEnd(), `{ ${properties.join(', ')} }`);
+    } else if (anchor) {
+      const separator = multiline ? `,\n${getIndentation(file, anchor.getStart())}` : ', ';
+      this.addEdit(
+        file,
+        anchor.getEnd(),
+        anchor.getEnd(),
+        properties.map((property) => separator + property).join(''),
+      );
+    } else {
+      const first = literal.properties[0];
+      const separator = multiline ? `,\n${getIndentation(file, first.getStart())}` : ', ';
+      this.addEdit(
+        file,
+        first.getStart(),
+        first.getStart(),
+        properties.map((property) => property + separator).join(''),
+      );
+    }
+  }
+
+  /**
+   * Sets the `declarations` and `imports` of an NgModule or testing module. The `declarations`
+   * property is replaced when all of the declarations are moved to a new `imports` property.
+   */
+  setDeclarationsAndImports(
+    file: ProjectFile,
+    literal: ts.ObjectLiteralExpression,
+    declarations: string[],
+    imports: string[],
+  ): void {
+    const [declarationsProperty] = getMetadataField(literal, 'declarations');
+    const [importsProperty] = getMetadataField(literal, 'imports');
+    if (
+      !declarations.length &&
+      imports.length &&
+      !importsProperty &&
+      declarationsProperty &&
+      ts.isPropertyAssignment(declarationsProperty) &&
+      ts.isArrayLiteralExpression(declarationsProperty.initializer)
+    ) {
+      this.addEdit(
+        file,
+        declarationsProperty.getStart(),
+        declarationsProperty.getEnd(),
+        `imports: ${printArray(file, declarationsProperty.initializer, imports)}`,
+      );
+
+      return;
+    }
+
+    this.setArrayProperty(file, literal, 'declarations', declarations);
+    this.setArrayProperty(file, literal, 'imports', imports);
+  }
+
+  /**
+   * Sets the elements of an array property of an object literal. The property is removed when
+   * there are no elements, and the layout of the array is kept when there are changes.
+   */
+  setArrayProperty(
+    file: ProjectFile,
+    literal: ts.ObjectLiteralExpression,
+    name: string,
+    elements: string[],
+  ): void {
+    const [property] = getMetadataField(literal, name);
+    if (!property) {
+      if (elements.length) {
+        this.addProperties(file, literal, [`${name}: [${elements.join(', ')}]`], '');
+      }
+
+      return;
+    }
+
+    if (!ts.isPropertyAssignment(property) || !ts.isArrayLiteralExpression(property.initializer)) {
+      return;
+    }
+
+    const array = property.initializer;
+    const current = array.elements.map((element) => element.getText());
+    if (current.length === elements.length && current.every((text, i) => text === elements[i])) {
+      return;
+    }
+
+    if (elements.length) {
+      this.addEdit(file, array.getStart(), array.getEnd(), printArray(file, array, elements));
+
+      return;
+    }
+
+    const properties = literal.properties;
+    const index = properties.indexOf(property);
+    if (properties.length === 1) {
+      this.addEdit(file, literal.getStart() + 1, literal.getEnd() - 1, '');
+    } else if (index < properties.length - 1) {
+      this.addEdit(file, property.getFullStart(), properties[index + 1].getFullStart(), '');
+    } else {
+      this.addEdit(file, properties[index - 1].getEnd(), property.getEnd(), '');
+    }
+  }
+
+  /** Writes the collected changes to the tree. */
+  apply(): void {
+    for (const [path, edits] of this.edits) {
+      let content = this.tree.readText(path);
+      let end = Infinity;
+      for (const edit of edits.sort((a, b) => b.start - a.start || b.end - a.end)) {
+        if (edit.end > end) {
+          throw new SchematicsException(`Conflicting changes in "${path}".`);
+        }
+        content = content.slice(0, edit.start) + edit.text + content.slice(edit.end);
+        end = edit.start;
+      }
+      this.tree.overwrite(path, content);
+    }
+
+    for (const [path, dependencies] of this.addedImports) {
+      for (const dependency of deduplicate(dependencies)) {
+        const sourceFile = ts.createSourceFile(
+          path,
+          this.tree.readText(path),
+          ts.ScriptTarget.Latest,
+          true,
+        );
+        if (hasTopLevelBinding(sourceFile, dependency.name)) {
+          continue;
+        }
+
+        const recorder = this.tree.beginUpdate(path);
+        applyToUpdateRecorder(recorder, [
+          insertImport(sourceFile, path, dependency.name, getModuleSpecifier(dependency, path)),
+        ]);
+        this.tree.commitUpdate(recorder);
+      }
+    }
+
+    for (const [path, names] of this.removedImports) {
+      removeUnusedImports(this.tree, path, names);
+    }
+  }
+}
+
+function hasTopLevelBinding(sourceFile: ts.SourceFile, name: string): boolean {
+  return sourceFile.statements.some((statement) => {
+    if (ts.isImportDeclaration(statement)) {
+      const bindings = statement.importClause?.namedBindings;
+
+      return (
+        statement.importClause?.name?.text === name ||
+        (!!bindings &&
+          ts.isNamedImports(bindings) &&
+          bindings.elements.some((element) => element.name.text === name))
+      );
+    }
+
+    return (
+      (ts.isClassDeclaration(statement) || ts.isFunctionDeclaration(statement)) &&
+      statement.name?.text === name
+    );
+  });
+}
+
+/** Removes the named imports which are no longer used by a file. */
+function removeUnusedImports(tree: Tree, path: string, names: Set<string>): void {
+  const content = tree.readText(path);
+  const sourceFile = ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true);
+
+  const usedNames = new Set<string>();
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node)) {
+      return;
+    }
+    if (ts.isIdentifier(node)) {
+      usedNames.add(node.text);
+    }
+    node.forEachChild(visit);
+  };
+  sourceFile.forEachChild(visit);
+
+  const recorder = tree.beginUpdate(path);
+  for (const statement of sourceFile.statements) {
+    const bindings = ts.isImportDeclaration(statement) && statement.importClause?.namedBindings;
+    if (!bindings || !ts.isNamedImports(bindings)) {
+      continue;
+    }
+
+    const unused = bindings.elements.filter(
+      (element) => names.has(element.name.text) && !usedNames.has(element.name.text),
+    );
+    if (!unused.length) {
+      continue;
+    }
+
+    if (unused.length === bindings.elements.length && !statement.importClause?.name) {
+      // Blank lines are removed as well when the import is the first of a group of imports.
+      const start = statement.getStart();
+      const trailingLines = /(^|\n[ \t]*\n)$/.test(content.slice(0, start))
+        ? /^(?:[ \t]*\n)+/
+        : /^[ \t]*\n/;
+      const end =
+        statement.getEnd() +
+        (trailingLines.exec(content.slice(statement.getEnd()))?.[0].length ?? 0);
+      recorder.remove(start, end - start);
+    } else {
+      const remaining = bindings.elements.filter((element) => !unused.includes(element));
+      recorder.remove(bindings.getStart(), bindings.getWidth());
+      recorder.insertLeft(
+        bindings.getStart(),
+        `{ ${remaining.map((element) => element.getText()).join(', ')} }`,
+      );
+    }
+  }
+  tree.commitUpdate(recorder);
+}
+
+/** Gets the indentation of the line containing a position. */
+function getIndentation(file: ProjectFile, position: number): string {
+  const text = file.sourceFile.text;
+  const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+
+  return /^[ \t]*/.exec(text.slice(lineStart))?.[0] ?? '';
+}
+
+/** Prints the elements of an array in the layout of an existing array. */
+function printArray(file: ProjectFile, array: ts.ArrayLiteralExpression, elements: string[]) {
+  if (!array.getText().includes('\n')) {
+    return `[${elements.join(', ')}]`;
+  }
+
+  const closingIndentation = getIndentation(file, array.getEnd() - 1);
+  const indentation = array.elements.length
+    ? getIndentation(file, array.elements[0].getStart())
+    : closingIndentation + '  ';
+  const trailingComma = array.elements.hasTrailingComma ? ',' : '';
+
+  return (
+    '[\n' +
+    elements.map((element) => indentation + element).join(',\n') +
+    `${trailingComma}\n${closingIndentation}]`
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { HostTree } from '@angular-devkit/schematics';
+import { AngularClass, ProjectAnalysis, ProjectFile } from './analysis';
+import { SourceEditor } from './source-editor';
+
+describe('SourceEditor', () => {
+  const filePath = '/src/app/foo.component.ts';
+  let tree: HostTree;
+  let editor: SourceEditor;
+
+  function createClass(content: string): AngularClass {
+    tree.create(filePath, content);
+    const [angularClass] = new ProjectAnalysis(tree, '/src').classes;
+
+    return angularClass;
+  }
+
+  function createFile(path: string, content: string): ProjectFile {
+    tree.create(path, content);
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    return new ProjectAnalysis(tree, '/src').files.get(path)!;
+  }
+
+  beforeEach(() => {
+    tree = new HostTree();
+    editor = new SourceEditor(tree);
+  });
+
+  describe('addProperties', () => {
+    it('should add properties after the given property of multi-line literals', () => {
+      const { file, metadata } = createClass(
+        `import { Component } from '@angular/core';\n\n` +
+          `@Component({\n  selector: 'app-foo',\n  template: '',\n})\n` +
+          `export class FooComponent {}\n`,
+      );
+
+      editor.addProperties(file, metadata, ['standalone: true', 'imports: [Bar]'], 'selector');
+      editor.apply();
+
+      expect(tree.readText(filePath)).toContain(
+        `@Component({\n  selector: 'app-foo',\n  standalone: true,\n  imports: [Bar],\n  template: '',\n})`,
+      );
+    });
+
+    it('should add properties as the first properties of single-line literals', () => {
+      const { file, metadata } = createClass(
+        `import { Pipe } from '@angular/core';\n\n` +
+          `@Pipe({ pure: false })\n` +
+          `export class FooPipe {}\n`,
+      );
+
+      editor.addProperties(file, metadata, ['standalone: true'], 'name');
+      editor.apply();
+
+      expect(tree.readText(filePath)).toContain(`@Pipe({ standalone: true, pure: false })`);
+    });
+
+    it('should fill empty literals', () => {
+      const { file, metadata } = createClass(
+        `import { Directive } from '@angular/core';\n\n` +
+          `@Directive({})\n` +
+          `export class FooDirective {}\n`,
+      );
+
+      editor.addProperties(file, metadata, ['standalone: true'], 'selector');
+      editor.apply();
+
+      expect(tree.readText(filePath)).toContain(`@Directive({ standalone: true })`);
+    });
+  });
+
+  describe('setArrayProperty', () => {
+    it('should keep the layout of multi-line arrays', () => {
+      const { file, metadata } = createClass(
+        `import { NgModule } from '@angular/core';\n\n` +
+          `@NgModule({\n  imports: [\n    A,\n    B,\n  ],\n})\n` +
+          `export class FooModule {}\n`,
+      );
+
+      editor.setArrayProperty(file, metadata, 'imports', ['A', 'C', 'D']);
+      editor.apply();
+
+      expect(tree.readText(filePath)).toContain(`  imports: [\n    A,\n    C,\n    D,\n  ],\n`);
+    });
+
+    it('should remove properties without elements', () => {
+      const { file, metadata } = createClass(
+        `import { NgModule } from '@angular/core';\n\n` +
+          `@NgModule({ declarations: [A], imports: [B], exports: [C] })\n` +
+          `export class FooModule {}\n`,
+      );
+
+      editor.setArrayProperty(file, metadata, 'declarations', []);
+      editor.setArrayProperty(file, metadata, 'exports', []);
+      editor.apply();
+
+      expect(tree.readText(filePath)).toContain(`@NgModule({ imports: [B] })`);
+    });
+
+    it('should add missing properties with elements', () => {
+      const { file, metadata } = createClass(
+        `import { NgModule } from '@angular/core';\n\n` +
+          `@NgModule({ declarations: [A] })\n` +
+          `export class FooModule {}\n`,
+      );
+
+      editor.setArrayProperty(file, metadata, 'exports', []);
+      editor.setArrayProperty(file, metadata, 'imports', ['B']);
+      editor.apply();
+
+      expect(tree.readText(filePath)).toContain(`@NgModule({ imports: [B], declarations: [A] })`);
+    });
+  });
+
+  describe('setDeclarationsAndImports', () => {
+    it('should replace the declarations with the imports', () => {
+      const { file, metadata } = createClass(
+        `import { NgModule } from '@angular/core';\n\n` +
+          `@NgModule({\n  declarations: [\n    A\n  ],\n})\n` +
+          `export class FooModule {}\n`,
+      );
+
+      editor.setDeclarationsAndImports(file, metadata, [], ['A']);
+      editor.apply();
+
+      expect(tree.readText(filePath)).toContain(`@NgModule({\n  imports: [\n    A\n  ],\n})`);
+    });
+
+    it('should update the declarations and existing imports', () => {
+      const { file, metadata } = createClass(
+        `import { NgModule } from '@angular/core';\n\n` +
+          `@NgModule({ declarations: [A, B], imports: [C] })\n` +
+          `export class FooModule {}\n`,
+      );
+
+      editor.setDeclarationsAndImports(file, metadata, ['B'], ['C', 'A']);
+      editor.apply();
+
+      expect(tree.readText(filePath)).toContain(
+        `@NgModule({ declarations: [B], imports: [C, A] })`,
+      );
+    });
+  });
+
+  describe('imports', () => {
+    it('should add imports of dependencies which are not bound yet', () => {
+      const file = createFile(
+        '/src/main.ts',
+        `import { Component } from '@angular/core';\n\nexport class Main {}\n`,
+      );
+
+      editor.addImport(file, { name: 'Component', moduleSpecifier: '@angular/core' });
+      editor.addImport(file, { name: 'Main', moduleSpecifier: './main' });
+      editor.addImport(file, { name: 'CommonModule', moduleSpecifier: '@angular/common' });
+      editor.addImport(file, { name: 'CommonModule', moduleSpecifier: '@angular/common' });
+      editor.apply();
+
+      expect(tree.readText('/src/main.ts')).toBe(
+        `import { Component } from '@angular/core';\n` +
+          `import { CommonModule } from '@angular/common';\n\n` +
+          `export class Main {}\n`,
+      );
+    });
+
+    it('should not import declarations into their own file', () => {
+      const angularClass = createClass(
+        `import { Component } from '@angular/core';\n\n` +
+          `@Component({ selector: 'app-foo', template: '' })\n` +
+          `export class FooComponent {}\n`,
+      );
+
+      editor.addImport(angularClass.file, { name: 'FooComponent', declaration: angularClass });
+      editor.apply();
+
+      expect(tree.readText(filePath)).not.toContain('./foo.component');
+    });
+
+    it('should remove imports which are no longer used', () => {
+      const file = createFile(
+        '/src/main.ts',
+        `import { A, B } from './a';\n` +
+          `import { C } from './c';\n\n` +
+          `import { D } from './d';\n\n` +
+          `console.log(A, C);\n`,
+      );
+
+      editor.removeImport(file, 'B');
+      editor.removeImport(file, 'C');
+      editor.removeImport(file, 'D');
+      editor.addEdit(
+        file,
+        file.sourceFile.text.indexOf(', C'),
+        file.sourceFile.text.indexOf(')'),
+        '',
+      );
+      editor.apply();
+
+      expect(tree.readText('/src/main.ts')).toBe(`import { A } from './a';\n\nconsole.log(A);\n`);
+    });
+  });
+
+  it('should delete files and discard their changes', () => {
+    const file = createFile('/src/main.ts', `export class Main {}\n`);
+
+    editor.addEdit(file, 0, 0, '// comment\n');
+    editor.addImport(file, { name: 'A', moduleSpecifier: './a' });
+    editor.deleteFile(file);
+    editor.apply();
+
+    expect(tree.exists('/src/main.ts')).toBeFalse();
+  });
+
+  it('should fail for conflicting changes', () => {
+    const file = createFile('/src/main.ts', `export class Main {}\n`);
+
+    editor.addEdit(file, 0, 10, '');
+    editor.addEdit(file, 5, 15, '');
+
+    expect(() => editor.apply()).toThrowError(`Conflicting changes in "/src/main.ts".`);
+  });
+});
@@ -20,3 +20,6 @@ export * from './standalone';
 
 // Package dependency related rules and types
 export { DependencyType, ExistingBehavior, InstallBehavior, addDependency } from './dependency';
+
+// TypeScript source file editing
+export { TypeScriptFile } from './typescript-file';
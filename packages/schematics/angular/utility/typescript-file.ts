@@ -0,0 +1,586 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { SchematicsException, Tree } from '@angular-devkit/schematics';
+import ts from '../third_party/github.com/Microsoft/TypeScript/lib/typescript';
+
+/** A replacement of a range of the original content of the file. */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** The pending changes of a comma-separated list, such as the elements of an array literal. */
+interface ListChange {
+  container: ts.Node;
+  elements: ts.NodeArray<ts.Node>;
+  added: string[];
+  removed: Set<ts.Node>;
+  /** The padding between the brackets and the elements of the list when it was empty. */
+  padding: string;
+}
+
+/**
+ * A TypeScript file of a tree which is edited while preserving its formatting.
+ *
+ * The edits refer to the content of the file when it was read, so the nodes of `sourceFile` can be
+ * used for any number of edits. They are applied at once with a single `UpdateRecorder` by
+ * `commit`. Added code follows the indentation and the quote style of the existing code.
+ */
+export class TypeScriptFile {
+  readonly sourceFile: ts.SourceFile;
+
+  private readonly edits: TextEdit[] = [];
+  private readonly listChanges = new Map<ts.Node, ListChange>();
+  private readonly newImports = new Map<string, string[]>();
+  private readonly quote: string;
+  private readonly semicolon: string;
+
+  constructor(
+    private readonly host: Tree,
+    readonly path: string,
+  ) {
+    this.sourceFile = ts.createSourceFile(path, host.readText(path), ts.ScriptTarget.Latest, true);
+
+    const firstImport = this.sourceFile.statements.find(ts.isImportDeclaration);
+    this.quote = firstImport?.moduleSpecifier.getText().startsWith('"') ? '"' : `'`;
+    this.semicolon = !firstImport || firstImport.getText().endsWith(';') ? ';' : '';
+  }
+
+  /** Creates a string literal with the quote style of the file. */
+  createStringLiteral(value: string): string {
+    const escaped = value.replace(/\\/g, '\\\\').replaceAll(this.quote, `\\${this.quote}`);
+
+    return this.quote + escaped + this.quote;
+  }
+
+  /**
+   * Adds a named import of a symbol, unless the symbol is already imported from the module.
+   * @param symbolName Name of the exported symbol.
+   * @param moduleSpecifier Module from which the symbol is imported.
+   * @returns the expression which refers to the symbol within the file.
+   */
+  addNamedImport(symbolName: string, moduleSpecifier: string): string {
+    const declarations = this.sourceFile.statements.filter(
+      (statement): statement is ts.ImportDeclaration =>
+        ts.isImportDeclaration(statement) &&
+        ts.isStringLiteral(statement.moduleSpecifier) &&
+        statement.moduleSpecifier.text === moduleSpecifier &&
+        !statement.importClause?.isTypeOnly,
+    );
+
+    for (const declaration of declarations) {
+      const namedBindings = declaration.importClause?.namedBindings;
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        return `${namedBindings.name.text}.${symbolName}`;
+      }
+
+      const specifier = this.findImportSpecifier(declaration, symbolName);
+      if (specifier) {
+        return specifier.name.text;
+      }
+    }
+
+    const namedImports = declarations
+      .map((declaration) => declaration.importClause?.namedBindings)
+      .find((namedBindings): namedBindings is ts.NamedImports =>
+        namedBindings ? ts.isNamedImports(namedBindings) : false,
+      );
+
+    if (namedImports) {
+      this.addListElement(namedImports, namedImports.elements, symbolName, ' ');
+    } else {
+      const symbols = this.newImports.get(moduleSpecifier) ?? [];
+      this.newImports.set(moduleSpecifier, symbols);
+      if (!symbols.includes(symbolName)) {
+        symbols.push(symbolName);
+      }
+    }
+
+    return symbolName;
+  }
+
+  /**
+   * Removes the named import of a symbol if the symbol is not referenced anymore. References which
+   * are removed or replaced by the pending edits of the file are not taken into account.
+   * The import declaration is removed as well when it does not import any other symbol.
+   * @returns whether the import was removed.
+   */
+  removeImportIfUnused(symbolName: string, moduleSpecifier: string): boolean {
+    for (const statement of this.sourceFile.statements) {
+      if (
+        !ts.isImportDeclaration(statement) ||
+        !ts.isStringLiteral(statement.moduleSpecifier) ||
+        statement.moduleSpecifier.text !== moduleSpecifier
+      ) {
+        continue;
+      }
+
+      const specifier = this.findImportSpecifier(statement, symbolName);
+      if (!specifier || this.isReferenced(specifier.name.text)) {
+        continue;
+      }
+
+      const namedImports = specifier.parent;
+      this.getListChange(namedImports, namedImports.elements, ' ').removed.add(specifier);
+
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Finds the initializer of a property of the object literal argument of a class decorator.
+   * @param className Name of a top-level class of the file.
+   * @param decoratorName Name under which the decorator is referenced, such as `Component`.
+   * @param propertyName Name of the property.
+   */
+  getDecoratorProperty(
+    className: string,
+    decoratorName: string,
+    propertyName: string,
+  ): ts.Expression | undefined {
+    const [metadata] = this.findDecorator(className, decoratorName).expression.arguments;
+    if (!metadata || !ts.isObjectLiteralExpression(metadata)) {
+      return undefined;
+    }
+
+    const property = findProperty(metadata, propertyName);
+
+    return property && ts.isPropertyAssignment(property) ? property.initializer : undefined;
+  }
+
+  /**
+   * Adds a property to the object literal argument of a class decorator, such as the metadata of
+   * `@Component()`.
+   * @param className Name of a top-level class of the file.
+   * @param decoratorName Name under which the decorator is referenced, such as `Component`.
+   * @param propertyName Name of the property.
+   * @param initializer Code of the value of the property.
+   */
+  addDecoratorProperty(
+    className: string,
+    decoratorName: string,
+    propertyName: string,
+    initializer: string,
+  ): void {
+    const call = this.findDecorator(className, decoratorName).expression;
+    const [metadata] = call.arguments;
+    const property = `${propertyName}: ${initializer}`;
+
+    if (!metadata) {
+      this.replace(call.arguments.pos, call.arguments.end, `{ ${property} }`);
+    } else if (!ts.isObjectLiteralExpression(metadata)) {
+      throw new SchematicsException(
+        `The argument of the "@${decoratorName}" decorator of class "${className}" ` +
+          `in "${this.path}" is not an object literal.`,
+      );
+    } else if (findProperty(metadata, propertyName)) {
+      throw new SchematicsException(
+        `The "@${decoratorName}" decorator of class "${className}" in "${this.path}" ` +
+          `already has a "${propertyName}" property.`,
+      );
+    } else {
+      this.addListElement(metadata, metadata.properties, property, ' ');
+    }
+  }
+
+  /**
+   * Adds an element to an array literal, unless the array already contains the same element.
+   * @param array Array literal of `sourceFile`.
+   * @param element Code of the element.
+   */
+  addArrayElement(array: ts.ArrayLiteralExpression, element: string): void {
+    if (!array.elements.some((existing) => existing.getText() === element)) {
+      this.addListElement(array, array.elements, element, '');
+    }
+  }
+
+  /**
+   * Removes an element of an array literal, including its separating comma.
+   * @param element Element of an array literal of `sourceFile`.
+   */
+  removeArrayElement(element: ts.Expression): void {
+    const array = element.parent;
+    if (!ts.isArrayLiteralExpression(array)) {
+      throw new SchematicsException(`"${element.getText()}" is not an element of an array.`);
+    }
+
+    this.getListChange(array, array.elements, '').removed.add(element);
+  }
+
+  /**
+   * Renames a symbol within the file, including its declaration or import. Property names and
+   * keys of object literals are not renamed. The names of other modules in import and export
+   * specifiers are kept, so imports are aliased (`import { Foo as Bar }`) and exports keep their
+   * public name (`export { Bar as Foo }`).
+   * Note that identifiers are matched by name, so symbols of the same name which are declared in
+   * nested scopes are renamed as well.
+   */
+  renameSymbol(name: string, newName: string): void {
+    const visit = (node: ts.Node) => {
+      if (ts.isIdentifier(node) && node.text === name && !isPropertyName(node)) {
+        const { parent } = node;
+        const isShorthand =
+          ts.isShorthandPropertyAssignment(parent) ||
+          (ts.isBindingElement(parent) &&
+            !parent.propertyName &&
+            ts.isObjectBindingPattern(parent.parent));
+
+        let text = isShorthand ? `${name}: ${newName}` : newName;
+        if (ts.isImportSpecifier(parent) && !parent.propertyName) {
+          text = `${name} as ${newName}`;
+        } else if (ts.isExportSpecifier(parent) && !parent.propertyName) {
+          text = `${newName} as ${name}`;
+        }
+
+        this.replace(node.getStart(), node.getEnd(), text);
+      }
+
+      node.forEachChild(visit);
+    };
+
+    this.sourceFile.forEachChild(visit);
+  }
+
+  /**
+   * Applies the edits to the file of the tree. Further edits require a new `TypeScriptFile`, as the
+   * nodes of `sourceFile` no longer match the content of the file.
+   */
+  commit(): void {
+    const edits = [...this.edits, ...this.getNewImportEdits()];
+    for (const change of this.listChanges.values()) {
+      edits.push(...this.getListEdits(change));
+    }
+
+    edits.sort((a, b) => a.start - b.start || a.end - b.end);
+    for (let i = 1; i < edits.length; i++) {
+      if (edits[i].start < edits[i - 1].end) {
+        throw new SchematicsException(`Conflicting edits of "${this.path}".`);
+      }
+    }
+
+    const recorder = this.host.beginUpdate(this.path);
+    for (const { start, end, text } of edits) {
+      if (end > start) {
+        recorder.remove(start, end - start);
+      }
+      if (text) {
+        recorder.insertLeft(start, text);
+      }
+    }
+    this.host.commitUpdate(recorder);
+
+    this.edits.length = 0;
+    this.listChanges.clear();
+    this.newImports.clear();
+  }
+
+  private replace(start: number, end: number, text: string): void {
+    this.edits.push({ start, end, text });
+  }
+
+  private findImportSpecifier(
+    declaration: ts.ImportDeclaration,
+    symbolName: string,
+  ): ts.ImportSpecifier | undefined {
+    const namedBindings = declaration.importClause?.namedBindings;
+    if (!namedBindings || !ts.isNamedImports(namedBindings)) {
+      return undefined;
+    }
+
+    const removed = this.listChanges.get(namedBindings)?.removed;
+
+    return namedBindings.elements.find(
+      (element) =>
+        (element.propertyName ?? element.name).text === symbolName && !removed?.has(element),
+    );
+  }
+
+  private findDecorator(className: string, decoratorName: string) {
+    const classDeclaration = this.sourceFile.statements.find(
+      (statement): statement is ts.ClassDeclaration =>
+        ts.isClassDeclaration(statement) && statement.name?.text === className,
+    );
+    const decorator =
+      classDeclaration &&
+      ts
+        .getDecorators(classDeclaration)
+        ?.find(
+          (decorator) =>
+            ts.isCallExpression(decorator.expression) &&
+            ts.isIdentifier(decorator.expression.expression) &&
+            decorator.expression.expression.text === decoratorName,
+        );
+
+    if (!decorator) {
+      throw new SchematicsException(
+        `Could not find the "@${decoratorName}" decorator of class "${className}" in "${this.path}".`,
+      );
+    }
+
+    return decorator as ts.Decorator & { expression: ts.CallExpression };
+  }
+
+  /** Checks whether an identifier is referenced outside of import declarations. */
+  private isReferenced(name: string): boolean {
+    const pattern = new RegExp(`(?<![\\w$])${name.replace(/\$/g, '\\$')}(?![\\w$])`);
+    const removedNodes = [...this.listChanges.values()].flatMap((change) => [...change.removed]);
+    if (
+      this.edits.some((edit) => pattern.test(edit.text)) ||
+      [...this.listChanges.values()].some((change) =>
+        change.added.some((text) => pattern.test(text)),
+      )
+    ) {
+      return true;
+    }
+
+    const isRemoved = (node: ts.Node) =>
+      this.edits.some((edit) => edit.start <= node.getStart() && node.getEnd() <= edit.end) ||
+      removedNodes.some((removed) => removed.pos <= node.pos && node.end <= removed.end);
+
+    let referenced = false;
+    const visit = (node: ts.Node) => {
+      if (referenced || ts.isImportDeclaration(node)) {
+        return;
+      }
+
+      if (ts.isIdentifier(node) && node.text === name && !isPropertyName(node)) {
+        referenced = !isRemoved(node);
+      } else {
+        node.forEachChild(visit);
+      }
+    };
+    this.sourceFile.forEachChild(visit);
+
+    return referenced;
+  }
+
+  private getListChange(
+    container: ts.Node,
+    elements: ts.NodeArray<ts.Node>,
+    padding: string,
+  ): ListChange {
+    let change = this.listChanges.get(container);
+    if (!change) {
+      change = { container, elements, added: [], removed: new Set(), padding };
+      this.listChanges.set(container, change);
+    }
+
+    return change;
+  }
+
+  private addListElement(
+    container: ts.Node,
+    elements: ts.NodeArray<ts.Node>,
+    text: string,
+    padding: string,
+  ): void {
+    const { added } = this.getListChange(container, elements, padding);
+    if (!added.includes(text)) {
+      added.push(text);
+    }
+  }
+
+  private getListEdits({ container, elements, added, removed, padding }: ListChange): TextEdit[] {
+    const remaining = elements.filter((element) => !removed.has(element));
+
+    // Import declarations which no longer import anything are removed entirely.
+    if (ts.isNamedImports(container) && !remaining.length && !added.length) {
+      const importClause = container.parent;
+      if (!importClause.name) {
+        const declaration = importClause.parent;
+        const end = this.sourceFile.text.slice(declaration.getEnd()).match(/^[ \t]*\r?\n/)?.[0];
+
+        return [
+          {
+            start: declaration.getStart(),
+            end: declaration.getEnd() + (end?.length ?? 0),
+            text: '',
+          },
+        ];
+      }
+
+      // Only the named imports of an import with a default import are removed.
+      return [{ start: importClause.name.getEnd(), end: container.getEnd(), text: '' }];
+    }
+
+    if (!elements.length) {
+      // The first child is the opening bracket.
+      const start = container.getChildAt(0).getEnd();
+
+      return [{ start, end: start, text: padding + added.join(', ') + padding }];
+    }
+
+    const last = elements[elements.length - 1];
+    const multiline = isMultiline(elements, container);
+    const separator = multiline ? '\n' + this.getIndentation(last) : ' ';
+
+    if (!remaining.length) {
+      return [
+        {
+          start: elements[0].getStart(),
+          end: elements.hasTrailingComma ? elements.end : last.getEnd(),
+          text: added.join(',' + separator) + (elements.hasTrailingComma ? ',' : ''),
+        },
+      ];
+    }
+
+    const edits: TextEdit[] = [];
+    const lastRemaining = elements.indexOf(remaining[remaining.length - 1]);
+    elements.forEach((element, index) => {
+      if (!removed.has(element)) {
+        return;
+      }
+
+      // Elements are removed with the comma which separates them from the remaining elements.
+      edits.push(
+        index < lastRemaining
+          ? { start: element.getStart(), end: elements[index + 1].getStart(), text: '' }
+          : { start: elements[index - 1].getEnd(), end: element.getEnd(), text: '' },
+      );
+    });
+
+    if (added.length) {
+      edits.push(
+        elements.hasTrailingComma
+          ? {
+              start: elements.end,
+              end: elements.end,
+              text: added.map((text) => `${separator}${text},`).join(''),
+            }
+          : {
+              start: last.getEnd(),
+              end: last.getEnd(),
+              text: added.map((text) => `,${separator}${text}`).join(''),
+            },
+      );
+    }
+
+    return edits;
+  }
+
+  private getNewImportEdits(): TextEdit[] {
+    if (!this.newImports.size) {
+      return [];
+    }
+
+    const statements = [...this.newImports].map(
+      ([moduleSpecifier, symbols]) =>
+        `import { ${symbols.join(', ')} } from ${this.createStringLiteral(moduleSpecifier)}` +
+        this.semicolon,
+    );
+
+    const lastImport = this.sourceFile.statements
+      .filter((statement) => ts.isImportDeclaration(statement) && !this.isRemovedImport(statement))
+      .pop();
+    if (lastImport) {
+      const position = lastImport.getEnd();
+
+      return [{ start: position, end: position, text: statements.map((s) => '\n' + s).join('') }];
+    }
+
+    // Without imports, the imports are added before the first statement, after its comments.
+    const firstStatement = this.sourceFile.statements[0];
+    const position = firstStatement?.getStart() ?? this.sourceFile.getEnd();
+
+    return [
+      {
+        start: position,
+        end: position,
+        text: statements.join('\n') + (firstStatement ? '\n\n' : '\n'),
+      },
+    ];
+  }
+
+  /** Checks whether an import declaration is removed because it no longer imports anything. */
+  private isRemovedImport(declaration: ts.ImportDeclaration): boolean {
+    const importClause = declaration.importClause;
+    const namedBindings = importClause?.namedBindings;
+    const change = namedBindings && this.listChanges.get(namedBindings);
+
+    return (
+      !!change &&
+      !importClause.name &&
+      !change.added.length &&
+      change.elements.every((element) => change.removed.has(element))
+    );
+  }
+
+  /** Gets the indentation of the line on which a node starts. */
+  private getIndentation(node: ts.Node): string {
+    const { text } = this.sourceFile;
+    const lineStart = text.lastIndexOf('\n', node.getStart()) + 1;
+
+    return text.slice(lineStart).match(/^[ \t]*/)?.[0] ?? '';
+  }
+}
+
+function findProperty(
+  objectLiteral: ts.ObjectLiteralExpression,
+  name: string,
+): ts.ObjectLiteralElementLike | undefined {
+  return objectLiteral.properties.find(
+    (property) =>
+      property.name &&
+      (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) &&
+      property.name.text === name,
+  );
+}
+
+/** Checks whether an identifier is the name of a property or a member rather than a reference. */
+function isPropertyName(node: ts.Identifier): boolean {
+  const { parent } = node;
+
+  if (ts.isPropertyAccessExpression(parent) || ts.isQualifiedName(parent)) {
+    return node !== parent.getChildAt(0);
+  }
+
+  if (ts.isBindingElement(parent)) {
+    return parent.propertyName === node;
+  }
+
+  // The imported name of an import specifier and the exported name of an export specifier refer
+  // to the other module. Re-exports from other modules do not refer to local symbols at all.
+  if (ts.isImportSpecifier(parent)) {
+    return parent.propertyName === node;
+  }
+
+  if (ts.isExportSpecifier(parent)) {
+    return (
+      !!parent.parent.parent.moduleSpecifier || (!!parent.propertyName && parent.name === node)
+    );
+  }
+
+  return (
+    (ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isGetAccessorDeclaration(parent) ||
+      ts.isSetAccessorDeclaration(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isMethodSignature(parent) ||
+      ts.isEnumMember(parent)) &&
+    parent.name === node
+  );
+}
+
+/** Checks whether the elements of a list are on separate lines. */
+function isMultiline(elements: ts.NodeArray<ts.Node>, container: ts.Node): boolean {
+  const sourceFile = container.getSourceFile();
+  const last = elements[elements.length - 1];
+  const previousEnd =
+    elements.length > 1 ? elements[elements.length - 2].getEnd() : container.getStart();
+
+  return (
+    sourceFile.getLineAndCharacterOfPosition(previousEnd).line !==
+    sourceFile.getLineAndCharacterOfPosition(last.getStart()).line
+  );
+}
@@ -0,0 +1,279 @@
+/**
+ * @license
+ * Copyright Google LLC All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { HostTree } from '@angular-devkit/schematics';
+import ts from '../third_party/github.com/Microsoft/TypeScript/lib/typescript';
+import { TypeScriptFile } from './typescript-file';
+
+describe('TypeScriptFile', () => {
+  const filePath = '/src/app/app.module.ts';
+  let tree: HostTree;
+
+  function createFile(content: string): TypeScriptFile {
+    tree.create(filePath, content);
+
+    return new TypeScriptFile(tree, filePath);
+  }
+
+  beforeEach(() => {
+    tree = new HostTree();
+  });
+
+  describe('addNamedImport', () => {
+    it('should add a symbol to an existing import of the module', () => {
+      const file = createFile(`import { NgModule } from '@angular/core';\n`);
+
+      expect(file.addNamedImport('Injectable', '@angular/core')).toBe('Injectable');
+      file.commit();
+
+      expect(tree.readText(filePath)).toBe(
+        `import { NgModule, Injectable } from '@angular/core';\n`,
+      );
+    });
+
+    it('should follow the formatting of multi-line imports', () => {
+      const file = createFile(
+        `import {\n    NgModule,\n    Injectable,\n} from '@angular/core';\n`,
+      );
+
+      file.addNamedImport('inject', '@angular/core');
+      file.commit();
+
+      expect(tree.readText(filePath)).toBe(
+        `import {\n    NgModule,\n    Injectable,\n    inject,\n} from '@angular/core';\n`,
+      );
+    });
+
+    it('should add new imports of a module after the last import in the quote style of the file', () => {
+      const file = createFile(
+        `import { NgModule } from "@angular/core"\n\n@NgModule({})\nexport class AppModule {}\n`,
+      );
+
+      file.addNamedImport('RouterModule', '@angular/router');
+      file.addNamedImport('provideRouter', '@angular/router');
+      file.commit();
+
+      expect(tree.readText(filePath)).toBe(
+        `import { NgModule } from "@angular/core"\n` +
+          `import { RouterModule, provideRouter } from "@angular/router"\n\n` +
+          `@NgModule({})\nexport class AppModule {}\n`,
+      );
+    });
+
+    it('should add imports before the first statement of a file without imports', () => {
+      const file = createFile(`// Comment\nexport const a = 1;\n`);
+
+      file.addNamedImport('NgModule', '@angular/core');
+      file.commit();
+
+      expect(tree.readText(filePath)).toBe(
+        `// Comment\nimport { NgModule } from '@angular/core';\n\nexport const a = 1;\n`,
+      );
+    });
+
+    it('should return the local name of a symbol which is already imported', () => {
+      const file = createFile(
+        `import { NgModule as Module } from '@angular/core';\nimport * as router from '@angular/router';\n`,
+      );
+
+      expect(file.addNamedImport('NgModule', '@angular/core')).toBe('Module');
+      expect(file.addNamedImport('RouterModule', '@angular/router')).toBe('router.RouterModule');
+      file.commit();
+
+      expect(tree.readText(filePath)).toBe(
+        `import { NgModule as Module } from '@angular/core';\nimport * as router from '@angular/router';\n`,
+      );
+    });
+  });
+
+  describe('addDecoratorProperty', () => {
+    it('should add a property to multi-line metadata', () => {
+      const file = createFile(
+        `@Component({\n  selector: 'app-root',\n  template: '',\n})\nexport class AppComponent {}\n`,
+      );
+
+      file.addDecoratorProperty('AppComponent', 'Component', 'standalone', 'true');
+      file.commit();
+
+      expect(tree.readText(filePath)).toBe(
+        `@Component({\n  selector: 'app-root',\n  template: '',\n  standalone: true,\n})\n` +
+          `export class AppComponent {}\n`,
+      );
+    });
+
+    it('should add a property to single-line and empty metadata', () => {
+      const file = createFile(
+        `@Pipe({ name: 'a' })\nexport class APipe {}\n` +
+          `@NgModule({})\nexport class AModule {}\n` +
+          `@Injectable()\nexport class AService {}\n`,
+      );
+
+      file.addDecoratorProperty('APipe', 'Pipe', 'pure', 'false');
+      file.addDecoratorProperty('AModule', 'NgModule', 'imports', '[]');
+      file.addDecoratorProperty('AService', 'Injectable', 'providedIn', `'root'`);
+      file.commit();
+
+      expect(tree.readText(filePath)).toBe(
+        `@Pipe({ name: 'a', pure: false })\nexport class APipe {}\n` +
+          `@NgModule({ imports: [] })\nexport class AModule {}\n` +
+          `@Injectable({ providedIn: 'root' })\nexport class AService {}\n`,
+      );
+    });
+
+    it('should throw if the property already exists', () => {
+      const file = createFile(`@NgModule({ imports: [] })\nexport class AModule {}\n`);
+
+      expect(() => file.addDecoratorProperty('AModule', 'NgModule', 'imports', '[]')).toThrowError(
+        /already has a "imports" property/,
+      );
+    });
+  });
+
+  describe('addArrayElement', () => {
+    it('should add elements to arrays with their indentation', () => {
+      const file = createFile(
+        `@NgModule({\n` +
+          `  imports: [\n    BrowserModule,\n    FormsModule\n  ],\n` +
+          `  declarations: [AppComponent],\n` +
+          `  providers: [],\n` +
+          `})\nexport class AppModule {}\n`,
+      );
+
+      const getArray = (name: string) =>
+        file.getDecoratorProperty('AppModule', 'NgModule', name) as ts.ArrayLiteralExpression;
+      file.addArrayElement(getArray('imports'), 'RouterModule');
+      file.addArrayElement(getArray('declarations'), 'OtherComponent');
+      file.addArrayElement(getArray('declarations'), 'AppComponent');
+      file.addArrayElement(getArray('providers'), 'AService');
+      file.commit();
+
+      expect(tree.readText(filePath)).toBe(
+        `@NgModule({\n` +
+          `  imports: [\n    BrowserModule,\n    FormsModule,\n    RouterModule\n  ],\n` +
+          `  declarations: [AppComponent, OtherComponent],\n` +
+          `  providers: [AService],\n` +
+          `})\nexport class AppModule {}\n`,
+      );
+    });
+  });
+
+  describe('renameSymbol', () => {
+    it('should rename the references of a symbol but not properties', () => {
+      const file = createFile(
+        `import { Foo } from './foo';\n` +
+          `const value = new Foo();\n` +
+          `const object = { Foo, key: Foo, Foo: 1 };\n` +
+          `value.Foo(object.Foo);\n`,
+      );
+
+      file.renameSymbol('Foo', 'Bar');
+      file.commit();
+
+      expect(tree.readText(filePath)).toBe(
+        `import { Foo as Bar } from './foo';\n` +
+          `const value = new Bar();\n` +
+          `const object = { Foo: Bar, key: Bar, Foo: 1 };\n` +
+          `value.Foo(object.Foo);\n`,
+      );
+    });
+
+    it('should keep the names of other modules in import and export specifiers', () => {
+      const file = createFile(
+        `import { Foo as Baz, Baz as Foo } from './foo';\n` +
+          `export { Foo, Foo as Qux };\n` +
+          `export { Foo as Quux } from './foo';\n`,
+      );
+
+      file.renameSymbol('Foo', 'Bar');
+      file.commit();
+
+      expect(tree.readText(filePath)).toBe(
+        `import { Foo as Baz, Baz as Bar } from './foo';\n` +
+          `export { Bar as Foo, Bar as Qux };\n` +
+          `export { Foo as Quux } from './foo';\n`,
+      );
+    });
+  });
+
+  describe('removeImportIfUnused', () => {
+    it('should not remove imports which are still referenced', () => {
+      const file = createFile(`import { Foo } from './foo';\n\nexport const foo = Foo;\n`);
+
+      expect(file.removeImportIfUnused('Foo', './foo')).toBeFalse();
+      file.commit();
+
+      expect(tree.readText(filePath)).toBe(
+        `import { Foo } from './foo';\n\nexport const foo = Foo;\n`,
+      );
+    });
+
+    it('should remove imports whose references are removed by pending edits', () => {
+      const file = createFile(
+        `import { A, B, C } from './a';\nimport { D } from './d';\n\n` +
+          `@NgModule({ imports: [A, B, D] })\nexport class AppModule {}\n`,
+      );
+
+      const imports = file.getDecoratorProperty(
+        'AppModule',
+        'NgModule',
+        'imports',
+      ) as ts.ArrayLiteralExpression;
+      file.removeArrayElement(imports.elements[0]);
+      file.removeArrayElement(imports.elements[2]);
+
+      expect(file.removeImportIfUnused('A', './a')).toBeTrue();
+      expect(file.removeImportIfUnused('B', './a')).toBeFalse();
+      expect(file.removeImportIfUnused('C', './a')).toBeTrue();
+      expect(file.removeImportIfUnused('D', './d')).toBeTrue();
+      file.commit();
+
+      expect(tree.readText(filePath)).toBe(
+        `import { B } from './a';\n\n@NgModule({ imports: [B] })\nexport class AppModule {}\n`,
+      );
+    });
+
+    it('should take references added by pending edits into account', () => {
+      const file = createFile(`import { Foo } from './foo';\n\nexport const foo = [];\n`);
+
+      const statement = file.sourceFile.statements[1] as ts.VariableStatement;
+      const array = statement.declarationList.declarations[0]
+        .initializer as ts.ArrayLiteralExpression;
+      file.addArrayElement(array, 'Foo');
+
+      expect(file.removeImportIfUnused('Foo', './foo')).toBeFalse();
+    });
+  });
+
+  it('should apply all edits in a single update', () => {
+    const file = createFile(
+      `import { NgModule } from '@angular/core';\nimport { OldModule } from './old';\n\n` +
+        `@NgModule({\n  imports: [OldModule],\n})\nexport class AppModule {}\n`,
+    );
+
+    const imports = file.getDecoratorProperty(
+      'AppModule',
+      'NgModule',
+      'imports',
+    ) as ts.ArrayLiteralExpression;
+    file.removeArrayElement(imports.elements[0]);
+    file.addArrayElement(imports, file.addNamedImport('NewModule', './new'));
+    file.removeImportIfUnused('OldModule', './old');
+    file.addDecoratorProperty('AppModule', 'NgModule', 'bootstrap', '[AppComponent]');
+    file.addNamedImport('AppComponent', './app.component');
+    file.commit();
+
+    expect(tree.actions.length).toBe(1);
+    expect(tree.readText(filePath)).toBe(
+      `import { NgModule } from '@angular/core';\n` +
+        `import { NewModule } from './new';\n` +
+        `import { AppComponent } from './app.component';\n\n` +
+        `@NgModule({\n  imports: [NewModule],\n  bootstrap: [AppComponent],\n})\n` +
+        `export class AppModule {}\n`,
+    );
+  });
+});
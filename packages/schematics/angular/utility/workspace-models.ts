@@ -29,6 +29,8 @@ export enum Builders {
   DevServer = '@angular-devkit/build-angular:dev-server',
   ExtractI18n = '@angular-devkit/build-angular:extract-i18n',
   Protractor = '@angular-devkit/build-angular:protractor',
+  Prerender = '@angular-devkit/build-angular:prerender',
+  SsrDevServer = '@angular-devkit/build-angular:ssr-dev-server',
 }
 
 export interface FileReplacements {
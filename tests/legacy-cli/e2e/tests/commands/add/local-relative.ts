@@ -0,0 +1,25 @@
+import { copyAssets, copyProjectAsset } from '../../../utils/assets';
+import { expectFileToExist, expectFileToMatch, rimraf } from '../../../utils/fs';
+import { ng } from '../../../utils/process';
+
+export default async function () {
+  await copyProjectAsset('add-collection.tgz', 'vendor/add-collection.tgz');
+  await copyAssets('add-collection', 'vendor/add-collection');
+
+  // Relative paths are resolved from the current directory and saved relative to the workspace root.
+  process.chdir('src');
+  try {
+    await ng('add', '../vendor/add-collection.tgz', '--name=from-tarball', '--skip-confirmation');
+    await expectFileToExist('../from-tarball');
+    await expectFileToMatch('../package.json', '"empty-app": "file:vendor/add-collection.tgz"');
+
+    await ng('add', '../vendor/add-collection', '--name=from-directory', '--skip-confirmation');
+    await expectFileToExist('../from-directory');
+    await expectFileToMatch('../package.json', '"empty-app": "file:vendor/add-collection"');
+  } finally {
+    process.chdir('..');
+  }
+
+  // Cleanup the package
+  await rimraf('node_modules/empty-app');
+}
@@ -0,0 +1,37 @@
+import { appendToFile, expectFileNotToExist, expectFileToExist, rimraf } from '../../utils/fs';
+import { gitCommit } from '../../utils/git';
+import { ng } from '../../utils/process';
+import { updateJsonFile } from '../../utils/project';
+
+export default async function () {
+  // Delete root project
+  await updateJsonFile('angular.json', (workspaceJson) => {
+    delete workspaceJson.projects['test-project'];
+  });
+
+  await ng('generate', 'app', 'second-app', '--skip-install');
+  await ng('generate', 'app', 'third-app', '--skip-install');
+  await gitCommit('add applications');
+  await rimraf('dist');
+
+  const noChanges = await ng('build', '--affected', '--configuration=development');
+  if (!(noChanges.stdout + noChanges.stderr).includes('No projects with a "build" target')) {
+    throw new Error(`Expected no projects to be affected. OUTPUT:\n${noChanges.stdout}`);
+  }
+
+  // Options of the build target are available although the project is not known in advance.
+  await appendToFile('projects/second-app/src/main.ts', '\nconsole.log("changed");\n');
+  const { stdout, stderr } = await ng(
+    'build',
+    '--affected',
+    '--configuration=development',
+    '--no-progress',
+  );
+  const output = stdout + stderr;
+  if (!output.includes('- second-app') || output.includes('- third-app')) {
+    throw new Error(`Expected only "second-app" to be affected. OUTPUT:\n${output}`);
+  }
+
+  await expectFileToExist('dist/second-app');
+  await expectFileNotToExist('dist/third-app');
+}
@@ -0,0 +1,76 @@
+import {
+  expectFileNotToExist,
+  expectFileToExist,
+  readFile,
+  rimraf,
+  writeMultipleFiles,
+} from '../../utils/fs';
+import { ng } from '../../utils/process';
+import { expectToFail } from '../../utils/utils';
+
+export default async function () {
+  try {
+    // A package with a migration that fails until the `continue.txt` file exists.
+    // Packages which are installed transitively can also be migrated.
+    await writeMultipleFiles({
+      'node_modules/e2e-update-migrations/package.json': JSON.stringify({
+        name: 'e2e-update-migrations',
+        version: '1.1.0',
+        'ng-update': { migrations: './migrations.json' },
+      }),
+      'node_modules/e2e-update-migrations/migrations.json': JSON.stringify({
+        schematics: {
+          'create-file': {
+            version: '1.0.0',
+            description: 'Creates a file.',
+            factory: './migrations.js#createFile',
+          },
+          'fail-once': {
+            version: '1.1.0',
+            description: 'Fails until the failure is resolved.',
+            factory: './migrations.js#failOnce',
+          },
+        },
+      }),
+      'node_modules/e2e-update-migrations/migrations.js': `
+        // Creating a file which already exists fails, which ensures that migrations run only once.
+        exports.createFile = () => (tree) => tree.create('migration-1.txt', 'applied');
+        exports.failOnce = () => (tree) => {
+          if (!tree.exists('continue.txt')) {
+            throw new Error('Migration failure to resolve.');
+          }
+
+          tree.create('migration-2.txt', 'applied');
+        };
+      `,
+    });
+
+    await expectToFail(() =>
+      ng('update', 'e2e-update-migrations', '--migrate-only', '--from=0.0.0'),
+    );
+
+    // The progress of the update is recorded to resume it.
+    await expectFileToExist('migration-1.txt');
+    await expectFileNotToExist('migration-2.txt');
+    await expectFileToExist('.angular/ng-update-journal.json');
+
+    await writeMultipleFiles({ 'continue.txt': '' });
+    const { stdout } = await ng('update', '--continue');
+    if (
+      !stdout.includes('Continuing the migrations of e2e-update-migrations (1 already completed)')
+    ) {
+      throw new Error(`Expected the completed migration to be skipped. OUTPUT:\n${stdout}`);
+    }
+
+    if ((await readFile('migration-2.txt')) !== 'applied') {
+      throw new Error('Expected the failed migration to be applied.');
+    }
+    await expectFileNotToExist('.angular/ng-update-journal.json');
+
+    // No update is in progress anymore.
+    await expectToFail(() => ng('update', '--continue'));
+  } finally {
+    // The package is ignored by Git and would otherwise be left in the project.
+    await rimraf('node_modules/e2e-update-migrations');
+  }
+}
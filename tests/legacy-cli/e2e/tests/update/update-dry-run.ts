@@ -0,0 +1,48 @@
+import { expectGitToBeClean } from '../../utils/git';
+import { ng } from '../../utils/process';
+import { isPrereleaseCli } from '../../utils/project';
+
+export default async function () {
+  const extraArgs = isPrereleaseCli() ? ['--next', '--force'] : [];
+
+  // The update plan is written to stdout while the logs are written to stderr.
+  const { stdout } = await ng('update', '@angular/cli', '--dry-run', '--json', ...extraArgs);
+  const plan = parseUpdatePlan(stdout);
+  if (!plan.success || !Array.isArray(plan.packages) || !Array.isArray(plan.migrations)) {
+    throw new Error(`Expected a successful update plan. OUTPUT:\n${stdout}`);
+  }
+
+  // Migrations are executed but their changes are not written.
+  const { stdout: migrationsStdout } = await ng(
+    'update',
+    '@angular/cli',
+    '--migrate-only',
+    '--from=16.0.0',
+    '--dry-run',
+    '--json',
+  );
+  const migrationsPlan = parseUpdatePlan(migrationsStdout);
+  if (
+    !migrationsPlan.success ||
+    !migrationsPlan.migrations.some((migration) => migration.package === '@angular/cli')
+  ) {
+    throw new Error(
+      `Expected the update plan to contain the migrations of '@angular/cli'. OUTPUT:\n` +
+        migrationsStdout,
+    );
+  }
+
+  await expectGitToBeClean();
+}
+
+function parseUpdatePlan(stdout: string): {
+  success: boolean;
+  packages: unknown[];
+  migrations: { package: string }[];
+} {
+  try {
+    return JSON.parse(stdout);
+  } catch {
+    throw new Error(`Expected the output of a dry run to be valid JSON. OUTPUT:\n${stdout}`);
+  }
+}